@@ -12,6 +12,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { useToast } from '@/lib/hooks/use-toast'
+import { getLoginPath } from '@/lib/utils'
 
 interface User {
   id: string
@@ -48,11 +49,11 @@ const NewCategoryPage = () => {
         }
         setUser(data.user)
       } else {
-        router.push('/auth/login')
+        router.push(getLoginPath())
       }
     } catch (error) {
       console.error('Error checking auth:', error)
-      router.push('/auth/login')
+      router.push(getLoginPath())
     } finally {
       setLoading(false)
     }
@@ -3,12 +3,25 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
-import { Plus, Package, Building, Users, Calendar, TrendingUp, Eye, Edit, Trash2 } from 'lucide-react'
+import { Plus, Package, Building, Users, Calendar, TrendingUp, Eye, Edit, Trash2, History, FileText, CalendarPlus, Wrench, AlertTriangle, ClipboardCheck, Wallet } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useToast } from '@/lib/hooks/use-toast'
+import { BOOKING_STATUS_TRANSITIONS, BookingStatus, Currency } from '@/lib/constants'
+import type { AdminStats, BookingBalance, BookingDeposit, BookingStatusChange, BundleDiscountTier, DamageClaim, MaintenanceStatus, RentalContractWithDetails, ReturnInspection } from '@/lib/types'
+import { formatPrice, getBookingTitle, getLoginPath } from '@/lib/utils'
 import Link from 'next/link'
+import BundleDiscountEditor from '@/components/admin/BundleDiscountEditor'
+import DepositEditor from '@/components/admin/DepositEditor'
+import DispatchBoard from '@/components/admin/DispatchBoard'
+import ExchangeRateEditor from '@/components/admin/ExchangeRateEditor'
+import FeeRulesManager from '@/components/admin/FeeRulesManager'
+import InspectionPanel from '@/components/admin/InspectionPanel'
+import LedgerPanel from '@/components/admin/LedgerPanel'
+import MaintenancePanel from '@/components/admin/MaintenancePanel'
+import PricingRulesManager from '@/components/admin/PricingRulesManager'
+import { ContractCard } from '@/components/shared/ContractCard'
 
 interface User {
   id: string
@@ -17,21 +30,14 @@ interface User {
   role: string
 }
 
-interface DashboardStats {
-  totalUsers: number
-  totalEquipment: number
-  totalBrokerage: number
-  totalBookings: number
-  pendingBookings: number
-  totalRevenue: number
-}
-
 interface Equipment {
   id: string
   title: string
   description: string
   price: number
   priceType: string
+  currency?: Currency
+  depositAmount?: number
   available: boolean
   category: { name: string }
   _count: { bookings: number }
@@ -43,6 +49,7 @@ interface Brokerage {
   description: string
   price: number
   priceType: string
+  currency?: Currency
   available: boolean
   category: { name: string }
   _count: { bookings: number }
@@ -53,29 +60,47 @@ interface Category {
   name: string
   description: string
   type: string
+  bundleDiscounts?: BundleDiscountTier[]
   _count: { equipment: number; brokerage: number }
 }
 
 interface Booking {
   id: string
   type: string
-  status: string
+  status: BookingStatus
   totalPrice: number
   startDate: string
   endDate: string
+  statusHistory?: BookingStatusChange[]
+  balance?: BookingBalance
+  deposit?: BookingDeposit
+  inspection?: ReturnInspection
+  damageClaims?: DamageClaim[]
   user: { name: string; email: string }
   equipment?: { title: string }
   brokerage?: { title: string }
   service?: { title: string }
+  items?: { equipment?: { title: string } }[]
+}
+
+const STATUS_ACTION_LABELS: Partial<Record<BookingStatus, string>> = {
+  CONFIRMED: 'Confirm',
+  COMPLETED: 'Mark Completed',
 }
 
 export default function AdminDashboard() {
   const [user, setUser] = useState<User | null>(null)
-  const [stats, setStats] = useState<DashboardStats | null>(null)
+  const [stats, setStats] = useState<AdminStats | null>(null)
   const [equipment, setEquipment] = useState<Equipment[]>([])
   const [brokerage, setBrokerage] = useState<Brokerage[]>([])
   const [categories, setCategories] = useState<Category[]>([])
   const [bookings, setBookings] = useState<Booking[]>([])
+  const [contracts, setContracts] = useState<RentalContractWithDetails[]>([])
+  const [overdueMaintenance, setOverdueMaintenance] = useState<MaintenanceStatus[]>([])
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null)
+  const [expandedMaintenance, setExpandedMaintenance] = useState<string | null>(null)
+  const [expandedInspection, setExpandedInspection] = useState<string | null>(null)
+  const [expandedLedger, setExpandedLedger] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
   const { toast } = useToast()
@@ -106,7 +131,7 @@ export default function AdminDashboard() {
           description: 'Please log in to access the admin dashboard', 
           variant: 'destructive' 
         })
-        router.push('/auth/login')
+        router.push(getLoginPath())
       }
     } catch (error) {
       toast({ 
@@ -114,7 +139,7 @@ export default function AdminDashboard() {
         description: 'Failed to verify authentication status', 
         variant: 'destructive' 
       })
-      router.push('/auth/login')
+      router.push(getLoginPath())
     } finally {
       setIsLoading(false)
     }
@@ -137,17 +162,19 @@ export default function AdminDashboard() {
 
   const loadDashboardData = async () => {
     try {
-      const [statsRes, equipmentRes, brokerageRes, categoriesRes, bookingsRes] = await Promise.all([
+      const [statsRes, equipmentRes, brokerageRes, categoriesRes, bookingsRes, contractsRes, maintenanceRes] = await Promise.all([
         fetch('/api/admin/stats'),
         fetch('/api/admin/equipment'),
         fetch('/api/admin/brokerage'),
         fetch('/api/admin/categories'),
-        fetch('/api/admin/bookings')
+        fetch('/api/admin/bookings'),
+        fetch('/api/admin/contracts'),
+        fetch('/api/admin/maintenance?overdue=true')
       ])
 
       if (statsRes.ok) {
         const statsData = await statsRes.json()
-        setStats(statsData)
+        setStats(statsData.data || null)
       }
 
       if (equipmentRes.ok) {
@@ -167,13 +194,48 @@ export default function AdminDashboard() {
 
       if (bookingsRes.ok) {
         const bookingsData = await bookingsRes.json()
-        setBookings(bookingsData.bookings || [])
+        setBookings(Array.isArray(bookingsData.data) ? bookingsData.data : [])
+      }
+
+      if (contractsRes.ok) {
+        const contractsData = await contractsRes.json()
+        setContracts(Array.isArray(contractsData.data) ? contractsData.data : [])
+      }
+
+      if (maintenanceRes.ok) {
+        const maintenanceData = await maintenanceRes.json()
+        setOverdueMaintenance(Array.isArray(maintenanceData.data) ? maintenanceData.data : [])
       }
     } catch (error) {
       toast({ title: 'Error', description: 'Failed to load dashboard data', variant: 'destructive' })
     }
   }
 
+  // Making an item available again offers its dates to the waitlist
+  const toggleAvailability = async (kind: 'equipment' | 'brokerage', id: string, available: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/${kind}/${id}/availability`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ available })
+      })
+
+      if (response.ok) {
+        if (kind === 'equipment') {
+          setEquipment(equipment.map(item => item.id === id ? { ...item, available } : item))
+        } else {
+          setBrokerage(brokerage.map(item => item.id === id ? { ...item, available } : item))
+        }
+        toast({ title: 'Success', description: `Marked as ${available ? 'available' : 'unavailable'}` })
+      } else {
+        const errorData = await response.json()
+        toast({ title: 'Error', description: errorData.error || 'Failed to update availability', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update availability', variant: 'destructive' })
+    }
+  }
+
   const handleDeleteEquipment = async (id: string) => {
     if (!confirm('Are you sure you want to delete this equipment?')) return
 
@@ -216,17 +278,18 @@ export default function AdminDashboard() {
     }
   }
 
-  const updateBookingStatus = async (id: string, status: string) => {
+  const updateBookingStatus = async (id: string, status: BookingStatus, reason?: string, waiveFee?: boolean) => {
     try {
       const response = await fetch('/api/admin/bookings', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ bookingId: id, status })
+        body: JSON.stringify({ bookingId: id, status, reason, waiveFee })
       })
 
       if (response.ok) {
+        const result = await response.json()
         setBookings(bookings.map(booking => 
-          booking.id === id ? { ...booking, status } : booking
+          booking.id === id ? { ...booking, ...result.data } : booking
         ))
         toast({ title: 'Success', description: 'Booking status updated' })
       } else {
@@ -238,26 +301,28 @@ export default function AdminDashboard() {
     }
   }
 
-  const deleteBooking = async (id: string) => {
+  const copyCalendarFeed = async () => {
     try {
-      const response = await fetch('/api/admin/bookings', {
-        method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ bookingId: id })
-      })
+      const response = await fetch('/api/calendar/subscription')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
 
-      if (response.ok) {
-        setBookings(bookings.filter(booking => booking.id !== id))
-        toast({ title: 'Success', description: 'Booking deleted successfully' })
-      } else {
-        const errorData = await response.json()
-        toast({ title: 'Error', description: errorData.error || 'Failed to delete booking', variant: 'destructive' })
-      }
+      await navigator.clipboard.writeText(result.data.url)
+      toast({ title: 'Calendar feed copied', description: 'Confirmed bookings for all customers' })
     } catch (error) {
-      toast({ title: 'Error', description: 'Failed to delete booking', variant: 'destructive' })
+      toast({ title: 'Error', description: 'Failed to get calendar feed link', variant: 'destructive' })
     }
   }
 
+  const cancelBooking = async (booking: Booking) => {
+    const reason = prompt(booking.status === 'PENDING' ? 'Reason for rejecting this booking:' : 'Reason for cancelling this booking:')
+    if (reason === null) return
+    // The category's cancellation fee applies unless the admin waives it
+    const waiveFee = confirm('Waive the cancellation fee and credit the customer in full?')
+
+    await updateBookingStatus(booking.id, 'CANCELLED', reason.trim() || undefined, waiveFee)
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -354,7 +419,10 @@ export default function AdminDashboard() {
                 <TrendingUp className="h-4 w-4 text-primary" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">${stats.totalRevenue.toLocaleString()}</div>
+                <div className="text-2xl font-bold">{formatPrice(stats.revenue.gross)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {formatPrice(stats.revenue.net)} net of {formatPrice(stats.revenue.taxes)} tax and {formatPrice(stats.revenue.fees)} fees
+                </p>
               </CardContent>
             </Card>
           </motion.div>
@@ -367,11 +435,14 @@ export default function AdminDashboard() {
           transition={{ delay: 0.2 }}
         >
           <Tabs defaultValue="equipment" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="equipment">Equipment</TabsTrigger>
               <TabsTrigger value="brokerage">Brokerage</TabsTrigger>
               <TabsTrigger value="categories">Categories</TabsTrigger>
+              <TabsTrigger value="pricing">Pricing</TabsTrigger>
               <TabsTrigger value="bookings">Bookings</TabsTrigger>
+              <TabsTrigger value="contracts">Contracts</TabsTrigger>
+              <TabsTrigger value="dispatch">Dispatch</TabsTrigger>
             </TabsList>
 
             {/* Equipment Tab */}
@@ -386,6 +457,30 @@ export default function AdminDashboard() {
                 </Button>
               </div>
 
+              {overdueMaintenance.length > 0 && (
+                <Card className="border-yellow-500/40">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <AlertTriangle className="w-5 h-5 text-yellow-400" />
+                      Overdue for Service
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {overdueMaintenance.map(status => (
+                      <div key={status.equipmentId} className="flex justify-between items-center text-sm">
+                        <span className="font-medium">{status.title}</span>
+                        <span className="text-muted-foreground">
+                          Last serviced {status.lastServiceDate ? new Date(status.lastServiceDate).toLocaleDateString() : 'never'}
+                          {status.nextDueDate && ` · due ${new Date(status.nextDueDate).toLocaleDateString()}`}
+                          {status.nextDueHours && ` · ${status.hoursUsed}/${status.nextDueHours}h rented`}
+                          {status.upcoming && ` · booked in for ${new Date(status.upcoming.startDate).toLocaleDateString()}`}
+                        </span>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {Array.isArray(equipment) && equipment.length > 0 ? equipment.map((item) => (
                   <Card key={item.id}>
@@ -399,17 +494,29 @@ export default function AdminDashboard() {
                       </p>
                       <div className="flex justify-between items-center mb-4">
                         <span className="text-lg font-bold">
-                          ${item.price}/{item.priceType.toLowerCase()}
+                          {formatPrice(item.price, { currency: item.currency, priceType: item.priceType })}
                         </span>
-                        <span className={`px-2 py-1 rounded-full text-xs ${
-                          item.available ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
-                        }`}>
+                        <button
+                          type="button"
+                          title={item.available ? 'Mark unavailable' : 'Mark available'}
+                          onClick={() => toggleAvailability('equipment', item.id, !item.available)}
+                          className={`px-2 py-1 rounded-full text-xs ${
+                            item.available ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
+                          }`}
+                        >
                           {item.available ? 'Available' : 'Unavailable'}
-                        </span>
+                        </button>
                       </div>
                       <div className="text-sm text-muted-foreground mb-4">
                         {item._count?.bookings || 0} bookings
                       </div>
+                      <DepositEditor
+                        equipmentId={item.id}
+                        depositAmount={item.depositAmount}
+                        onSaved={(depositAmount) => setEquipment(equipment.map(other =>
+                          other.id === item.id ? { ...other, depositAmount } : other
+                        ))}
+                      />
                       <div className="flex space-x-2">
                         <Button variant="outline" size="sm" asChild>
                           <Link href={`/admin/equipment/${item.id}`}>
@@ -428,7 +535,18 @@ export default function AdminDashboard() {
                         >
                           <Trash2 className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Maintenance"
+                          onClick={() => setExpandedMaintenance(expandedMaintenance === item.id ? null : item.id)}
+                        >
+                          <Wrench className="w-4 h-4" />
+                        </Button>
                       </div>
+                      {expandedMaintenance === item.id && (
+                        <MaintenancePanel equipmentId={item.id} onChanged={loadDashboardData} />
+                      )}
                     </CardContent>
                   </Card>
                 )) : (
@@ -466,13 +584,18 @@ export default function AdminDashboard() {
                       </p>
                       <div className="flex justify-between items-center mb-4">
                         <span className="text-lg font-bold">
-                          ${item.price.toLocaleString()}
+                          {formatPrice(item.price, { currency: item.currency })}
                         </span>
-                        <span className={`px-2 py-1 rounded-full text-xs ${
-                          item.available ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
-                        }`}>
+                        <button
+                          type="button"
+                          title={item.available ? 'Mark unavailable' : 'Mark available'}
+                          onClick={() => toggleAvailability('brokerage', item.id, !item.available)}
+                          className={`px-2 py-1 rounded-full text-xs ${
+                            item.available ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
+                          }`}
+                        >
                           {item.available ? 'Available' : 'Unavailable'}
-                        </span>
+                        </button>
                       </div>
                       <div className="text-sm text-muted-foreground mb-4">
                         {item._count?.bookings || 0} bookings
@@ -537,6 +660,15 @@ export default function AdminDashboard() {
                           : `${category._count?.brokerage || 0} brokerage listings`
                         }
                       </div>
+                      {category.type === 'EQUIPMENT' && (
+                        <BundleDiscountEditor
+                          categoryId={category.id}
+                          discounts={category.bundleDiscounts}
+                          onSaved={(bundleDiscounts) => setCategories(categories.map(item =>
+                            item.id === category.id ? { ...item, bundleDiscounts } : item
+                          ))}
+                        />
+                      )}
                       <div className="flex space-x-2">
                         <Button variant="outline" size="sm" asChild>
                           <Link href={`/admin/categories/${category.id}/edit`}>
@@ -563,9 +695,29 @@ export default function AdminDashboard() {
               </div>
             </TabsContent>
 
+            {/* Pricing Tab */}
+            <TabsContent value="pricing" className="space-y-6">
+              <h2 className="text-2xl font-bold">Pricing Rules</h2>
+              <PricingRulesManager
+                categories={categories}
+                equipment={equipment.map(item => ({ id: item.id, name: item.title }))}
+                brokerage={brokerage.map(item => ({ id: item.id, name: item.title }))}
+              />
+              <h2 className="text-2xl font-bold">Taxes and Fees</h2>
+              <FeeRulesManager />
+              <h2 className="text-2xl font-bold">Exchange Rates</h2>
+              <ExchangeRateEditor />
+            </TabsContent>
+
             {/* Bookings Tab */}
             <TabsContent value="bookings" className="space-y-6">
-              <h2 className="text-2xl font-bold">Booking Management</h2>
+              <div className="flex justify-between items-center">
+                <h2 className="text-2xl font-bold">Booking Management</h2>
+                <Button variant="outline" onClick={copyCalendarFeed}>
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Calendar Feed
+                </Button>
+              </div>
               
               <div className="space-y-4">
                 {Array.isArray(bookings) && bookings.length > 0 ? bookings.map((booking) => (
@@ -574,14 +726,23 @@ export default function AdminDashboard() {
                       <div className="flex justify-between items-start">
                         <div className="space-y-2">
                           <h3 className="font-semibold">
-                            {booking.equipment?.title || booking.brokerage?.title || booking.service?.title}
+                            {booking.service?.title || getBookingTitle(booking)}
                           </h3>
                           <p className="text-sm text-muted-foreground">
                             Customer: {booking.user.name} ({booking.user.email})
                           </p>
                           <p className="text-sm text-muted-foreground">
                             Type: {booking.type} | Price: ${booking.totalPrice.toLocaleString()}
+                            {booking.deposit && ` | Deposit: $${booking.deposit.amount.toLocaleString()} (${booking.deposit.status.replace(/_/g, ' ').toLowerCase()})`}
                           </p>
+                          {booking.balance && (
+                            <p className="text-sm text-muted-foreground">
+                              Paid: ${(booking.balance.paid - booking.balance.refunded).toLocaleString()} | Due:{' '}
+                              <span className={booking.balance.balance > 0 ? 'text-yellow-400' : 'text-green-400'}>
+                                ${Math.max(0, booking.balance.balance).toLocaleString()}
+                              </span>
+                            </p>
+                          )}
                           <p className="text-sm text-muted-foreground">
                             {new Date(booking.startDate).toLocaleDateString()} - {booking.endDate ? new Date(booking.endDate).toLocaleDateString() : 'Open'}
                           </p>
@@ -590,38 +751,99 @@ export default function AdminDashboard() {
                           <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                             booking.status === 'PENDING' ? 'bg-yellow-500/10 text-yellow-400' :
                             booking.status === 'CONFIRMED' ? 'bg-green-500/10 text-green-400' :
+                            booking.status === 'CANCELLED' ? 'bg-red-500/10 text-red-400' :
                             'bg-primary/10 text-primary'
                           }`}>
                             {booking.status}
                           </span>
-                          {booking.status === 'PENDING' && (
-                            <div className="flex space-x-2">
-                              <Button 
-                                size="sm" 
-                                onClick={() => updateBookingStatus(booking.id, 'CONFIRMED')}
-                              >
-                                Confirm
-                              </Button>
-                              <Button 
-                                size="sm" 
-                                variant="destructive"
-                                onClick={() => deleteBooking(booking.id)}
-                              >
-                                Delete
+                          {BOOKING_STATUS_TRANSITIONS[booking.status]?.filter(next => STATUS_ACTION_LABELS[next]).map(next => (
+                            <Button
+                              key={next}
+                              size="sm"
+                              onClick={() => updateBookingStatus(booking.id, next)}
+                            >
+                              {STATUS_ACTION_LABELS[next]}
+                            </Button>
+                          ))}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setExpandedHistory(expandedHistory === booking.id ? null : booking.id)}
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Payment ledger"
+                            onClick={() => setExpandedLedger(expandedLedger === booking.id ? null : booking.id)}
+                          >
+                            <Wallet className="w-4 h-4" />
+                          </Button>
+                          {booking.deposit && (booking.status === 'CONFIRMED' || booking.status === 'COMPLETED') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              title="Return inspection"
+                              onClick={() => setExpandedInspection(expandedInspection === booking.id ? null : booking.id)}
+                            >
+                              <ClipboardCheck className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {booking.status !== 'CANCELLED' && (
+                            <a
+                              href={`/api/bookings/${booking.id}/invoice?format=pdf`}
+                              download
+                              title={booking.status === 'PENDING' ? 'Download quote' : 'Download invoice'}
+                            >
+                              <Button size="sm" variant="outline">
+                                <FileText className="w-4 h-4" />
                               </Button>
-                            </div>
+                            </a>
                           )}
-                          {booking.status === 'COMPLETED' && (
-                            <Button 
-                              size="sm" 
+                          {BOOKING_STATUS_TRANSITIONS[booking.status]?.includes('CANCELLED') && (
+                            <Button
+                              size="sm"
                               variant="destructive"
-                              onClick={() => deleteBooking(booking.id)}
+                              onClick={() => cancelBooking(booking)}
                             >
-                              <Trash2 className="w-4 h-4" />
+                              {booking.status === 'PENDING' ? 'Reject' : 'Cancel'}
                             </Button>
                           )}
                         </div>
                       </div>
+                      {expandedHistory === booking.id && (
+                        <div className="mt-4 border-t border-border pt-4">
+                          <h4 className="text-sm font-semibold mb-2">Status History</h4>
+                          {booking.statusHistory && booking.statusHistory.length > 0 ? (
+                            <ul className="space-y-2">
+                              {booking.statusHistory.map((change, index) => (
+                                <li key={index} className="text-sm text-muted-foreground">
+                                  <span className="font-medium text-foreground">
+                                    {change.from ? `${change.from} → ${change.to}` : `Created as ${change.to}`}
+                                  </span>
+                                  {' '}by {change.actorName} ({change.actorRole.toLowerCase()}) on {new Date(change.timestamp).toLocaleString()}
+                                  {change.reason && <span className="block pl-4 italic">“{change.reason}”</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">No status changes recorded</p>
+                          )}
+                        </div>
+                      )}
+                      {expandedInspection === booking.id && booking.deposit && (
+                        <InspectionPanel
+                          bookingId={booking.id}
+                          deposit={booking.deposit}
+                          inspection={booking.inspection}
+                          damageClaims={booking.damageClaims}
+                          onChanged={loadDashboardData}
+                        />
+                      )}
+                      {expandedLedger === booking.id && (
+                        <LedgerPanel bookingId={booking.id} onChanged={loadDashboardData} />
+                      )}
                     </CardContent>
                   </Card>
                 )) : (
@@ -633,6 +855,34 @@ export default function AdminDashboard() {
                 )}
               </div>
             </TabsContent>
+
+            {/* Contracts Tab */}
+            <TabsContent value="contracts" className="space-y-6">
+              <h2 className="text-2xl font-bold">Rental Contracts</h2>
+              {contracts.length > 0 ? contracts.map(contract => (
+                <ContractCard
+                  key={contract.id}
+                  contract={contract}
+                  isAdmin
+                  onChanged={(updated) => {
+                    setContracts(contracts.map(item => item.id === updated.id ? updated : item))
+                    loadDashboardData()
+                  }}
+                />
+              )) : (
+                <Card>
+                  <CardContent className="p-6 text-center">
+                    <p className="text-muted-foreground">No rental contracts found</p>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Dispatch Tab */}
+            <TabsContent value="dispatch" className="space-y-6">
+              <h2 className="text-2xl font-bold">Deliveries & Returns</h2>
+              <DispatchBoard />
+            </TabsContent>
           </Tabs>
         </motion.div>
       </div>
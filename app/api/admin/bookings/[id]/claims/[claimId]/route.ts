@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAdmin } from '@/lib/auth'
+import { removeDamageClaim } from '@/lib/deposits'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  context: { params: { id: string; claimId: string } }
+) => {
+  const admin = await requireAdmin(request)
+
+  const db = await getDatabase()
+  const claim = await removeDamageClaim(db, context.params.id, context.params.claimId, admin)
+
+  const booking = await db.bookings.findById(context.params.id)
+  if (booking) {
+    invalidateCache.bookings(booking.userId)
+  }
+
+  return createSuccessResponse(claim, SUCCESS_MESSAGES.DAMAGE_CLAIM_REMOVED)
+})
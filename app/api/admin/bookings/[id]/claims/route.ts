@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { damageClaimSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { addDamageClaim } from '@/lib/deposits'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type DamageClaimInput = z.infer<typeof damageClaimSchema>
+
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<DamageClaimInput>(damageClaimSchema, await request.json())
+
+  const db = await getDatabase()
+  const claim = await addDamageClaim(db, context.params.id, data, admin)
+
+  const booking = await db.bookings.findById(context.params.id)
+  if (booking) {
+    invalidateCache.bookings(booking.userId)
+  }
+
+  return createSuccessResponse(claim, SUCCESS_MESSAGES.DAMAGE_CLAIM_ADDED, 201)
+})
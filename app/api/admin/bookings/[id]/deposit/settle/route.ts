@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAdmin } from '@/lib/auth'
+import { settleDeposit } from '@/lib/deposits'
+import { hydrateBooking } from '@/lib/bookings'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+// Deducts the damage claims from the deposit and refunds the rest
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+
+  const db = await getDatabase()
+  const booking = await settleDeposit(db, context.params.id, admin)
+
+  invalidateCache.bookings(booking.userId)
+  invalidateCache.stats()
+
+  return createSuccessResponse(await hydrateBooking(db, booking), SUCCESS_MESSAGES.DEPOSIT_SETTLED)
+})
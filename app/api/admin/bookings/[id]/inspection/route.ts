@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { returnInspectionSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { recordInspection } from '@/lib/deposits'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type ReturnInspectionInput = z.infer<typeof returnInspectionSchema>
+
+export const PUT = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<ReturnInspectionInput>(returnInspectionSchema, await request.json())
+
+  const db = await getDatabase()
+  const inspection = await recordInspection(db, context.params.id, data, admin)
+
+  const booking = await db.bookings.findById(context.params.id)
+  if (booking) {
+    invalidateCache.bookings(booking.userId)
+  }
+
+  return createSuccessResponse(inspection, SUCCESS_MESSAGES.INSPECTION_RECORDED)
+})
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { AppError, withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { ledgerEntryCreateSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { postLedgerEntry } from '@/lib/ledger'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants'
+
+type LedgerEntryCreateInput = z.infer<typeof ledgerEntryCreateSchema>
+
+// Records money that moved outside the online providers, or corrects the total
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<LedgerEntryCreateInput>(ledgerEntryCreateSchema, await request.json())
+
+  const db = await getDatabase()
+  const booking = await db.bookings.findById(context.params.id)
+  if (!booking) {
+    throw new AppError(ERROR_MESSAGES.BOOKING_NOT_FOUND, 404)
+  }
+  const entry = await postLedgerEntry(db, booking, data, admin)
+
+  invalidateCache.bookings(booking.userId)
+  invalidateCache.stats()
+
+  return createSuccessResponse(entry, SUCCESS_MESSAGES.LEDGER_ENTRY_ADDED, 201)
+})
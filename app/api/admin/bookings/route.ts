@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { bookingStatusUpdateSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { cancelBooking, transitionBooking } from '@/lib/booking-status'
+import { hydrateBooking, hydrateBookings } from '@/lib/bookings'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { BOOKING_STATUS, SUCCESS_MESSAGES } from '@/lib/constants'
+
+type BookingStatusUpdateInput = z.infer<typeof bookingStatusUpdateSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+
+  const db = await getDatabase()
+  const records = await db.bookings.findMany({ orderBy: { field: 'createdAt', direction: 'desc' } })
+
+  return createSuccessResponse(await hydrateBookings(db, records), 'Bookings retrieved successfully')
+})
+
+export const PUT = withErrorHandling(async (request: NextRequest) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<BookingStatusUpdateInput>(bookingStatusUpdateSchema, await request.json())
+
+  const db = await getDatabase()
+  const booking = data.status === BOOKING_STATUS.CANCELLED
+    ? await cancelBooking(db, data.bookingId, { actor: admin, reason: data.reason, waiveFee: data.waiveFee })
+    : await transitionBooking(db, data.bookingId, data.status, { actor: admin, reason: data.reason })
+
+  invalidateCache.bookings(booking.userId)
+  invalidateCache.stats()
+
+  return createSuccessResponse(await hydrateBooking(db, booking), SUCCESS_MESSAGES.BOOKING_UPDATED)
+})
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { bundleDiscountsSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { updateBundleDiscounts } from '@/lib/bundles'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type BundleDiscountsInput = z.infer<typeof bundleDiscountsSchema>
+
+export const PUT = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<BundleDiscountsInput>(bundleDiscountsSchema, await request.json())
+
+  const db = await getDatabase()
+  const category = await updateBundleDiscounts(db, context.params.id, data, admin.id)
+
+  // Equipment listings embed their categories
+  invalidateCache.categories()
+  invalidateCache.equipment()
+
+  return createSuccessResponse(category, SUCCESS_MESSAGES.BUNDLE_DISCOUNTS_UPDATED)
+})
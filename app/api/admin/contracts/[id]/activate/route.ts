@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAdmin } from '@/lib/auth'
+import { activateContract, getContractDetails } from '@/lib/contracts'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+
+  const db = await getDatabase()
+  const contract = await activateContract(db, context.params.id, admin)
+
+  invalidateCache.bookings(contract.userId)
+  invalidateCache.stats()
+
+  return createSuccessResponse(await getContractDetails(db, contract), SUCCESS_MESSAGES.CONTRACT_ACTIVATED)
+})
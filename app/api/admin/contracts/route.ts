@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse, parseFilterParams } from '@/lib/api-utils'
+import { contractFilterSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { listContracts } from '@/lib/contracts'
+import { getDatabase } from '@/lib/db'
+
+type ContractFilterInput = z.infer<typeof contractFilterSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+  const { searchParams } = new URL(request.url)
+  const filters = validateRequest<ContractFilterInput>(contractFilterSchema, parseFilterParams(searchParams, ['status', 'userId']))
+
+  const db = await getDatabase()
+  const contracts = await listContracts(db, filters)
+
+  return createSuccessResponse(contracts, 'Rental contracts retrieved successfully')
+})
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { deliveryStatusUpdateSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { updateDeliveryStatus } from '@/lib/deliveries'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type DeliveryStatusUpdateInput = z.infer<typeof deliveryStatusUpdateSchema>
+
+export const PUT = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<DeliveryStatusUpdateInput>(deliveryStatusUpdateSchema, await request.json())
+
+  const db = await getDatabase()
+  const delivery = await updateDeliveryStatus(db, context.params.id, data.status, admin)
+
+  const booking = await db.bookings.findById(delivery.bookingId)
+  if (booking) {
+    invalidateCache.bookings(booking.userId)
+  }
+
+  return createSuccessResponse(delivery, SUCCESS_MESSAGES.DELIVERY_UPDATED)
+})
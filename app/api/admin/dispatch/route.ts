@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse, parseFilterParams } from '@/lib/api-utils'
+import { dispatchQuerySchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { getDispatchSchedule } from '@/lib/deliveries'
+import { getDatabase } from '@/lib/db'
+
+type DispatchQueryInput = z.infer<typeof dispatchQuerySchema>
+
+// Drop-offs and returns grouped by day, from today for a week by default
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+  const { searchParams } = new URL(request.url)
+  const query = validateRequest<DispatchQueryInput>(dispatchQuerySchema, parseFilterParams(searchParams, ['from', 'to']))
+
+  const db = await getDatabase()
+  const schedule = await getDispatchSchedule(db, query)
+
+  return createSuccessResponse(schedule, 'Dispatch schedule retrieved successfully')
+})
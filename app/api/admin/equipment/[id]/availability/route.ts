@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { itemAvailabilityUpdateSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { setItemAvailability } from '@/lib/catalog'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { logger } from '@/lib/logger'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type ItemAvailabilityUpdateInput = z.infer<typeof itemAvailabilityUpdateSchema>
+
+export const PUT = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<ItemAvailabilityUpdateInput>(itemAvailabilityUpdateSchema, await request.json())
+
+  const db = await getDatabase()
+  const item = await setItemAvailability(db, { equipmentId: context.params.id }, data.available)
+
+  invalidateCache.equipment(item.id)
+  logger.logBusinessEvent('Equipment availability changed', { equipmentId: item.id, available: item.available }, admin.id)
+
+  return createSuccessResponse(item, SUCCESS_MESSAGES.EQUIPMENT_UPDATED)
+})
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { AppError, withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { equipmentDepositUpdateSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { logger } from '@/lib/logger'
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants'
+
+type EquipmentDepositUpdateInput = z.infer<typeof equipmentDepositUpdateSchema>
+
+// Applies to bookings made from now on; existing bookings keep their deposit
+export const PUT = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<EquipmentDepositUpdateInput>(equipmentDepositUpdateSchema, await request.json())
+
+  const db = await getDatabase()
+  const existing = await db.equipment.findById(context.params.id)
+  if (!existing) {
+    throw new AppError(ERROR_MESSAGES.EQUIPMENT_NOT_FOUND, 404)
+  }
+  const item = await db.equipment.update(existing.id, { depositAmount: data.depositAmount })
+
+  invalidateCache.equipment(item.id)
+  logger.logBusinessEvent('Equipment deposit changed', { equipmentId: item.id, depositAmount: item.depositAmount }, admin.id)
+
+  return createSuccessResponse(item, SUCCESS_MESSAGES.EQUIPMENT_UPDATED)
+})
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAdmin } from '@/lib/auth'
+import { removeMaintenance } from '@/lib/maintenance'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  context: { params: { id: string; maintenanceId: string } }
+) => {
+  const admin = await requireAdmin(request)
+
+  const db = await getDatabase()
+  const record = await removeMaintenance(db, context.params.id, context.params.maintenanceId, admin)
+
+  invalidateCache.equipment(context.params.id)
+
+  return createSuccessResponse(record, SUCCESS_MESSAGES.MAINTENANCE_REMOVED)
+})
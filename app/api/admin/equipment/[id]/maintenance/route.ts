@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { maintenanceCreateSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { listMaintenance, scheduleMaintenance } from '@/lib/maintenance'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type MaintenanceCreateInput = z.infer<typeof maintenanceCreateSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  await requireAdmin(request)
+
+  const db = await getDatabase()
+  const records = await listMaintenance(db, context.params.id)
+
+  return createSuccessResponse(records, 'Maintenance records retrieved successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<MaintenanceCreateInput>(maintenanceCreateSchema, await request.json())
+
+  const db = await getDatabase()
+  const record = await scheduleMaintenance(db, context.params.id, data, admin)
+
+  invalidateCache.equipment(context.params.id)
+
+  return createSuccessResponse(record, SUCCESS_MESSAGES.MAINTENANCE_SCHEDULED, 201)
+})
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { exchangeRateSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { listExchangeRateHistory, setExchangeRate } from '@/lib/exchange-rates'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type ExchangeRateInput = z.infer<typeof exchangeRateSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+
+  const db = await getDatabase()
+  const history = await listExchangeRateHistory(db)
+
+  return createSuccessResponse(history, 'Exchange rates retrieved successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<ExchangeRateInput>(exchangeRateSchema, await request.json())
+
+  const db = await getDatabase()
+  const rate = await setExchangeRate(db, data.currency, data.rate, admin)
+
+  return createSuccessResponse(rate, SUCCESS_MESSAGES.EXCHANGE_RATE_UPDATED, 201)
+})
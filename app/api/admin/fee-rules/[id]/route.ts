@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { feeRuleSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { deleteFeeRule, updateFeeRule } from '@/lib/fee-rules'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type FeeRuleInput = z.infer<typeof feeRuleSchema>
+
+export const PUT = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<FeeRuleInput>(feeRuleSchema, await request.json())
+
+  const db = await getDatabase()
+  const rule = await updateFeeRule(db, context.params.id, data, admin)
+
+  return createSuccessResponse(rule, SUCCESS_MESSAGES.FEE_RULE_UPDATED)
+})
+
+export const DELETE = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+
+  const db = await getDatabase()
+  const rule = await deleteFeeRule(db, context.params.id, admin)
+
+  return createSuccessResponse(rule, SUCCESS_MESSAGES.FEE_RULE_DELETED)
+})
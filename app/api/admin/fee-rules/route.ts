@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { feeRuleSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { createFeeRule, listFeeRules } from '@/lib/fee-rules'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type FeeRuleInput = z.infer<typeof feeRuleSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+
+  const db = await getDatabase()
+  const rules = await listFeeRules(db)
+
+  return createSuccessResponse(rules, 'Taxes and fees retrieved successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<FeeRuleInput>(feeRuleSchema, await request.json())
+
+  const db = await getDatabase()
+  const rule = await createFeeRule(db, data, admin)
+
+  return createSuccessResponse(rule, SUCCESS_MESSAGES.FEE_RULE_CREATED, 201)
+})
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse, parseFilterParams } from '@/lib/api-utils'
+import { maintenanceStatusFilterSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { listMaintenanceStatuses } from '@/lib/maintenance'
+import { getDatabase } from '@/lib/db'
+
+type MaintenanceStatusFilterInput = z.infer<typeof maintenanceStatusFilterSchema>
+
+// Service state of every equipment item; `?overdue=true` lists the ones due
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+  const { searchParams } = new URL(request.url)
+  const filters = validateRequest<MaintenanceStatusFilterInput>(
+    maintenanceStatusFilterSchema,
+    parseFilterParams(searchParams, ['overdue'])
+  )
+
+  const db = await getDatabase()
+  const statuses = await listMaintenanceStatuses(db, filters)
+
+  return createSuccessResponse(statuses, 'Maintenance status retrieved successfully')
+})
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { paymentRefundSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { refundPayment } from '@/lib/payments'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type PaymentRefundInput = z.infer<typeof paymentRefundSchema>
+
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<PaymentRefundInput>(paymentRefundSchema, await request.json().catch(() => ({})))
+
+  const db = await getDatabase()
+  const payment = await refundPayment(db, context.params.id, admin, data.amount)
+
+  invalidateCache.bookings(payment.userId)
+  invalidateCache.stats()
+
+  return createSuccessResponse(payment, SUCCESS_MESSAGES.PAYMENT_REFUNDED)
+})
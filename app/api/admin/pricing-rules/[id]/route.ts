@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { pricingRuleSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { deletePricingRule, updatePricingRule } from '@/lib/pricing-rules'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type PricingRuleInput = z.infer<typeof pricingRuleSchema>
+
+export const PUT = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<PricingRuleInput>(pricingRuleSchema, await request.json())
+
+  const db = await getDatabase()
+  const rule = await updatePricingRule(db, context.params.id, data, admin)
+
+  return createSuccessResponse(rule, SUCCESS_MESSAGES.PRICING_RULE_UPDATED)
+})
+
+export const DELETE = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const admin = await requireAdmin(request)
+
+  const db = await getDatabase()
+  const rule = await deletePricingRule(db, context.params.id, admin)
+
+  return createSuccessResponse(rule, SUCCESS_MESSAGES.PRICING_RULE_DELETED)
+})
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { pricingRuleSchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { createPricingRule, listPricingRules } from '@/lib/pricing-rules'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type PricingRuleInput = z.infer<typeof pricingRuleSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+
+  const db = await getDatabase()
+  const rules = await listPricingRules(db)
+
+  return createSuccessResponse(rules, 'Pricing rules retrieved successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const admin = await requireAdmin(request)
+  const data = validateRequest<PricingRuleInput>(pricingRuleSchema, await request.json())
+
+  const db = await getDatabase()
+  const rule = await createPricingRule(db, data, admin)
+
+  return createSuccessResponse(rule, SUCCESS_MESSAGES.PRICING_RULE_CREATED, 201)
+})
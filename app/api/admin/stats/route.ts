@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { statsQuerySchema } from '@/lib/validations'
+import { requireAdmin } from '@/lib/auth'
+import { getAdminStats } from '@/lib/stats'
+import { getDatabase } from '@/lib/db'
+
+type StatsQuery = z.infer<typeof statsQuerySchema>
+
+// Dashboard counts, with gross and net revenue for an optional date range
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAdmin(request)
+  const { searchParams } = new URL(request.url)
+  const range = validateRequest<StatsQuery>(statsQuerySchema, {
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+  })
+
+  const db = await getDatabase()
+  const stats = await getAdminStats(db, range)
+
+  return createSuccessResponse(stats, 'Stats retrieved successfully')
+})
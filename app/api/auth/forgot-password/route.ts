@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { passwordResetRequestSchema } from '@/lib/validations'
+import { requestPasswordReset } from '@/lib/accounts'
+import { enforceRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type PasswordResetRequestInput = z.infer<typeof passwordResetRequestSchema>
+
+// Answers the same way whether or not the email has an account
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  await enforceRateLimit(request, 'auth:forgot-password', RATE_LIMIT_CONFIGS.passwordReset)
+  const { email } = validateRequest<PasswordResetRequestInput>(passwordResetRequestSchema, await request.json())
+
+  const db = await getDatabase()
+  await requestPasswordReset(db, email)
+
+  return createSuccessResponse({ email }, SUCCESS_MESSAGES.PASSWORD_RESET_REQUESTED)
+})
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { userLoginSchema } from '@/lib/validations'
+import { startSession } from '@/lib/auth'
+import { authenticate } from '@/lib/accounts'
+import { enforceRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type LoginInput = z.infer<typeof userLoginSchema>
+
+// When sign-in codes are required no session is started here; the client
+// sends the emailed code to /api/auth/verify-otp with purpose LOGIN
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  await enforceRateLimit(request, 'auth:login', RATE_LIMIT_CONFIGS.auth)
+  const { email, password } = validateRequest<LoginInput>(userLoginSchema, await request.json())
+
+  const db = await getDatabase()
+  const result = await authenticate(db, email, password)
+
+  if (!result.user) {
+    return createSuccessResponse(result, SUCCESS_MESSAGES.OTP_SENT)
+  }
+  return startSession(createSuccessResponse(result, SUCCESS_MESSAGES.USER_LOGGED_IN), result.user)
+})
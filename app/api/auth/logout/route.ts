@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { endSession } from '@/lib/auth'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  return endSession(createSuccessResponse(null, SUCCESS_MESSAGES.USER_LOGGED_OUT))
+})
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandling } from '@/lib/api-utils'
+import { requireAuth } from '@/lib/auth'
+
+// The signed-in user. Callers read `user` from the top level of the body,
+// so this is not wrapped in the usual success envelope.
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+
+  return NextResponse.json({ user }, { headers: { 'Cache-Control': 'no-store' } })
+})
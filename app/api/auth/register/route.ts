@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { userRegistrationSchema } from '@/lib/validations'
+import { registerUser } from '@/lib/accounts'
+import { enforceRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type RegistrationInput = z.infer<typeof userRegistrationSchema>
+
+// The account stays unverified until the emailed code is entered at /api/auth/verify-otp
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  await enforceRateLimit(request, 'auth:register', RATE_LIMIT_CONFIGS.auth)
+  const data = validateRequest<RegistrationInput>(userRegistrationSchema, await request.json())
+
+  const db = await getDatabase()
+  const user = await registerUser(db, data)
+
+  return createSuccessResponse({ email: user.email }, SUCCESS_MESSAGES.OTP_SENT, 201)
+})
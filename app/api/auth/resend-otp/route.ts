@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { otpResendSchema } from '@/lib/validations'
+import { resendOtp } from '@/lib/accounts'
+import { enforceRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit'
+import { getDatabase } from '@/lib/db'
+import { AUTH, SUCCESS_MESSAGES } from '@/lib/constants'
+
+type OtpResendInput = z.infer<typeof otpResendSchema>
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  await enforceRateLimit(request, 'auth:resend-otp', RATE_LIMIT_CONFIGS.auth)
+  const { email, purpose } = validateRequest<OtpResendInput>(otpResendSchema, await request.json())
+
+  const db = await getDatabase()
+  await resendOtp(db, email, purpose)
+
+  return createSuccessResponse({ email, cooldownSeconds: AUTH.OTP_RESEND_COOLDOWN_SECONDS }, SUCCESS_MESSAGES.OTP_SENT)
+})
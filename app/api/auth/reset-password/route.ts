@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { passwordResetSchema } from '@/lib/validations'
+import { resetPassword } from '@/lib/accounts'
+import { enforceRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type PasswordResetInput = z.infer<typeof passwordResetSchema>
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  await enforceRateLimit(request, 'auth:reset-password', RATE_LIMIT_CONFIGS.auth)
+  const { email, otp, password } = validateRequest<PasswordResetInput>(passwordResetSchema, await request.json())
+
+  const db = await getDatabase()
+  await resetPassword(db, email, otp, password)
+
+  return createSuccessResponse(null, SUCCESS_MESSAGES.PASSWORD_RESET)
+})
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { otpVerificationSchema } from '@/lib/validations'
+import { startSession } from '@/lib/auth'
+import { completeLogin, verifyEmail } from '@/lib/accounts'
+import { enforceRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/rate-limit'
+import { getDatabase } from '@/lib/db'
+import { OTP_PURPOSE, SUCCESS_MESSAGES } from '@/lib/constants'
+
+type OtpVerificationInput = z.infer<typeof otpVerificationSchema>
+
+// Completes registration or a sign-in that asked for a code; both sign the user in
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  await enforceRateLimit(request, 'auth:verify-otp', RATE_LIMIT_CONFIGS.api)
+  const { email, otp, purpose } = validateRequest<OtpVerificationInput>(otpVerificationSchema, await request.json())
+
+  const db = await getDatabase()
+  if (purpose === OTP_PURPOSE.LOGIN) {
+    const user = await completeLogin(db, email, otp)
+    return startSession(createSuccessResponse({ user }, SUCCESS_MESSAGES.USER_LOGGED_IN), user)
+  }
+
+  const user = await verifyEmail(db, email, otp)
+  return startSession(createSuccessResponse({ user }, SUCCESS_MESSAGES.EMAIL_VERIFIED), user)
+})
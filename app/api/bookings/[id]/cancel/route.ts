@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { AppError, withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { bookingCancelSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { cancelBooking } from '@/lib/booking-status'
+import { quoteCancellation } from '@/lib/cancellation'
+import { findBookingForUser, hydrateBooking } from '@/lib/bookings'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { BOOKING_STATUS, ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants'
+
+type BookingCancelInput = z.infer<typeof bookingCancelSchema>
+
+// Preview of the fee and refund, shown before the customer confirms
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const booking = await findBookingForUser(db, context.params.id, user)
+  if (booking.status === BOOKING_STATUS.CANCELLED) {
+    throw new AppError(ERROR_MESSAGES.BOOKING_ALREADY_CANCELLED, 400)
+  }
+
+  const quote = await quoteCancellation(db, booking, user)
+
+  return createSuccessResponse(quote, 'Cancellation quote calculated successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+  const data = validateRequest<BookingCancelInput>(bookingCancelSchema, await request.json().catch(() => ({})))
+
+  const db = await getDatabase()
+  const existing = await findBookingForUser(db, context.params.id, user)
+  const booking = await cancelBooking(db, existing.id, { actor: user, reason: data.reason })
+
+  invalidateCache.bookings(booking.userId)
+  invalidateCache.stats()
+
+  return createSuccessResponse(await hydrateBooking(db, booking), SUCCESS_MESSAGES.BOOKING_CANCELLED)
+})
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandling } from '@/lib/api-utils'
+import { requireAuth } from '@/lib/auth'
+import { findBookingForUser, hydrateBooking } from '@/lib/bookings'
+import { renderCalendar } from '@/lib/ical'
+import { getDatabase } from '@/lib/db'
+import { COMPANY, USER_ROLE } from '@/lib/constants'
+
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const booking = await hydrateBooking(db, await findBookingForUser(db, context.params.id, user))
+
+  const calendar = renderCalendar([booking], {
+    name: `${COMPANY.NAME} booking`,
+    includeCustomer: user.role === USER_ROLE.ADMIN,
+  })
+
+  return new NextResponse(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="booking-${booking.id}.ics"`,
+    },
+  })
+})
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest } from '@/lib/api-utils'
+import { documentFormatSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { findBookingForUser } from '@/lib/bookings'
+import { createDocumentResponse, getBookingDocument } from '@/lib/documents'
+import { getDatabase } from '@/lib/db'
+
+type DocumentFormatQuery = z.infer<typeof documentFormatSchema>
+
+// Invoice for confirmed bookings, quote for pending ones; ?format=html|pdf
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+  const { searchParams } = new URL(request.url)
+  const { format } = validateRequest<DocumentFormatQuery>(documentFormatSchema, {
+    format: searchParams.get('format') || undefined,
+  })
+
+  const db = await getDatabase()
+  const booking = await findBookingForUser(db, context.params.id, user)
+  const document = await getBookingDocument(db, booking.id)
+
+  return createDocumentResponse(document, format)
+})
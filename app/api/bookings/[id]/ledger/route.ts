@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAuth } from '@/lib/auth'
+import { findBookingForUser } from '@/lib/bookings'
+import { getBookingLedger } from '@/lib/ledger'
+import { getDatabase } from '@/lib/db'
+
+// Charges, payments, refunds and adjustments with the running balance
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const booking = await findBookingForUser(db, context.params.id, user)
+
+  return createSuccessResponse(await getBookingLedger(db, booking), 'Payment history retrieved successfully')
+})
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { paymentCreateSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { findBookingForUser } from '@/lib/bookings'
+import { getBalanceDue, initiatePayment, listBookingPayments, listPaymentProviders } from '@/lib/payments'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type PaymentCreateInput = z.infer<typeof paymentCreateSchema>
+
+// Payments on the booking with the balance still due and the methods offered
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const booking = await findBookingForUser(db, context.params.id, user)
+
+  return createSuccessResponse({
+    payments: await listBookingPayments(db, booking.id),
+    balanceDue: await getBalanceDue(db, booking),
+    providers: listPaymentProviders(),
+  }, 'Payments retrieved successfully')
+})
+
+// Starts a mobile-money payment; the customer approves it on their phone
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+  const data = validateRequest<PaymentCreateInput>(paymentCreateSchema, await request.json())
+
+  const db = await getDatabase()
+  const payment = await initiatePayment(db, context.params.id, user, data, process.env.APP_URL || new URL(request.url).origin)
+
+  invalidateCache.bookings(payment.userId)
+
+  return createSuccessResponse(payment, SUCCESS_MESSAGES.PAYMENT_INITIATED, 201)
+})
@@ -0,0 +1,188 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import {
+  AppError,
+  ValidationAppError,
+  withErrorHandling,
+  validateRequest,
+  parsePaginationParams,
+  parseFilterParams,
+  createSuccessResponse,
+  createPaginatedResponse,
+} from '@/lib/api-utils'
+import { bookingCreateSchema, bookingFilterSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { BookingTarget, assertAvailable } from '@/lib/availability'
+import { DeliveryQuote, addDeliveryFee, applyFeeRules, calculateBookingPrice, calculateDepositAmount, pricesMatch } from '@/lib/pricing'
+import { createStatusChange } from '@/lib/booking-status'
+import { listBookings } from '@/lib/bookings'
+import { PricedBundle, priceBundle } from '@/lib/bundles'
+import { assertPromoCodeApplied, getActivePricingRules } from '@/lib/pricing-rules'
+import { getExchangeRates } from '@/lib/exchange-rates'
+import { getActiveFeeRules } from '@/lib/fee-rules'
+import { toBaseAmount } from '@/lib/currency'
+import { fulfilWaitlistOffers } from '@/lib/waitlist'
+import { consumeHolds } from '@/lib/booking-holds'
+import { createDelivery, quoteDelivery } from '@/lib/deliveries'
+import { postLedgerEntry } from '@/lib/ledger'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { logger } from '@/lib/logger'
+import { PriceBreakdown } from '@/lib/types'
+import { BOOKING_STATUS, BOOKING_TYPE, CATEGORY_TYPE, CURRENCIES, DEPOSIT_STATUS, ERROR_MESSAGES, LEDGER_ENTRY_KIND, SUCCESS_MESSAGES, USER_ROLE } from '@/lib/constants'
+
+type BookingCreateInput = z.infer<typeof bookingCreateSchema>
+type BookingFilterInput = z.infer<typeof bookingFilterSchema>
+
+const BOOKING_FILTER_KEYS = ['status', 'type', 'startDate', 'endDate', 'userId']
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const { searchParams } = new URL(request.url)
+  const { page, limit, skip } = parsePaginationParams(searchParams)
+  const filters = validateRequest<BookingFilterInput>(
+    bookingFilterSchema,
+    parseFilterParams(searchParams, BOOKING_FILTER_KEYS)
+  )
+
+  // Customers only ever see their own bookings
+  if (user.role !== USER_ROLE.ADMIN) {
+    filters.userId = user.id
+  }
+
+  const db = await getDatabase()
+  const { items, total } = await listBookings(db, filters, { skip, limit })
+
+  return createPaginatedResponse(items, { page, limit, total }, 'Bookings retrieved successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const data = validateRequest<BookingCreateInput>(bookingCreateSchema, await request.json())
+  // A bundle occupies each of its items; its first item is the booking's own
+  const targets: BookingTarget[] = data.equipmentIds
+    ? data.equipmentIds.map(equipmentId => ({ equipmentId }))
+    : [{ equipmentId: data.equipmentId, brokerageId: data.brokerageId }]
+  const target = targets[0]
+  const logTarget = data.equipmentIds ? { equipmentIds: data.equipmentIds } : target
+
+  if (data.delivery && data.brokerageId) {
+    throw new AppError(ERROR_MESSAGES.DELIVERY_NOT_AVAILABLE, 400)
+  }
+  const deliveryQuote: DeliveryQuote | null = data.delivery ? quoteDelivery(data.delivery, data) : null
+
+  const db = await getDatabase()
+  const booking = await db.transaction(async (tx) => {
+    let bundle: PricedBundle | null = null
+    let priceBreakdown: PriceBreakdown
+    let depositAmount = 0
+    const rules = await getActivePricingRules(tx, data.promoCode)
+    const rates = await getExchangeRates(tx)
+
+    if (data.equipmentIds) {
+      bundle = await priceBundle(tx, data.equipmentIds, data, rules, rates)
+      priceBreakdown = bundle.breakdown
+      depositAmount = calculateDepositAmount(bundle.equipment)
+    } else {
+      const item = data.equipmentId
+        ? await tx.equipment.findById(data.equipmentId)
+        : await tx.brokerage.findById(data.brokerageId!)
+
+      if (!item || !item.available) {
+        throw new AppError(
+          data.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_AVAILABLE : ERROR_MESSAGES.BROKERAGE_NOT_AVAILABLE,
+          400
+        )
+      }
+
+      // The client total is only a claim; the stored price is always recomputed
+      priceBreakdown = calculateBookingPrice({
+        id: item.id,
+        categoryId: item.categoryId,
+        price: toBaseAmount(item.price, item.currency, rates),
+        priceType: item.priceType,
+        startDate: data.startDate,
+        endDate: data.endDate,
+      }, rules)
+      // Only equipment carries a deposit; brokerage services never do
+      if ('depositAmount' in item) {
+        depositAmount = calculateDepositAmount([item])
+      }
+    }
+
+    assertPromoCodeApplied(priceBreakdown, rules, data.promoCode)
+
+    if (deliveryQuote) {
+      priceBreakdown = addDeliveryFee(priceBreakdown, deliveryQuote)
+    }
+    const categoryType = target.brokerageId ? CATEGORY_TYPE.BROKERAGE : CATEGORY_TYPE.EQUIPMENT
+    priceBreakdown = applyFeeRules(priceBreakdown, await getActiveFeeRules(tx, categoryType), categoryType)
+
+    if (!pricesMatch(data.totalPrice, priceBreakdown.total)) {
+      logger.logSecurityEvent('Booking total mismatch', user.id, request.ip, {
+        submitted: data.totalPrice,
+        expected: priceBreakdown.total,
+        ...logTarget,
+      })
+      throw new ValidationAppError(ERROR_MESSAGES.PRICE_MISMATCH, [
+        { field: 'totalPrice', message: `Expected ${priceBreakdown.total}` },
+      ])
+    }
+
+    for (const itemTarget of targets) {
+      await assertAvailable(tx, itemTarget, data, { userId: user.id })
+      await fulfilWaitlistOffers(tx, user.id, itemTarget, data)
+      await consumeHolds(tx, user.id, itemTarget)
+    }
+
+    const created = await tx.bookings.create({
+      type: target.equipmentId ? BOOKING_TYPE.EQUIPMENT : BOOKING_TYPE.BROKERAGE,
+      status: BOOKING_STATUS.PENDING,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      totalPrice: priceBreakdown.total,
+      priceBreakdown,
+      promoCode: data.promoCode,
+      // Locked so the customer keeps seeing the amounts they agreed to
+      currency: data.currency || CURRENCIES.BASE,
+      exchangeRate: rates[data.currency || CURRENCIES.BASE],
+      notes: data.notes,
+      phoneNumber: data.phoneNumber,
+      statusHistory: [createStatusChange(null, BOOKING_STATUS.PENDING, user)],
+      userId: user.id,
+      ...target,
+      ...(depositAmount > 0 && { deposit: { amount: depositAmount, status: DEPOSIT_STATUS.HELD } }),
+    })
+
+    // Collected with the booking and returned, less any claims, once the
+    // items are back and inspected
+    if (depositAmount > 0) {
+      await postLedgerEntry(tx, created, {
+        kind: LEDGER_ENTRY_KIND.CHARGE,
+        amount: depositAmount,
+        description: 'Security deposit',
+      }, user)
+    }
+
+    if (bundle) {
+      for (const [index, item] of bundle.equipment.entries()) {
+        await tx.bookingItems.create({
+          bookingId: created.id,
+          equipmentId: item.id,
+          priceBreakdown: bundle.items[index],
+        })
+      }
+    }
+
+    if (data.delivery && deliveryQuote) {
+      await createDelivery(tx, created.id, data.delivery, deliveryQuote, user)
+    }
+
+    return created
+  })
+
+  invalidateCache.bookings(user.id)
+  logger.logBusinessEvent('Booking created', { bookingId: booking.id, ...logTarget }, user.id)
+
+  return createSuccessResponse(booking, SUCCESS_MESSAGES.BOOKING_CREATED, 201)
+})
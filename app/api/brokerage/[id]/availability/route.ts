@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { availabilityQuerySchema } from '@/lib/validations'
+import { getAvailabilityCalendar } from '@/lib/availability'
+import { getAuthUser } from '@/lib/auth'
+import { getDatabase } from '@/lib/db'
+
+type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>
+
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const { searchParams } = new URL(request.url)
+  const window = validateRequest<AvailabilityQuery>(availabilityQuerySchema, {
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+  })
+
+  const db = await getDatabase()
+  const user = await getAuthUser(request)
+  const calendar = await getAvailabilityCalendar(db, { brokerageId: context.params.id }, window, { userId: user?.id })
+
+  return createSuccessResponse(calendar, 'Availability retrieved successfully')
+})
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import {
+  withErrorHandling,
+  validateRequest,
+  parsePaginationParams,
+  parseFilterParams,
+  createPaginatedResponse,
+} from '@/lib/api-utils'
+import { brokerageFilterSchema } from '@/lib/validations'
+import { CacheKeys, cacheUtils } from '@/lib/cache'
+import { CACHE, CATEGORY_TYPE } from '@/lib/constants'
+import { Brokerage, Category } from '@/lib/types'
+import {
+  BROKERAGE_FILTER_KEYS,
+  BrokerageListFilters,
+  ListResult,
+  listBrokerage,
+  listCategories,
+} from '@/lib/catalog'
+
+type BrokerageListing = ListResult<Brokerage> & { categories: Category[] }
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const { page, limit, skip } = parsePaginationParams(searchParams)
+  const filters = validateRequest<BrokerageListFilters>(
+    brokerageFilterSchema,
+    parseFilterParams(searchParams, BROKERAGE_FILTER_KEYS)
+  )
+
+  const cacheKey = CacheKeys.brokerageList({ ...filters, page, limit })
+  let listing = cacheUtils.get<BrokerageListing>(cacheKey)
+
+  if (!listing) {
+    const [result, categories] = await Promise.all([
+      listBrokerage(filters, { skip, limit }),
+      listCategories(CATEGORY_TYPE.BROKERAGE),
+    ])
+    listing = { ...result, categories }
+    cacheUtils.set(cacheKey, listing, CACHE.BROKERAGE_TTL * 1000)
+  }
+
+  return createPaginatedResponse(
+    listing.items,
+    { page, limit, total: listing.total },
+    'Brokerage services retrieved successfully',
+    { categories: listing.categories }
+  )
+})
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, parseFilterParams } from '@/lib/api-utils'
+import { bookingFilterSchema } from '@/lib/validations'
+import { CALENDAR_FEED_FILTER_KEYS, renderCalendarFeed } from '@/lib/calendar-feeds'
+import { getDatabase } from '@/lib/db'
+
+type BookingFilterInput = z.infer<typeof bookingFilterSchema>
+
+// Public subscription feed polled by calendar apps; the token authenticates it
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { token: string } }) => {
+  const { searchParams } = new URL(request.url)
+  const filters = validateRequest<BookingFilterInput>(
+    bookingFilterSchema,
+    parseFilterParams(searchParams, CALENDAR_FEED_FILTER_KEYS)
+  )
+
+  const db = await getDatabase()
+  const calendar = await renderCalendarFeed(db, context.params.token, filters)
+
+  return new NextResponse(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, max-age=900',
+    },
+  })
+})
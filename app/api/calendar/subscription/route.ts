@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, parseFilterParams, createSuccessResponse } from '@/lib/api-utils'
+import { bookingFilterSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import {
+  CALENDAR_FEED_FILTER_KEYS,
+  buildCalendarFeedUrl,
+  getOrCreateCalendarFeed,
+  rotateCalendarFeed,
+} from '@/lib/calendar-feeds'
+import { getDatabase } from '@/lib/db'
+
+type BookingFilterInput = z.infer<typeof bookingFilterSchema>
+
+function getFilters(request: NextRequest): BookingFilterInput {
+  const { searchParams } = new URL(request.url)
+  return validateRequest<BookingFilterInput>(
+    bookingFilterSchema,
+    parseFilterParams(searchParams, CALENDAR_FEED_FILTER_KEYS)
+  )
+}
+
+function getBaseUrl(request: NextRequest): string {
+  return process.env.APP_URL || new URL(request.url).origin
+}
+
+// Subscription URL for the signed-in user's feed, with the given filters applied
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const filters = getFilters(request)
+
+  const db = await getDatabase()
+  const feed = await getOrCreateCalendarFeed(db, user)
+
+  return createSuccessResponse(
+    { url: buildCalendarFeedUrl(getBaseUrl(request), feed.token, filters) },
+    'Calendar feed retrieved successfully'
+  )
+})
+
+// Replace the feed token, e.g. after the URL was shared by mistake
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const filters = getFilters(request)
+
+  const db = await getDatabase()
+  const feed = await rotateCalendarFeed(db, user)
+
+  return createSuccessResponse(
+    { url: buildCalendarFeedUrl(getBaseUrl(request), feed.token, filters) },
+    'Calendar feed URL regenerated successfully'
+  )
+})
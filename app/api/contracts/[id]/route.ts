@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAuth } from '@/lib/auth'
+import { findContractForUser, getContractDetails } from '@/lib/contracts'
+import { getDatabase } from '@/lib/db'
+
+export const GET = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const contract = await findContractForUser(db, context.params.id, user)
+
+  return createSuccessResponse(await getContractDetails(db, contract), 'Rental contract retrieved successfully')
+})
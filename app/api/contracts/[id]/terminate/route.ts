@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { contractTerminateSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { getContractDetails, terminateContract } from '@/lib/contracts'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type ContractTerminateInput = z.infer<typeof contractTerminateSchema>
+
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+  const data = validateRequest<ContractTerminateInput>(contractTerminateSchema, await request.json())
+
+  const db = await getDatabase()
+  const contract = await terminateContract(db, context.params.id, { actor: user, ...data })
+
+  invalidateCache.bookings(contract.userId)
+  invalidateCache.stats()
+
+  return createSuccessResponse(await getContractDetails(db, contract), SUCCESS_MESSAGES.CONTRACT_TERMINATED)
+})
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse, parseFilterParams } from '@/lib/api-utils'
+import { contractCreateSchema, contractFilterSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { createContract, getContractDetails, listContracts } from '@/lib/contracts'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type ContractCreateInput = z.infer<typeof contractCreateSchema>
+type ContractFilterInput = z.infer<typeof contractFilterSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const { searchParams } = new URL(request.url)
+  const filters = validateRequest<ContractFilterInput>(contractFilterSchema, parseFilterParams(searchParams, ['status']))
+
+  const db = await getDatabase()
+  const contracts = await listContracts(db, { ...filters, userId: user.id })
+
+  return createSuccessResponse(contracts, 'Rental contracts retrieved successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const data = validateRequest<ContractCreateInput>(contractCreateSchema, await request.json())
+
+  const db = await getDatabase()
+  const contract = await createContract(db, user, data)
+
+  invalidateCache.bookings(user.id)
+
+  return createSuccessResponse(await getContractDetails(db, contract), SUCCESS_MESSAGES.CONTRACT_CREATED, 201)
+})
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import {
+  withErrorHandling,
+  validateRequest,
+  parsePaginationParams,
+  parseFilterParams,
+  createPaginatedResponse,
+} from '@/lib/api-utils'
+import { equipmentFilterSchema } from '@/lib/validations'
+import { CacheKeys, cacheUtils } from '@/lib/cache'
+import { CACHE, CATEGORY_TYPE } from '@/lib/constants'
+import { Category, Equipment } from '@/lib/types'
+import {
+  EQUIPMENT_FILTER_KEYS,
+  EquipmentListFilters,
+  ListResult,
+  listCategories,
+  listEquipment,
+} from '@/lib/catalog'
+
+type EquipmentListing = ListResult<Equipment> & { categories: Category[] }
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const { page, limit, skip } = parsePaginationParams(searchParams)
+  const filters = validateRequest<EquipmentListFilters>(
+    equipmentFilterSchema,
+    parseFilterParams(searchParams, EQUIPMENT_FILTER_KEYS)
+  )
+
+  const cacheKey = CacheKeys.equipmentList({ ...filters, page, limit })
+  let listing = cacheUtils.get<EquipmentListing>(cacheKey)
+
+  if (!listing) {
+    const [result, categories] = await Promise.all([
+      listEquipment(filters, { skip, limit }),
+      listCategories(CATEGORY_TYPE.EQUIPMENT),
+    ])
+    listing = { ...result, categories }
+    cacheUtils.set(cacheKey, listing, CACHE.EQUIPMENT_TTL * 1000)
+  }
+
+  return createPaginatedResponse(
+    listing.items,
+    { page, limit, total: listing.total },
+    'Equipment retrieved successfully',
+    { categories: listing.categories }
+  )
+})
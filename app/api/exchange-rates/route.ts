@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { getExchangeRates } from '@/lib/exchange-rates'
+import { getDatabase } from '@/lib/db'
+
+// Rates the storefront converts US dollar prices with
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const db = await getDatabase()
+  const rates = await getExchangeRates(db)
+
+  return createSuccessResponse(rates, 'Exchange rates retrieved successfully')
+})
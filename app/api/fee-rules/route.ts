@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { categoryTypeSchema } from '@/lib/validations'
+import { getActiveFeeRules } from '@/lib/fee-rules'
+import { getDatabase } from '@/lib/db'
+import { CategoryType } from '@/lib/constants'
+
+// Taxes and fees the booking forms add to their totals
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const categoryType = searchParams.get('categoryType')
+    ? validateRequest<CategoryType>(categoryTypeSchema, searchParams.get('categoryType'))
+    : undefined
+
+  const db = await getDatabase()
+  const rules = await getActiveFeeRules(db, categoryType)
+
+  return createSuccessResponse(rules, 'Taxes and fees retrieved successfully')
+})
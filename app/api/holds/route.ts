@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { bookingHoldSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { placeHold } from '@/lib/booking-holds'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type BookingHoldInput = z.infer<typeof bookingHoldSchema>
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const data = validateRequest<BookingHoldInput>(bookingHoldSchema, await request.json())
+
+  const db = await getDatabase()
+  const hold = await placeHold(db, user, data)
+
+  return createSuccessResponse(hold, SUCCESS_MESSAGES.HOLD_PLACED, 201)
+})
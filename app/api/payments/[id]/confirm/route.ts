@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAuth } from '@/lib/auth'
+import { confirmPayment } from '@/lib/payments'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+
+// Asks the provider for the outcome, for when the callback has not arrived
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const payment = await confirmPayment(db, context.params.id, user)
+
+  invalidateCache.bookings(payment.userId)
+
+  return createSuccessResponse(payment, 'Payment status retrieved successfully')
+})
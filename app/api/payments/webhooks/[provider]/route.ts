@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { AppError, withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { webhookSchema } from '@/lib/validations'
+import { getProviderBySlug, handlePaymentWebhook } from '@/lib/payments'
+import { getDatabase } from '@/lib/db'
+import { invalidateCache } from '@/lib/cache'
+import { ERROR_MESSAGES, PAYMENTS } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+
+type WebhookInput = z.infer<typeof webhookSchema>
+
+// Asynchronous payment outcome posted by the provider; the signature header
+// authenticates it, so there is no session. The body is read as text because
+// the signature covers it byte for byte.
+export const POST = withErrorHandling(async (request: NextRequest, context: { params: { provider: string } }) => {
+  const provider = getProviderBySlug(context.params.provider)
+  if (!provider) {
+    throw new AppError(ERROR_MESSAGES.NOT_FOUND, 404)
+  }
+  const body = await request.text()
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    throw new AppError(ERROR_MESSAGES.VALIDATION_ERROR, 400)
+  }
+  const data = validateRequest<WebhookInput>(webhookSchema, parsed)
+  const signature = request.headers.get(PAYMENTS.WEBHOOK_SIGNATURE_HEADER) || undefined
+
+  const db = await getDatabase()
+  try {
+    const payment = await handlePaymentWebhook(db, provider, { ...data, body, signature })
+    invalidateCache.bookings(payment.userId)
+    invalidateCache.stats()
+    return createSuccessResponse({ id: payment.id, status: payment.status }, 'Webhook processed')
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 401) {
+      logger.logSecurityEvent('Rejected payment webhook', undefined, request.ip, { provider, event: data.event })
+    }
+    throw error
+  }
+})
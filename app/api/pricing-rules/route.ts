@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { promoCodeSchema } from '@/lib/validations'
+import { getActivePricingRules } from '@/lib/pricing-rules'
+import { getDatabase } from '@/lib/db'
+
+// Rules the booking forms price with; a promo code adds its own rule or fails
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const promoCode = searchParams.get('promoCode')
+    ? validateRequest<string>(promoCodeSchema, searchParams.get('promoCode'))
+    : undefined
+
+  const db = await getDatabase()
+  const rules = await getActivePricingRules(db, promoCode)
+
+  return createSuccessResponse(rules, 'Pricing rules retrieved successfully')
+})
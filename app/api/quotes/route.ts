@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { AppError, withErrorHandling, validateRequest } from '@/lib/api-utils'
+import { quoteQuerySchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { buildQuoteDocument, createDocumentResponse } from '@/lib/documents'
+import { assertPromoCodeApplied, getActivePricingRules } from '@/lib/pricing-rules'
+import { getExchangeRates } from '@/lib/exchange-rates'
+import { getActiveFeeRules } from '@/lib/fee-rules'
+import { getDatabase } from '@/lib/db'
+import { BOOKING_TYPE, ERROR_MESSAGES } from '@/lib/constants'
+
+type QuoteQuery = z.infer<typeof quoteQuerySchema>
+
+// Quote for an item and date range before a booking is made
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const { searchParams } = new URL(request.url)
+  const query = validateRequest<QuoteQuery>(quoteQuerySchema, {
+    equipmentId: searchParams.get('equipmentId') || undefined,
+    brokerageId: searchParams.get('brokerageId') || undefined,
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+    format: searchParams.get('format') || undefined,
+    promoCode: searchParams.get('promoCode') || undefined,
+    currency: searchParams.get('currency') || undefined,
+  })
+
+  const db = await getDatabase()
+  const item = query.equipmentId
+    ? await db.equipment.findById(query.equipmentId)
+    : await db.brokerage.findById(query.brokerageId!)
+
+  if (!item) {
+    throw new AppError(query.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_FOUND : ERROR_MESSAGES.BROKERAGE_NOT_FOUND, 404)
+  }
+
+  const category = await db.categories.findById(item.categoryId)
+  const rules = await getActivePricingRules(db, query.promoCode)
+  const document = buildQuoteDocument(
+    { ...item, category: category! },
+    query.equipmentId ? BOOKING_TYPE.EQUIPMENT : BOOKING_TYPE.BROKERAGE,
+    user,
+    { startDate: query.startDate, endDate: query.endDate },
+    {
+      rules,
+      feeRules: await getActiveFeeRules(db),
+      currency: query.currency,
+      rates: await getExchangeRates(db),
+    }
+  )
+  assertPromoCodeApplied(document.priceBreakdown, rules, query.promoCode)
+
+  return createDocumentResponse(document, query.format)
+})
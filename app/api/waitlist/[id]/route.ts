@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils'
+import { requireAuth } from '@/lib/auth'
+import { leaveWaitlist } from '@/lib/waitlist'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+export const DELETE = withErrorHandling(async (request: NextRequest, context: { params: { id: string } }) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const entry = await leaveWaitlist(db, user, context.params.id)
+
+  return createSuccessResponse(entry, SUCCESS_MESSAGES.WAITLIST_LEFT)
+})
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withErrorHandling, validateRequest, createSuccessResponse } from '@/lib/api-utils'
+import { waitlistJoinSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/auth'
+import { joinWaitlist, listWaitlistEntries } from '@/lib/waitlist'
+import { getDatabase } from '@/lib/db'
+import { SUCCESS_MESSAGES } from '@/lib/constants'
+
+type WaitlistJoinInput = z.infer<typeof waitlistJoinSchema>
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+
+  const db = await getDatabase()
+  const entries = await listWaitlistEntries(db, user.id)
+
+  return createSuccessResponse(entries, 'Waitlist entries retrieved successfully')
+})
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request)
+  const data = validateRequest<WaitlistJoinInput>(waitlistJoinSchema, await request.json())
+
+  const db = await getDatabase()
+  const entry = await joinWaitlist(db, user, data)
+
+  return createSuccessResponse(entry, SUCCESS_MESSAGES.WAITLIST_JOINED, 201)
+})
@@ -0,0 +1,72 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Loader } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AuthCard, FieldError } from '@/components/shared/AuthCard'
+import { useToast } from '@/lib/hooks/use-toast'
+import { passwordResetRequestSchema } from '@/lib/validations'
+import { getSafeReturnTo } from '@/lib/utils'
+
+type PasswordResetRequestInput = z.infer<typeof passwordResetRequestSchema>
+
+export default function ForgotPasswordPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'))
+  const { toast } = useToast()
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<PasswordResetRequestInput>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: '' },
+  })
+
+  const onSubmit = async (values: PasswordResetRequestInput) => {
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Check your inbox', description: result.message })
+        router.push(`/auth/reset-password?${new URLSearchParams({ email: values.email, returnTo })}`)
+        return
+      }
+      toast({ title: 'Error', description: result.error || 'Failed to send the reset code', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to send the reset code', variant: 'destructive' })
+    }
+  }
+
+  return (
+    <AuthCard
+      title="Forgot your password?"
+      description="Enter your email and we will send you a code to reset it."
+      footer={
+        <Link href={`/auth/login?returnTo=${encodeURIComponent(returnTo)}`} className="text-primary hover:underline">
+          Back to sign in
+        </Link>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        <div>
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" type="email" autoComplete="email" placeholder="you@example.com" {...register('email')} />
+          <FieldError message={errors.email?.message} />
+        </div>
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+          Send reset code
+        </Button>
+      </form>
+    </AuthCard>
+  )
+}
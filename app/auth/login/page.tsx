@@ -0,0 +1,110 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Loader } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AuthCard, FieldError } from '@/components/shared/AuthCard'
+import { useToast } from '@/lib/hooks/use-toast'
+import { userLoginSchema } from '@/lib/validations'
+import { getSafeReturnTo } from '@/lib/utils'
+import { AUTH, OTP_PURPOSE } from '@/lib/constants'
+import type { ApiResponse, LoginResult } from '@/lib/types'
+
+type LoginInput = z.infer<typeof userLoginSchema>
+
+export default function LoginPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'))
+  const { toast } = useToast()
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<LoginInput>({
+    resolver: zodResolver(userLoginSchema),
+    defaultValues: { email: searchParams.get('email') || '', password: '' },
+  })
+
+  const goToVerify = (email: string, purpose: string) => {
+    const params = new URLSearchParams({ email, purpose, returnTo })
+    router.push(`/auth/verify?${params}`)
+  }
+
+  const onSubmit = async (values: LoginInput) => {
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      })
+      const result: ApiResponse<LoginResult> = await response.json()
+
+      if (response.ok && result.data) {
+        if (result.data.requiresOtp) {
+          goToVerify(result.data.email, OTP_PURPOSE.LOGIN)
+          return
+        }
+        window.dispatchEvent(new Event('auth-change'))
+        toast({ title: 'Welcome back', description: `Signed in as ${result.data.user?.name}` })
+        router.push(returnTo)
+        router.refresh()
+        return
+      }
+
+      // Accounts that never confirmed their email get a fresh code to do so
+      if (result.code === AUTH.EMAIL_NOT_VERIFIED_CODE) {
+        await fetch('/api/auth/resend-otp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email: values.email, purpose: OTP_PURPOSE.REGISTRATION }),
+        }).catch(() => undefined)
+        toast({ title: 'Verify your email', description: result.error })
+        goToVerify(values.email, OTP_PURPOSE.REGISTRATION)
+        return
+      }
+      toast({ title: 'Error', description: result.error || 'Failed to sign in', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to sign in', variant: 'destructive' })
+    }
+  }
+
+  const withReturnTo = (path: string) => `${path}?returnTo=${encodeURIComponent(returnTo)}`
+
+  return (
+    <AuthCard
+      title="Sign in"
+      description="Sign in to book equipment and manage your bookings."
+      footer={
+        <p>
+          New here?{' '}
+          <Link href={withReturnTo('/auth/register')} className="text-primary hover:underline">Create an account</Link>
+        </p>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        <div>
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" type="email" autoComplete="email" placeholder="you@example.com" {...register('email')} />
+          <FieldError message={errors.email?.message} />
+        </div>
+        <div>
+          <div className="flex justify-between items-center">
+            <Label htmlFor="password">Password</Label>
+            <Link href={withReturnTo('/auth/forgot-password')} className="text-sm text-primary hover:underline">
+              Forgot password?
+            </Link>
+          </div>
+          <Input id="password" type="password" autoComplete="current-password" {...register('password')} />
+          <FieldError message={errors.password?.message} />
+        </div>
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+          Sign in
+        </Button>
+      </form>
+    </AuthCard>
+  )
+}
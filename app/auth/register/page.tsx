@@ -0,0 +1,97 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Controller, useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Loader } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PhoneInputComponent } from '@/components/ui/phone-input'
+import { AuthCard, FieldError } from '@/components/shared/AuthCard'
+import { useToast } from '@/lib/hooks/use-toast'
+import { userRegistrationSchema } from '@/lib/validations'
+import { getSafeReturnTo } from '@/lib/utils'
+import { OTP_PURPOSE } from '@/lib/constants'
+import type { ApiResponse } from '@/lib/types'
+
+type RegistrationInput = z.infer<typeof userRegistrationSchema>
+
+export default function RegisterPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'))
+  const { toast } = useToast()
+  const { register, control, handleSubmit, formState: { errors, isSubmitting } } = useForm<RegistrationInput>({
+    resolver: zodResolver(userRegistrationSchema),
+    defaultValues: { name: '', email: '', password: '' },
+  })
+
+  const onSubmit = async (values: RegistrationInput) => {
+    try {
+      const response = await fetch('/api/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      })
+      const result: ApiResponse<{ email: string }> = await response.json()
+
+      if (response.ok && result.data) {
+        toast({ title: 'Check your inbox', description: result.message })
+        const params = new URLSearchParams({ email: result.data.email, purpose: OTP_PURPOSE.REGISTRATION, returnTo })
+        router.push(`/auth/verify?${params}`)
+        return
+      }
+      toast({ title: 'Error', description: result.error || 'Failed to create your account', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to create your account', variant: 'destructive' })
+    }
+  }
+
+  return (
+    <AuthCard
+      title="Create an account"
+      description="We will email you a code to confirm your address."
+      footer={
+        <p>
+          Already have an account?{' '}
+          <Link href={`/auth/login?returnTo=${encodeURIComponent(returnTo)}`} className="text-primary hover:underline">Sign in</Link>
+        </p>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        <div>
+          <Label htmlFor="name">Full name</Label>
+          <Input id="name" autoComplete="name" {...register('name')} />
+          <FieldError message={errors.name?.message} />
+        </div>
+        <div>
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" type="email" autoComplete="email" placeholder="you@example.com" {...register('email')} />
+          <FieldError message={errors.email?.message} />
+        </div>
+        <div>
+          <Label htmlFor="password">Password</Label>
+          <Input id="password" type="password" autoComplete="new-password" {...register('password')} />
+          <FieldError message={errors.password?.message} />
+        </div>
+        <div>
+          <Controller
+            name="phone"
+            control={control}
+            render={({ field }) => (
+              <PhoneInputComponent id="phone" label="Phone (optional)" value={field.value} onChange={field.onChange} />
+            )}
+          />
+          <FieldError message={errors.phone?.message} />
+        </div>
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+          Create account
+        </Button>
+      </form>
+    </AuthCard>
+  )
+}
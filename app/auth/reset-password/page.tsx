@@ -0,0 +1,127 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Loader } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AuthCard, FieldError } from '@/components/shared/AuthCard'
+import { useCountdown } from '@/lib/hooks/use-countdown'
+import { useToast } from '@/lib/hooks/use-toast'
+import { passwordResetSchema } from '@/lib/validations'
+import { getSafeReturnTo } from '@/lib/utils'
+import { AUTH } from '@/lib/constants'
+
+type PasswordResetInput = z.infer<typeof passwordResetSchema>
+
+export default function ResetPasswordPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'))
+  const { secondsLeft, restart } = useCountdown(AUTH.OTP_RESEND_COOLDOWN_SECONDS)
+  const { toast } = useToast()
+  const { register, handleSubmit, getValues, formState: { errors, isSubmitting } } = useForm<PasswordResetInput>({
+    resolver: zodResolver(passwordResetSchema),
+    defaultValues: { email: searchParams.get('email') || '', otp: '', password: '' },
+  })
+
+  const onSubmit = async (values: PasswordResetInput) => {
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Your password was reset, sign in with the new one' })
+        router.push(`/auth/login?${new URLSearchParams({ email: values.email, returnTo })}`)
+        return
+      }
+      toast({ title: 'Error', description: result.error || 'Failed to reset your password', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to reset your password', variant: 'destructive' })
+    }
+  }
+
+  // The reset request answers the same way for unknown emails, so this only
+  // ever reports that a code may have been sent
+  const handleResend = async () => {
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: getValues('email') }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Code sent', description: result.message })
+        restart(AUTH.OTP_RESEND_COOLDOWN_SECONDS)
+        return
+      }
+      const retryAfter = Number(response.headers.get('Retry-After'))
+      if (retryAfter > 0) restart(retryAfter)
+      toast({ title: 'Error', description: result.error || 'Failed to resend the code', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to resend the code', variant: 'destructive' })
+    }
+  }
+
+  return (
+    <AuthCard
+      title="Reset your password"
+      description={`Enter the ${AUTH.OTP_LENGTH}-digit code we emailed you and choose a new password.`}
+      footer={
+        <>
+          <p>
+            Didn&apos;t get it?{' '}
+            {secondsLeft > 0 ? (
+              <span>Resend in {secondsLeft}s</span>
+            ) : (
+              <button type="button" onClick={handleResend} className="text-primary hover:underline">Resend code</button>
+            )}
+          </p>
+          <Link href={`/auth/login?returnTo=${encodeURIComponent(returnTo)}`} className="text-primary hover:underline">
+            Back to sign in
+          </Link>
+        </>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        <div>
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" type="email" autoComplete="email" {...register('email')} />
+          <FieldError message={errors.email?.message} />
+        </div>
+        <div>
+          <Label htmlFor="otp">Code</Label>
+          <Input
+            id="otp"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={AUTH.OTP_LENGTH}
+            placeholder="123456"
+            className="tracking-[0.5em] text-center text-lg"
+            {...register('otp')}
+          />
+          <FieldError message={errors.otp?.message} />
+        </div>
+        <div>
+          <Label htmlFor="password">New password</Label>
+          <Input id="password" type="password" autoComplete="new-password" {...register('password')} />
+          <FieldError message={errors.password?.message} />
+        </div>
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+          Reset password
+        </Button>
+      </form>
+    </AuthCard>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Loader } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AuthCard, FieldError } from '@/components/shared/AuthCard'
+import { useCountdown } from '@/lib/hooks/use-countdown'
+import { useToast } from '@/lib/hooks/use-toast'
+import { otpVerificationSchema } from '@/lib/validations'
+import { getSafeReturnTo } from '@/lib/utils'
+import { AUTH, OTP_PURPOSE } from '@/lib/constants'
+import type { ApiResponse, User } from '@/lib/types'
+
+type OtpVerificationInput = z.infer<typeof otpVerificationSchema>
+
+// Entered after registering, or after the password step when sign-in codes
+// are required. A code has just been sent on arrival, so resending starts
+// on cooldown.
+export default function VerifyPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'))
+  const email = searchParams.get('email') || ''
+  const purpose = searchParams.get('purpose') === OTP_PURPOSE.LOGIN ? OTP_PURPOSE.LOGIN : OTP_PURPOSE.REGISTRATION
+  const { secondsLeft, restart } = useCountdown(AUTH.OTP_RESEND_COOLDOWN_SECONDS)
+  const { toast } = useToast()
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<OtpVerificationInput>({
+    resolver: zodResolver(otpVerificationSchema),
+    defaultValues: { email, otp: '', purpose },
+  })
+
+  const loginPath = `/auth/login?returnTo=${encodeURIComponent(returnTo)}`
+
+  const onSubmit = async (values: OtpVerificationInput) => {
+    try {
+      const response = await fetch('/api/auth/verify-otp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      })
+      const result: ApiResponse<{ user: User }> = await response.json()
+
+      if (response.ok) {
+        window.dispatchEvent(new Event('auth-change'))
+        toast({ title: 'Success', description: result.message })
+        router.push(returnTo)
+        router.refresh()
+        return
+      }
+      toast({ title: 'Error', description: result.error || 'Failed to verify the code', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to verify the code', variant: 'destructive' })
+    }
+  }
+
+  const handleResend = async () => {
+    try {
+      const response = await fetch('/api/auth/resend-otp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, purpose }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Code sent', description: result.message })
+        restart(AUTH.OTP_RESEND_COOLDOWN_SECONDS)
+        return
+      }
+      const retryAfter = Number(response.headers.get('Retry-After'))
+      if (retryAfter > 0) restart(retryAfter)
+      toast({ title: 'Error', description: result.error || 'Failed to resend the code', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to resend the code', variant: 'destructive' })
+    }
+  }
+
+  if (!email) {
+    return (
+      <AuthCard title="Verify your email" description="This link is missing the email address to verify.">
+        <Button asChild className="w-full">
+          <Link href={loginPath}>Back to sign in</Link>
+        </Button>
+      </AuthCard>
+    )
+  }
+
+  return (
+    <AuthCard
+      title={purpose === OTP_PURPOSE.LOGIN ? 'Enter your sign-in code' : 'Verify your email'}
+      description={<>We sent a {AUTH.OTP_LENGTH}-digit code to <span className="text-foreground">{email}</span>. It expires in {AUTH.OTP_TTL_MINUTES} minutes.</>}
+      footer={
+        <>
+          <p>
+            Didn&apos;t get it?{' '}
+            {secondsLeft > 0 ? (
+              <span>Resend in {secondsLeft}s</span>
+            ) : (
+              <button type="button" onClick={handleResend} className="text-primary hover:underline">Resend code</button>
+            )}
+          </p>
+          <Link href={loginPath} className="text-primary hover:underline">Back to sign in</Link>
+        </>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        <div>
+          <Label htmlFor="otp">Code</Label>
+          <Input
+            id="otp"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={AUTH.OTP_LENGTH}
+            placeholder="123456"
+            className="tracking-[0.5em] text-center text-lg"
+            autoFocus
+            {...register('otp')}
+          />
+          <FieldError message={errors.otp?.message} />
+        </div>
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+          Verify
+        </Button>
+      </form>
+    </AuthCard>
+  )
+}
@@ -1,15 +1,23 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
-import { Calendar, Clock, DollarSign, MapPin, X, Eye, AlertCircle, CheckCircle, XCircle, Loader } from 'lucide-react'
+import { Calendar, Clock, DollarSign, MapPin, X, Eye, AlertCircle, CheckCircle, XCircle, Loader, FileText, CalendarPlus, ShieldCheck, Smartphone } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useToast } from '@/lib/hooks/use-toast'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { BookingBalance, BookingDeposit, CancellationQuote, DamageClaim, Delivery, RentalContractWithDetails, ReturnInspection } from '@/lib/types'
+import { formatPrice, getBookingTitle, getLoginPath } from '@/lib/utils'
+import { formatConverted } from '@/lib/currency'
+import { CURRENCIES, Currency } from '@/lib/constants'
+import { ContractCard } from '@/components/shared/ContractCard'
+import { PaymentForm } from '@/components/shared/PaymentForm'
+import { PaymentHistory } from '@/components/shared/PaymentHistory'
 import Link from 'next/link'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
@@ -20,9 +28,16 @@ interface Booking {
   startDate: string
   endDate: string
   totalPrice: number
-  status: 'PENDING' | 'CONFIRMED' | 'COMPLETED'
+  currency?: Currency
+  exchangeRate?: number
+  status: 'PENDING' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED'
   notes?: string
   adminNotes?: string
+  phoneNumber?: string
+  cancellationReason?: string
+  cancelledByRole?: 'USER' | 'ADMIN'
+  cancelledAt?: string
+  cancellation?: CancellationQuote
   createdAt: string
   equipment?: {
     id: string
@@ -30,6 +45,7 @@ interface Booking {
     images: string[]
     price: number
     priceType: string
+    currency?: Currency
   }
   brokerage?: {
     id: string
@@ -37,11 +53,29 @@ interface Booking {
     images: string[]
     price: number
     priceType: string
+    currency?: Currency
   }
+  items?: {
+    equipmentId: string
+    equipment?: { title: string }
+  }[]
+  contractId?: string
+  balance?: BookingBalance
+  delivery?: Delivery
+  deposit?: BookingDeposit
+  inspection?: ReturnInspection
+  damageClaims?: DamageClaim[]
+}
+
+const DEPOSIT_STATUS_LABELS: Record<BookingDeposit['status'], string> = {
+  HELD: 'held',
+  REFUNDED: 'refunded in full',
+  PARTIALLY_REFUNDED: 'partially refunded',
+  FORFEITED: 'forfeited',
 }
 
 interface BookingsResponse {
-  bookings: Booking[]
+  data: Booking[]
   pagination: {
     page: number
     limit: number
@@ -50,10 +84,395 @@ interface BookingsResponse {
   }
 }
 
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'PENDING':
+      return <Clock className="h-4 w-4" />
+    case 'CONFIRMED':
+      return <CheckCircle className="h-4 w-4" />
+    case 'COMPLETED':
+      return <CheckCircle className="h-4 w-4" />
+    case 'CANCELLED':
+      return <XCircle className="h-4 w-4" />
+    default:
+      return <AlertCircle className="h-4 w-4" />
+  }
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'PENDING':
+      return 'bg-yellow-500/10 text-yellow-400 border border-yellow-500/20'
+    case 'CONFIRMED':
+      return 'bg-green-500/10 text-green-400 border border-green-500/20'
+    case 'COMPLETED':
+      return 'bg-primary/10 text-primary border border-primary/20'
+    case 'CANCELLED':
+      return 'bg-red-500/10 text-red-400 border border-red-500/20'
+    default:
+      return 'bg-muted/50 text-muted-foreground border border-border'
+  }
+}
+
+// Fees depend on the category's policy, so the dialog asks the server for them
+const canCancelBooking = (booking: Booking) => {
+  if (!['PENDING', 'CONFIRMED'].includes(booking.status)) return false
+
+  return new Date(booking.startDate).getTime() > Date.now()
+}
+
+// Amounts are shown at the rate locked when the booking was made
+const formatAmount = (booking: Booking, amount: number) =>
+  formatConverted(amount, booking.currency || CURRENCIES.BASE, booking.exchangeRate || 1)
+
+// The fee is owed even when nothing was paid; the balance says what is
+// left to pay or comes back once the fee is set against payments
+const describeCancellation = (booking: Booking, quote: CancellationQuote) => {
+  const terms = {
+    FREE: 'Free cancellation.',
+    FEE: `A ${quote.policy.feePercentage}% cancellation fee of ${formatAmount(booking, quote.fee)} applies.`,
+    NO_REFUND: `This booking starts within ${quote.policy.noRefundHours} hours, so the full ${formatAmount(booking, quote.fee)} is charged.`,
+  }[quote.tier]
+  const deposit = quote.deposit > 0 ? ` Your ${formatAmount(booking, quote.deposit)} security deposit is released.` : ''
+  const outcome = quote.balance > 0
+    ? ` You will still owe ${formatAmount(booking, quote.balance)}.`
+    : quote.balance < 0
+      ? ` You will be refunded ${formatAmount(booking, -quote.balance)}.`
+      : ''
+  return terms + deposit + outcome
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+interface BookingCardProps {
+  booking: Booking
+  cancelling: boolean
+  onCancel: (bookingId: string, reason?: string) => void
+  onPaid: () => void
+}
+
+// Kept outside the page so a page re-render does not remount the card and
+// drop its open dialogs, quote and payment history
+const BookingCard = ({ booking, cancelling, onCancel, onPaid }: BookingCardProps) => {
+  const item = booking.equipment || booking.brokerage
+  const reasonRef = useRef<HTMLTextAreaElement>(null)
+  const [quote, setQuote] = useState<CancellationQuote | null>(null)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [showPayments, setShowPayments] = useState(false)
+  if (!item) return null
+
+  const fetchCancellationQuote = async (open: boolean) => {
+    if (!open) return
+    setQuote(null)
+    setQuoteError(null)
+    try {
+      const response = await fetch(`/api/bookings/${booking.id}/cancel`)
+      const result = await response.json()
+      if (response.ok) {
+        setQuote(result.data)
+      } else {
+        setQuoteError(result.error || 'Failed to calculate cancellation fee')
+      }
+    } catch (error) {
+      setQuoteError('Failed to calculate cancellation fee')
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Card className="hover-glow transition-all duration-300 hover:scale-105">
+        <CardHeader className="pb-3">
+          <div className="flex justify-between items-start">
+            <div className="flex items-start gap-3">
+              <div className="relative h-16 w-16 rounded-lg overflow-hidden">
+                <Image
+                  src={item.images[0] || '/placeholder-equipment.jpg'}
+                  alt={getBookingTitle(booking)}
+                  fill
+                  className="object-cover"
+                />
+              </div>
+              <div>
+                <CardTitle className="text-lg line-clamp-1">{getBookingTitle(booking)}</CardTitle>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge variant="outline">
+                    {booking.items ? 'Equipment bundle' : booking.type === 'EQUIPMENT' ? 'Equipment' : 'Brokerage'}
+                  </Badge>
+                  {booking.contractId && <Badge variant="secondary">Contract</Badge>}
+                  <Badge className={getStatusColor(booking.status)}>
+                    <span className="flex items-center gap-1">
+                      {getStatusIcon(booking.status)}
+                      {booking.status}
+                    </span>
+                  </Badge>
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <p className="text-lg font-bold text-primary">
+                {formatAmount(booking, booking.totalPrice)}
+              </p>
+              {booking.balance && !booking.contractId && (booking.status !== 'CANCELLED' || booking.balance.balance > 0) && (
+                <p className="text-sm text-muted-foreground">
+                  {booking.balance.balance > 0
+                    ? `${formatAmount(booking, booking.balance.paid - booking.balance.refunded)} paid · ${formatAmount(booking, booking.balance.balance)} due`
+                    : booking.balance.balance < 0
+                      ? `${formatAmount(booking, -booking.balance.balance)} to be refunded`
+                      : 'Paid in full'}
+                </p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {booking.items
+                  ? `${booking.items.length} items`
+                  : formatPrice(item.price, { currency: item.currency, priceType: item.priceType })}
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              <div>
+                <p className="font-medium">Start Date</p>
+                <p className="text-muted-foreground">{formatDate(booking.startDate)}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              <div>
+                <p className="font-medium">End Date</p>
+                <p className="text-muted-foreground">{formatDate(booking.endDate)}</p>
+              </div>
+            </div>
+          </div>
+
+          {booking.delivery && (
+            <div className="flex items-start gap-2 text-sm">
+              <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+              <div>
+                <p className="font-medium">
+                  {booking.delivery.pickupWindow ? 'Delivery & pickup' : 'Delivery'} · {booking.delivery.status.replace(/_/g, ' ').toLowerCase()}
+                </p>
+                <p className="text-muted-foreground">{booking.delivery.address}</p>
+                <p className="text-muted-foreground">
+                  Drop-off {new Date(booking.delivery.deliveryWindow.start).toLocaleString()}
+                  {booking.delivery.pickupWindow && `, pickup ${new Date(booking.delivery.pickupWindow.start).toLocaleString()}`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {booking.deposit && (
+            <div className="flex items-start gap-2 text-sm">
+              <ShieldCheck className="h-4 w-4 text-muted-foreground mt-0.5" />
+              <div className="space-y-1">
+                <p className="font-medium">
+                  Security deposit {formatAmount(booking, booking.deposit.amount)} · {DEPOSIT_STATUS_LABELS[booking.deposit.status]}
+                </p>
+                {booking.inspection && (
+                  <p className="text-muted-foreground">
+                    Returned and inspected on {formatDate(booking.inspection.createdAt)}:{' '}
+                    {booking.inspection.checklist.filter(item => item.passed).length} of {booking.inspection.checklist.length} checks passed
+                    {booking.inspection.notes && ` · ${booking.inspection.notes}`}
+                  </p>
+                )}
+                {booking.damageClaims?.map(claim => (
+                  <p key={claim.id} className="text-muted-foreground">
+                    Damage: {claim.description} · {formatAmount(booking, claim.amount)}
+                  </p>
+                ))}
+                {booking.deposit.settledAt ? (
+                  <p className="text-muted-foreground">
+                    {formatAmount(booking, booking.deposit.deducted || 0)} deducted, {formatAmount(booking, booking.deposit.refunded || 0)} refunded on {formatDate(booking.deposit.settledAt)}
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground">Refunded after the return inspection, less any damage claims</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {booking.balance && !booking.contractId && (
+            <div className="flex items-start gap-2 text-sm">
+              <DollarSign className="h-4 w-4 text-muted-foreground mt-0.5" />
+              <div className="flex-1 space-y-1">
+                <button
+                  type="button"
+                  className="font-medium hover:text-primary"
+                  onClick={() => setShowPayments(!showPayments)}
+                >
+                  Payment history {showPayments ? '▴' : '▾'}
+                </button>
+                {showPayments && (
+                  <PaymentHistory bookingId={booking.id} showMinimum={booking.status === 'PENDING'} />
+                )}
+              </div>
+            </div>
+          )}
+
+          {booking.notes && (
+            <div>
+              <p className="font-medium text-sm mb-1">Your Notes</p>
+              <p className="text-sm text-muted-foreground bg-muted/30 p-2 rounded">
+                {booking.notes}
+              </p>
+            </div>
+          )}
+
+          {booking.adminNotes && (
+            <div>
+              <p className="font-medium text-sm mb-1">Admin Notes</p>
+              <p className="text-sm text-muted-foreground bg-primary/10 p-2 rounded border border-primary/20">
+                {booking.adminNotes}
+              </p>
+            </div>
+          )}
+
+          {booking.status === 'CANCELLED' && (
+            <div>
+              <p className="font-medium text-sm mb-1">
+                Cancelled {booking.cancelledByRole === 'ADMIN' ? 'by ZE Consultancy' : 'by you'}
+                {booking.cancelledAt && ` on ${formatDate(booking.cancelledAt)}`}
+              </p>
+              {booking.cancellation && (
+                <p className="text-sm text-muted-foreground mb-1">
+                  Fee: {formatAmount(booking, booking.cancellation.fee)} | Refund: {formatAmount(booking, booking.cancellation.refund)}
+                  {booking.cancellation.deposit > 0 && ` | Deposit returned: ${formatAmount(booking, booking.cancellation.deposit)}`}
+                </p>
+              )}
+              {booking.cancellationReason && (
+                <p className="text-sm text-muted-foreground bg-red-500/10 p-2 rounded border border-red-500/20">
+                  {booking.cancellationReason}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-between items-center pt-2">
+            <p className="text-xs text-muted-foreground">
+              Booked on {formatDate(booking.createdAt)}
+            </p>
+            <div className="flex gap-2">
+              <Link href={`/${booking.type.toLowerCase()}/${item.id}`}>
+                <Button variant="outline" size="sm">
+                  <Eye className="h-4 w-4 mr-1" />
+                  View Details
+                </Button>
+              </Link>
+              <a href={`/api/bookings/${booking.id}/ics`} download>
+                <Button variant="outline" size="sm">
+                  <CalendarPlus className="h-4 w-4 mr-1" />
+                  .ics
+                </Button>
+              </a>
+              {booking.status !== 'CANCELLED' && (
+                <a href={`/api/bookings/${booking.id}/invoice?format=pdf`} download>
+                  <Button variant="outline" size="sm">
+                    <FileText className="h-4 w-4 mr-1" />
+                    {booking.status === 'PENDING' ? 'Quote' : 'Invoice'}
+                  </Button>
+                </a>
+              )}
+              {!booking.contractId && (booking.status !== 'CANCELLED' || (booking.balance && booking.balance.balance > 0)) && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm">
+                      <Smartphone className="h-4 w-4 mr-1" />
+                      Pay
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Pay for Booking</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        You will get a prompt on your phone to approve the payment with your PIN.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <PaymentForm bookingId={booking.id} defaultPhoneNumber={booking.phoneNumber} onPaid={onPaid} />
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Close</AlertDialogCancel>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+              {canCancelBooking(booking) && (
+                <AlertDialog onOpenChange={fetchCancellationQuote}>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" size="sm" disabled={cancelling}>
+                      {cancelling ? (
+                        <Loader className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <X className="h-4 w-4 mr-1" />
+                      )}
+                      Cancel
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Cancel Booking</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Are you sure you want to cancel this booking? This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="text-sm rounded bg-muted/30 p-3">
+                      {quote ? (
+                        <p className={quote.tier === 'FREE' ? 'text-green-400' : 'text-yellow-400'}>
+                          {describeCancellation(booking, quote)}
+                        </p>
+                      ) : quoteError ? (
+                        <p className="text-destructive">{quoteError}</p>
+                      ) : (
+                        <p className="flex items-center gap-2 text-muted-foreground">
+                          <Loader className="h-4 w-4 animate-spin" />
+                          Calculating cancellation fee...
+                        </p>
+                      )}
+                    </div>
+                    <Textarea
+                      ref={reasonRef}
+                      placeholder="Reason for cancelling (optional)"
+                      maxLength={500}
+                      rows={3}
+                    />
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep Booking</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => onCancel(booking.id, reasonRef.current?.value)}
+                        disabled={!quote}
+                        className="bg-destructive hover:bg-destructive/90"
+                      >
+                        Cancel Booking
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  )
+}
+
 export default function BookingsPage() {
   const [bookings, setBookings] = useState<Booking[]>([])
   const [loading, setLoading] = useState(true)
   const [cancelLoading, setCancelLoading] = useState<string | null>(null)
+  const [contracts, setContracts] = useState<RentalContractWithDetails[]>([])
   const [filters, setFilters] = useState({
     status: '',
     type: ''
@@ -80,7 +499,7 @@ export default function BookingsPage() {
       const response = await fetch(`/api/bookings?${params}`)
       if (response.ok) {
         const data: BookingsResponse = await response.json()
-        setBookings(data.bookings)
+        setBookings(data.data)
         setPagination(data.pagination)
       } else if (response.status === 401) {
         toast({
@@ -88,7 +507,7 @@ export default function BookingsPage() {
           description: 'Please log in to view your bookings',
           variant: 'destructive'
         })
-        router.push('/auth/login')
+        router.push(getLoginPath())
       }
     } catch (error) {
       console.error('Error fetching bookings:', error)
@@ -106,29 +525,76 @@ export default function BookingsPage() {
     fetchBookings()
   }, [filters, pagination?.page])
 
+  const fetchContracts = async () => {
+    try {
+      const response = await fetch('/api/contracts')
+      if (response.ok) {
+        const result = await response.json()
+        setContracts(result.data || [])
+      }
+    } catch (error) {
+      console.error('Error fetching contracts:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchContracts()
+  }, [])
+
+  // Ending a contract cancels or shortens its bookings
+  const handleContractChanged = (updated: RentalContractWithDetails) => {
+    setContracts(prev => prev.map(contract => contract.id === updated.id ? updated : contract))
+    fetchBookings()
+  }
+
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
     setPagination(prev => ({ ...prev, page: 1 }))
   }
 
-  const handleCancelBooking = async (bookingId: string) => {
+  // Calendar apps subscribe to a tokenised feed that applies the current filters
+  const handleSubscribeToCalendar = async () => {
+    try {
+      const params = new URLSearchParams()
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value && value !== 'all') params.append(key, value)
+      })
+
+      const response = await fetch(`/api/calendar/subscription?${params}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+
+      await navigator.clipboard.writeText(result.data.url)
+      toast({
+        title: 'Calendar feed copied',
+        description: 'Paste the link into your calendar app to subscribe to your bookings'
+      })
+    } catch (error) {
+      console.error('Error getting calendar feed:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to get calendar feed link',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleCancelBooking = async (bookingId: string, reason?: string) => {
     try {
       setCancelLoading(bookingId)
-      const response = await fetch(`/api/bookings/${bookingId}`, {
-        method: 'PUT',
+      const response = await fetch(`/api/bookings/${bookingId}/cancel`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ action: 'cancel' })
+        body: JSON.stringify({ reason: reason?.trim() || undefined })
       })
 
       if (response.ok) {
-        const result = await response.json()
         toast({
           title: 'Success',
-          description: 'Booking cancelled and removed successfully'
+          description: 'Booking cancelled successfully'
         })
-        // Refresh the bookings list since the booking was deleted
         fetchBookings()
       } else {
         const error = await response.json()
@@ -150,186 +616,6 @@ export default function BookingsPage() {
     }
   }
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'PENDING':
-        return <Clock className="h-4 w-4" />
-      case 'CONFIRMED':
-        return <CheckCircle className="h-4 w-4" />
-      case 'COMPLETED':
-        return <CheckCircle className="h-4 w-4" />
-      default:
-        return <AlertCircle className="h-4 w-4" />
-    }
-  }
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'PENDING':
-        return 'bg-yellow-500/10 text-yellow-400 border border-yellow-500/20'
-      case 'CONFIRMED':
-        return 'bg-green-500/10 text-green-400 border border-green-500/20'
-      case 'COMPLETED':
-        return 'bg-primary/10 text-primary border border-primary/20'
-      default:
-        return 'bg-muted/50 text-muted-foreground border border-border'
-    }
-  }
-
-  const canCancelBooking = (booking: Booking) => {
-    if (!['PENDING', 'CONFIRMED'].includes(booking.status)) return false
-    
-    const now = new Date()
-    const startDate = new Date(booking.startDate)
-    const timeDiff = startDate.getTime() - now.getTime()
-    const hoursDiff = timeDiff / (1000 * 3600)
-    
-    return hoursDiff >= 24
-  }
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    })
-  }
-
-  const BookingCard = ({ booking }: { booking: Booking }) => {
-    const item = booking.equipment || booking.brokerage
-    if (!item) return null
-
-    return (
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.3 }}
-      >
-        <Card className="hover-glow transition-all duration-300 hover:scale-105">
-          <CardHeader className="pb-3">
-            <div className="flex justify-between items-start">
-              <div className="flex items-start gap-3">
-                <div className="relative h-16 w-16 rounded-lg overflow-hidden">
-                  <Image
-                    src={item.images[0] || '/placeholder-equipment.jpg'}
-                    alt={item.title}
-                    fill
-                    className="object-cover"
-                  />
-                </div>
-                <div>
-                  <CardTitle className="text-lg line-clamp-1">{item.title}</CardTitle>
-                  <div className="flex items-center gap-2 mt-1">
-                    <Badge variant="outline">
-                      {booking.type === 'EQUIPMENT' ? 'Equipment' : 'Brokerage'}
-                    </Badge>
-                    <Badge className={getStatusColor(booking.status)}>
-                      <span className="flex items-center gap-1">
-                        {getStatusIcon(booking.status)}
-                        {booking.status}
-                      </span>
-                    </Badge>
-                  </div>
-                </div>
-              </div>
-              <div className="text-right">
-                <p className="text-lg font-bold text-primary">
-                  ${booking.totalPrice.toLocaleString()}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  ${item.price}/{item.priceType.toLowerCase()}
-                </p>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="flex items-center gap-2 text-sm">
-                <Calendar className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <p className="font-medium">Start Date</p>
-                  <p className="text-muted-foreground">{formatDate(booking.startDate)}</p>
-                </div>
-              </div>
-              <div className="flex items-center gap-2 text-sm">
-                <Calendar className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <p className="font-medium">End Date</p>
-                  <p className="text-muted-foreground">{formatDate(booking.endDate)}</p>
-                </div>
-              </div>
-            </div>
-
-            {booking.notes && (
-              <div>
-                <p className="font-medium text-sm mb-1">Your Notes</p>
-                <p className="text-sm text-muted-foreground bg-muted/30 p-2 rounded">
-                  {booking.notes}
-                </p>
-              </div>
-            )}
-
-            {booking.adminNotes && (
-              <div>
-                <p className="font-medium text-sm mb-1">Admin Notes</p>
-                <p className="text-sm text-muted-foreground bg-primary/10 p-2 rounded border border-primary/20">
-                  {booking.adminNotes}
-                </p>
-              </div>
-            )}
-
-            <div className="flex justify-between items-center pt-2">
-              <p className="text-xs text-muted-foreground">
-                Booked on {formatDate(booking.createdAt)}
-              </p>
-              <div className="flex gap-2">
-                <Link href={`/${booking.type.toLowerCase()}/${item.id}`}>
-                  <Button variant="outline" size="sm">
-                    <Eye className="h-4 w-4 mr-1" />
-                    View Details
-                  </Button>
-                </Link>
-                {canCancelBooking(booking) && (
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="destructive" size="sm" disabled={cancelLoading === booking.id}>
-                        {cancelLoading === booking.id ? (
-                          <Loader className="h-4 w-4 mr-1 animate-spin" />
-                        ) : (
-                          <X className="h-4 w-4 mr-1" />
-                        )}
-                        Cancel
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Cancel Booking</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          Are you sure you want to cancel this booking? This action cannot be undone.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Keep Booking</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => handleCancelBooking(booking.id)}
-                          className="bg-destructive hover:bg-destructive/90"
-                        >
-                          Cancel Booking
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                )}
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </motion.div>
-    )
-  }
-
   const BookingSkeleton = () => (
     <Card>
       <CardHeader className="pb-3">
@@ -409,6 +695,7 @@ export default function BookingsPage() {
               <SelectItem value="PENDING">Pending</SelectItem>
               <SelectItem value="CONFIRMED">Confirmed</SelectItem>
               <SelectItem value="COMPLETED">Completed</SelectItem>
+              <SelectItem value="CANCELLED">Cancelled</SelectItem>
               </SelectContent>
             </Select>
             <Select
@@ -424,14 +711,28 @@ export default function BookingsPage() {
                 <SelectItem value="BROKERAGE">Brokerage</SelectItem>
               </SelectContent>
             </Select>
-            <div className="flex justify-end">
-              <p className="text-sm text-muted-foreground self-center">
+            <div className="flex justify-end items-center gap-3">
+              <p className="text-sm text-muted-foreground">
                 {pagination?.total || 0} total bookings
               </p>
+              <Button variant="outline" size="sm" onClick={handleSubscribeToCalendar}>
+                <CalendarPlus className="h-4 w-4 mr-1" />
+                Subscribe
+              </Button>
             </div>
           </div>
           </motion.div>
 
+          {/* Rental Contracts */}
+          {contracts.length > 0 && (
+            <div className="space-y-4 mb-8">
+              <h2 className="text-xl font-semibold">Rental Contracts</h2>
+              {contracts.map(contract => (
+                <ContractCard key={contract.id} contract={contract} onChanged={handleContractChanged} />
+              ))}
+            </div>
+          )}
+
           {/* Bookings List */}
           <motion.div
             initial={{ opacity: 0 }}
@@ -448,7 +749,13 @@ export default function BookingsPage() {
             <>
               <div className="space-y-6">
                 {bookings.map((booking) => (
-                  <BookingCard key={booking.id} booking={booking} />
+                  <BookingCard
+                    key={booking.id}
+                    booking={booking}
+                    cancelling={cancelLoading === booking.id}
+                    onCancel={handleCancelBooking}
+                    onPaid={fetchBookings}
+                  />
                 ))}
               </div>
               {/* Pagination */}
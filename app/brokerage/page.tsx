@@ -11,6 +11,10 @@ import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import Link from 'next/link'
 import Image from 'next/image'
+import { useCurrency } from '@/lib/hooks/use-currency'
+import { toBaseAmount } from '@/lib/currency'
+import { CURRENCIES, Currency } from '@/lib/constants'
+import type { CatalogResponse } from '@/lib/types'
 
 interface Brokerage {
   id: string
@@ -18,6 +22,7 @@ interface Brokerage {
   description: string
   price: number
   priceType: string
+  currency?: Currency
   images: string[]
   features: string[]
   location?: string
@@ -32,27 +37,19 @@ interface Brokerage {
   }
 }
 
+const PRICE_FILTERS = ['minPrice', 'maxPrice']
+
 interface Category {
   id: string
   name: string
   icon?: string
 }
 
-interface BrokerageResponse {
-  brokerage: Brokerage[]
-  categories: Category[]
-  pagination: {
-    page: number
-    limit: number
-    total: number
-    pages: number
-  }
-}
-
 export default function BrokeragePage() {
   const [brokerage, setBrokerage] = useState<Brokerage[]>([])
   const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
+  const { currency, rates, formatListingPrice } = useCurrency()
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
   const [filters, setFilters] = useState({
     search: '',
@@ -75,7 +72,9 @@ export default function BrokeragePage() {
       setLoading(true)
       const params = new URLSearchParams()
       Object.entries(filters).forEach(([key, value]) => {
-        if (value && value !== 'all') params.append(key, value)
+        if (!value || value === 'all') return
+        // Price filters are typed in the customer's currency but applied in US dollars
+        params.append(key, PRICE_FILTERS.includes(key) ? String(toBaseAmount(Number(value), currency, rates)) : value)
       })
       params.append('page', pagination.page.toString())
       params.append('limit', pagination.limit.toString())
@@ -83,14 +82,11 @@ export default function BrokeragePage() {
       params.append('includeBookingCount', 'true')
       const response = await fetch(`/api/brokerage?${params}`)
       if (response.ok) {
-        const apiResponse = await response.json()
+        const data: CatalogResponse<Brokerage> = await response.json()
         
-        // Extract data from the ApiResponse wrapper
-        const data = apiResponse.data
-        
-        setBrokerage(data?.brokerage || [])
-        setCategories(data?.categories || [])
-        if (data?.pagination) {
+        setBrokerage(data.data || [])
+        setCategories(data.categories || [])
+        if (data.pagination) {
           setPagination(prev => ({
             ...prev,
             ...data.pagination
@@ -109,17 +105,13 @@ export default function BrokeragePage() {
 
   useEffect(() => {
     fetchBrokerage()
-  }, [filters, pagination?.page])
+  }, [filters, pagination?.page, currency])
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
     setPagination(prev => ({ ...prev, page: 1 }))
   }
 
-  const formatPrice = (price: number, priceType: string) => {
-    return `$${price.toLocaleString()}/${priceType.toLowerCase()}`
-  }
-
   const BrokerageCard = ({ item, index }: { item: Brokerage; index: number }) => (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -156,7 +148,7 @@ export default function BrokeragePage() {
             <div className="flex items-center gap-1">
               <DollarSign className="h-4 w-4" />
               <span className="font-semibold text-primary">
-                {formatPrice(item.price, item.priceType)}
+                {formatListingPrice(item)}
               </span>
             </div>
             {item.location && (
@@ -282,13 +274,13 @@ export default function BrokeragePage() {
               onChange={(e) => handleFilterChange('location', e.target.value)}
             />
             <Input
-              placeholder="Min Price"
+              placeholder={`Min Price (${CURRENCIES.SYMBOLS[currency]})`}
               type="number"
               value={filters.minPrice}
               onChange={(e) => handleFilterChange('minPrice', e.target.value)}
             />
             <Input
-              placeholder="Max Price"
+              placeholder={`Max Price (${CURRENCIES.SYMBOLS[currency]})`}
               type="number"
               value={filters.maxPrice}
               onChange={(e) => handleFilterChange('maxPrice', e.target.value)}
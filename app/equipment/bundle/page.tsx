@@ -0,0 +1,358 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, Package, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { DatePicker, DatePickerRange } from '@/components/ui/date-picker'
+import { useToast } from '@/lib/hooks/use-toast'
+import { useBundleCart } from '@/lib/hooks/use-bundle-cart'
+import { useCurrency } from '@/lib/hooks/use-currency'
+import { DeliveryFormState, DeliveryOptions, getDeliveryQuote, initialDeliveryState, isDeliveryValid, toDeliveryRequest } from '@/components/shared/DeliveryOptions'
+import { addDeliveryFee, applyFeeRules, calculateBundlePrice, calculateDepositAmount } from '@/lib/pricing'
+import { getLoginPath, rangesOverlap } from '@/lib/utils'
+import { toBasePrice } from '@/lib/currency'
+import { BUNDLE, CATEGORY_TYPE } from '@/lib/constants'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import type { ApiResponse, AvailabilityCalendar, FeeRule, PricingRule } from '@/lib/types'
+
+interface User {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+export default function EquipmentBundlePage() {
+  const { items, removeItem, clear } = useBundleCart()
+  const [user, setUser] = useState<User | null>(null)
+  const [authLoading, setAuthLoading] = useState(true)
+  const [bookingLoading, setBookingLoading] = useState(false)
+  // Taken ranges per item; the pickers exclude dates taken for any item
+  const [unavailableRanges, setUnavailableRanges] = useState<Record<string, DatePickerRange[]>>({})
+  const [bookingData, setBookingData] = useState({
+    startDate: '',
+    endDate: '',
+    notes: '',
+    phoneNumber: ''
+  })
+  const [delivery, setDelivery] = useState<DeliveryFormState>(initialDeliveryState)
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
+  const [feeRules, setFeeRules] = useState<FeeRule[]>([])
+  const { toast } = useToast()
+  const { currency, rates, format, formatListingPrice } = useCurrency()
+  const router = useRouter()
+
+  useEffect(() => {
+    const checkAuthStatus = async () => {
+      try {
+        const response = await fetch('/api/auth/me', { cache: 'no-store' })
+        if (response.ok) {
+          const userData = await response.json()
+          setUser(userData.user)
+        }
+      } catch (error) {
+        console.error('Auth check failed:', error)
+      } finally {
+        setAuthLoading(false)
+      }
+    }
+    checkAuthStatus()
+  }, [])
+
+  // Seasonal, weekend and long-rental rules apply to each item of the bundle
+  useEffect(() => {
+    fetch('/api/pricing-rules', { cache: 'no-store' })
+      .then(response => response.json() as Promise<ApiResponse<PricingRule[]>>)
+      .then(result => setPricingRules(result.data || []))
+      .catch(error => console.error('Failed to load pricing rules:', error))
+  }, [])
+
+  // Equipment taxes and fees apply once to the whole bundle
+  useEffect(() => {
+    fetch(`/api/fee-rules?categoryType=${CATEGORY_TYPE.EQUIPMENT}`, { cache: 'no-store' })
+      .then(response => response.json() as Promise<ApiResponse<FeeRule[]>>)
+      .then(result => setFeeRules(result.data || []))
+      .catch(error => console.error('Failed to load taxes and fees:', error))
+  }, [])
+
+  const fetchAvailability = async () => {
+    const calendars = await Promise.all(items.map(async (item) => {
+      try {
+        const response = await fetch(`/api/equipment/${item.id}/availability`, { cache: 'no-store' })
+        if (!response.ok) return [item.id, []] as const
+
+        const result: ApiResponse<AvailabilityCalendar> = await response.json()
+        const ranges = [...(result.data?.booked || []), ...(result.data?.blocked || [])]
+        return [item.id, ranges.map(range => ({ start: new Date(range.startDate), end: new Date(range.endDate) }))] as const
+      } catch (error) {
+        console.error('Failed to load availability:', error)
+        return [item.id, []] as const
+      }
+    }))
+    setUnavailableRanges(Object.fromEntries(calendars))
+  }
+
+  useEffect(() => {
+    if (items.length > 0) fetchAvailability()
+  }, [items.map(item => item.id).join(',')])
+
+  const allUnavailableRanges = Object.values(unavailableRanges).flat()
+
+  // Items whose calendar clashes with the selected dates
+  const clashingItems = () => {
+    if (!bookingData.startDate || !bookingData.endDate) return []
+
+    const selection = { startDate: bookingData.startDate, endDate: bookingData.endDate }
+    return items.filter(item => (unavailableRanges[item.id] || []).some(range =>
+      rangesOverlap(selection, { startDate: range.start, endDate: range.end })
+    ))
+  }
+
+  const getBundlePrice = () => {
+    if (!bookingData.startDate || !bookingData.endDate || items.length === 0) return null
+    const price = calculateBundlePrice(items.map(item => toBasePrice(item, rates)), { startDate: bookingData.startDate, endDate: bookingData.endDate }, pricingRules)
+    const deliveryQuote = getDeliveryQuote(delivery)
+    const breakdown = deliveryQuote ? addDeliveryFee(price.breakdown, deliveryQuote) : price.breakdown
+    return { ...price, breakdown: applyFeeRules(breakdown, feeRules, CATEGORY_TYPE.EQUIPMENT) }
+  }
+
+  const isFormValid = () => {
+    return items.length >= BUNDLE.MIN_ITEMS &&
+      bookingData.startDate && bookingData.endDate && bookingData.phoneNumber &&
+      clashingItems().length === 0 && isDeliveryValid(delivery)
+  }
+
+  const handleBooking = async () => {
+    if (!user) {
+      router.push(getLoginPath())
+      return
+    }
+
+    const price = getBundlePrice()
+    if (!price || !bookingData.phoneNumber) {
+      toast({
+        title: 'Missing Information',
+        description: 'Please fill in all required fields.',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setBookingLoading(true)
+    try {
+      const response = await fetch('/api/bookings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          equipmentIds: items.map(item => item.id),
+          startDate: new Date(bookingData.startDate).toISOString(),
+          endDate: new Date(bookingData.endDate).toISOString(),
+          totalPrice: price.breakdown.total,
+          notes: bookingData.notes || undefined,
+          phoneNumber: bookingData.phoneNumber,
+          currency,
+          delivery: toDeliveryRequest(delivery, bookingData.startDate, bookingData.endDate) || undefined,
+        }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({
+          title: 'Bundle Requested',
+          description: `Your booking for ${items.length} items has been submitted. We'll contact you soon to confirm the details.`,
+        })
+        clear()
+        router.push('/bookings')
+        return
+      }
+
+      let errorMessage = result.error || result.message || 'Failed to submit booking request. Please try again.'
+      if (response.status === 409) {
+        const taken = items.find(item => item.id === result.details?.equipmentId)
+        errorMessage = `${taken ? taken.title : 'One of the items'} is no longer free on these dates. Choose different dates or remove it from the bundle.`
+        fetchAvailability()
+      }
+      toast({
+        title: 'Booking Failed',
+        description: errorMessage,
+        variant: 'destructive',
+      })
+    } catch (error) {
+      console.error('Booking error:', error)
+      toast({
+        title: 'Booking Failed',
+        description: 'An unexpected error occurred. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setBookingLoading(false)
+    }
+  }
+
+  const price = getBundlePrice()
+  const depositAmount = calculateDepositAmount(items)
+  const clashes = clashingItems()
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pt-16">
+      <div className="container mx-auto px-4 py-8">
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="mb-6"
+        >
+          <Link href="/equipment">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Equipment
+            </Button>
+          </Link>
+        </motion.div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-4">
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Package className="h-7 w-7" />
+              Your Equipment Bundle
+            </h1>
+            {items.length < BUNDLE.MIN_ITEMS && (
+              <p className="text-muted-foreground">
+                Add at least {BUNDLE.MIN_ITEMS} items from the equipment catalogue to book them together.
+              </p>
+            )}
+            {items.map(item => (
+              <Card key={item.id}>
+                <CardContent className="p-4 flex items-center gap-4">
+                  <div className="relative h-16 w-16 rounded-lg overflow-hidden shrink-0">
+                    <Image
+                      src={item.image || '/placeholder-equipment.jpg'}
+                      alt={item.title}
+                      fill
+                      className="object-cover"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <p className="font-semibold">{item.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {item.category.name} · {formatListingPrice(item)}
+                    </p>
+                    {clashes.includes(item) && (
+                      <p className="text-sm text-destructive">Already booked on the selected dates</p>
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => removeItem(item.id)} title="Remove from bundle">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="lg:col-span-1">
+            <Card className="sticky top-8">
+              <CardHeader>
+                <CardTitle>Book the Bundle</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <DatePicker
+                  id="startDate"
+                  label="Start Date"
+                  value={bookingData.startDate ? new Date(bookingData.startDate) : undefined}
+                  onChange={(date) => setBookingData(prev => ({ ...prev, startDate: date ? date.toISOString() : '' }))}
+                  minDate={new Date()}
+                  unavailableRanges={allUnavailableRanges}
+                  disabled={!user || authLoading}
+                  placeholder={!user ? "Login to select date" : "Select start date"}
+                />
+                <DatePicker
+                  id="endDate"
+                  label="End Date"
+                  value={bookingData.endDate ? new Date(bookingData.endDate) : undefined}
+                  onChange={(date) => setBookingData(prev => ({ ...prev, endDate: date ? date.toISOString() : '' }))}
+                  minDate={bookingData.startDate ? new Date(bookingData.startDate) : new Date()}
+                  unavailableRanges={allUnavailableRanges}
+                  disabled={!user || authLoading}
+                  placeholder={!user ? "Login to select date" : "Select end date"}
+                />
+
+                <div>
+                  <Label htmlFor="phoneNumber">Phone Number</Label>
+                  <Input
+                    id="phoneNumber"
+                    type="tel"
+                    value={bookingData.phoneNumber}
+                    onChange={(e) => setBookingData(prev => ({ ...prev, phoneNumber: e.target.value }))}
+                    placeholder={!user ? "Login to enter phone" : "Enter your phone number"}
+                    disabled={!user || authLoading}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="notes">Notes (Optional)</Label>
+                  <Textarea
+                    id="notes"
+                    placeholder="Site location, delivery instructions..."
+                    value={bookingData.notes}
+                    onChange={(e) => setBookingData(prev => ({ ...prev, notes: e.target.value }))}
+                    disabled={!user || authLoading}
+                    rows={3}
+                  />
+                </div>
+
+                {user && (
+                  <DeliveryOptions value={delivery} onChange={setDelivery} disabled={authLoading} />
+                )}
+
+                {price && (
+                  <div className="bg-primary/10 border border-primary/20 p-4 rounded-lg">
+                    {price.breakdown.lineItems.map((line, index) => (
+                      <div
+                        key={index}
+                        className={`flex justify-between items-center text-sm mb-2 ${line.kind === 'DISCOUNT' ? 'text-green-500' : 'text-primary/80'}`}
+                      >
+                        <span>{line.label}</span>
+                        <span>{line.included ? `incl. ${format(line.amount)}` : format(line.amount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between items-center">
+                      <span className="font-semibold text-primary">Total Price:</span>
+                      <span className="text-lg font-bold text-primary">
+                        {format(price.breakdown.total)}
+                      </span>
+                    </div>
+                    {depositAmount > 0 && (
+                      <p className="text-sm text-primary/80 mt-2">
+                        Plus a {format(depositAmount)} refundable security deposit, returned after the equipment is inspected.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <Button
+                  className="w-full"
+                  onClick={handleBooking}
+                  disabled={bookingLoading || authLoading || (!!user && !isFormValid())}
+                >
+                  {authLoading ? 'Loading...' :
+                   !user ? 'Login to Book' :
+                   bookingLoading ? 'Booking...' :
+                   `Request ${items.length} Items`}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, memo } from 'react'
 import { motion, LazyMotion, domAnimation } from 'framer-motion'
-import { Search, Filter, Grid, List, MapPin, Clock, DollarSign } from 'lucide-react'
+import { Search, Filter, Grid, List, MapPin, Clock, DollarSign, Package, Check } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
@@ -11,6 +11,11 @@ import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import Link from 'next/link'
 import Image from 'next/image'
+import { useBundleCart } from '@/lib/hooks/use-bundle-cart'
+import { useCurrency } from '@/lib/hooks/use-currency'
+import { toBaseAmount } from '@/lib/currency'
+import { BUNDLE, CURRENCIES, Currency } from '@/lib/constants'
+import type { BundleDiscountTier, CatalogResponse } from '@/lib/types'
 
 interface Equipment {
   id: string
@@ -18,6 +23,8 @@ interface Equipment {
   description: string
   price: number
   priceType: string
+  currency?: Currency
+  depositAmount?: number
   images: string[]
   features: string[]
   location?: string
@@ -32,27 +39,21 @@ interface Equipment {
   }
 }
 
+const PRICE_FILTERS = ['minPrice', 'maxPrice']
+
 interface Category {
   id: string
   name: string
   icon?: string
-}
-
-interface EquipmentResponse {
-  equipment: Equipment[]
-  categories: Category[]
-  pagination: {
-    page: number
-    limit: number
-    total: number
-    pages: number
-  }
+  bundleDiscounts?: BundleDiscountTier[]
 }
 
 export default function EquipmentPage() {
   const [equipment, setEquipment] = useState<Equipment[]>([])
   const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
+  const bundleCart = useBundleCart()
+  const { currency, rates, formatListingPrice } = useCurrency()
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
   const [filters, setFilters] = useState({
     search: '',
@@ -74,17 +75,19 @@ export default function EquipmentPage() {
       setLoading(true)
       const params = new URLSearchParams()
       Object.entries(filters).forEach(([key, value]) => {
-        if (value && value !== 'all') params.append(key, value)
+        if (!value || value === 'all') return
+        // Price filters are typed in the customer's currency but applied in US dollars
+        params.append(key, PRICE_FILTERS.includes(key) ? String(toBaseAmount(Number(value), currency, rates)) : value)
       })
       params.append('page', pagination.page.toString())
       params.append('limit', pagination.limit.toString())
 
       const response = await fetch(`/api/equipment?${params}`)
       if (response.ok) {
-        const data: EquipmentResponse = await response.json()
-        setEquipment(data.equipment)
+        const data: CatalogResponse<Equipment> = await response.json()
+        setEquipment(data.data || [])
         setCategories(data.categories)
-        setPagination(data.pagination)
+        setPagination(prev => ({ ...prev, ...data.pagination }))
       }
     } catch (error) {
       console.error('Error fetching equipment:', error)
@@ -95,15 +98,30 @@ export default function EquipmentPage() {
 
   useEffect(() => {
     fetchEquipment()
-  }, [filters, pagination.page])
+  }, [filters, pagination.page, currency])
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
     setPagination(prev => ({ ...prev, page: 1 }))
   }
 
-  const formatPrice = (price: number, priceType: string) => {
-    return `$${price.toLocaleString()}/${priceType.toLowerCase()}`
+  const toggleBundleItem = (item: Equipment) => {
+    if (bundleCart.hasItem(item.id)) {
+      bundleCart.removeItem(item.id)
+      return
+    }
+
+    const category = categories.find(category => category.id === item.category.id)
+    bundleCart.addItem({
+      id: item.id,
+      title: item.title,
+      price: item.price,
+      priceType: item.priceType,
+      currency: item.currency,
+      depositAmount: item.depositAmount,
+      image: item.images[0],
+      category: { id: item.category.id, name: item.category.name, bundleDiscounts: category?.bundleDiscounts },
+    })
   }
 
   const EquipmentCard = memo(({ item, index }: { item: Equipment; index: number }) => (
@@ -142,7 +160,7 @@ export default function EquipmentPage() {
             <div className="flex items-center gap-1">
               <DollarSign className="h-4 w-4" />
               <span className="font-semibold text-primary">
-                {formatPrice(item.price, item.priceType)}
+                {formatListingPrice(item)}
               </span>
             </div>
             {item.location && (
@@ -167,12 +185,23 @@ export default function EquipmentPage() {
             </div>
           )}
         </CardContent>
-        <CardFooter className="p-4 pt-0">
-          <Link href={`/equipment/${item.id}`} className="w-full">
+        <CardFooter className="p-4 pt-0 gap-2">
+          <Link href={`/equipment/${item.id}`} className="flex-1">
             <Button className="w-full" disabled={!item.available}>
               {item.available ? 'View Details' : 'Unavailable'}
             </Button>
           </Link>
+          {item.available && (
+            <Button
+              variant="outline"
+              size="icon"
+              title={bundleCart.hasItem(item.id) ? 'Remove from bundle' : 'Add to bundle'}
+              onClick={() => toggleBundleItem(item)}
+              disabled={!bundleCart.hasItem(item.id) && bundleCart.items.length >= BUNDLE.MAX_ITEMS}
+            >
+              {bundleCart.hasItem(item.id) ? <Check className="h-4 w-4" /> : <Package className="h-4 w-4" />}
+            </Button>
+          )}
         </CardFooter>
       </Card>
     </motion.div>
@@ -259,13 +288,13 @@ export default function EquipmentPage() {
               </SelectContent>
             </Select>
             <Input
-              placeholder="Min Price"
+              placeholder={`Min Price (${CURRENCIES.SYMBOLS[currency]})`}
               type="number"
               value={filters.minPrice}
               onChange={(e) => handleFilterChange('minPrice', e.target.value)}
             />
             <Input
-              placeholder="Max Price"
+              placeholder={`Max Price (${CURRENCIES.SYMBOLS[currency]})`}
               type="number"
               value={filters.maxPrice}
               onChange={(e) => handleFilterChange('maxPrice', e.target.value)}
@@ -374,6 +403,27 @@ export default function EquipmentPage() {
           </motion.div>
         </div>
       </section>
+
+      {bundleCart.items.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40">
+          <Card className="shadow-lg">
+            <CardContent className="p-3 flex items-center gap-4">
+              <span className="flex items-center gap-2 text-sm">
+                <Package className="h-4 w-4" />
+                {bundleCart.items.length} item{bundleCart.items.length === 1 ? '' : 's'} in your bundle
+              </span>
+              <Button variant="ghost" size="sm" onClick={bundleCart.clear}>
+                Clear
+              </Button>
+              <Link href="/equipment/bundle">
+                <Button size="sm" disabled={bundleCart.items.length < BUNDLE.MIN_ITEMS}>
+                  Book Bundle
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      )}
       </div>
     </LazyMotion>
   )
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useToast } from '@/lib/hooks/use-toast'
+import { BUNDLE } from '@/lib/constants'
+import type { BundleDiscountTier } from '@/lib/types'
+
+interface BundleDiscountEditorProps {
+  categoryId: string
+  discounts?: BundleDiscountTier[]
+  onSaved: (discounts: BundleDiscountTier[]) => void
+}
+
+const BundleDiscountEditor = ({ categoryId, discounts = [], onSaved }: BundleDiscountEditorProps) => {
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [tiers, setTiers] = useState<BundleDiscountTier[]>(discounts)
+  const { toast } = useToast()
+
+  const updateTier = (index: number, field: keyof BundleDiscountTier, value: string) => {
+    setTiers(tiers.map((tier, i) => i === index ? { ...tier, [field]: Number(value) } : tier))
+  }
+
+  const addTier = () => {
+    const largest = tiers.reduce((max, tier) => Math.max(max, tier.minItems), BUNDLE.MIN_ITEMS - 1)
+    setTiers([...tiers, { minItems: Math.min(largest + 1, BUNDLE.MAX_ITEMS), percentage: 5 }])
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/admin/categories/${categoryId}/bundle-discounts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(tiers)
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Bundle discounts updated' })
+        onSaved(result.data.bundleDiscounts || [])
+        setEditing(false)
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to update bundle discounts', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update bundle discounts', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!editing) {
+    return (
+      <div className="text-sm text-muted-foreground mb-4">
+        <p>
+          {discounts.length > 0
+            ? `Bundle discounts: ${discounts.map(tier => `${tier.percentage}% off ${tier.minItems}+ items`).join(', ')}`
+            : 'No bundle discounts'}
+        </p>
+        <Button variant="link" size="sm" className="px-0" onClick={() => { setTiers(discounts); setEditing(true) }}>
+          Edit bundle discounts
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2 mb-4">
+      {tiers.map((tier, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            min={BUNDLE.MIN_ITEMS}
+            max={BUNDLE.MAX_ITEMS}
+            value={tier.minItems}
+            onChange={(e) => updateTier(index, 'minItems', e.target.value)}
+            className="w-20"
+            aria-label="Minimum items"
+          />
+          <span>items:</span>
+          <Input
+            type="number"
+            min={1}
+            max={BUNDLE.MAX_DISCOUNT_PERCENTAGE}
+            value={tier.percentage}
+            onChange={(e) => updateTier(index, 'percentage', e.target.value)}
+            className="w-20"
+            aria-label="Discount percentage"
+          />
+          <span>% off</span>
+          <Button variant="ghost" size="sm" onClick={() => setTiers(tiers.filter((_, i) => i !== index))}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={addTier} disabled={tiers.length >= BUNDLE.MAX_ITEMS - 1}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add tier
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default BundleDiscountEditor
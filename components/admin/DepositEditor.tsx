@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useToast } from '@/lib/hooks/use-toast'
+import { DEPOSIT } from '@/lib/constants'
+
+interface DepositEditorProps {
+  equipmentId: string
+  depositAmount?: number
+  onSaved: (depositAmount: number) => void
+}
+
+const DepositEditor = ({ equipmentId, depositAmount = 0, onSaved }: DepositEditorProps) => {
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [amount, setAmount] = useState(String(depositAmount))
+  const { toast } = useToast()
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/admin/equipment/${equipmentId}/deposit`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ depositAmount: Number(amount) || 0 })
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Security deposit updated' })
+        onSaved(result.data.depositAmount || 0)
+        setEditing(false)
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to update deposit', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update deposit', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!editing) {
+    return (
+      <div className="text-sm text-muted-foreground mb-4">
+        <p>{depositAmount > 0 ? `Security deposit: $${depositAmount.toLocaleString()}` : 'No security deposit'}</p>
+        <Button variant="link" size="sm" className="px-0" onClick={() => { setAmount(String(depositAmount)); setEditing(true) }}>
+          Edit deposit
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm mb-4">
+      <span>$</span>
+      <Input
+        type="number"
+        min={0}
+        max={DEPOSIT.MAX_AMOUNT}
+        step="0.01"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        className="w-28"
+        aria-label="Deposit amount"
+      />
+      <Button size="sm" onClick={handleSave} disabled={saving}>
+        {saving ? 'Saving...' : 'Save'}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+        Cancel
+      </Button>
+    </div>
+  )
+}
+
+export default DepositEditor
@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MapPin, Phone, Truck, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/lib/hooks/use-toast'
+import { DELIVERY_STATUS, DeliveryStatus } from '@/lib/constants'
+import type { ApiResponse, DispatchDay, DispatchStop } from '@/lib/types'
+
+const STATUS_COLORS: Record<DeliveryStatus, string> = {
+  SCHEDULED: 'bg-yellow-100 text-yellow-800',
+  OUT_FOR_DELIVERY: 'bg-blue-100 text-blue-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+  PICKED_UP: 'bg-gray-100 text-gray-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+}
+
+const formatTime = (date: string) => new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+  weekday: 'long',
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC',
+})
+
+// The next step for a stop, if dispatch can take it from this board
+const nextAction = (stop: DispatchStop): { status: DeliveryStatus; label: string } | null => {
+  const { status } = stop.delivery
+  if (stop.kind === 'DELIVERY') {
+    if (status === DELIVERY_STATUS.SCHEDULED) return { status: DELIVERY_STATUS.OUT_FOR_DELIVERY, label: 'Out for Delivery' }
+    if (status === DELIVERY_STATUS.OUT_FOR_DELIVERY) return { status: DELIVERY_STATUS.DELIVERED, label: 'Mark Delivered' }
+    return null
+  }
+  return status === DELIVERY_STATUS.DELIVERED ? { status: DELIVERY_STATUS.PICKED_UP, label: 'Mark Picked Up' } : null
+}
+
+const DispatchBoard = () => {
+  const [from, setFrom] = useState(new Date().toISOString().slice(0, 10))
+  const [days, setDays] = useState<DispatchDay[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const loadSchedule = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/admin/dispatch?from=${from}`, { cache: 'no-store' })
+      const result: ApiResponse<DispatchDay[]> = await response.json()
+      if (response.ok && result.data) {
+        setDays(result.data)
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to load dispatch schedule', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load dispatch schedule', variant: 'destructive' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSchedule()
+  }, [from])
+
+  const updateStatus = async (stop: DispatchStop, status: DeliveryStatus) => {
+    setUpdating(stop.delivery.id)
+    try {
+      const response = await fetch(`/api/admin/deliveries/${stop.delivery.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        loadSchedule()
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to update delivery', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update delivery', variant: 'destructive' })
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const renderStop = (stop: DispatchStop) => {
+    const action = nextAction(stop)
+    return (
+      <div key={`${stop.kind}-${stop.delivery.id}`} className="flex justify-between items-start border border-border rounded-lg p-3">
+        <div className="space-y-1 text-sm">
+          <p className="font-semibold">
+            {formatTime(stop.window.start)} – {formatTime(stop.window.end)} · {stop.booking.title}
+          </p>
+          <p className="text-muted-foreground flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            {stop.delivery.address} ({stop.delivery.distanceKm} km)
+          </p>
+          <p className="text-muted-foreground flex items-center gap-1">
+            <Phone className="h-3 w-3" />
+            {stop.booking.customer.name} {stop.booking.phoneNumber && `· ${stop.booking.phoneNumber}`}
+          </p>
+          {stop.delivery.instructions && (
+            <p className="text-muted-foreground italic">{stop.delivery.instructions}</p>
+          )}
+          {stop.booking.status === 'PENDING' && (
+            <p className="text-yellow-500">Booking not yet confirmed</p>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <Badge className={STATUS_COLORS[stop.delivery.status]}>{stop.delivery.status.replace(/_/g, ' ')}</Badge>
+          {action && (
+            <Button size="sm" disabled={updating === stop.delivery.id} onClick={() => updateStatus(stop, action.status)}>
+              {action.label}
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div>
+          <Label htmlFor="dispatchFrom">Week from</Label>
+          <Input id="dispatchFrom" type="date" value={from} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+        </div>
+        <Button variant="outline" onClick={loadSchedule} disabled={loading}>Refresh</Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading dispatch schedule...</p>
+      ) : days.length > 0 ? days.map(day => (
+        <Card key={day.date}>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">{formatDay(day.date)}</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold flex items-center gap-2">
+                <Truck className="h-4 w-4" />
+                Deliveries ({day.deliveries.length})
+              </h4>
+              {day.deliveries.length > 0 ? day.deliveries.map(renderStop) : (
+                <p className="text-sm text-muted-foreground">No deliveries</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold flex items-center gap-2">
+                <Undo2 className="h-4 w-4" />
+                Returns ({day.returns.length})
+              </h4>
+              {day.returns.length > 0 ? day.returns.map(renderStop) : (
+                <p className="text-sm text-muted-foreground">No returns</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )) : (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <p className="text-muted-foreground">No deliveries or returns scheduled this week</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default DispatchBoard
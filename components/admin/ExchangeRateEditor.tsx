@@ -0,0 +1,104 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/lib/hooks/use-toast'
+import { CURRENCIES, CURRENCY, Currency } from '@/lib/constants'
+import type { ApiResponse, ExchangeRate, ExchangeRates } from '@/lib/types'
+
+// Every currency other than the base one has a rate to maintain
+const FOREIGN_CURRENCIES = Object.values(CURRENCY).filter(currency => currency !== CURRENCIES.BASE)
+
+const ExchangeRateEditor = () => {
+  const [rates, setRates] = useState<ExchangeRates | null>(null)
+  const [history, setHistory] = useState<ExchangeRate[]>([])
+  const [drafts, setDrafts] = useState<Partial<Record<Currency, string>>>({})
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadRates = async () => {
+    try {
+      const [current, recorded] = await Promise.all([
+        fetch('/api/exchange-rates', { cache: 'no-store' }).then(response => response.json() as Promise<ApiResponse<ExchangeRates>>),
+        fetch('/api/admin/exchange-rates', { cache: 'no-store' }).then(response => response.json() as Promise<ApiResponse<ExchangeRate[]>>),
+      ])
+      if (current.data) setRates(current.data)
+      setHistory(recorded.data || [])
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load exchange rates', variant: 'destructive' })
+    }
+  }
+
+  useEffect(() => {
+    loadRates()
+  }, [])
+
+  const handleSave = async (currency: Currency) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/exchange-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency, rate: Number(drafts[currency]) }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        setDrafts({ ...drafts, [currency]: '' })
+        loadRates()
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to update the exchange rate', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update the exchange rate', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Prices are stored in {CURRENCIES.BASE}. New bookings lock the rate in effect when they are made.
+        </p>
+        {FOREIGN_CURRENCIES.map(currency => (
+          <div key={currency} className="flex items-end gap-4">
+            <div>
+              <Label htmlFor={`rate-${currency}`}>
+                {currency} per {CURRENCIES.BASE} (now {rates ? rates[currency].toLocaleString('en-US') : '...'})
+              </Label>
+              <Input
+                id={`rate-${currency}`}
+                type="number"
+                step="0.0001"
+                min="0"
+                className="w-48"
+                value={drafts[currency] || ''}
+                onChange={(e) => setDrafts({ ...drafts, [currency]: e.target.value })}
+              />
+            </div>
+            <Button onClick={() => handleSave(currency)} disabled={saving || !(Number(drafts[currency]) > 0)}>
+              Update Rate
+            </Button>
+          </div>
+        ))}
+        {history.length > 0 && (
+          <ul className="text-sm text-muted-foreground space-y-1">
+            {history.slice(0, 10).map(entry => (
+              <li key={entry.id}>
+                {new Date(entry.createdAt).toLocaleDateString()} · 1 {CURRENCIES.BASE} = {entry.rate.toLocaleString('en-US')} {entry.currency}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ExchangeRateEditor
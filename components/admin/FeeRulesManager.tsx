@@ -0,0 +1,216 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/lib/hooks/use-toast'
+import { CATEGORY_TYPE, CategoryType, FEE_CALCULATION, FEE_RULE_KIND, FeeCalculation, FeeRuleKind } from '@/lib/constants'
+import { formatPrice } from '@/lib/utils'
+import type { ApiResponse, FeeRule } from '@/lib/types'
+
+const KIND_LABELS: Record<FeeRuleKind, string> = {
+  TAX: 'Tax',
+  FEE: 'Fee',
+}
+
+const CATEGORY_TYPE_LABELS: Record<CategoryType, string> = {
+  EQUIPMENT: 'Equipment rentals',
+  BROKERAGE: 'Brokerage services',
+}
+
+const emptyForm = {
+  name: '',
+  kind: FEE_RULE_KIND.TAX as FeeRuleKind,
+  categoryType: CATEGORY_TYPE.EQUIPMENT as CategoryType,
+  calculation: FEE_CALCULATION.PERCENTAGE as FeeCalculation,
+  amount: '',
+  inclusive: false,
+}
+
+const describeAmount = (rule: FeeRule) =>
+  rule.calculation === FEE_CALCULATION.PERCENTAGE ? `${rule.amount}%` : `${formatPrice(rule.amount)} per booking`
+
+const FeeRulesManager = () => {
+  const [rules, setRules] = useState<FeeRule[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch('/api/admin/fee-rules', { cache: 'no-store' })
+      const result: ApiResponse<FeeRule[]> = await response.json()
+      if (response.ok && result.data) setRules(result.data)
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load taxes and fees', variant: 'destructive' })
+    }
+  }
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  const send = async (url: string, method: string, body: unknown, fallback: string) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        loadRules()
+        return true
+      }
+      toast({ title: 'Error', description: result.error || fallback, variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: fallback, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const handleCreate = async () => {
+    const created = await send('/api/admin/fee-rules', 'POST', {
+      ...form,
+      name: form.name.trim(),
+      amount: Number(form.amount),
+      active: true,
+    }, 'Failed to create the tax or fee')
+    if (created) setForm(emptyForm)
+  }
+
+  const handleToggle = (rule: FeeRule) => {
+    const { id, createdAt, updatedAt, ...input } = rule
+    send(`/api/admin/fee-rules/${id}`, 'PUT', { ...input, active: !rule.active }, 'Failed to update the tax or fee')
+  }
+
+  const handleDelete = (rule: FeeRule) => {
+    if (!confirm(`Delete "${rule.name}"? Existing bookings keep their totals.`)) return
+    send(`/api/admin/fee-rules/${rule.id}`, 'DELETE', undefined, 'Failed to delete the tax or fee')
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="fee-name">Name</Label>
+              <Input
+                id="fee-name"
+                placeholder="e.g. GST or Service fee"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as FeeRuleKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Applies to</Label>
+              <Select value={form.categoryType} onValueChange={(value) => setForm({ ...form, categoryType: value as CategoryType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATEGORY_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Charged as</Label>
+              <Select value={form.calculation} onValueChange={(value) => setForm({ ...form, calculation: value as FeeCalculation })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FEE_CALCULATION.PERCENTAGE}>Percentage of the total</SelectItem>
+                  <SelectItem value={FEE_CALCULATION.FIXED}>Fixed amount per booking</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="fee-amount">{form.calculation === FEE_CALCULATION.PERCENTAGE ? 'Percentage (%)' : 'Amount (USD)'}</Label>
+              <Input
+                id="fee-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2 md:col-span-2 pt-6">
+              <Switch
+                id="fee-inclusive"
+                checked={form.inclusive}
+                onCheckedChange={(checked) => setForm({ ...form, inclusive: checked })}
+              />
+              <Label htmlFor="fee-inclusive">Already included in listed prices</Label>
+            </div>
+          </div>
+          <Button onClick={handleCreate} disabled={saving || form.name.trim().length < 2 || !(Number(form.amount) > 0)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Tax or Fee
+          </Button>
+        </CardContent>
+      </Card>
+
+      {rules.length > 0 ? rules.map(rule => (
+        <Card key={rule.id}>
+          <CardContent className="p-4 flex justify-between items-center">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <h3 className="font-semibold">{rule.name}</h3>
+                <Badge variant="outline">{KIND_LABELS[rule.kind]}</Badge>
+                {!rule.active && <Badge variant="secondary">Paused</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {describeAmount(rule)} · {CATEGORY_TYPE_LABELS[rule.categoryType]} · {rule.inclusive ? 'Included in prices' : 'Added to the total'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" disabled={saving} onClick={() => handleToggle(rule)}>
+                {rule.active ? 'Pause' : 'Resume'}
+              </Button>
+              <Button size="sm" variant="destructive" disabled={saving} onClick={() => handleDelete(rule)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )) : (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <p className="text-muted-foreground">No taxes or fees yet</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default FeeRulesManager
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState } from 'react'
+import { Camera, Check, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/lib/hooks/use-toast'
+import { DEPOSIT_STATUS, FILE_UPLOAD, INSPECTION } from '@/lib/constants'
+import type { BookingDeposit, DamageClaim, InspectionChecklistItem, ReturnInspection } from '@/lib/types'
+
+interface InspectionPanelProps {
+  bookingId: string
+  deposit: BookingDeposit
+  inspection?: ReturnInspection
+  damageClaims?: DamageClaim[]
+  onChanged?: () => void
+}
+
+const defaultChecklist = (): InspectionChecklistItem[] =>
+  INSPECTION.CHECKLIST.map(label => ({ label, passed: true }))
+
+const InspectionPanel = ({ bookingId, deposit, inspection, damageClaims = [], onChanged }: InspectionPanelProps) => {
+  const [checklist, setChecklist] = useState<InspectionChecklistItem[]>(inspection?.checklist || defaultChecklist())
+  const [photos, setPhotos] = useState<string[]>(inspection?.photos || [])
+  const [notes, setNotes] = useState(inspection?.notes || '')
+  const [claim, setClaim] = useState({ description: '', amount: '' })
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const settled = deposit.status !== DEPOSIT_STATUS.HELD
+  const claimed = damageClaims.reduce((sum, item) => sum + item.amount, 0)
+
+  // Shared by every action on the panel: send, toast the outcome, reload
+  const submit = async (url: string, method: string, body?: unknown) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        onChanged?.()
+        return true
+      }
+      toast({ title: 'Error', description: result.error || 'Request failed', variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: 'Request failed', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const updateItem = (index: number, changes: Partial<InspectionChecklistItem>) => {
+    setChecklist(checklist.map((item, i) => i === index ? { ...item, ...changes } : item))
+  }
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (!file.type.startsWith('image/') || file.size > FILE_UPLOAD.MAX_SIZE) {
+      toast({ title: 'Error', description: 'Photos must be images smaller than 5MB', variant: 'destructive' })
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const dataUrl = event.target?.result as string
+      setPhotos(prev => [...prev, dataUrl])
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const handleSaveInspection = () => submit(`/api/admin/bookings/${bookingId}/inspection`, 'PUT', {
+    checklist: checklist.map(item => ({ ...item, notes: item.notes?.trim() || undefined })),
+    photos,
+    notes: notes.trim() || undefined,
+  })
+
+  const handleAddClaim = async () => {
+    const added = await submit(`/api/admin/bookings/${bookingId}/claims`, 'POST', {
+      description: claim.description.trim(),
+      amount: Number(claim.amount),
+    })
+    if (added) setClaim({ description: '', amount: '' })
+  }
+
+  const handleSettle = () => {
+    const deducted = Math.min(deposit.amount, claimed)
+    if (!confirm(`Settle the deposit? $${deducted.toLocaleString()} will be deducted and $${(deposit.amount - deducted).toLocaleString()} refunded.`)) return
+    submit(`/api/admin/bookings/${bookingId}/deposit/settle`, 'POST')
+  }
+
+  return (
+    <div className="mt-4 border-t border-border pt-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-semibold">Return Inspection & Deposit</h4>
+        <span className="text-sm text-muted-foreground">
+          Deposit ${deposit.amount.toLocaleString()} · {deposit.status.replace(/_/g, ' ').toLowerCase()}
+        </span>
+      </div>
+
+      {settled ? (
+        <p className="text-sm text-muted-foreground">
+          Settled on {new Date(deposit.settledAt!).toLocaleDateString()}: ${deposit.deducted?.toLocaleString()} deducted, ${deposit.refunded?.toLocaleString()} refunded.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {checklist.map((item, index) => (
+              <div key={index} className="flex items-center gap-2 text-sm">
+                <Button
+                  size="sm"
+                  variant={item.passed ? 'outline' : 'destructive'}
+                  onClick={() => updateItem(index, { passed: !item.passed })}
+                  title={item.passed ? 'Mark as failed' : 'Mark as passed'}
+                >
+                  {item.passed ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                </Button>
+                <span className="w-48 shrink-0">{item.label}</span>
+                <Input
+                  placeholder="Notes"
+                  value={item.notes || ''}
+                  maxLength={500}
+                  onChange={(e) => updateItem(index, { notes: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {photos.map((photo, index) => (
+              <div key={index} className="relative">
+                <img src={photo} alt={`Inspection photo ${index + 1}`} className="w-20 h-20 object-cover rounded" />
+                <button
+                  type="button"
+                  className="absolute -top-2 -right-2 bg-destructive text-destructive-foreground rounded-full p-0.5"
+                  onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                  title="Remove photo"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {photos.length < INSPECTION.MAX_PHOTOS && (
+              <Label
+                htmlFor={`inspection-photo-${bookingId}`}
+                className="w-20 h-20 border border-dashed border-border rounded flex items-center justify-center cursor-pointer"
+                title="Add photo"
+              >
+                <Camera className="w-5 h-5 text-muted-foreground" />
+                <input id={`inspection-photo-${bookingId}`} type="file" accept="image/*" className="hidden" onChange={handlePhotoUpload} />
+              </Label>
+            )}
+          </div>
+
+          <Textarea placeholder="Inspection notes (optional)" rows={2} maxLength={2000} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <Button size="sm" onClick={handleSaveInspection} disabled={saving}>
+            {inspection ? 'Update Inspection' : 'Record Inspection'}
+          </Button>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">Damage Claims</h4>
+        {damageClaims.length > 0 ? (
+          <ul className="space-y-1">
+            {damageClaims.map(item => (
+              <li key={item.id} className="flex justify-between items-center text-sm">
+                <span>{item.description}</span>
+                <span className="flex items-center gap-2">
+                  ${item.amount.toLocaleString()}
+                  {!settled && (
+                    <Button size="sm" variant="outline" disabled={saving} onClick={() => submit(`/api/admin/bookings/${bookingId}/claims/${item.id}`, 'DELETE')}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No damage claims</p>
+        )}
+        {claimed > deposit.amount && (
+          <p className="text-sm text-yellow-500">
+            Claims exceed the deposit by ${(claimed - deposit.amount).toLocaleString()}; the difference has to be recovered separately.
+          </p>
+        )}
+
+        {!settled && (
+          <>
+            <div className="flex gap-2">
+              <Input
+                placeholder="What was damaged"
+                maxLength={500}
+                value={claim.description}
+                onChange={(e) => setClaim({ ...claim, description: e.target.value })}
+              />
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Amount"
+                className="w-32"
+                value={claim.amount}
+                onChange={(e) => setClaim({ ...claim, amount: e.target.value })}
+              />
+              <Button size="sm" variant="outline" onClick={handleAddClaim} disabled={saving || !claim.description.trim() || !claim.amount}>
+                Add Claim
+              </Button>
+            </div>
+            <Button size="sm" onClick={handleSettle} disabled={saving || !inspection}>
+              Settle Deposit
+            </Button>
+            {!inspection && (
+              <p className="text-sm text-muted-foreground">Record the inspection before settling the deposit.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default InspectionPanel
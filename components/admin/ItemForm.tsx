@@ -13,6 +13,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Switch } from '@/components/ui/switch'
 import { useToast } from '@/lib/hooks/use-toast'
+import { getLoginPath } from '@/lib/utils'
+import { CURRENCIES, CURRENCY } from '@/lib/constants'
 
 interface Category {
   id: string
@@ -41,6 +43,8 @@ const ItemForm = ({ type }: ItemFormProps) => {
     description: '',
     price: '',
     priceType: type === 'EQUIPMENT' ? 'DAILY' : 'FIXED',
+    currency: CURRENCIES.BASE as string,
+    depositAmount: '',
     categoryId: '',
     location: '',
     available: true,
@@ -75,11 +79,11 @@ const ItemForm = ({ type }: ItemFormProps) => {
         }
         setUser(data.user)
       } else {
-        router.push('/auth/login')
+        router.push(getLoginPath())
       }
     } catch (error) {
       console.error('Error checking auth:', error)
-      router.push('/auth/login')
+      router.push(getLoginPath())
     } finally {
       setLoading(false)
     }
@@ -106,7 +110,8 @@ const ItemForm = ({ type }: ItemFormProps) => {
       // Prepare form data based on type
       const submitData = {
         ...formData,
-        price: parseFloat(formData.price)
+        price: parseFloat(formData.price),
+        depositAmount: isEquipment && formData.depositAmount ? parseFloat(formData.depositAmount) : undefined
       }
 
       // Remove contactInfo for equipment
@@ -133,6 +138,8 @@ const ItemForm = ({ type }: ItemFormProps) => {
           description: '',
           price: '',
           priceType: type === 'EQUIPMENT' ? 'DAILY' : 'FIXED',
+          currency: CURRENCIES.BASE,
+          depositAmount: '',
           categoryId: '',
           location: '',
           available: true,
@@ -340,6 +347,37 @@ const ItemForm = ({ type }: ItemFormProps) => {
                     </Select>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="currency">Currency *</Label>
+                    <Select value={formData.currency} onValueChange={(value) => handleInputChange('currency', value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(CURRENCY).map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency} ({CURRENCIES.SYMBOLS[currency]})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {isEquipment && (
+                    <div className="space-y-2">
+                      <Label htmlFor="depositAmount">Security Deposit ({CURRENCIES.BASE})</Label>
+                      <Input
+                        id="depositAmount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.depositAmount}
+                        onChange={(e) => handleInputChange('depositAmount', e.target.value)}
+                        placeholder="No deposit"
+                      />
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="location">Location *</Label>
                     <Input
@@ -0,0 +1,176 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/lib/hooks/use-toast'
+import { LEDGER_ENTRY_KIND, LedgerEntryKind } from '@/lib/constants'
+import { formatPrice } from '@/lib/utils'
+import type { ApiResponse, BookingLedger } from '@/lib/types'
+
+interface LedgerPanelProps {
+  bookingId: string
+  onChanged?: () => void
+}
+
+const KIND_LABELS: Record<LedgerEntryKind, string> = {
+  CHARGE: 'Extra charge',
+  PAYMENT: 'Payment received',
+  REFUND: 'Refund paid out',
+  ADJUSTMENT: 'Adjustment',
+}
+
+const emptyForm = {
+  kind: LEDGER_ENTRY_KIND.PAYMENT as LedgerEntryKind,
+  amount: '',
+  description: '',
+}
+
+const LedgerPanel = ({ bookingId, onChanged }: LedgerPanelProps) => {
+  const [ledger, setLedger] = useState<BookingLedger | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadLedger = async () => {
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/ledger`, { cache: 'no-store' })
+      const result: ApiResponse<BookingLedger> = await response.json()
+      if (response.ok && result.data) setLedger(result.data)
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load the ledger', variant: 'destructive' })
+    }
+  }
+
+  useEffect(() => {
+    loadLedger()
+  }, [bookingId])
+
+  const submit = async (url: string, body: unknown, fallback: string) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        loadLedger()
+        onChanged?.()
+        return true
+      }
+      toast({ title: 'Error', description: result.error || fallback, variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: fallback, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const handleAddEntry = async () => {
+    const added = await submit(`/api/admin/bookings/${bookingId}/ledger`, {
+      kind: form.kind,
+      amount: Number(form.amount),
+      description: form.description.trim(),
+    }, 'Failed to record the entry')
+    if (added) setForm(emptyForm)
+  }
+
+  const handleRefund = (paymentId: string) => {
+    if (!confirm('Refund what is left of this payment to the customer\'s mobile money account?')) return
+    submit(`/api/admin/payments/${paymentId}/refund`, {}, 'Failed to refund the payment')
+  }
+
+  if (!ledger) {
+    return <p className="mt-4 text-sm text-muted-foreground">Loading ledger...</p>
+  }
+
+  const { summary } = ledger
+
+  return (
+    <div className="mt-4 border-t border-border pt-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-semibold">Payment Ledger</h4>
+        <span className="text-sm text-muted-foreground">
+          Charged {formatPrice(summary.charged)} · Paid {formatPrice(summary.paid - summary.refunded)} · Due {formatPrice(summary.balance)}
+        </span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th className="font-normal py-1">Date</th>
+            <th className="font-normal py-1">Entry</th>
+            <th className="font-normal py-1 text-right">Amount</th>
+            <th className="font-normal py-1 text-right">Balance</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {ledger.entries.map(entry => (
+            <tr key={entry.id} className="border-t border-border">
+              <td className="py-1">{new Date(entry.createdAt).toLocaleDateString()}</td>
+              <td className="py-1">{KIND_LABELS[entry.kind]} · {entry.description}</td>
+              <td className="py-1 text-right">
+                {formatPrice(entry.kind === LEDGER_ENTRY_KIND.PAYMENT ? -entry.amount : entry.amount)}
+              </td>
+              <td className="py-1 text-right">{formatPrice(entry.runningBalance)}</td>
+              <td className="py-1 text-right">
+                {entry.kind === LEDGER_ENTRY_KIND.PAYMENT && entry.paymentId && (
+                  <Button size="sm" variant="outline" disabled={saving} onClick={() => handleRefund(entry.paymentId!)}>
+                    Refund
+                  </Button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {ledger.entries.length === 0 && (
+        <p className="text-sm text-muted-foreground">No payments recorded yet</p>
+      )}
+      {summary.paid - summary.refunded < ledger.minimumPayment && (
+        <p className="text-sm text-yellow-500">
+          {formatPrice(ledger.minimumPayment)} must be paid before the booking can be confirmed.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as LedgerEntryKind })}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(KIND_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          step="0.01"
+          placeholder="Amount"
+          className="w-32"
+          value={form.amount}
+          onChange={(e) => setForm({ ...form, amount: e.target.value })}
+        />
+        <Input
+          placeholder="e.g. Cash at the depot"
+          maxLength={200}
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+        />
+        <Button size="sm" onClick={handleAddEntry} disabled={saving || !form.amount || form.description.trim().length < 3}>
+          Record
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default LedgerPanel
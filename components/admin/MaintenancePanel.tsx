@@ -0,0 +1,176 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/lib/hooks/use-toast'
+import { MAINTENANCE_TYPE, MaintenanceType } from '@/lib/constants'
+import type { ApiResponse, EquipmentMaintenance } from '@/lib/types'
+
+interface MaintenancePanelProps {
+  equipmentId: string
+  onChanged?: () => void
+}
+
+const SERVICE_TYPE_LABELS: Record<MaintenanceType, string> = {
+  ROUTINE_SERVICE: 'Routine service',
+  REPAIR: 'Repair',
+  INSPECTION: 'Inspection',
+}
+
+const emptyForm = {
+  serviceType: MAINTENANCE_TYPE.ROUTINE_SERVICE as MaintenanceType,
+  startDate: '',
+  endDate: '',
+  cost: '',
+  nextDueDays: '',
+  nextDueHours: '',
+  notes: '',
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString()
+
+const MaintenancePanel = ({ equipmentId, onChanged }: MaintenancePanelProps) => {
+  const [records, setRecords] = useState<EquipmentMaintenance[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadRecords = async () => {
+    try {
+      const response = await fetch(`/api/admin/equipment/${equipmentId}/maintenance`, { cache: 'no-store' })
+      const result: ApiResponse<EquipmentMaintenance[]> = await response.json()
+      if (response.ok && result.data) setRecords(result.data)
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load maintenance records', variant: 'destructive' })
+    }
+  }
+
+  useEffect(() => {
+    loadRecords()
+  }, [equipmentId])
+
+  const handleSchedule = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/admin/equipment/${equipmentId}/maintenance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          serviceType: form.serviceType,
+          startDate: new Date(form.startDate).toISOString(),
+          endDate: new Date(form.endDate).toISOString(),
+          cost: Number(form.cost) || 0,
+          notes: form.notes.trim() || undefined,
+          nextDueDays: form.nextDueDays ? Number(form.nextDueDays) : undefined,
+          nextDueHours: form.nextDueHours ? Number(form.nextDueHours) : undefined,
+        }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        setForm(emptyForm)
+        loadRecords()
+        onChanged?.()
+      } else {
+        const description = response.status === 409
+          ? 'The item is booked during this window. Pick dates around the existing bookings.'
+          : result.error || 'Failed to schedule maintenance'
+        toast({ title: 'Error', description, variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to schedule maintenance', variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/equipment/${equipmentId}/maintenance/${id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        loadRecords()
+        onChanged?.()
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to remove maintenance', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to remove maintenance', variant: 'destructive' })
+    }
+  }
+
+  const now = new Date()
+
+  return (
+    <div className="mt-4 border-t border-border pt-4 space-y-4">
+      <h4 className="text-sm font-semibold">Maintenance</h4>
+      {records.length > 0 ? (
+        <ul className="space-y-2">
+          {records.map(record => (
+            <li key={record.id} className="flex justify-between items-start text-sm">
+              <div>
+                <p className="font-medium">
+                  {SERVICE_TYPE_LABELS[record.serviceType]} · {formatDate(record.startDate)} – {formatDate(record.endDate)}
+                </p>
+                <p className="text-muted-foreground">
+                  ${record.cost.toLocaleString()}
+                  {record.nextDueDate && ` · next by ${formatDate(record.nextDueDate)}`}
+                  {record.nextDueHours && ` · next after ${record.nextDueHours}h rented`}
+                </p>
+                {record.notes && <p className="text-muted-foreground italic">{record.notes}</p>}
+              </div>
+              {new Date(record.startDate) > now && (
+                <Button size="sm" variant="outline" onClick={() => handleRemove(record.id)} title="Remove planned maintenance">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No maintenance recorded</p>
+      )}
+
+      <div className="space-y-2">
+        <Select value={form.serviceType} onValueChange={(value) => setForm({ ...form, serviceType: value as MaintenanceType })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SERVICE_TYPE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor={`maintenance-start-${equipmentId}`}>From</Label>
+            <Input id={`maintenance-start-${equipmentId}`} type="datetime-local" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor={`maintenance-end-${equipmentId}`}>To</Label>
+            <Input id={`maintenance-end-${equipmentId}`} type="datetime-local" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <Input type="number" min={0} placeholder="Cost" value={form.cost} onChange={(e) => setForm({ ...form, cost: e.target.value })} />
+          <Input type="number" min={1} placeholder="Next in days" value={form.nextDueDays} onChange={(e) => setForm({ ...form, nextDueDays: e.target.value })} />
+          <Input type="number" min={1} placeholder="Next in hours" value={form.nextDueHours} onChange={(e) => setForm({ ...form, nextDueHours: e.target.value })} />
+        </div>
+        <Textarea placeholder="Notes (optional)" rows={2} maxLength={1000} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+        <Button size="sm" onClick={handleSchedule} disabled={saving || !form.startDate || !form.endDate}>
+          {saving ? 'Saving...' : 'Record Maintenance'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default MaintenancePanel
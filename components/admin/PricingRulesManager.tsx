@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/lib/hooks/use-toast'
+import { PRICING_RULE_KIND, PricingRuleKind } from '@/lib/constants'
+import type { ApiResponse, PricingRule } from '@/lib/types'
+
+interface ScopeOption {
+  id: string
+  name: string
+}
+
+interface PricingRulesManagerProps {
+  categories: ScopeOption[]
+  equipment: ScopeOption[]
+  brokerage: ScopeOption[]
+}
+
+const KIND_LABELS: Record<PricingRuleKind, string> = {
+  SEASONAL: 'Seasonal',
+  WEEKEND: 'Weekend',
+  LONG_DURATION: 'Long rental',
+  PROMO_CODE: 'Promo code',
+}
+
+const emptyForm = {
+  name: '',
+  kind: PRICING_RULE_KIND.SEASONAL as PricingRuleKind,
+  percentage: '',
+  // 'ALL', or '<categoryId|equipmentId|brokerageId>:<id>'
+  scope: 'ALL',
+  startDate: '',
+  endDate: '',
+  minDays: '',
+  code: '',
+}
+
+// Dates are whole UTC days, matching how rules are applied
+const toStartOfDay = (date: string) => date ? `${date}T00:00:00.000Z` : undefined
+const toEndOfDay = (date: string) => date ? `${date}T23:59:59.999Z` : undefined
+const formatDay = (date: string) => new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+const PricingRulesManager = ({ categories, equipment, brokerage }: PricingRulesManagerProps) => {
+  const [rules, setRules] = useState<PricingRule[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch('/api/admin/pricing-rules', { cache: 'no-store' })
+      const result: ApiResponse<PricingRule[]> = await response.json()
+      if (response.ok && result.data) setRules(result.data)
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load pricing rules', variant: 'destructive' })
+    }
+  }
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  const send = async (url: string, method: string, body: unknown, fallback: string) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({ title: 'Success', description: result.message })
+        loadRules()
+        return true
+      }
+      toast({ title: 'Error', description: result.error || fallback, variant: 'destructive' })
+    } catch (error) {
+      toast({ title: 'Error', description: fallback, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const handleCreate = async () => {
+    const [scopeField, scopeId] = form.scope.split(':')
+    const created = await send('/api/admin/pricing-rules', 'POST', {
+      name: form.name.trim(),
+      kind: form.kind,
+      percentage: Number(form.percentage),
+      ...(scopeId && { [scopeField]: scopeId }),
+      startDate: toStartOfDay(form.startDate),
+      endDate: toEndOfDay(form.endDate),
+      minDays: form.minDays ? Number(form.minDays) : undefined,
+      code: form.code.trim() || undefined,
+      active: true,
+    }, 'Failed to create the pricing rule')
+    if (created) setForm(emptyForm)
+  }
+
+  const handleToggle = (rule: PricingRule) => {
+    const { id, createdAt, updatedAt, ...input } = rule
+    send(`/api/admin/pricing-rules/${id}`, 'PUT', { ...input, active: !rule.active }, 'Failed to update the pricing rule')
+  }
+
+  const handleDelete = (rule: PricingRule) => {
+    if (!confirm(`Delete "${rule.name}"? Existing bookings keep their prices.`)) return
+    send(`/api/admin/pricing-rules/${rule.id}`, 'DELETE', undefined, 'Failed to delete the pricing rule')
+  }
+
+  const describeScope = (rule: PricingRule) => {
+    if (rule.equipmentId) return equipment.find(item => item.id === rule.equipmentId)?.name || 'One equipment item'
+    if (rule.brokerageId) return brokerage.find(item => item.id === rule.brokerageId)?.name || 'One brokerage service'
+    if (rule.categoryId) return `${categories.find(category => category.id === rule.categoryId)?.name || 'One'} category`
+    return 'Everything'
+  }
+
+  const describeCondition = (rule: PricingRule) => {
+    switch (rule.kind) {
+      case PRICING_RULE_KIND.SEASONAL:
+        return `${formatDay(rule.startDate!)} – ${formatDay(rule.endDate!)}`
+      case PRICING_RULE_KIND.WEEKEND:
+        return 'Saturdays and Sundays'
+      case PRICING_RULE_KIND.LONG_DURATION:
+        return `Rentals of ${rule.minDays}+ days`
+      case PRICING_RULE_KIND.PROMO_CODE:
+        return [
+          `Code ${rule.code}`,
+          rule.startDate && `from ${formatDay(rule.startDate)}`,
+          rule.endDate && `until ${formatDay(rule.endDate)}`,
+        ].filter(Boolean).join(' ')
+    }
+  }
+
+  const isDated = form.kind === PRICING_RULE_KIND.SEASONAL || form.kind === PRICING_RULE_KIND.PROMO_CODE
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="e.g. Rainy season discount"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as PricingRuleKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="rule-percentage">Adjustment (%)</Label>
+              <Input
+                id="rule-percentage"
+                type="number"
+                placeholder="-10 for 10% off"
+                value={form.percentage}
+                onChange={(e) => setForm({ ...form, percentage: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label>Applies to</Label>
+              <Select value={form.scope} onValueChange={(value) => setForm({ ...form, scope: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Everything</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={`categoryId:${category.id}`}>Category: {category.name}</SelectItem>
+                  ))}
+                  {equipment.map(item => (
+                    <SelectItem key={item.id} value={`equipmentId:${item.id}`}>Equipment: {item.name}</SelectItem>
+                  ))}
+                  {brokerage.map(item => (
+                    <SelectItem key={item.id} value={`brokerageId:${item.id}`}>Brokerage: {item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isDated && (
+              <>
+                <div>
+                  <Label htmlFor="rule-start">{form.kind === PRICING_RULE_KIND.SEASONAL ? 'Season starts' : 'Valid from (optional)'}</Label>
+                  <Input id="rule-start" type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="rule-end">{form.kind === PRICING_RULE_KIND.SEASONAL ? 'Season ends' : 'Valid until (optional)'}</Label>
+                  <Input id="rule-end" type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
+                </div>
+              </>
+            )}
+            {form.kind === PRICING_RULE_KIND.LONG_DURATION && (
+              <div>
+                <Label htmlFor="rule-min-days">Minimum rental (days)</Label>
+                <Input id="rule-min-days" type="number" min={1} value={form.minDays} onChange={(e) => setForm({ ...form, minDays: e.target.value })} />
+              </div>
+            )}
+            {form.kind === PRICING_RULE_KIND.PROMO_CODE && (
+              <div>
+                <Label htmlFor="rule-code">Code</Label>
+                <Input
+                  id="rule-code"
+                  placeholder="SUMMER25"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                />
+              </div>
+            )}
+          </div>
+          <Button onClick={handleCreate} disabled={saving || form.name.trim().length < 3 || !form.percentage}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardContent>
+      </Card>
+
+      {rules.length > 0 ? rules.map(rule => (
+        <Card key={rule.id}>
+          <CardContent className="p-4 flex justify-between items-center">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <h3 className="font-semibold">{rule.name}</h3>
+                <Badge variant="outline">{KIND_LABELS[rule.kind]}</Badge>
+                {!rule.active && <Badge variant="secondary">Paused</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                <span className={rule.percentage < 0 ? 'text-green-400' : 'text-yellow-400'}>
+                  {rule.percentage > 0 ? '+' : ''}{rule.percentage}%
+                </span>
+                {' '}· {describeScope(rule)} · {describeCondition(rule)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" disabled={saving} onClick={() => handleToggle(rule)}>
+                {rule.active ? 'Pause' : 'Resume'}
+              </Button>
+              <Button size="sm" variant="destructive" disabled={saving} onClick={() => handleDelete(rule)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )) : (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <p className="text-muted-foreground">No pricing rules yet</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default PricingRulesManager
@@ -2,10 +2,12 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { useRouter } from 'next/navigation'
+import { usePathname, useRouter } from 'next/navigation'
 import { Menu, X, User, LogOut } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useToast } from '@/lib/hooks/use-toast'
+import { getLoginPath } from '@/lib/utils'
+import { CurrencySwitcher } from '@/components/shared/CurrencySwitcher'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,7 +36,12 @@ export function Navbar() {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
+  const pathname = usePathname()
   const { toast } = useToast()
+  // Signing in from the auth pages themselves goes home afterwards
+  const returnTo = pathname.startsWith('/auth') ? '/' : pathname
+  const loginPath = getLoginPath(returnTo)
+  const registerPath = `/auth/register?returnTo=${encodeURIComponent(returnTo)}`
 
   useEffect(() => {
     checkAuthStatus()
@@ -139,6 +146,7 @@ export function Navbar() {
 
           {/* Auth Buttons */}
           <div className="hidden md:flex items-center space-x-4">
+            <CurrencySwitcher />
             {!isLoading && (
               user ? (
                 <DropdownMenu>
@@ -175,12 +183,12 @@ export function Navbar() {
                 </DropdownMenu>
               ) : (
                 <>
-                  {/* <Button variant="ghost" size="sm" asChild>
-                    <Link href="/auth/login"></Link>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={loginPath}>Login</Link>
                   </Button>
                   <Button size="sm" asChild>
-                    <Link href="/auth/register"></Link>
-                  </Button> */}
+                    <Link href={registerPath}>Sign Up</Link>
+                  </Button>
                 </>
               )
             )}
@@ -212,6 +220,7 @@ export function Navbar() {
                   {item.name}
                 </Link>
               ))}
+              <CurrencySwitcher className="w-full" />
               <div className="flex flex-col space-y-2 pt-4 border-t border-white/10">
                 {!isLoading && (
                   user ? (
@@ -243,10 +252,10 @@ export function Navbar() {
                   ) : (
                     <>
                       <Button variant="ghost" size="sm" asChild>
-                        <Link href="/auth/login" onClick={() => setIsOpen(false)}>Login</Link>
+                        <Link href={loginPath} onClick={() => setIsOpen(false)}>Login</Link>
                       </Button>
                       <Button size="sm" asChild>
-                        <Link href="/auth/register" onClick={() => setIsOpen(false)}>Sign Up</Link>
+                        <Link href={registerPath} onClick={() => setIsOpen(false)}>Sign Up</Link>
                       </Button>
                     </>
                   )
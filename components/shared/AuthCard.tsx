@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface AuthCardProps {
+  title: string
+  description: ReactNode
+  children: ReactNode
+  footer?: ReactNode
+}
+
+export function AuthCard({ title, description, children, footer }: AuthCardProps) {
+  return (
+    <div className="min-h-screen pt-16 flex items-center justify-center px-4 bg-gradient-to-br from-background via-background to-muted/30">
+      <Card className="glass-effect w-full max-w-md my-12">
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent>{children}</CardContent>
+        {footer && (
+          <CardFooter className="flex flex-col gap-2 text-sm text-muted-foreground">{footer}</CardFooter>
+        )}
+      </Card>
+    </div>
+  )
+}
+
+export function FieldError({ message }: { message?: string }) {
+  if (!message) return null
+  return <p className="mt-1 text-sm text-red-400">{message}</p>
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Repeat, ChevronDown, ChevronUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { ApiResponse, RentalContractWithDetails } from '@/lib/types'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const STATUS_COLORS: Record<RentalContractWithDetails['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  ACTIVE: 'bg-green-100 text-green-800',
+  TERMINATED: 'bg-gray-100 text-gray-800',
+}
+
+interface ContractCardProps {
+  contract: RentalContractWithDetails
+  isAdmin?: boolean
+  onChanged: (contract: RentalContractWithDetails) => void
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+})
+
+const describeSchedule = (contract: RentalContractWithDetails) => {
+  if (!contract.recurrence) return 'Continuous rental'
+  const { daysOfWeek, startTime, durationHours } = contract.recurrence
+  return `${daysOfWeek.map(day => WEEKDAYS[day]).join(', ')} from ${startTime} UTC for ${durationHours}h`
+}
+
+export function ContractCard({ contract, isAdmin = false, onChanged }: ContractCardProps) {
+  const [showBilling, setShowBilling] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [terminationDate, setTerminationDate] = useState(new Date().toISOString().slice(0, 10))
+  const reasonRef = useRef<HTMLTextAreaElement>(null)
+  const { toast } = useToast()
+
+  const runAction = async (url: string, body?: object) => {
+    setLoading(true)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      })
+      const result: ApiResponse<RentalContractWithDetails> = await response.json()
+
+      if (response.ok && result.data) {
+        toast({ title: 'Success', description: result.message })
+        onChanged(result.data)
+      } else {
+        toast({ title: 'Error', description: result.error || result.message || 'Failed to update contract', variant: 'destructive' })
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update contract', variant: 'destructive' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleTerminate = () => runAction(`/api/contracts/${contract.id}/terminate`, {
+    terminationDate: new Date(terminationDate).toISOString(),
+    reason: reasonRef.current?.value.trim() || undefined,
+  })
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Repeat className="h-4 w-4" />
+              {contract.item?.title || 'Rental contract'}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {formatDate(contract.startDate)} – {formatDate(contract.terminationDate || contract.endDate)} · {describeSchedule(contract)}
+            </p>
+            {isAdmin && contract.user && (
+              <p className="text-sm text-muted-foreground">{contract.user.name} ({contract.user.email})</p>
+            )}
+          </div>
+          <div className="text-right space-y-1">
+            <Badge className={STATUS_COLORS[contract.status]}>{contract.status}</Badge>
+            <p className="text-lg font-bold text-primary">${contract.total.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">
+              {contract.bookingCount} periods · billed {contract.billingCycle.toLowerCase()}
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {contract.status === 'TERMINATED' && contract.terminationReason && (
+          <p className="text-sm text-muted-foreground">Terminated: {contract.terminationReason}</p>
+        )}
+
+        <Button variant="ghost" size="sm" className="px-0" onClick={() => setShowBilling(!showBilling)}>
+          {showBilling ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+          Billing schedule
+        </Button>
+        {showBilling && (
+          <div className="text-sm space-y-1">
+            {contract.billingEntries.map(entry => (
+              <div key={entry.id} className={`flex justify-between ${entry.status === 'VOIDED' ? 'line-through text-muted-foreground' : ''}`}>
+                <span>{formatDate(entry.periodStart)} – {formatDate(entry.periodEnd)}</span>
+                <span>${entry.amount.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          {isAdmin && contract.status === 'PENDING' && (
+            <Button size="sm" disabled={loading} onClick={() => runAction(`/api/admin/contracts/${contract.id}/activate`)}>
+              Activate
+            </Button>
+          )}
+          {contract.status !== 'TERMINATED' && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={loading}>
+                  End Early
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>End Rental Contract</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Rentals from the termination date on are cancelled and billing stops at that date.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <div className="space-y-3">
+                  <div>
+                    <Label htmlFor={`termination-${contract.id}`}>Termination date</Label>
+                    <Input
+                      id={`termination-${contract.id}`}
+                      type="date"
+                      value={terminationDate}
+                      onChange={(e) => setTerminationDate(e.target.value)}
+                    />
+                  </div>
+                  <Textarea ref={reasonRef} placeholder="Reason (optional)" rows={3} maxLength={500} />
+                </div>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Keep Contract</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleTerminate}>End Contract</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useState } from 'react'
+import { Repeat } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { DatePicker } from '@/components/ui/date-picker'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/lib/hooks/use-toast'
+import { BILLING_CYCLE, BillingCycle } from '@/lib/constants'
+import type { ApiResponse, RentalContractWithDetails } from '@/lib/types'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+interface ContractFormProps {
+  itemId: string
+  type: 'equipment' | 'brokerage'
+  phoneNumber: string
+  notes: string
+  onCreated?: (contract: RentalContractWithDetails) => void
+}
+
+// Long-term lease or recurring rental, e.g. a generator every weekday
+export function ContractForm({ itemId, type, phoneNumber, notes, onCreated }: ContractFormProps) {
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>(BILLING_CYCLE.MONTHLY)
+  const [recurring, setRecurring] = useState(false)
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([1, 2, 3, 4, 5])
+  const [startTime, setStartTime] = useState('08:00')
+  const [durationHours, setDurationHours] = useState('8')
+  const [submitting, setSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek(days => days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort())
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/contracts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          [type === 'equipment' ? 'equipmentId' : 'brokerageId']: itemId,
+          startDate: new Date(startDate).toISOString(),
+          endDate: new Date(endDate).toISOString(),
+          billingCycle,
+          ...(recurring && {
+            recurrence: { daysOfWeek, startTime, durationHours: Number(durationHours) },
+          }),
+          notes: notes || undefined,
+          phoneNumber: phoneNumber || undefined,
+        }),
+      })
+      const result: ApiResponse<RentalContractWithDetails> = await response.json()
+
+      if (response.ok && result.data) {
+        toast({
+          title: 'Contract Requested',
+          description: `${result.data.bookingCount} rental periods reserved, billed ${billingCycle.toLowerCase()} for a total of $${result.data.total.toLocaleString()}.`,
+        })
+        onCreated?.(result.data)
+      } else {
+        toast({
+          title: 'Contract Failed',
+          description: result.error || result.message || 'Failed to create the contract. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Contract error:', error)
+      toast({
+        title: 'Contract Failed',
+        description: 'An unexpected error occurred. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 border border-border rounded-lg p-4">
+      <p className="flex items-center gap-2 font-semibold">
+        <Repeat className="h-4 w-4" />
+        Rental Contract
+      </p>
+      <DatePicker
+        id="contractStartDate"
+        label="Contract Start"
+        value={startDate ? new Date(startDate) : undefined}
+        onChange={(date) => setStartDate(date ? date.toISOString() : '')}
+        minDate={new Date()}
+        placeholder="Select start date"
+      />
+      <DatePicker
+        id="contractEndDate"
+        label="Contract End"
+        value={endDate ? new Date(endDate) : undefined}
+        onChange={(date) => setEndDate(date ? date.toISOString() : '')}
+        minDate={startDate ? new Date(startDate) : new Date()}
+        placeholder="Select end date"
+      />
+      <div>
+        <Label>Billing</Label>
+        <Select value={billingCycle} onValueChange={(value) => setBillingCycle(value as BillingCycle)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BILLING_CYCLE.WEEKLY}>Weekly</SelectItem>
+            <SelectItem value={BILLING_CYCLE.MONTHLY}>Monthly (every 30 days)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="recurring">Only on certain days</Label>
+        <Switch id="recurring" checked={recurring} onCheckedChange={setRecurring} />
+      </div>
+      {recurring && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {WEEKDAYS.map((label, day) => (
+              <Button
+                key={day}
+                type="button"
+                size="sm"
+                variant={daysOfWeek.includes(day) ? 'default' : 'outline'}
+                onClick={() => toggleDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="contractStartTime">From (UTC)</Label>
+              <Input id="contractStartTime" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="contractHours">Hours</Label>
+              <Input id="contractHours" type="number" min={1} max={24} value={durationHours} onChange={(e) => setDurationHours(e.target.value)} />
+            </div>
+          </div>
+        </div>
+      )}
+      <Button
+        className="w-full"
+        onClick={handleSubmit}
+        disabled={submitting || !startDate || !endDate || (recurring && daysOfWeek.length === 0)}
+      >
+        {submitting ? 'Requesting...' : 'Request Contract'}
+      </Button>
+    </div>
+  )
+}
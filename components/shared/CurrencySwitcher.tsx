@@ -0,0 +1,28 @@
+'use client'
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CURRENCIES, CURRENCY, Currency } from '@/lib/constants'
+import { useCurrency } from '@/lib/hooks/use-currency'
+
+interface CurrencySwitcherProps {
+  className?: string
+}
+
+export function CurrencySwitcher({ className }: CurrencySwitcherProps) {
+  const { currency, setCurrency } = useCurrency()
+
+  return (
+    <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+      <SelectTrigger className={className || 'w-24 h-9'} aria-label="Currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(CURRENCY).map(option => (
+          <SelectItem key={option} value={option}>
+            {CURRENCIES.SYMBOLS[option]} {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { Truck, LocateFixed } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/lib/hooks/use-toast'
+import { calculateDeliveryFee, DeliveryQuote } from '@/lib/pricing'
+import { DELIVERY } from '@/lib/constants'
+import type { Delivery } from '@/lib/types'
+
+export interface DeliveryFormState {
+  enabled: boolean
+  address: string
+  lat: string
+  lng: string
+  deliveryFrom: string
+  deliveryTo: string
+  pickup: boolean
+  pickupFrom: string
+  pickupTo: string
+  instructions: string
+}
+
+export const initialDeliveryState: DeliveryFormState = {
+  enabled: false,
+  address: '',
+  lat: '',
+  lng: '',
+  deliveryFrom: '08:00',
+  deliveryTo: '12:00',
+  pickup: true,
+  pickupFrom: '14:00',
+  pickupTo: '18:00',
+  instructions: '',
+}
+
+type DeliveryRequest = Pick<Delivery, 'address' | 'coordinates' | 'deliveryWindow' | 'pickupWindow' | 'instructions'>
+
+// The time of day on the given booking date, in the customer's timezone
+const atTime = (date: string, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  const result = new Date(date)
+  result.setHours(hours, minutes, 0, 0)
+  return result.toISOString()
+}
+
+const getCoordinates = (state: DeliveryFormState) => {
+  const lat = parseFloat(state.lat)
+  const lng = parseFloat(state.lng)
+  if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+  return { lat, lng }
+}
+
+// Drop-off on the first day of the booking, pickup on the last
+export function toDeliveryRequest(state: DeliveryFormState, startDate: string, endDate: string): DeliveryRequest | null {
+  const coordinates = getCoordinates(state)
+  if (!state.enabled || !coordinates || !startDate || !endDate) return null
+
+  return {
+    address: state.address.trim(),
+    coordinates,
+    deliveryWindow: { start: atTime(startDate, state.deliveryFrom), end: atTime(startDate, state.deliveryTo) },
+    ...(state.pickup && {
+      pickupWindow: { start: atTime(endDate, state.pickupFrom), end: atTime(endDate, state.pickupTo) },
+    }),
+    instructions: state.instructions.trim() || undefined,
+  }
+}
+
+export function getDeliveryQuote(state: DeliveryFormState): DeliveryQuote | null {
+  const coordinates = getCoordinates(state)
+  if (!state.enabled || !coordinates) return null
+  return calculateDeliveryFee(coordinates, { pickup: state.pickup })
+}
+
+// Filled in enough to submit: an address, a location in range and sensible windows
+export function isDeliveryValid(state: DeliveryFormState): boolean {
+  if (!state.enabled) return true
+  const quote = getDeliveryQuote(state)
+  return state.address.trim().length >= 5 &&
+    !!quote && quote.distanceKm <= DELIVERY.MAX_DISTANCE_KM &&
+    state.deliveryTo > state.deliveryFrom &&
+    (!state.pickup || state.pickupTo > state.pickupFrom)
+}
+
+interface DeliveryOptionsProps {
+  value: DeliveryFormState
+  onChange: (value: DeliveryFormState) => void
+  disabled?: boolean
+}
+
+export function DeliveryOptions({ value, onChange, disabled = false }: DeliveryOptionsProps) {
+  const { toast } = useToast()
+  const update = (changes: Partial<DeliveryFormState>) => onChange({ ...value, ...changes })
+  const quote = getDeliveryQuote(value)
+
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: 'Location Unavailable', description: 'Your browser cannot share its location.', variant: 'destructive' })
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => update({
+        lat: position.coords.latitude.toFixed(5),
+        lng: position.coords.longitude.toFixed(5),
+      }),
+      () => toast({ title: 'Location Unavailable', description: 'Please enter the coordinates of the site.', variant: 'destructive' })
+    )
+  }
+
+  return (
+    <div className="space-y-3 border border-border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="delivery" className="flex items-center gap-2">
+          <Truck className="h-4 w-4" />
+          Deliver to my site
+        </Label>
+        <Switch id="delivery" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} disabled={disabled} />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div>
+            <Label htmlFor="deliveryAddress">Site Address</Label>
+            <Input
+              id="deliveryAddress"
+              value={value.address}
+              onChange={(e) => update({ address: e.target.value })}
+              placeholder="Street, community and town"
+              maxLength={300}
+              disabled={disabled}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="deliveryLat">Latitude</Label>
+              <Input id="deliveryLat" inputMode="decimal" value={value.lat} onChange={(e) => update({ lat: e.target.value })} disabled={disabled} />
+            </div>
+            <div>
+              <Label htmlFor="deliveryLng">Longitude</Label>
+              <Input id="deliveryLng" inputMode="decimal" value={value.lng} onChange={(e) => update({ lng: e.target.value })} disabled={disabled} />
+            </div>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={useCurrentLocation} disabled={disabled}>
+            <LocateFixed className="h-4 w-4 mr-2" />
+            Use my current location
+          </Button>
+
+          <div>
+            <Label>Delivery window (first day)</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="time" value={value.deliveryFrom} onChange={(e) => update({ deliveryFrom: e.target.value })} disabled={disabled} />
+              <Input type="time" value={value.deliveryTo} onChange={(e) => update({ deliveryTo: e.target.value })} disabled={disabled} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="pickup">Collect it when I'm done</Label>
+            <Switch id="pickup" checked={value.pickup} onCheckedChange={(pickup) => update({ pickup })} disabled={disabled} />
+          </div>
+          {value.pickup && (
+            <div>
+              <Label>Pickup window (last day)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input type="time" value={value.pickupFrom} onChange={(e) => update({ pickupFrom: e.target.value })} disabled={disabled} />
+                <Input type="time" value={value.pickupTo} onChange={(e) => update({ pickupTo: e.target.value })} disabled={disabled} />
+              </div>
+            </div>
+          )}
+
+          <Input
+            value={value.instructions}
+            onChange={(e) => update({ instructions: e.target.value })}
+            placeholder="Access instructions (optional)"
+            maxLength={500}
+            disabled={disabled}
+          />
+
+          {quote && (
+            quote.distanceKm > DELIVERY.MAX_DISTANCE_KM ? (
+              <p className="text-sm text-destructive">This site is outside our delivery area.</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {quote.distanceKm} km from our depot · ${quote.fee.toLocaleString()} delivery fee
+              </p>
+            )
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,19 +1,28 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
-import { ArrowLeft, CheckCircle, DollarSign, MapPin, Building, Clock, Shield, Users } from 'lucide-react'
+import { ArrowLeft, CheckCircle, DollarSign, MapPin, Building, Clock, Shield, Users, Bell } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
+import { DatePicker, DatePickerRange } from '@/components/ui/date-picker'
 import { useToast } from '@/lib/hooks/use-toast'
+import { useCurrency } from '@/lib/hooks/use-currency'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Image from 'next/image'
 import { SimilarItems } from './SimilarItems'
+import { ContractForm } from './ContractForm'
+import { DeliveryFormState, DeliveryOptions, getDeliveryQuote, initialDeliveryState, isDeliveryValid, toDeliveryRequest } from './DeliveryOptions'
+import { addDeliveryFee, applyFeeRules, calculateBookingPrice } from '@/lib/pricing'
+import { getLoginPath, rangesOverlap } from '@/lib/utils'
+import { toBaseAmount } from '@/lib/currency'
+import { CATEGORY_TYPE, Currency } from '@/lib/constants'
+import type { ApiResponse, AvailabilityCalendar, BookingHold, FeeRule, PricingRule, WaitlistEntryWithItem } from '@/lib/types'
 
 interface DetailItem {
   id: string
@@ -21,10 +30,13 @@ interface DetailItem {
   description: string
   price: number
   priceType: string
+  currency?: Currency
+  depositAmount?: number
   images: string[]
   features: string[]
   available: boolean
   location?: string
+  categoryId?: string
   category: {
     name: string
   }
@@ -66,9 +78,110 @@ export function DetailPage({
     notes: '',
     phoneNumber: ''
   })
+  const [unavailableRanges, setUnavailableRanges] = useState<DatePickerRange[]>([])
+  const [waitlistMode, setWaitlistMode] = useState(false)
+  const [waitlistLoading, setWaitlistLoading] = useState(false)
+  const [heldOffer, setHeldOffer] = useState<WaitlistEntryWithItem | null>(null)
+  const [showContractForm, setShowContractForm] = useState(false)
+  const [delivery, setDelivery] = useState<DeliveryFormState>(initialDeliveryState)
+  const [checkoutHold, setCheckoutHold] = useState<BookingHold | null>(null)
+  const [holdSecondsLeft, setHoldSecondsLeft] = useState(0)
+  const checkoutHoldId = useRef<string | null>(null)
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
+  const [feeRules, setFeeRules] = useState<FeeRule[]>([])
+  const [promoCodeInput, setPromoCodeInput] = useState('')
+  const [promoCode, setPromoCode] = useState('')
+  const [promoLoading, setPromoLoading] = useState(false)
   const { toast } = useToast()
+  const { currency, format, formatListingPrice, rates } = useCurrency()
+  const categoryType = type === 'equipment' ? CATEGORY_TYPE.EQUIPMENT : CATEGORY_TYPE.BROKERAGE
   const router = useRouter()
 
+  const fetchAvailability = async () => {
+    try {
+      const response = await fetch(`/api/${type}/${item.id}/availability`, { cache: 'no-store' })
+      if (response.ok) {
+        const result: ApiResponse<AvailabilityCalendar> = await response.json()
+        const ranges = [...(result.data?.booked || []), ...(result.data?.blocked || [])]
+        setUnavailableRanges(ranges.map(range => ({
+          start: new Date(range.startDate),
+          end: new Date(range.endDate),
+        })))
+      }
+    } catch (error) {
+      console.error('Failed to load availability:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchAvailability()
+  }, [item.id, type])
+
+  // Seasonal, weekend and long-rental rules, plus the promo code's own rule
+  // once one is applied
+  const fetchPricingRules = async (code = '') => {
+    const response = await fetch(`/api/pricing-rules${code ? `?promoCode=${encodeURIComponent(code)}` : ''}`, { cache: 'no-store' })
+    const result: ApiResponse<PricingRule[]> = await response.json()
+    if (!response.ok || !result.data) {
+      throw new Error(result.error || 'Failed to load pricing')
+    }
+    setPricingRules(result.data)
+  }
+
+  useEffect(() => {
+    fetchPricingRules().catch(error => console.error('Failed to load pricing rules:', error))
+  }, [])
+
+  // Taxes and fees for this kind of listing, added to the total last
+  useEffect(() => {
+    fetch(`/api/fee-rules?categoryType=${categoryType}`, { cache: 'no-store' })
+      .then(response => response.json() as Promise<ApiResponse<FeeRule[]>>)
+      .then(result => setFeeRules(result.data || []))
+      .catch(error => console.error('Failed to load taxes and fees:', error))
+  }, [])
+
+  const handleApplyPromoCode = async () => {
+    const code = promoCodeInput.trim().toUpperCase()
+    if (!code) return
+
+    setPromoLoading(true)
+    try {
+      await fetchPricingRules(code)
+      setPromoCode(code)
+    } catch (error) {
+      toast({
+        title: 'Promo Code Not Applied',
+        description: error instanceof Error ? error.message : 'This promo code is not valid',
+        variant: 'destructive',
+      })
+    } finally {
+      setPromoLoading(false)
+    }
+  }
+
+  // Dates offered to this user from the waitlist are held for them
+  const fetchHeldOffer = async () => {
+    try {
+      const response = await fetch('/api/waitlist', { cache: 'no-store' })
+      if (response.ok) {
+        const result: ApiResponse<WaitlistEntryWithItem[]> = await response.json()
+        const offer = result.data?.find(entry =>
+          entry.status === 'OFFERED' && (entry.equipmentId === item.id || entry.brokerageId === item.id)
+        )
+        setHeldOffer(offer || null)
+      }
+    } catch (error) {
+      console.error('Failed to load waitlist:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (user) fetchHeldOffer()
+  }, [item.id, user])
+
+  // Fully booked or unlisted items can still be waitlisted for any dates
+  const inWaitlistMode = waitlistMode || !item.available
+
   // Test toast on component mount
   useEffect(() => {
     console.log('DetailPage mounted, testing toast system')
@@ -76,37 +189,111 @@ export function DetailPage({
     toast({ title: 'Test', description: 'Toast system is working', variant: 'default' })
   }, [toast])
 
-  const formatPrice = (price: number, priceType: string) => {
-    return `$${price.toLocaleString()}/${priceType.toLowerCase()}`
+  // Selected dates are held for a few minutes so nobody else can book them
+  // while this user fills in the rest of the form
+  const releaseCheckoutHold = () => {
+    const holdId = checkoutHoldId.current
+    checkoutHoldId.current = null
+    setCheckoutHold(null)
+    if (holdId) {
+      fetch(`/api/holds/${holdId}`, { method: 'DELETE', keepalive: true })
+        .catch(error => console.error('Failed to release hold:', error))
+    }
   }
 
-  const calculateTotalPrice = () => {
-    if (!bookingData.startDate || !bookingData.endDate) return 0
-    
-    const start = new Date(bookingData.startDate)
-    const end = new Date(bookingData.endDate)
-    const diffTime = Math.abs(end.getTime() - start.getTime())
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24))
-    
-    switch (item.priceType.toUpperCase()) {
-      case 'HOURLY':
-        return diffDays * 24 * item.price
-      case 'DAILY':
-        return diffDays * item.price
-      case 'WEEKLY':
-        return Math.ceil(diffDays / 7) * item.price
-      case 'MONTHLY':
-        return Math.ceil(diffDays / 30) * item.price
-      case 'FIXED':
-        return item.price
-      default:
-        return diffDays * item.price
+  useEffect(() => {
+    if (!user || inWaitlistMode || !bookingData.startDate || !bookingData.endDate || selectionClashes()) {
+      releaseCheckoutHold()
+      return
+    }
+
+    let stale = false
+    const placeCheckoutHold = async () => {
+      try {
+        const response = await fetch('/api/holds', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            [type === 'equipment' ? 'equipmentId' : 'brokerageId']: item.id,
+            startDate: new Date(bookingData.startDate).toISOString(),
+            endDate: new Date(bookingData.endDate).toISOString(),
+          }),
+        })
+        const result: ApiResponse<BookingHold> = await response.json()
+        if (stale) return
+
+        if (response.ok && result.data) {
+          checkoutHoldId.current = result.data.id
+          setCheckoutHold(result.data)
+        } else if (response.status === 409) {
+          checkoutHoldId.current = null
+          setCheckoutHold(null)
+          toast({
+            title: 'Dates Unavailable',
+            description: 'Someone else is booking these dates. Choose different dates or join the waitlist.',
+            variant: 'destructive',
+          })
+          fetchAvailability()
+        }
+      } catch (error) {
+        console.error('Failed to hold dates:', error)
+      }
     }
+
+    placeCheckoutHold()
+    return () => {
+      stale = true
+    }
+  }, [user, inWaitlistMode, bookingData.startDate, bookingData.endDate])
+
+  useEffect(() => {
+    return () => releaseCheckoutHold()
+  }, [])
+
+  useEffect(() => {
+    if (!checkoutHold) return
+
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.ceil((new Date(checkoutHold.expiresAt).getTime() - Date.now()) / 1000))
+      setHoldSecondsLeft(secondsLeft)
+      if (secondsLeft === 0) {
+        checkoutHoldId.current = null
+        setCheckoutHold(null)
+      }
+    }
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [checkoutHold])
+
+  const getPriceBreakdown = () => {
+    if (!bookingData.startDate || !bookingData.endDate) return null
+
+    const breakdown = calculateBookingPrice({
+      id: item.id,
+      categoryId: item.categoryId,
+      price: toBaseAmount(item.price, item.currency, rates),
+      priceType: item.priceType,
+      startDate: bookingData.startDate,
+      endDate: bookingData.endDate,
+    }, pricingRules)
+    const deliveryQuote = type === 'equipment' ? getDeliveryQuote(delivery) : null
+    return applyFeeRules(deliveryQuote ? addDeliveryFee(breakdown, deliveryQuote) : breakdown, feeRules, categoryType)
+  }
+
+  const calculateTotalPrice = () => getPriceBreakdown()?.total ?? 0
+
+  // An applied code only counts when its rule covers this item and these dates
+  const isPromoCodeApplied = () => {
+    const promo = pricingRules.find(rule => rule.code === promoCode)
+    return !!promo && !!getPriceBreakdown()?.lineItems.some(line => line.ruleId === promo.id)
   }
 
   const handleBooking = async () => {
     if (!user) {
-      router.push('/auth/login')
+      router.push(getLoginPath())
       return
     }
 
@@ -128,7 +315,12 @@ export function DetailPage({
         endDate: new Date(bookingData.endDate).toISOString(),
         totalPrice: calculateTotalPrice(),
         notes: bookingData.notes,
-        phoneNumber: bookingData.phoneNumber
+        phoneNumber: bookingData.phoneNumber,
+        promoCode: isPromoCodeApplied() ? promoCode : undefined,
+        currency,
+        delivery: type === 'equipment'
+          ? toDeliveryRequest(delivery, bookingData.startDate, bookingData.endDate) || undefined
+          : undefined,
       }
 
       const response = await fetch('/api/bookings', {
@@ -140,6 +332,9 @@ export function DetailPage({
       })
 
       if (response.ok) {
+        // The server turns the hold into the booking
+        checkoutHoldId.current = null
+        setCheckoutHold(null)
         toast({
           title: 'Booking Requested',
           description: `Your ${type} booking request has been submitted successfully. We'll contact you soon to confirm the details.`,
@@ -152,7 +347,10 @@ export function DetailPage({
           notes: '',
           phoneNumber: ''
         })
+        setDelivery(initialDeliveryState)
         
+        fetchAvailability()
+        setHeldOffer(null)
         onRefresh?.()
       } else {
         console.log('Response not ok, status:', response.status)
@@ -160,8 +358,12 @@ export function DetailPage({
         console.log('Error data received:', errorData)
         let errorMessage = 'Failed to submit booking request. Please try again.'
         
-        // Handle validation errors specifically
-        if (response.status === 400 && errorData.message) {
+        // Date clashes detected by the server-side availability check
+        if (response.status === 409 && ['BOOKING_CONFLICT', 'ITEM_ON_HOLD', 'ITEM_UNDER_MAINTENANCE'].includes(errorData.code)) {
+          errorMessage = 'These dates are no longer free. Choose different dates or join the waitlist to be notified if they open up.'
+          setWaitlistMode(true)
+          fetchAvailability()
+        } else if (response.status === 400 && errorData.message) {
           console.log('Processing 400 error with message:', errorData.message)
           if (errorData.message.includes('Invalid start date format') || errorData.message.includes('Invalid end date format')) {
             errorMessage = 'Please select valid start and end dates.'
@@ -198,8 +400,64 @@ export function DetailPage({
     }
   }
 
+  const handleJoinWaitlist = async () => {
+    if (!user) {
+      router.push(getLoginPath())
+      return
+    }
+
+    setWaitlistLoading(true)
+    try {
+      const response = await fetch('/api/waitlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          [type === 'equipment' ? 'equipmentId' : 'brokerageId']: item.id,
+          startDate: new Date(bookingData.startDate).toISOString(),
+          endDate: new Date(bookingData.endDate).toISOString(),
+          notes: bookingData.notes || undefined,
+        }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        toast({
+          title: 'Added to Waitlist',
+          description: "We'll email you and hold the dates for you if they become available.",
+        })
+        setWaitlistMode(false)
+      } else {
+        toast({
+          title: 'Could Not Join Waitlist',
+          description: result.error || result.message || 'Please try again.',
+          variant: 'destructive',
+        })
+        if (response.status === 400 && item.available) setWaitlistMode(false)
+      }
+    } catch (error) {
+      console.error('Waitlist error:', error)
+      toast({
+        title: 'Could Not Join Waitlist',
+        description: 'An unexpected error occurred. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setWaitlistLoading(false)
+    }
+  }
+
+  const selectionClashes = () => {
+    if (!bookingData.startDate || !bookingData.endDate) return false
+
+    const selection = { startDate: bookingData.startDate, endDate: bookingData.endDate }
+    return unavailableRanges.some(range => rangesOverlap(selection, { startDate: range.start, endDate: range.end }))
+  }
+
   const isFormValid = () => {
-    return bookingData.startDate && bookingData.endDate && bookingData.phoneNumber
+    return bookingData.startDate && bookingData.endDate && bookingData.phoneNumber && !selectionClashes() &&
+      (type !== 'equipment' || isDeliveryValid(delivery))
   }
 
   const relatedItems = type === 'equipment' ? item.relatedEquipment : item.relatedBrokerage
@@ -288,7 +546,7 @@ export function DetailPage({
                         <div className="flex items-center gap-1">
                           <DollarSign className="h-4 w-4" />
                           <span className="font-semibold text-primary text-lg">
-                            {formatPrice(item.price, item.priceType)}
+                            {formatListingPrice(item)}
                           </span>
                         </div>
                         {item.location && (
@@ -346,31 +604,62 @@ export function DetailPage({
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  {heldOffer && heldOffer.holdExpiresAt && (
+                    <div className="bg-green-500/10 border border-green-500/20 p-3 rounded-lg text-sm space-y-2">
+                      <p className="flex items-center gap-2 font-medium text-green-400">
+                        <Bell className="h-4 w-4" />
+                        Dates held for you until {new Date(heldOffer.holdExpiresAt).toLocaleString()}
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setBookingData(prev => ({ ...prev, startDate: heldOffer.startDate, endDate: heldOffer.endDate }))}
+                      >
+                        Use held dates
+                      </Button>
+                    </div>
+                  )}
+
                   {/* Date Inputs */}
-                  <div>
-                    <Label htmlFor="startDate">Service Start Date</Label>
-                    <Input
-                      id="startDate"
-                      type="datetime-local"
-                      value={bookingData.startDate}
-                      onChange={(e) => setBookingData(prev => ({ ...prev, startDate: e.target.value }))}
-                      min={new Date().toISOString().slice(0, 16)}
-                      disabled={!item.available || !user || authLoading}
-                      placeholder={!user ? "Login to select date" : "Select start date"}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="endDate">Service End Date</Label>
-                    <Input
-                      id="endDate"
-                      type="datetime-local"
-                      value={bookingData.endDate}
-                      onChange={(e) => setBookingData(prev => ({ ...prev, endDate: e.target.value }))}
-                      min={bookingData.startDate || new Date().toISOString().slice(0, 16)}
-                      disabled={!item.available || !user || authLoading}
-                      placeholder={!user ? "Login to select date" : "Select end date"}
-                    />
-                  </div>
+                  <DatePicker
+                    id="startDate"
+                    label="Service Start Date"
+                    value={bookingData.startDate ? new Date(bookingData.startDate) : undefined}
+                    onChange={(date) => setBookingData(prev => ({ ...prev, startDate: date ? date.toISOString() : '' }))}
+                    minDate={new Date()}
+                    unavailableRanges={inWaitlistMode ? [] : unavailableRanges}
+                    disabled={!user || authLoading}
+                    placeholder={!user ? "Login to select date" : "Select start date"}
+                  />
+                  <DatePicker
+                    id="endDate"
+                    label="Service End Date"
+                    value={bookingData.endDate ? new Date(bookingData.endDate) : undefined}
+                    onChange={(date) => setBookingData(prev => ({ ...prev, endDate: date ? date.toISOString() : '' }))}
+                    minDate={bookingData.startDate ? new Date(bookingData.startDate) : new Date()}
+                    unavailableRanges={inWaitlistMode ? [] : unavailableRanges}
+                    disabled={!user || authLoading}
+                    placeholder={!user ? "Login to select date" : "Select end date"}
+                  />
+                  {inWaitlistMode ? (
+                    <p className="text-sm text-muted-foreground">
+                      Pick the dates you need and we'll notify you if they become available.
+                    </p>
+                  ) : selectionClashes() && (
+                    <p className="text-sm text-destructive">
+                      Your selected dates include days that are already booked. Please choose a free range or{' '}
+                      <button type="button" className="underline" onClick={() => setWaitlistMode(true)}>
+                        join the waitlist
+                      </button>.
+                    </p>
+                  )}
+
+                  {checkoutHold && (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Clock className="h-4 w-4" />
+                      Dates held for you for {Math.floor(holdSecondsLeft / 60)}:{String(holdSecondsLeft % 60).padStart(2, '0')}
+                    </p>
+                  )}
 
                   {/* Phone Input */}
                   <div>
@@ -398,20 +687,68 @@ export function DetailPage({
                       }
                       value={bookingData.notes}
                       onChange={(e) => setBookingData(prev => ({ ...prev, notes: e.target.value }))}
-                      disabled={!item.available || !user || authLoading}
+                      disabled={!user || authLoading}
                       rows={4}
                     />
                   </div>
                   
+                  {/* Delivery and pickup */}
+                  {type === 'equipment' && user && !inWaitlistMode && (
+                    <DeliveryOptions value={delivery} onChange={setDelivery} disabled={!item.available || authLoading} />
+                  )}
+
+                  {/* Promo code */}
+                  {user && !inWaitlistMode && (
+                    <div>
+                      <Label htmlFor="promoCode">Promo Code (Optional)</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="promoCode"
+                          value={promoCodeInput}
+                          onChange={(e) => setPromoCodeInput(e.target.value)}
+                          placeholder="Enter a promo code"
+                          disabled={promoLoading || authLoading}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handleApplyPromoCode}
+                          disabled={promoLoading || !promoCodeInput.trim()}
+                        >
+                          Apply
+                        </Button>
+                      </div>
+                      {promoCode && bookingData.startDate && bookingData.endDate && !isPromoCodeApplied() && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {promoCode} does not apply to this {type === 'equipment' ? 'equipment' : 'service'} or these dates.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Total Price */}
                   {bookingData.startDate && bookingData.endDate && (
                     <div className="bg-primary/10 border border-primary/20 p-4 rounded-lg">
+                      {getPriceBreakdown()?.lineItems.map((line, index) => (
+                        <div
+                          key={index}
+                          className={`flex justify-between items-center text-sm mb-2 ${line.kind === 'DISCOUNT' ? 'text-green-500' : 'text-primary/80'}`}
+                        >
+                          <span>{line.kind === 'BASE' ? `${line.label} × ${format(line.unitPrice)}` : line.label}</span>
+                          <span>{line.included ? `incl. ${format(line.amount)}` : format(line.amount)}</span>
+                        </div>
+                      ))}
                       <div className="flex justify-between items-center">
                         <span className="font-semibold text-primary">Total Price:</span>
                         <span className="text-lg font-bold text-primary">
-                          ${calculateTotalPrice().toLocaleString()}
+                          {format(calculateTotalPrice())}
                         </span>
                       </div>
+                      {type === 'equipment' && !!item.depositAmount && (
+                        <p className="text-sm text-primary/80 mt-2">
+                          Plus a {format(item.depositAmount)} refundable security deposit, returned after the equipment is inspected.
+                        </p>
+                      )}
                     </div>
                   )}
 
@@ -427,23 +764,62 @@ export function DetailPage({
                   </div>
 
                   {/* Booking Button */}
-                  <Button
-                    onClick={handleBooking}
-                    disabled={
-                      !item.available || 
-                      bookingLoading || 
-                      authLoading || 
-                      (!user && !authLoading) || 
-                      !isFormValid()
-                    }
-                    className="w-full"
-                  >
-                    {authLoading ? 'Loading...' : 
-                     !user ? 'Login to Book' :
-                     bookingLoading ? 'Booking...' : 
-                     item.available ? 'Request Service' : 'Unavailable'
-                    }
-                  </Button>
+                  {inWaitlistMode ? (
+                    <div className="space-y-2">
+                      <Button
+                        onClick={handleJoinWaitlist}
+                        disabled={waitlistLoading || authLoading || !user || !bookingData.startDate || !bookingData.endDate}
+                        className="w-full"
+                      >
+                        <Bell className="h-4 w-4 mr-2" />
+                        {waitlistLoading ? 'Joining...' : 'Join Waitlist'}
+                      </Button>
+                      {item.available && (
+                        <Button variant="ghost" className="w-full" onClick={() => setWaitlistMode(false)}>
+                          Back to booking
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <Button
+                      onClick={handleBooking}
+                      disabled={
+                        !item.available || 
+                        bookingLoading || 
+                        authLoading || 
+                        (!user && !authLoading) || 
+                        !isFormValid()
+                      }
+                      className="w-full"
+                    >
+                      {authLoading ? 'Loading...' : 
+                       !user ? 'Login to Book' :
+                       bookingLoading ? 'Booking...' : 
+                       item.available ? 'Request Service' : 'Unavailable'
+                      }
+                    </Button>
+                  )}
+
+                  {/* Long-term and recurring rentals */}
+                  {user && item.available && !inWaitlistMode && (
+                    showContractForm ? (
+                      <ContractForm
+                        itemId={item.id}
+                        type={type}
+                        phoneNumber={bookingData.phoneNumber}
+                        notes={bookingData.notes}
+                        onCreated={() => {
+                          setShowContractForm(false)
+                          fetchAvailability()
+                          onRefresh?.()
+                        }}
+                      />
+                    ) : (
+                      <Button variant="ghost" className="w-full" onClick={() => setShowContractForm(true)}>
+                        Need it long-term or on a schedule?
+                      </Button>
+                    )
+                  )}
 
                   {/* Login Link */}
                   {!authLoading && !user && (
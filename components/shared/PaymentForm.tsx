@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader, Smartphone } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/lib/hooks/use-toast'
+import { PAYMENT_STATUS, PaymentProviderName } from '@/lib/constants'
+import type { ApiResponse, Payment } from '@/lib/types'
+
+interface BookingPayments {
+  payments: Payment[]
+  balanceDue: number
+  providers: PaymentProviderName[]
+}
+
+const PROVIDER_LABELS: Record<PaymentProviderName, string> = {
+  ORANGE_MONEY: 'Orange Money',
+  MTN_MOMO: 'MTN Mobile Money',
+  FAKE: 'Test payment',
+}
+
+// Mobile-money approvals usually arrive within a minute
+const POLL_INTERVAL_MS = 5000
+const POLL_ATTEMPTS = 24
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+interface PaymentFormProps {
+  bookingId: string
+  defaultPhoneNumber?: string
+  onPaid?: () => void
+}
+
+export function PaymentForm({ bookingId, defaultPhoneNumber = '', onPaid }: PaymentFormProps) {
+  const [details, setDetails] = useState<BookingPayments | null>(null)
+  const [provider, setProvider] = useState<PaymentProviderName | ''>('')
+  const [phoneNumber, setPhoneNumber] = useState(defaultPhoneNumber)
+  const [awaiting, setAwaiting] = useState(false)
+  const { toast } = useToast()
+
+  const loadDetails = async () => {
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/payments`, { cache: 'no-store' })
+      const result: ApiResponse<BookingPayments> = await response.json()
+      if (response.ok && result.data) {
+        setDetails(result.data)
+        setProvider(current => current || result.data!.providers[0] || '')
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load payment details', variant: 'destructive' })
+    }
+  }
+
+  useEffect(() => {
+    loadDetails()
+  }, [bookingId])
+
+  // Wait for the customer to approve on their phone, asking the provider
+  // directly in case the callback is slow
+  const waitForOutcome = async (payment: Payment): Promise<Payment> => {
+    let current = payment
+    for (let attempt = 0; attempt < POLL_ATTEMPTS && current.status === PAYMENT_STATUS.PENDING; attempt++) {
+      await wait(POLL_INTERVAL_MS)
+      const response = await fetch(`/api/payments/${payment.id}/confirm`, { method: 'POST' })
+      const result: ApiResponse<Payment> = await response.json()
+      if (response.ok && result.data) current = result.data
+    }
+    return current
+  }
+
+  const handlePay = async () => {
+    if (!provider) return
+    setAwaiting(true)
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, phoneNumber: phoneNumber.replace(/[\s-]/g, '') }),
+      })
+      const result: ApiResponse<Payment> = await response.json()
+      if (!response.ok || !result.data) {
+        toast({ title: 'Payment Failed', description: result.error || 'Failed to start the payment', variant: 'destructive' })
+        return
+      }
+
+      toast({ title: 'Check Your Phone', description: result.message })
+      const payment = await waitForOutcome(result.data)
+
+      if (payment.status === PAYMENT_STATUS.SUCCEEDED) {
+        toast({ title: 'Payment Received', description: `$${payment.amount.toLocaleString()} paid. Thank you!` })
+        onPaid?.()
+      } else if (payment.status === PAYMENT_STATUS.FAILED) {
+        toast({ title: 'Payment Failed', description: payment.failureReason || 'The payment was not completed', variant: 'destructive' })
+      } else {
+        toast({ title: 'Payment Pending', description: 'We have not heard back yet. Your booking will update once the payment is approved.' })
+      }
+      loadDetails()
+    } catch (error) {
+      toast({ title: 'Payment Failed', description: 'Failed to start the payment', variant: 'destructive' })
+    } finally {
+      setAwaiting(false)
+    }
+  }
+
+  if (!details) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader className="h-4 w-4 animate-spin" />
+        Loading payment details...
+      </p>
+    )
+  }
+
+  if (details.balanceDue <= 0) {
+    return <p className="text-sm text-green-400">This booking is fully paid.</p>
+  }
+
+  if (details.providers.length === 0) {
+    return <p className="text-sm text-muted-foreground">Online payment is not available right now. Please contact us to pay.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Balance due: <span className="font-semibold">${details.balanceDue.toLocaleString()}</span>
+      </p>
+      <div>
+        <Label>Pay with</Label>
+        <Select value={provider} onValueChange={(value) => setProvider(value as PaymentProviderName)} disabled={awaiting}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a payment method" />
+          </SelectTrigger>
+          <SelectContent>
+            {details.providers.map(name => (
+              <SelectItem key={name} value={name}>{PROVIDER_LABELS[name]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor={`payment-phone-${bookingId}`}>Mobile money number</Label>
+        <Input
+          id={`payment-phone-${bookingId}`}
+          type="tel"
+          placeholder="+231 77 000 0000"
+          value={phoneNumber}
+          onChange={(e) => setPhoneNumber(e.target.value)}
+          disabled={awaiting}
+        />
+      </div>
+      <Button className="w-full" onClick={handlePay} disabled={awaiting || !provider || phoneNumber.replace(/\D/g, '').length < 7}>
+        {awaiting ? (
+          <>
+            <Loader className="h-4 w-4 mr-2 animate-spin" />
+            Waiting for approval...
+          </>
+        ) : (
+          <>
+            <Smartphone className="h-4 w-4 mr-2" />
+            Pay ${details.balanceDue.toLocaleString()}
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader } from 'lucide-react'
+import { LEDGER_ENTRY_KIND, LedgerEntryKind } from '@/lib/constants'
+import { formatPrice } from '@/lib/utils'
+import type { ApiResponse, BookingLedger } from '@/lib/types'
+
+const KIND_LABELS: Record<LedgerEntryKind, string> = {
+  CHARGE: 'Charge',
+  PAYMENT: 'Payment',
+  REFUND: 'Refund',
+  ADJUSTMENT: 'Adjustment',
+}
+
+interface PaymentHistoryProps {
+  bookingId: string
+  // Pending bookings also show what must be paid before confirmation
+  showMinimum?: boolean
+}
+
+export function PaymentHistory({ bookingId, showMinimum = false }: PaymentHistoryProps) {
+  const [ledger, setLedger] = useState<BookingLedger | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/bookings/${bookingId}/ledger`, { cache: 'no-store' })
+      .then(response => response.json() as Promise<ApiResponse<BookingLedger>>)
+      .then(result => result.data ? setLedger(result.data) : setFailed(true))
+      .catch(() => setFailed(true))
+  }, [bookingId])
+
+  if (failed) {
+    return <p className="text-sm text-muted-foreground">Payment history is unavailable right now.</p>
+  }
+
+  if (!ledger) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader className="h-4 w-4 animate-spin" />
+        Loading payment history...
+      </p>
+    )
+  }
+
+  const paid = ledger.summary.paid - ledger.summary.refunded
+
+  return (
+    <div className="space-y-2 text-sm">
+      {ledger.entries.length > 0 ? (
+        <ul className="space-y-1">
+          {ledger.entries.map(entry => (
+            <li key={entry.id} className="flex justify-between gap-4 text-muted-foreground">
+              <span>
+                {new Date(entry.createdAt).toLocaleDateString()} · {KIND_LABELS[entry.kind]}: {entry.description}
+              </span>
+              <span className={entry.kind === LEDGER_ENTRY_KIND.PAYMENT ? 'text-green-400' : undefined}>
+                {entry.kind === LEDGER_ENTRY_KIND.PAYMENT || entry.amount < 0 ? '-' : '+'}{formatPrice(Math.abs(entry.amount))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground">No payments yet.</p>
+      )}
+      {showMinimum && paid < ledger.minimumPayment && (
+        <p className="text-yellow-500">
+          Pay at least {formatPrice(ledger.minimumPayment)} so we can confirm your booking
+          {paid > 0 && ` (${formatPrice(ledger.minimumPayment - paid)} to go)`}.
+        </p>
+      )}
+    </div>
+  )
+}
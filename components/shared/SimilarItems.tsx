@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge'
 import { DollarSign, MapPin, Star } from 'lucide-react'
 import Link from 'next/link'
 import Image from 'next/image'
+import { useCurrency } from '@/lib/hooks/use-currency'
+import type { Currency } from '@/lib/constants'
 
 interface SimilarItem {
   id: string
@@ -14,6 +16,7 @@ interface SimilarItem {
   description: string
   price: number
   priceType: string
+  currency?: Currency
   images: string[]
   available: boolean
   location?: string
@@ -30,9 +33,7 @@ interface SimilarItemsProps {
 }
 
 export function SimilarItems({ items, type, title }: SimilarItemsProps) {
-  const formatPrice = (price: number, priceType: string) => {
-    return `$${price.toLocaleString()}/${priceType.toLowerCase()}`
-  }
+  const { formatListingPrice } = useCurrency()
 
   if (!items || items.length === 0) {
     return null
@@ -126,7 +127,7 @@ export function SimilarItems({ items, type, title }: SimilarItemsProps) {
                   <div className="flex items-center gap-1">
                     <DollarSign className="h-4 w-4 text-primary" />
                     <span className="font-bold text-primary text-lg">
-                      {formatPrice(item.price, item.priceType)}
+                      {formatListingPrice(item)}
                     </span>
                   </div>
                 </div>
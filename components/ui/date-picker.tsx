@@ -7,6 +7,11 @@ import { Calendar as CalendarIcon } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Label } from "@/components/ui/label"
 
+export interface DatePickerRange {
+  start: Date
+  end: Date
+}
+
 export interface DatePickerProps {
   id?: string
   label?: string
@@ -16,6 +21,8 @@ export interface DatePickerProps {
   disabled?: boolean
   minDate?: Date
   maxDate?: Date
+  // Days overlapping these ranges are greyed out and cannot be selected
+  unavailableRanges?: DatePickerRange[]
   className?: string
 }
 
@@ -28,6 +35,7 @@ export function DatePicker({
   disabled = false,
   minDate,
   maxDate,
+  unavailableRanges,
   className
 }: DatePickerProps) {
   const CustomInput = React.forwardRef<HTMLInputElement, any>(
@@ -66,6 +74,7 @@ export function DatePicker({
          onChange={(date: Date | null) => onChange?.(date || undefined)}
          minDate={minDate}
          maxDate={maxDate}
+         excludeDateIntervals={unavailableRanges}
          disabled={disabled}
          placeholderText={placeholder}
          customInput={<CustomInput />}
@@ -81,6 +90,7 @@ export function DatePicker({
           "[&_.react-datepicker__day--selected]:!bg-primary [&_.react-datepicker__day--selected]:!text-primary-foreground [&_.react-datepicker__day--selected]:hover:!bg-primary",
           "[&_.react-datepicker__day--today]:!bg-accent [&_.react-datepicker__day--today]:!text-accent-foreground [&_.react-datepicker__day--today]:!font-semibold",
           "[&_.react-datepicker__day--disabled]:!text-muted-foreground [&_.react-datepicker__day--disabled]:!cursor-not-allowed [&_.react-datepicker__day--disabled]:!opacity-50",
+          "[&_.react-datepicker__day--excluded]:!bg-muted [&_.react-datepicker__day--excluded]:!line-through",
           "[&_.react-datepicker__day--outside-month]:!text-muted-foreground [&_.react-datepicker__day--outside-month]:!opacity-50",
           "[&_.react-datepicker__navigation]:!top-3 [&_.react-datepicker__navigation]:hover:!text-foreground [&_.react-datepicker__navigation]:!text-muted-foreground",
           "[&_.react-datepicker__navigation-icon]:!top-1",
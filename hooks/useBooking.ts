@@ -4,7 +4,8 @@ import { useState, useCallback, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
 import { Booking, BookingFormData, ApiResponse } from '@/lib/types'
-import { BOOKING_STATUS, API_ENDPOINTS } from '@/lib/constants'
+import { BOOKING_STATUS, API_ENDPOINTS, PRICE_TYPE, PriceType } from '@/lib/constants'
+import { calculateBookingPrice } from '@/lib/pricing'
 import { logger } from '@/lib/logger'
 
 interface UseBookingOptions {
@@ -27,7 +28,7 @@ interface UseBookingReturn {
   cancelBooking: (id: string, reason?: string) => Promise<void>
   fetchBooking: (id: string) => Promise<void>
   fetchBookings: (filters?: Record<string, any>) => Promise<void>
-  calculateTotalPrice: (startDate: Date, endDate: Date, dailyPrice: number) => number
+  calculateTotalPrice: (startDate: Date, endDate: Date, price: number, priceType?: PriceType) => number
   validateBookingDates: (startDate: Date, endDate: Date, existingBookings?: Booking[]) => string | null
   
   // Utilities
@@ -61,10 +62,13 @@ export function useBooking(options: UseBookingOptions = {}): UseBookingReturn {
   }, [])
 
   // Calculate total price
-  const calculateTotalPrice = useCallback((startDate: Date, endDate: Date, dailyPrice: number): number => {
-    const timeDiff = endDate.getTime() - startDate.getTime()
-    const daysDiff = Math.ceil(timeDiff / (1000 * 3600 * 24))
-    return Math.max(1, daysDiff) * dailyPrice
+  const calculateTotalPrice = useCallback((
+    startDate: Date,
+    endDate: Date,
+    price: number,
+    priceType: PriceType = PRICE_TYPE.DAILY
+  ): number => {
+    return calculateBookingPrice({ price, priceType, startDate, endDate }).total
   }, [])
 
   // Validate booking dates
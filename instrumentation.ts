@@ -0,0 +1,12 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    await import('./lib/jobs/booking-reminders')
+    await import('./lib/jobs/waitlist-offers')
+    const { startScheduler } = await import('./lib/jobs')
+    await startScheduler()
+    // Fails the start when a payment provider is misconfigured
+    const { listPaymentProviders } = await import('./lib/payments')
+    listPaymentProviders()
+  }
+}
@@ -0,0 +1,262 @@
+import bcrypt from 'bcryptjs'
+import { randomInt } from 'crypto'
+import { AppError, RateLimitError } from './api-utils'
+import { AUTH, ERROR_MESSAGES, OTP_PURPOSE, OtpPurpose, USER_ROLE } from './constants'
+import { Database, OtpCodeRecord, UserRecord } from './db'
+import { LoginResult } from './types'
+import { sendOtpEmail } from './email'
+import { logger } from './logger'
+
+export interface RegistrationInput {
+  name: string
+  email: string
+  password: string
+  phone?: string
+}
+
+const EMAIL_TYPES: Record<OtpPurpose, 'registration' | 'login' | 'reset'> = {
+  REGISTRATION: 'registration',
+  LOGIN: 'login',
+  RESET: 'reset',
+}
+
+// Emails are matched case-insensitively everywhere
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// Sign-in only asks for a code when LOGIN_OTP_REQUIRED=true
+export function isLoginOtpRequired(): boolean {
+  return process.env.LOGIN_OTP_REQUIRED === 'true'
+}
+
+async function findLatestCode(db: Database, email: string, purpose: OtpPurpose): Promise<OtpCodeRecord | null> {
+  const [latest] = await db.otpCodes.findMany({
+    where: { email, purpose },
+    orderBy: { field: 'createdAt', direction: 'desc' },
+    take: 1,
+  })
+  return latest || null
+}
+
+// Emails a new code, replacing any earlier one for the same purpose. A new
+// code can only be requested once the cooldown since the last one has passed.
+async function issueOtp(db: Database, email: string, purpose: OtpPurpose): Promise<void> {
+  const now = Date.now()
+  const latest = await findLatestCode(db, email, purpose)
+  if (latest && !latest.consumedAt) {
+    const waitMs = new Date(latest.createdAt).getTime() + AUTH.OTP_RESEND_COOLDOWN_SECONDS * 1000 - now
+    if (waitMs > 0) {
+      throw new RateLimitError(ERROR_MESSAGES.OTP_RESEND_TOO_SOON, Math.ceil(waitMs / 1000))
+    }
+    await db.otpCodes.update(latest.id, { consumedAt: new Date(now).toISOString() })
+  }
+
+  const code = randomInt(0, 10 ** AUTH.OTP_LENGTH).toString().padStart(AUTH.OTP_LENGTH, '0')
+  const record = await db.otpCodes.create({
+    email,
+    purpose,
+    codeHash: await bcrypt.hash(code, AUTH.BCRYPT_ROUNDS),
+    expiresAt: new Date(now + AUTH.OTP_TTL_MINUTES * 60 * 1000).toISOString(),
+    attempts: 0,
+  })
+
+  try {
+    await sendOtpEmail(email, code, EMAIL_TYPES[purpose])
+  } catch (error) {
+    // An unsent code would only block the customer from asking for another
+    await db.otpCodes.delete(record.id)
+    throw new AppError((error as Error).message, 503)
+  }
+}
+
+// Spends the latest code for the purpose when it matches. Every guess is
+// counted in a transaction before the hash is compared, so parallel guesses
+// cannot get past the limit; the last allowed wrong one spends the code.
+async function verifyOtp(db: Database, email: string, purpose: OtpPurpose, code: string): Promise<void> {
+  const latest = await db.transaction(async (tx) => {
+    const latest = await findLatestCode(tx, email, purpose)
+    if (!latest || latest.consumedAt || new Date(latest.expiresAt).getTime() <= Date.now()) {
+      throw new AppError(ERROR_MESSAGES.OTP_EXPIRED, 400)
+    }
+    if (latest.attempts >= AUTH.OTP_MAX_ATTEMPTS) {
+      throw new AppError(ERROR_MESSAGES.OTP_TOO_MANY_ATTEMPTS, 429)
+    }
+    return tx.otpCodes.update(latest.id, { attempts: latest.attempts + 1 })
+  })
+
+  const matches = await bcrypt.compare(code, latest.codeHash)
+  const { attempts } = latest
+  const exhausted = !matches && attempts >= AUTH.OTP_MAX_ATTEMPTS
+
+  await db.transaction(async (tx) => {
+    const current = await tx.otpCodes.findById(latest.id)
+    // Replaced or spent by a parallel request while the hash was compared
+    if (!current || current.consumedAt) {
+      throw new AppError(ERROR_MESSAGES.OTP_EXPIRED, 400)
+    }
+    if (matches || exhausted) {
+      await tx.otpCodes.update(latest.id, { consumedAt: new Date().toISOString() })
+    }
+  })
+  if (matches) return
+
+  logger.logSecurityEvent('Incorrect one-time code', undefined, undefined, { email, purpose, attempts })
+  if (exhausted) {
+    throw new AppError(ERROR_MESSAGES.OTP_TOO_MANY_ATTEMPTS, 429)
+  }
+  throw new AppError(ERROR_MESSAGES.OTP_INVALID, 400)
+}
+
+async function findUserByEmail(db: Database, email: string): Promise<UserRecord | null> {
+  return db.users.findFirst({ email: normalizeEmail(email) })
+}
+
+// Creates the account unverified and emails the registration code. Signing up
+// again before verifying replaces the details, so a lost code is not a dead end.
+export async function registerUser(db: Database, input: RegistrationInput): Promise<UserRecord> {
+  const email = normalizeEmail(input.email)
+  const passwordHash = await bcrypt.hash(input.password, AUTH.BCRYPT_ROUNDS)
+
+  const user = await db.transaction(async (tx) => {
+    const existing = await tx.users.findFirst({ email })
+    if (existing?.emailVerifiedAt) {
+      throw new AppError(ERROR_MESSAGES.EMAIL_ALREADY_EXISTS, 409)
+    }
+
+    const details = { name: input.name.trim(), phone: input.phone }
+    const account = existing
+      ? await tx.users.update(existing.id, details)
+      : await tx.users.create({ ...details, email, role: USER_ROLE.USER })
+
+    const credential = await tx.credentials.findFirst({ userId: account.id })
+    if (credential) {
+      await tx.credentials.update(credential.id, { passwordHash })
+    } else {
+      await tx.credentials.create({ userId: account.id, passwordHash })
+    }
+    return account
+  })
+
+  await issueOtp(db, email, OTP_PURPOSE.REGISTRATION)
+
+  logger.logBusinessEvent('User registered', { email }, user.id)
+  return user
+}
+
+export async function verifyEmail(db: Database, email: string, code: string): Promise<UserRecord> {
+  const user = await findUserByEmail(db, email)
+  if (!user) {
+    throw new AppError(ERROR_MESSAGES.OTP_EXPIRED, 400)
+  }
+  if (user.emailVerifiedAt) {
+    throw new AppError(ERROR_MESSAGES.EMAIL_ALREADY_VERIFIED, 400)
+  }
+
+  await verifyOtp(db, user.email, OTP_PURPOSE.REGISTRATION, code)
+  const verified = await db.users.update(user.id, { emailVerifiedAt: new Date().toISOString() })
+
+  logger.logBusinessEvent('Email verified', { email: user.email }, user.id)
+  return verified
+}
+
+// Checks the password, then either signs the user in or, when sign-in codes
+// are required, emails one and asks for it
+export async function authenticate(db: Database, email: string, password: string): Promise<LoginResult> {
+  const user = await findUserByEmail(db, email)
+  const credential = user ? await db.credentials.findFirst({ userId: user.id }) : null
+
+  if (!user || !credential || !await bcrypt.compare(password, credential.passwordHash)) {
+    logger.logSecurityEvent('Failed sign-in', user?.id, undefined, { email })
+    throw new AppError(ERROR_MESSAGES.INVALID_CREDENTIALS, 401)
+  }
+  if (!user.emailVerifiedAt) {
+    throw new AppError(ERROR_MESSAGES.EMAIL_NOT_VERIFIED, 403, true, AUTH.EMAIL_NOT_VERIFIED_CODE)
+  }
+
+  if (isLoginOtpRequired()) {
+    try {
+      await issueOtp(db, user.email, OTP_PURPOSE.LOGIN)
+    } catch (error) {
+      // Signing in again during the cooldown keeps the code already sent
+      if (!(error instanceof RateLimitError)) throw error
+    }
+    return { requiresOtp: true, email: user.email }
+  }
+
+  logger.logBusinessEvent('User signed in', {}, user.id)
+  return { user, requiresOtp: false, email: user.email }
+}
+
+export async function completeLogin(db: Database, email: string, code: string): Promise<UserRecord> {
+  const user = await findUserByEmail(db, email)
+  if (!user) {
+    throw new AppError(ERROR_MESSAGES.OTP_EXPIRED, 400)
+  }
+
+  await verifyOtp(db, user.email, OTP_PURPOSE.LOGIN, code)
+
+  logger.logBusinessEvent('User signed in', { withOtp: true }, user.id)
+  return user
+}
+
+// A sign-in code is only resent while the password step that asked for it is
+// still fresh; unknown emails are ignored so the response reveals nothing
+export async function resendOtp(db: Database, email: string, purpose: OtpPurpose): Promise<void> {
+  const user = await findUserByEmail(db, email)
+  if (!user) return
+
+  if (purpose === OTP_PURPOSE.REGISTRATION) {
+    if (user.emailVerifiedAt) {
+      throw new AppError(ERROR_MESSAGES.EMAIL_ALREADY_VERIFIED, 400)
+    }
+  } else {
+    const latest = await findLatestCode(db, user.email, purpose)
+    if (!latest || latest.consumedAt || new Date(latest.expiresAt).getTime() <= Date.now()) {
+      throw new AppError(ERROR_MESSAGES.OTP_EXPIRED, 400)
+    }
+  }
+
+  await issueOtp(db, user.email, purpose)
+}
+
+// Always looks successful to the caller, whether or not the account exists
+export async function requestPasswordReset(db: Database, email: string): Promise<void> {
+  const user = await findUserByEmail(db, email)
+  if (!user) return
+
+  try {
+    await issueOtp(db, user.email, OTP_PURPOSE.RESET)
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) throw error
+  }
+  logger.logBusinessEvent('Password reset requested', {}, user.id)
+}
+
+// The emailed code proves the customer owns the address, so a reset also
+// verifies an account that never completed registration. Sessions signed
+// before the reset stop working, signing out anyone holding an old one.
+export async function resetPassword(db: Database, email: string, code: string, password: string): Promise<UserRecord> {
+  const user = await findUserByEmail(db, email)
+  if (!user) {
+    throw new AppError(ERROR_MESSAGES.OTP_EXPIRED, 400)
+  }
+
+  await verifyOtp(db, user.email, OTP_PURPOSE.RESET, code)
+  const passwordHash = await bcrypt.hash(password, AUTH.BCRYPT_ROUNDS)
+
+  const updated = await db.transaction(async (tx) => {
+    const credential = await tx.credentials.findFirst({ userId: user.id })
+    if (credential) {
+      await tx.credentials.update(credential.id, { passwordHash })
+    } else {
+      await tx.credentials.create({ userId: user.id, passwordHash })
+    }
+    const now = new Date().toISOString()
+    return tx.users.update(user.id, {
+      passwordChangedAt: now,
+      ...(!user.emailVerifiedAt && { emailVerifiedAt: now }),
+    })
+  })
+
+  logger.logBusinessEvent('Password reset', {}, user.id)
+  return updated
+}
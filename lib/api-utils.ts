@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ZodError } from 'zod'
-import { ApiResponse, ApiError, ValidationError, RateLimitInfo } from './types'
+import { ApiResponse, ApiError, PaginatedResponse, ValidationError, RateLimitInfo } from './types'
 import { API_RESPONSE_STATUS, ERROR_MESSAGES } from './constants'
 import { logger, generateRequestId } from './logger'
 
@@ -37,6 +37,15 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class ConflictError extends AppError {
+  public details?: Record<string, any>
+
+  constructor(message: string, code: string, details?: Record<string, any>) {
+    super(message, 409, true, code)
+    this.details = details
+  }
+}
+
 // Success response helper
 export function createSuccessResponse<T>(
   data: T,
@@ -53,12 +62,42 @@ export function createSuccessResponse<T>(
   return NextResponse.json(response, { status: statusCode })
 }
 
+// Paginated response helper
+export function createPaginatedResponse<T, E extends Record<string, unknown> = {}>(
+  items: T[],
+  pagination: { page: number; limit: number; total: number },
+  message: string = 'Success',
+  extra?: E
+): NextResponse<PaginatedResponse<T> & E> {
+  const { page, limit, total } = pagination
+  const pages = Math.ceil(total / limit)
+
+  const response = {
+    status: API_RESPONSE_STATUS.SUCCESS,
+    message,
+    data: items,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages,
+      hasNext: page < pages,
+      hasPrev: page > 1,
+    },
+    timestamp: new Date().toISOString(),
+    ...extra,
+  } as PaginatedResponse<T> & E
+
+  return NextResponse.json(response)
+}
+
 // Error response helper
 export function createErrorResponse(
   message: string,
   statusCode: number = 500,
   errors?: Record<string, string[]> | ValidationError[],
-  code?: string
+  code?: string,
+  details?: Record<string, any>
 ): NextResponse<ApiResponse> {
   let status: keyof typeof API_RESPONSE_STATUS
   
@@ -86,6 +125,8 @@ export function createErrorResponse(
     status,
     message,
     error: message,
+    ...(code && { code }),
+    ...(details && { details }),
     timestamp: new Date().toISOString(),
   }
 
@@ -125,6 +166,16 @@ export function handleApiError(error: unknown, requestId?: string): NextResponse
     return response
   }
 
+  if (error instanceof ConflictError) {
+    return createErrorResponse(
+      error.message,
+      error.statusCode,
+      undefined,
+      error.code,
+      error.details
+    )
+  }
+
   if (error instanceof AppError) {
     return createErrorResponse(
       error.message,
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { AppError } from './api-utils'
+import { AUTH, ERROR_MESSAGES, USER_ROLE, UserRole } from './constants'
+import { getDatabase, UserRecord } from './db'
+import { logger } from './logger'
+
+// Name of the httpOnly cookie holding the session JWT
+export const AUTH_COOKIE = 'token'
+
+export interface AuthTokenPayload {
+  userId: string
+  email: string
+  role: UserRole
+  // Issued-at, in seconds, set by jsonwebtoken when signing
+  iat?: number
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET
+  if (!secret) {
+    throw new AppError('JWT_SECRET is not configured', 500, false)
+  }
+  return secret
+}
+
+export function verifyAuthToken(token: string): AuthTokenPayload | null {
+  try {
+    return jwt.verify(token, getJwtSecret()) as AuthTokenPayload
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    logger.debug('Invalid auth token', { error: (error as Error).message })
+    return null
+  }
+}
+
+export function signAuthToken(user: UserRecord): string {
+  const payload: AuthTokenPayload = { userId: user.id, email: user.email, role: user.role }
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: `${AUTH.SESSION_TTL_DAYS}d` })
+}
+
+// Sign the user in by attaching a fresh session cookie to the response
+export function startSession<T>(response: NextResponse<T>, user: UserRecord): NextResponse<T> {
+  response.cookies.set(AUTH_COOKIE, signAuthToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: AUTH.SESSION_TTL_DAYS * 24 * 60 * 60,
+  })
+  return response
+}
+
+export function endSession<T>(response: NextResponse<T>): NextResponse<T> {
+  response.cookies.set(AUTH_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+  return response
+}
+
+// Resolve the user behind the request's session cookie, if any
+export async function getAuthUser(request: NextRequest): Promise<UserRecord | null> {
+  const token = request.cookies.get(AUTH_COOKIE)?.value
+  if (!token) return null
+
+  const payload = verifyAuthToken(token)
+  if (!payload) return null
+
+  const db = await getDatabase()
+  const user = await db.users.findById(payload.userId)
+  if (user?.passwordChangedAt && (payload.iat ?? 0) < Math.floor(new Date(user.passwordChangedAt).getTime() / 1000)) {
+    logger.logSecurityEvent('Session signed before password change', user.id, request.ip)
+    return null
+  }
+  return user
+}
+
+export async function requireAuth(request: NextRequest): Promise<UserRecord> {
+  const user = await getAuthUser(request)
+  if (!user) {
+    throw new AppError(ERROR_MESSAGES.UNAUTHORIZED, 401)
+  }
+  return user
+}
+
+export async function requireAdmin(request: NextRequest): Promise<UserRecord> {
+  const user = await requireAuth(request)
+  if (user.role !== USER_ROLE.ADMIN) {
+    logger.logSecurityEvent('Admin access denied', user.id, request.ip)
+    throw new AppError(ERROR_MESSAGES.FORBIDDEN, 403)
+  }
+  return user
+}
@@ -0,0 +1,246 @@
+import { AppError, ConflictError } from './api-utils'
+import { AVAILABILITY, BOOKING_STATUS, ERROR_MESSAGES, WAITLIST_STATUS } from './constants'
+import { BookingRecord, Database, MaintenanceRecord } from './db'
+import { DateRange, rangesOverlap } from './utils'
+import { AvailabilityCalendar, UnavailableRange } from './types'
+
+export const BOOKING_CONFLICT_CODE = 'BOOKING_CONFLICT'
+export const ITEM_ON_HOLD_CODE = 'ITEM_ON_HOLD'
+export const ITEM_UNDER_MAINTENANCE_CODE = 'ITEM_UNDER_MAINTENANCE'
+
+export interface BookingTarget {
+  equipmentId?: string
+  brokerageId?: string
+}
+
+export interface AvailabilityOptions {
+  // Ignore this booking when re-checking an existing booking's dates
+  excludeBookingId?: string
+  // Holds placed for this user do not block them
+  userId?: string
+}
+
+export interface AvailabilityHold {
+  userId: string
+  startDate: string
+  endDate: string
+  expiresAt: string
+}
+
+export interface BookingConflict {
+  bookingId: string
+  startDate: string
+  endDate: string
+  status: BookingRecord['status']
+}
+
+export function targetWhere(target: BookingTarget) {
+  if (target.equipmentId) return { equipmentId: target.equipmentId }
+  if (target.brokerageId) return { brokerageId: target.brokerageId }
+  throw new Error('Booking target requires an equipmentId or brokerageId')
+}
+
+// Every item a booking occupies: the bundle's items, or its single item
+export async function findBookingTargets(db: Database, booking: BookingRecord): Promise<BookingTarget[]> {
+  const items = await db.bookingItems.findMany({ where: { bookingId: booking.id } })
+  if (items.length > 0) {
+    return items.map(item => ({ equipmentId: item.equipmentId }))
+  }
+
+  return booking.equipmentId || booking.brokerageId
+    ? [{ equipmentId: booking.equipmentId, brokerageId: booking.brokerageId }]
+    : []
+}
+
+export async function findConflictingBookings(
+  db: Database,
+  target: BookingTarget,
+  range: DateRange,
+  options: AvailabilityOptions = {}
+): Promise<BookingRecord[]> {
+  const bookings = await db.bookings.findMany({ where: targetWhere(target) })
+
+  // Equipment can also be taken as one item of another booking's bundle
+  if (target.equipmentId) {
+    const bundled = await db.bookingItems.findMany({ where: { equipmentId: target.equipmentId } })
+    for (const item of bundled) {
+      if (bookings.some(booking => booking.id === item.bookingId)) continue
+
+      const booking = await db.bookings.findById(item.bookingId)
+      if (booking) bookings.push(booking)
+    }
+  }
+
+  return bookings.filter(booking =>
+    booking.id !== options.excludeBookingId &&
+    booking.status !== BOOKING_STATUS.CANCELLED &&
+    rangesOverlap(booking, range)
+  )
+}
+
+// Maintenance windows of an equipment item overlapping the range
+export async function findMaintenanceWindows(
+  db: Database,
+  target: BookingTarget,
+  range: DateRange
+): Promise<MaintenanceRecord[]> {
+  if (!target.equipmentId) return []
+
+  const windows = await db.maintenance.findMany({ where: { equipmentId: target.equipmentId } })
+  return windows.filter(window => rangesOverlap(window, range))
+}
+
+// Unexpired holds on the item: checkout holds and dates offered to a
+// waitlisted customer. Expired holds are simply ignored.
+export async function findActiveHolds(
+  db: Database,
+  target: BookingTarget,
+  range: DateRange,
+  options: AvailabilityOptions = {},
+  now: Date = new Date()
+): Promise<AvailabilityHold[]> {
+  const [checkoutHolds, offers] = await Promise.all([
+    db.bookingHolds.findMany({ where: targetWhere(target) }),
+    db.waitlist.findMany({ where: { ...targetWhere(target), status: WAITLIST_STATUS.OFFERED } }),
+  ])
+
+  const holds: AvailabilityHold[] = [
+    ...checkoutHolds.map(hold => ({ ...hold })),
+    ...offers.map(offer => ({ ...offer, expiresAt: offer.holdExpiresAt! })),
+  ].map(({ userId, startDate, endDate, expiresAt }) => ({ userId, startDate, endDate, expiresAt }))
+
+  return holds.filter(hold =>
+    hold.userId !== options.userId &&
+    new Date(hold.expiresAt) > now &&
+    rangesOverlap(hold, range)
+  )
+}
+
+export class ItemOnHoldError extends ConflictError {
+  constructor(target: BookingTarget, holds: AvailabilityHold[]) {
+    super(ERROR_MESSAGES.ITEM_ON_HOLD, ITEM_ON_HOLD_CODE, {
+      ...target,
+      holds: holds.map(({ startDate, endDate, expiresAt }) => ({ startDate, endDate, expiresAt })),
+    })
+  }
+}
+
+export class ItemUnderMaintenanceError extends ConflictError {
+  constructor(target: BookingTarget, windows: MaintenanceRecord[]) {
+    super(ERROR_MESSAGES.ITEM_UNDER_MAINTENANCE, ITEM_UNDER_MAINTENANCE_CODE, {
+      ...target,
+      windows: windows.map(({ startDate, endDate }) => ({ startDate, endDate })),
+    })
+  }
+}
+
+export class BookingConflictError extends ConflictError {
+  public conflicts: BookingConflict[]
+
+  constructor(target: BookingTarget, conflicts: BookingConflict[]) {
+    // Other customers' booking ids stay server-side; clients only see the taken ranges
+    super(ERROR_MESSAGES.BOOKING_CONFLICT, BOOKING_CONFLICT_CODE, {
+      ...target,
+      conflicts: conflicts.map(({ startDate, endDate }) => ({ startDate, endDate })),
+    })
+    this.conflicts = conflicts
+  }
+}
+
+// Throws a 409 BookingConflictError when the range is taken,
+// ItemUnderMaintenanceError when the item is being serviced, or ItemOnHoldError
+// when it is held for someone else. Call inside
+// db.transaction() together with the write so concurrent requests serialise.
+export async function assertAvailable(
+  db: Database,
+  target: BookingTarget,
+  range: DateRange,
+  options: AvailabilityOptions = {}
+): Promise<void> {
+  const conflicts = await findConflictingBookings(db, target, range, options)
+
+  if (conflicts.length > 0) {
+    throw new BookingConflictError(
+      target,
+      conflicts.map(booking => ({
+        bookingId: booking.id,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        status: booking.status,
+      }))
+    )
+  }
+
+  const maintenance = await findMaintenanceWindows(db, target, range)
+  if (maintenance.length > 0) {
+    throw new ItemUnderMaintenanceError(target, maintenance)
+  }
+
+  const holds = await findActiveHolds(db, target, range, options)
+  if (holds.length > 0) {
+    throw new ItemOnHoldError(target, holds)
+  }
+}
+
+export interface CalendarWindow {
+  from?: string
+  to?: string
+}
+
+function resolveWindow(window: CalendarWindow): { from: Date; to: Date } {
+  const day = 24 * 60 * 60 * 1000
+  const from = window.from ? new Date(window.from) : new Date()
+  const requestedTo = window.to
+    ? new Date(window.to)
+    : new Date(from.getTime() + AVAILABILITY.DEFAULT_WINDOW_DAYS * day)
+  const maxTo = new Date(from.getTime() + AVAILABILITY.MAX_WINDOW_DAYS * day)
+
+  return { from, to: requestedTo > maxTo ? maxTo : requestedTo }
+}
+
+// Booked and blocked ranges for one item within a window, for calendar display.
+// Holds belonging to `options.userId` are left out so the holder can book them.
+export async function getAvailabilityCalendar(
+  db: Database,
+  target: BookingTarget,
+  window: CalendarWindow = {},
+  options: AvailabilityOptions = {}
+): Promise<AvailabilityCalendar> {
+  const itemId = target.equipmentId || target.brokerageId!
+  const item = target.equipmentId
+    ? await db.equipment.findById(target.equipmentId)
+    : await db.brokerage.findById(itemId)
+
+  if (!item) {
+    throw new AppError(
+      target.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_FOUND : ERROR_MESSAGES.BROKERAGE_NOT_FOUND,
+      404
+    )
+  }
+
+  const { from, to } = resolveWindow(window)
+  const range = { startDate: from, endDate: to }
+
+  const booked: UnavailableRange[] = (await findConflictingBookings(db, target, range))
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
+    .map(booking => ({ startDate: booking.startDate, endDate: booking.endDate, reason: 'BOOKED' }))
+
+  const blocked: UnavailableRange[] = [
+    ...(await findMaintenanceWindows(db, target, range))
+      .map(window => ({ startDate: window.startDate, endDate: window.endDate, reason: 'MAINTENANCE' as const })),
+    ...(await findActiveHolds(db, target, range, options))
+      .map(hold => ({ startDate: hold.startDate, endDate: hold.endDate, reason: 'HELD' as const })),
+  ]
+  if (!item.available) {
+    blocked.push({ startDate: from.toISOString(), endDate: to.toISOString(), reason: 'UNAVAILABLE' })
+  }
+
+  return {
+    itemId,
+    available: item.available,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    booked,
+    blocked,
+  }
+}
@@ -0,0 +1,94 @@
+import { AppError } from './api-utils'
+import { BookingTarget, assertAvailable, targetWhere } from './availability'
+import { CHECKOUT_HOLD, ERROR_MESSAGES, JOB_TYPE } from './constants'
+import { BookingHoldRecord, Database, UserRecord } from './db'
+import { scheduleJob } from './jobs'
+import { logger } from './logger'
+
+const MINUTE_MS = 60 * 1000
+
+export interface BookingHoldInput extends BookingTarget {
+  startDate: string
+  endDate: string
+}
+
+// Hold length in minutes, overridable with CHECKOUT_HOLD_MINUTES
+export function getHoldTtlMinutes(): number {
+  const configured = Number(process.env.CHECKOUT_HOLD_MINUTES)
+  if (!Number.isFinite(configured) || configured <= 0) {
+    return CHECKOUT_HOLD.DEFAULT_TTL_MINUTES
+  }
+  return Math.min(configured, CHECKOUT_HOLD.MAX_TTL_MINUTES)
+}
+
+// Availability ignores expired holds; they are deleted here the next time the
+// item is held, or by the expiry job that offers their dates to the waitlist.
+async function purgeExpiredHolds(db: Database, target: BookingTarget, now: Date): Promise<void> {
+  const holds = await db.bookingHolds.findMany({ where: targetWhere(target) })
+  for (const hold of holds.filter(hold => new Date(hold.expiresAt) <= now)) {
+    await db.bookingHolds.delete(hold.id)
+  }
+}
+
+// Reserve the dates for this user while they check out. A user keeps at most
+// one hold per item, so picking new dates replaces the previous hold.
+export async function placeHold(
+  db: Database,
+  user: UserRecord,
+  input: BookingHoldInput,
+  now: Date = new Date()
+): Promise<BookingHoldRecord> {
+  const target = { equipmentId: input.equipmentId, brokerageId: input.brokerageId }
+
+  return db.transaction(async (tx) => {
+    const item = target.equipmentId
+      ? await tx.equipment.findById(target.equipmentId)
+      : await tx.brokerage.findById(target.brokerageId!)
+
+    if (!item || !item.available) {
+      throw new AppError(
+        target.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_AVAILABLE : ERROR_MESSAGES.BROKERAGE_NOT_AVAILABLE,
+        400
+      )
+    }
+
+    await purgeExpiredHolds(tx, target, now)
+    await consumeHolds(tx, user.id, target)
+    await assertAvailable(tx, target, input, { userId: user.id })
+
+    const hold = await tx.bookingHolds.create({
+      userId: user.id,
+      ...target,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      expiresAt: new Date(now.getTime() + getHoldTtlMinutes() * MINUTE_MS).toISOString(),
+    })
+
+    await scheduleJob(tx, {
+      type: JOB_TYPE.CHECKOUT_HOLD_EXPIRY,
+      runAt: hold.expiresAt,
+      payload: { holdId: hold.id, ...target },
+    })
+
+    logger.logBusinessEvent('Checkout hold placed', { holdId: hold.id, expiresAt: hold.expiresAt, ...target }, user.id)
+    return hold
+  })
+}
+
+export async function releaseHold(db: Database, user: UserRecord, holdId: string): Promise<BookingHoldRecord> {
+  const hold = await db.bookingHolds.findById(holdId)
+  if (!hold || hold.userId !== user.id) {
+    throw new AppError(ERROR_MESSAGES.HOLD_NOT_FOUND, 404)
+  }
+
+  await db.bookingHolds.delete(holdId)
+  return hold
+}
+
+// Drop the user's holds on an item, e.g. once the held dates are booked
+export async function consumeHolds(db: Database, userId: string, target: BookingTarget): Promise<void> {
+  const holds = await db.bookingHolds.findMany({ where: { ...targetWhere(target), userId } })
+  for (const hold of holds) {
+    await db.bookingHolds.delete(hold.id)
+  }
+}
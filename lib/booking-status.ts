@@ -0,0 +1,229 @@
+import { AppError, ConflictError } from './api-utils'
+import { assertAvailable, findBookingTargets } from './availability'
+import { quoteCancellation } from './cancellation'
+import { syncContractBilling } from './contract-billing'
+import { cancelDeliveryForBooking } from './deliveries'
+import { resolveDeposit } from './deposits'
+import { getBookingBalance, getMinPaidPercentage, getMinimumPayment, postLedgerEntry } from './ledger'
+import { syncBookingReminders } from './jobs/booking-reminders'
+import { processWaitlist } from './waitlist'
+import {
+  BOOKING_STATUS,
+  BOOKING_STATUS_TRANSITIONS,
+  BookingStatus,
+  DEPOSIT_STATUS,
+  ERROR_MESSAGES,
+  LEDGER_ENTRY_KIND,
+} from './constants'
+import { BookingRecord, Database, UserRecord } from './db'
+import { BookingStatusChange } from './types'
+import { logger } from './logger'
+
+export const INVALID_STATUS_TRANSITION_CODE = 'INVALID_STATUS_TRANSITION'
+
+export interface TransitionContext {
+  db: Database
+  booking: BookingRecord
+  from: BookingStatus
+  to: BookingStatus
+  actor: UserRecord
+  reason?: string
+}
+
+// Guards run inside the transition's transaction and throw to block it
+export type TransitionGuard = (context: TransitionContext) => Promise<void>
+
+const guards: Partial<Record<BookingStatus, TransitionGuard[]>> = {}
+
+export function registerTransitionGuard(to: BookingStatus, guard: TransitionGuard): void {
+  guards[to] = [...(guards[to] || []), guard]
+}
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_STATUS_TRANSITIONS[from].includes(to)
+}
+
+export function createStatusChange(
+  from: BookingStatus | null,
+  to: BookingStatus,
+  actor: UserRecord,
+  reason?: string
+): BookingStatusChange {
+  return {
+    from,
+    to,
+    actorId: actor.id,
+    actorName: actor.name,
+    actorRole: actor.role,
+    ...(reason && { reason }),
+    timestamp: new Date().toISOString(),
+  }
+}
+
+// A booking can only be confirmed while its items are listed and the dates
+// are free; a bundle is confirmed as a whole or not at all
+registerTransitionGuard(BOOKING_STATUS.CONFIRMED, async ({ db, booking }) => {
+  for (const target of await findBookingTargets(db, booking)) {
+    const item = target.equipmentId
+      ? await db.equipment.findById(target.equipmentId)
+      : await db.brokerage.findById(target.brokerageId!)
+
+    if (item && !item.available) {
+      throw new AppError(
+        target.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_AVAILABLE : ERROR_MESSAGES.BROKERAGE_NOT_AVAILABLE,
+        409
+      )
+    }
+
+    await assertAvailable(db, target, booking, { excludeBookingId: booking.id, userId: booking.userId })
+  }
+})
+
+export const MINIMUM_PAYMENT_REQUIRED_CODE = 'MINIMUM_PAYMENT_REQUIRED'
+
+// Customers pay part of the total upfront before a booking is confirmed.
+// Contract bookings are billed through the contract instead.
+registerTransitionGuard(BOOKING_STATUS.CONFIRMED, async ({ db, booking }) => {
+  if (booking.contractId) return
+
+  const balance = await getBookingBalance(db, booking)
+  const required = getMinimumPayment(balance)
+  const paid = balance.paid - balance.refunded
+  if (paid < required) {
+    throw new ConflictError(ERROR_MESSAGES.MINIMUM_PAYMENT_REQUIRED, MINIMUM_PAYMENT_REQUIRED_CODE, {
+      required,
+      paid,
+      percentage: getMinPaidPercentage(),
+    })
+  }
+})
+
+export interface TransitionOptions {
+  actor: UserRecord
+  reason?: string
+  // Extra fields written together with the status change
+  changes?: Partial<Omit<BookingRecord, 'id' | 'status' | 'statusHistory' | 'createdAt' | 'updatedAt'>>
+}
+
+// Move a booking to a new status, enforcing the transition table and guards,
+// and append the change to the booking's history.
+export async function transitionBooking(
+  db: Database,
+  bookingId: string,
+  to: BookingStatus,
+  options: TransitionOptions
+): Promise<BookingRecord> {
+  return db.transaction(async (tx) => {
+    const booking = await tx.bookings.findById(bookingId)
+    if (!booking) {
+      throw new AppError(ERROR_MESSAGES.BOOKING_NOT_FOUND, 404)
+    }
+
+    const from = booking.status
+    if (!canTransition(from, to)) {
+      throw new ConflictError(
+        `${ERROR_MESSAGES.INVALID_STATUS_TRANSITION} from ${from} to ${to}`,
+        INVALID_STATUS_TRANSITION_CODE,
+        { from, to, allowed: BOOKING_STATUS_TRANSITIONS[from] }
+      )
+    }
+
+    const context: TransitionContext = { db: tx, booking, from, to, actor: options.actor, reason: options.reason }
+    for (const guard of guards[to] || []) {
+      await guard(context)
+    }
+
+    const updated = await tx.bookings.update(bookingId, {
+      ...options.changes,
+      status: to,
+      statusHistory: [
+        ...(booking.statusHistory || []),
+        createStatusChange(from, to, options.actor, options.reason),
+      ],
+    })
+    await syncBookingReminders(tx, updated)
+
+    logger.logBusinessEvent('Booking status changed', { bookingId, from, to, reason: options.reason }, options.actor.id)
+    return updated
+  })
+}
+
+export interface CancelOptions {
+  actor: UserRecord
+  reason?: string
+  waiveFee?: boolean
+}
+
+// Cancellation keeps the booking and records who cancelled it, why, and the
+// fee and refund under the category's cancellation policy. The status change
+// and everything that follows from it commit together; the waitlist is only
+// offered the freed dates once they are.
+export async function cancelBooking(db: Database, bookingId: string, options: CancelOptions): Promise<BookingRecord> {
+  const cancelled = await db.transaction(tx => cancelBookingInTransaction(tx, bookingId, options))
+
+  // The freed dates may satisfy someone on the waitlist
+  for (const target of await findBookingTargets(db, cancelled)) {
+    await processWaitlist(db, target)
+  }
+  return cancelled
+}
+
+// The transactional part of cancelBooking, for callers that cancel inside
+// their own transaction. They offer the freed dates to the waitlist once it
+// has committed.
+export async function cancelBookingInTransaction(tx: Database, bookingId: string, options: CancelOptions): Promise<BookingRecord> {
+  return tx.transaction(async (tx) => {
+    const booking = await tx.bookings.findById(bookingId)
+    if (!booking) {
+      throw new AppError(ERROR_MESSAGES.BOOKING_NOT_FOUND, 404)
+    }
+    if (booking.status === BOOKING_STATUS.CANCELLED) {
+      throw new AppError(ERROR_MESSAGES.BOOKING_ALREADY_CANCELLED, 400)
+    }
+
+    const cancellation = await quoteCancellation(tx, booking, options.actor, { waiveFee: options.waiveFee })
+
+    const cancelled = await transitionBooking(tx, bookingId, BOOKING_STATUS.CANCELLED, {
+      actor: options.actor,
+      reason: options.reason,
+      changes: {
+        cancellationReason: options.reason,
+        cancelledById: options.actor.id,
+        cancelledByRole: options.actor.role,
+        cancelledAt: cancellation.calculatedAt,
+        cancellation,
+        // Nothing went out, so a held deposit is returned in full
+        ...(booking.deposit?.status === DEPOSIT_STATUS.HELD && {
+          deposit: resolveDeposit(booking.deposit, [], options.actor),
+        }),
+      },
+    })
+
+    // Only the cancellation fee stays payable, paid or not; anything already
+    // paid above it shows as a credit on the ledger, to be refunded
+    if (cancellation.refund > 0) {
+      await postLedgerEntry(tx, cancelled, {
+        kind: LEDGER_ENTRY_KIND.ADJUSTMENT,
+        amount: -cancellation.refund,
+        description: cancellation.fee > 0 ? 'Cancelled, cancellation fee charged' : 'Cancelled',
+      }, options.actor)
+    }
+
+    if (booking.deposit?.status === DEPOSIT_STATUS.HELD) {
+      await postLedgerEntry(tx, cancelled, {
+        kind: LEDGER_ENTRY_KIND.ADJUSTMENT,
+        amount: -booking.deposit.amount,
+        description: 'Cancelled, security deposit returned',
+      }, options.actor)
+    }
+
+    await cancelDeliveryForBooking(tx, bookingId, options.actor)
+
+    // A skipped contract booking is no longer billed
+    const contract = booking.contractId ? await tx.contracts.findById(booking.contractId) : null
+    if (contract) {
+      await syncContractBilling(tx, contract)
+    }
+    return cancelled
+  })
+}
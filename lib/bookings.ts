@@ -0,0 +1,129 @@
+import { Booking, BookingFilters, Brokerage, Equipment, User } from './types'
+import { AppError } from './api-utils'
+import { ERROR_MESSAGES, USER_ROLE } from './constants'
+import { BaseRecord, BookingRecord, Database, EquipmentRecord, Repository, UserRecord, WhereInput } from './db'
+import { summarizeLedger } from './ledger'
+import { rangesOverlap } from './utils'
+
+// Each distinct id looked up once; missing records are left out
+async function findByIds<T extends BaseRecord>(repository: Repository<T>, ids: (string | undefined)[]): Promise<Map<string, T>> {
+  const unique = Array.from(new Set(ids.filter((id): id is string => !!id)))
+  const records = await Promise.all(unique.map(id => repository.findById(id)))
+  const found = new Map<string, T>()
+  records.forEach(record => record && found.set(record.id, record))
+  return found
+}
+
+// Related records of each booking, in creation order
+async function findByBooking<T extends BaseRecord & { bookingId: string; createdAt: string }>(repository: Repository<T>, bookingIds: string[]): Promise<Map<string, T[]>> {
+  const lists = await Promise.all(bookingIds.map(bookingId =>
+    repository.findMany({ where: { bookingId } as WhereInput<T>, orderBy: { field: 'createdAt' as keyof T, direction: 'asc' } })
+  ))
+  return new Map(bookingIds.map((bookingId, index) => [bookingId, lists[index]]))
+}
+
+// Join booking records with their user, booked items, delivery and balance
+// for API responses. Only the records the given bookings refer to are read.
+export async function hydrateBookings(db: Database, records: BookingRecord[]): Promise<Booking[]> {
+  const bookingIds = records.map(record => record.id)
+  const [bookingItems, deliveries, inspections, damageClaims, ledgerEntries] = await Promise.all([
+    findByBooking(db.bookingItems, bookingIds),
+    findByBooking(db.deliveries, bookingIds),
+    findByBooking(db.inspections, bookingIds),
+    findByBooking(db.damageClaims, bookingIds),
+    findByBooking(db.ledgerEntries, bookingIds),
+  ])
+
+  const bundledIds = Array.from(bookingItems.values()).flat().map(item => item.equipmentId)
+  const [usersById, equipmentById, brokerageById] = await Promise.all([
+    findByIds(db.users, records.map(record => record.userId)),
+    findByIds(db.equipment, [...records.map(record => record.equipmentId), ...bundledIds]),
+    findByIds(db.brokerage, records.map(record => record.brokerageId)),
+  ])
+  const categoriesById = await findByIds(db.categories, [
+    ...Array.from(equipmentById.values()).map(item => item.categoryId),
+    ...Array.from(brokerageById.values()).map(item => item.categoryId),
+  ])
+  const withCategory = (item: EquipmentRecord) =>
+    ({ ...item, category: categoriesById.get(item.categoryId)! }) as Equipment
+
+  return records.map(record => {
+    const user = usersById.get(record.userId)
+    const equipmentItem = record.equipmentId ? equipmentById.get(record.equipmentId) : undefined
+    const brokerageItem = record.brokerageId ? brokerageById.get(record.brokerageId) : undefined
+    const items = (bookingItems.get(record.id) || [])
+      .map(item => {
+        const bundled = equipmentById.get(item.equipmentId)
+        return { ...item, ...(bundled && { equipment: withCategory(bundled) }) }
+      })
+    const [delivery] = deliveries.get(record.id) || []
+    const [inspection] = inspections.get(record.id) || []
+    const claims = damageClaims.get(record.id) || []
+    const balance = summarizeLedger(record, ledgerEntries.get(record.id) || [])
+
+    return {
+      ...record,
+      user: user as User,
+      ...(equipmentItem && {
+        equipment: withCategory(equipmentItem),
+      }),
+      ...(brokerageItem && {
+        brokerage: { ...brokerageItem, category: categoriesById.get(brokerageItem.categoryId)! } as Brokerage,
+      }),
+      ...(items.length > 0 && { items }),
+      ...(delivery && { delivery }),
+      ...(inspection && { inspection }),
+      ...(claims.length > 0 && { damageClaims: claims }),
+      balance,
+    }
+  })
+}
+
+export async function hydrateBooking(db: Database, record: BookingRecord): Promise<Booking> {
+  const [booking] = await hydrateBookings(db, [record])
+  return booking
+}
+
+// A booking the user may act on: their own, or any booking for admins
+export async function findBookingForUser(db: Database, id: string, user: UserRecord): Promise<BookingRecord> {
+  const booking = await db.bookings.findById(id)
+  if (!booking) {
+    throw new AppError(ERROR_MESSAGES.BOOKING_NOT_FOUND, 404)
+  }
+
+  if (booking.userId !== user.id && user.role !== USER_ROLE.ADMIN) {
+    throw new AppError(ERROR_MESSAGES.FORBIDDEN, 403)
+  }
+
+  return booking
+}
+
+// Bookings matching the filters, newest first. Date filters select bookings
+// overlapping the given window; without pagination every match is returned.
+export async function listBookings(
+  db: Database,
+  filters: Omit<BookingFilters, 'page' | 'limit'>,
+  pagination?: { skip: number; limit: number }
+): Promise<{ items: Booking[]; total: number }> {
+  const records = await db.bookings.findMany({
+    where: { userId: filters.userId, status: filters.status, type: filters.type },
+    orderBy: { field: 'createdAt', direction: 'desc' },
+  })
+
+  const window = {
+    startDate: filters.startDate || new Date(0),
+    endDate: filters.endDate || new Date(8640000000000000),
+  }
+  const matching = filters.startDate || filters.endDate
+    ? records.filter(record => rangesOverlap(record, window))
+    : records
+
+  const page = pagination
+    ? matching.slice(pagination.skip, pagination.skip + pagination.limit)
+    : matching
+
+  return {
+    items: await hydrateBookings(db, page),
+    total: matching.length,
+  }
+}
@@ -0,0 +1,64 @@
+import { AppError } from './api-utils'
+import { CATEGORY_TYPE, ERROR_MESSAGES } from './constants'
+import { CategoryRecord, Database, EquipmentRecord, PricingRuleRecord } from './db'
+import { BundlePrice, calculateBundlePrice } from './pricing'
+import { toBasePrice } from './currency'
+import { getExchangeRates } from './exchange-rates'
+import { BundleDiscountTier, ExchangeRates } from './types'
+import { DateRange } from './utils'
+import { logger } from './logger'
+
+export interface PricedBundle extends BundlePrice {
+  equipment: EquipmentRecord[]
+}
+
+// Load every item of a bundle and price it; all items must exist and be listed
+export async function priceBundle(
+  db: Database,
+  equipmentIds: string[],
+  range: DateRange,
+  rules: PricingRuleRecord[] = [],
+  rates?: ExchangeRates
+): Promise<PricedBundle> {
+  const equipment: EquipmentRecord[] = []
+  for (const equipmentId of equipmentIds) {
+    const item = await db.equipment.findById(equipmentId)
+    if (!item || !item.available) {
+      throw new AppError(`${ERROR_MESSAGES.EQUIPMENT_NOT_AVAILABLE}: ${item?.title || equipmentId}`, 400)
+    }
+    equipment.push(item)
+  }
+
+  const categories = await db.categories.findMany({ where: { type: CATEGORY_TYPE.EQUIPMENT } })
+  const categoriesById = new Map(categories.map(category => [category.id, category]))
+  const currentRates = rates || await getExchangeRates(db)
+
+  const price = calculateBundlePrice(
+    equipment.map(item => ({
+      ...toBasePrice(item, currentRates),
+      category: categoriesById.get(item.categoryId) || { id: item.categoryId, name: 'Other' },
+    })),
+    range,
+    rules
+  )
+
+  return { ...price, equipment }
+}
+
+export async function updateBundleDiscounts(
+  db: Database,
+  categoryId: string,
+  bundleDiscounts: BundleDiscountTier[],
+  actorId: string
+): Promise<CategoryRecord> {
+  const category = await db.categories.findById(categoryId)
+  if (!category) {
+    throw new AppError(ERROR_MESSAGES.CATEGORY_NOT_FOUND, 404)
+  }
+
+  const sorted = [...bundleDiscounts].sort((a, b) => a.minItems - b.minItems)
+  const updated = await db.categories.update(categoryId, { bundleDiscounts: sorted })
+
+  logger.logBusinessEvent('Bundle discounts updated', { categoryId, bundleDiscounts: sorted }, actorId)
+  return updated
+}
@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto'
+import { AppError } from './api-utils'
+import { BOOKING_STATUS, COMPANY, ERROR_MESSAGES, USER_ROLE } from './constants'
+import { CalendarFeedRecord, Database, UserRecord } from './db'
+import { listBookings } from './bookings'
+import { renderCalendar } from './ical'
+import { BookingFilters } from './types'
+import { logger } from './logger'
+
+export type FeedFilters = Omit<BookingFilters, 'page' | 'limit'>
+
+export const CALENDAR_FEED_FILTER_KEYS = ['status', 'type', 'startDate', 'endDate', 'userId']
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString('hex')
+}
+
+export async function getOrCreateCalendarFeed(db: Database, user: UserRecord): Promise<CalendarFeedRecord> {
+  return db.transaction(async (tx) => {
+    const existing = await tx.calendarFeeds.findFirst({ userId: user.id })
+    if (existing) return existing
+
+    return tx.calendarFeeds.create({ userId: user.id, token: generateFeedToken() })
+  })
+}
+
+// Issuing a new token invalidates every previously shared feed URL
+export async function rotateCalendarFeed(db: Database, user: UserRecord): Promise<CalendarFeedRecord> {
+  const feed = await getOrCreateCalendarFeed(db, user)
+  const rotated = await db.calendarFeeds.update(feed.id, { token: generateFeedToken() })
+
+  logger.logSecurityEvent('Calendar feed token rotated', user.id)
+  return rotated
+}
+
+export function buildCalendarFeedUrl(baseUrl: string, token: string, filters: FeedFilters): string {
+  const url = new URL(`/api/calendar/feed/${token}`, baseUrl)
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) url.searchParams.set(key, String(value))
+  })
+  return url.toString()
+}
+
+// Feeds list confirmed bookings unless the subscriber asked for another status.
+// Customers only ever see their own bookings; admin feeds cover everyone.
+export async function renderCalendarFeed(db: Database, token: string, filters: FeedFilters): Promise<string> {
+  const feed = await db.calendarFeeds.findFirst({ token })
+  const owner = feed ? await db.users.findById(feed.userId) : null
+  if (!owner) {
+    throw new AppError(ERROR_MESSAGES.NOT_FOUND, 404)
+  }
+
+  const isAdmin = owner.role === USER_ROLE.ADMIN
+  const { items } = await listBookings(db, {
+    ...filters,
+    status: filters.status || BOOKING_STATUS.CONFIRMED,
+    userId: isAdmin ? filters.userId : owner.id,
+  })
+
+  return renderCalendar(items, {
+    name: isAdmin ? `${COMPANY.NAME} bookings` : `My ${COMPANY.NAME} bookings`,
+    includeCustomer: isAdmin,
+  })
+}
@@ -0,0 +1,119 @@
+import { AppError } from './api-utils'
+import { DEFAULT_CANCELLATION_POLICY, DEPOSIT_STATUS, ERROR_MESSAGES, USER_ROLE } from './constants'
+import { findBookingTargets } from './availability'
+import { BookingRecord, Database, UserRecord } from './db'
+import { getBookingBalance } from './ledger'
+import { roundCurrency } from './pricing'
+import { CancellationPolicy, CancellationQuote, CancellationTier } from './types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+type QuotableBooking = Pick<BookingRecord, 'startDate' | 'totalPrice'>
+
+// Where the booking's account stands before cancelling: the ledger balance,
+// with any held deposit charged on it
+export interface CancellationAccount {
+  balance: number
+  deposit: number
+}
+
+function getTier(policy: CancellationPolicy, hoursUntilStart: number): CancellationTier {
+  if (hoursUntilStart >= policy.freeCancellationHours) return 'FREE'
+  if (hoursUntilStart < policy.noRefundHours) return 'NO_REFUND'
+  return 'FEE'
+}
+
+// Fee and refund for cancelling a booking at `now` under the given policy.
+// The fee is a share of the booking total alone and is owed whether or not
+// anything was paid. The rest of the total and any held deposit are credited
+// back, leaving `balance`: still to pay when positive, to refund when negative.
+export function calculateCancellation(
+  policy: CancellationPolicy,
+  booking: QuotableBooking,
+  account: CancellationAccount,
+  now: Date = new Date()
+): CancellationQuote {
+  const hoursUntilStart = (new Date(booking.startDate).getTime() - now.getTime()) / HOUR_MS
+  const tier = getTier(policy, hoursUntilStart)
+
+  const fee = tier === 'FREE'
+    ? 0
+    : tier === 'NO_REFUND'
+    ? booking.totalPrice
+    : roundCurrency(booking.totalPrice * policy.feePercentage / 100)
+  const refund = roundCurrency(booking.totalPrice - fee)
+
+  return {
+    policy,
+    tier,
+    hoursUntilStart: Math.round(hoursUntilStart * 10) / 10,
+    fee,
+    refund,
+    deposit: account.deposit,
+    balance: roundCurrency(account.balance - refund - account.deposit),
+    calculatedAt: now.toISOString(),
+  }
+}
+
+// The same cancellation with no fee: the whole total is credited back
+function waiveFee(quote: CancellationQuote, booking: QuotableBooking): CancellationQuote {
+  return {
+    ...quote,
+    tier: 'FREE',
+    fee: 0,
+    refund: booking.totalPrice,
+    balance: roundCurrency(quote.balance - quote.fee),
+  }
+}
+
+// The booked item's category policy, falling back to the default. A bundle
+// takes the strictest terms across its items' categories: the longest free
+// and no-refund windows and the highest fee.
+export async function getCancellationPolicy(db: Database, booking: BookingRecord): Promise<CancellationPolicy> {
+  const policies: CancellationPolicy[] = []
+  for (const target of await findBookingTargets(db, booking)) {
+    const item = target.equipmentId
+      ? await db.equipment.findById(target.equipmentId)
+      : target.brokerageId
+      ? await db.brokerage.findById(target.brokerageId)
+      : null
+    const category = item ? await db.categories.findById(item.categoryId) : null
+    policies.push(category?.cancellationPolicy || { ...DEFAULT_CANCELLATION_POLICY })
+  }
+
+  if (policies.length === 0) return { ...DEFAULT_CANCELLATION_POLICY }
+  return {
+    freeCancellationHours: Math.max(...policies.map(policy => policy.freeCancellationHours)),
+    feePercentage: Math.max(...policies.map(policy => policy.feePercentage)),
+    noRefundHours: Math.max(...policies.map(policy => policy.noRefundHours)),
+  }
+}
+
+// Customers cannot cancel once the booking has started; admins can, and may
+// waive the fee, e.g. when the business is at fault. Contract bookings are
+// billed through their contract, so skipping one costs nothing.
+export async function quoteCancellation(
+  db: Database,
+  booking: BookingRecord,
+  actor: UserRecord,
+  options: { waiveFee?: boolean } = {},
+  now: Date = new Date()
+): Promise<CancellationQuote> {
+  if (options.waiveFee && actor.role !== USER_ROLE.ADMIN) {
+    throw new AppError(ERROR_MESSAGES.FORBIDDEN, 403)
+  }
+
+  const policy = await getCancellationPolicy(db, booking)
+  const { balance } = await getBookingBalance(db, booking)
+  const account: CancellationAccount = {
+    balance,
+    deposit: booking.deposit?.status === DEPOSIT_STATUS.HELD ? booking.deposit.amount : 0,
+  }
+
+  if (actor.role !== USER_ROLE.ADMIN && new Date(booking.startDate) <= now) {
+    throw new AppError(ERROR_MESSAGES.BOOKING_CANNOT_BE_CANCELLED, 400)
+  }
+
+  const quote = calculateCancellation(policy, booking, account, now)
+  return options.waiveFee || booking.contractId ? waiveFee(quote, booking) : quote
+}
@@ -0,0 +1,136 @@
+import { z } from 'zod'
+import { Brokerage, Category, Equipment, ExchangeRates } from './types'
+import { CategoryType } from './constants'
+import { equipmentFilterSchema, brokerageFilterSchema } from './validations'
+import { getDatabase, BrokerageRecord, CategoryRecord, Database, EquipmentRecord } from './db'
+import { AppError } from './api-utils'
+import { BookingTarget } from './availability'
+import { ERROR_MESSAGES } from './constants'
+import { processWaitlist } from './waitlist'
+import { DEFAULT_EXCHANGE_RATES, toBaseAmount } from './currency'
+import { getExchangeRates } from './exchange-rates'
+
+export type EquipmentListFilters = z.infer<typeof equipmentFilterSchema>
+export type BrokerageListFilters = z.infer<typeof brokerageFilterSchema>
+
+type Listing = Equipment | Brokerage
+type ListingFilters = EquipmentListFilters & BrokerageListFilters
+
+export interface ListPagination {
+  skip: number
+  limit: number
+}
+
+export interface ListResult<T> {
+  items: T[]
+  total: number
+}
+
+// Allowed query parameters for the public catalog endpoints
+export const EQUIPMENT_FILTER_KEYS = ['search', 'categoryId', 'category', 'priceType', 'minPrice', 'maxPrice', 'available', 'location']
+export const BROKERAGE_FILTER_KEYS = ['search', 'categoryId', 'priceType', 'minPrice', 'maxPrice', 'available', 'location']
+
+function matchesFilters(item: Listing, filters: Partial<ListingFilters>, rates: ExchangeRates): boolean {
+  if (filters.search) {
+    const search = filters.search.toLowerCase()
+    const haystack = [item.title, item.description, ...item.features].join(' ').toLowerCase()
+    if (!haystack.includes(search)) return false
+  }
+
+  if (filters.categoryId && item.categoryId !== filters.categoryId) return false
+  if (filters.category && item.category?.name.toLowerCase() !== filters.category.toLowerCase()) return false
+  if (filters.priceType && item.priceType !== filters.priceType) return false
+  // Price filters are in the base currency, whatever a listing is priced in
+  const basePrice = toBaseAmount(item.price, item.currency, rates)
+  if (filters.minPrice !== undefined && basePrice < filters.minPrice) return false
+  if (filters.maxPrice !== undefined && basePrice > filters.maxPrice) return false
+  if (filters.available !== undefined && item.available !== filters.available) return false
+
+  if (filters.location) {
+    const location = (item as { location?: string }).location
+    if (!location || !location.toLowerCase().includes(filters.location.toLowerCase())) return false
+  }
+
+  return true
+}
+
+// Filter, sort (newest first) and paginate a list of listings
+export function queryListings<T extends Listing>(
+  items: T[],
+  filters: Partial<ListingFilters>,
+  pagination: ListPagination,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): ListResult<T> {
+  const matching = items
+    .filter(item => matchesFilters(item, filters, rates))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+
+  return {
+    items: matching.slice(pagination.skip, pagination.skip + pagination.limit),
+    total: matching.length,
+  }
+}
+
+// Join each listing with its category record
+async function withCategories<T extends { categoryId: string }>(
+  db: Database,
+  records: T[]
+): Promise<Array<T & { category: CategoryRecord }>> {
+  const categories = new Map((await db.categories.findMany()).map(category => [category.id, category]))
+
+  return records.flatMap(record => {
+    const category = categories.get(record.categoryId)
+    return category ? [{ ...record, category }] : []
+  })
+}
+
+export async function listEquipment(
+  filters: EquipmentListFilters,
+  pagination: ListPagination
+): Promise<ListResult<Equipment>> {
+  const db = await getDatabase()
+  const records = await db.equipment.findMany({
+    where: { categoryId: filters.categoryId, priceType: filters.priceType, available: filters.available },
+  })
+  return queryListings(await withCategories(db, records), filters, pagination, await getExchangeRates(db))
+}
+
+export async function listBrokerage(
+  filters: BrokerageListFilters,
+  pagination: ListPagination
+): Promise<ListResult<Brokerage>> {
+  const db = await getDatabase()
+  const records = await db.brokerage.findMany({
+    where: { categoryId: filters.categoryId, priceType: filters.priceType, available: filters.available },
+  })
+  return queryListings(await withCategories(db, records), filters, pagination, await getExchangeRates(db))
+}
+
+export async function listCategories(type: CategoryType): Promise<Category[]> {
+  const db = await getDatabase()
+  return db.categories.findMany({ where: { type }, orderBy: { field: 'name' } })
+}
+
+// Marking an item available again releases its dates to the waitlist
+export async function setItemAvailability(
+  db: Database,
+  target: BookingTarget,
+  available: boolean
+): Promise<EquipmentRecord | BrokerageRecord> {
+  const item = target.equipmentId
+    ? await db.equipment.findById(target.equipmentId)
+    : await db.brokerage.findById(target.brokerageId!)
+
+  if (!item) {
+    throw new AppError(target.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_FOUND : ERROR_MESSAGES.BROKERAGE_NOT_FOUND, 404)
+  }
+
+  const updated = target.equipmentId
+    ? await db.equipment.update(item.id, { available })
+    : await db.brokerage.update(item.id, { available })
+
+  if (available && !item.available) {
+    await processWaitlist(db, target)
+  }
+  return updated
+}
@@ -6,6 +6,14 @@ export const BOOKING_STATUS = {
   CANCELLED: 'CANCELLED',
 } as const
 
+// Allowed booking status transitions; COMPLETED and CANCELLED are terminal
+export const BOOKING_STATUS_TRANSITIONS: Record<keyof typeof BOOKING_STATUS, ReadonlyArray<keyof typeof BOOKING_STATUS>> = {
+  PENDING: [BOOKING_STATUS.CONFIRMED, BOOKING_STATUS.CANCELLED],
+  CONFIRMED: [BOOKING_STATUS.COMPLETED, BOOKING_STATUS.CANCELLED],
+  COMPLETED: [],
+  CANCELLED: [],
+}
+
 export const BOOKING_TYPE = {
   SERVICE: 'SERVICE',
   EQUIPMENT: 'EQUIPMENT',
@@ -83,6 +91,277 @@ export const RATE_LIMITS = {
 // Export RATE_LIMIT for backward compatibility
 export const RATE_LIMIT = RATE_LIMITS
 
+// Availability calendar constants
+export const AVAILABILITY = {
+  DEFAULT_WINDOW_DAYS: 180, // how far ahead the calendar looks by default
+  MAX_WINDOW_DAYS: 366,
+} as const
+
+// Applied to categories without their own cancellation policy
+export const DEFAULT_CANCELLATION_POLICY = {
+  freeCancellationHours: 48,
+  feePercentage: 20,
+  noRefundHours: 24,
+} as const
+
+// Issuer details printed on invoices and quotes
+export const COMPANY = {
+  NAME: 'ZE Consultancy',
+  ADDRESS: 'Broad and Buchanan Street, Monrovia, Liberia',
+  EMAIL: 'info@zeconsultancy.com',
+  PHONE: '+231 775 131 436',
+} as const
+
+export const DOCUMENTS = {
+  INVOICE_PREFIX: 'INV',
+  QUOTE_PREFIX: 'QTE',
+  QUOTE_VALID_DAYS: 7,
+} as const
+
+// Background jobs
+export const JOB_TYPE = {
+  BOOKING_START_REMINDER: 'BOOKING_START_REMINDER',
+  BOOKING_RETURN_REMINDER: 'BOOKING_RETURN_REMINDER',
+  BOOKING_REVIEW_REQUEST: 'BOOKING_REVIEW_REQUEST',
+  WAITLIST_OFFER_NOTIFICATION: 'WAITLIST_OFFER_NOTIFICATION',
+  WAITLIST_HOLD_EXPIRY: 'WAITLIST_HOLD_EXPIRY',
+  CHECKOUT_HOLD_EXPIRY: 'CHECKOUT_HOLD_EXPIRY',
+} as const
+
+export const JOB_STATUS = {
+  PENDING: 'PENDING',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+} as const
+
+export const JOBS = {
+  POLL_INTERVAL_MS: 60 * 1000, // 1 minute
+  MAX_ATTEMPTS: 5,
+  RETRY_DELAY_MS: 5 * 60 * 1000, // multiplied by the attempt number
+  START_REMINDER_HOURS: 24, // before the booking starts
+  REVIEW_REQUEST_DELAY_HOURS: 24, // after the booking is completed
+} as const
+
+export const WAITLIST_STATUS = {
+  WAITING: 'WAITING',
+  OFFERED: 'OFFERED', // dates are held for the customer until holdExpiresAt
+  FULFILLED: 'FULFILLED',
+  EXPIRED: 'EXPIRED',
+  CANCELLED: 'CANCELLED',
+} as const
+
+export const WAITLIST = {
+  HOLD_HOURS: 24,
+} as const
+
+// Multi-item equipment bookings
+export const BUNDLE = {
+  MIN_ITEMS: 2,
+  MAX_ITEMS: 10,
+  MAX_DISCOUNT_PERCENTAGE: 50,
+} as const
+
+// Recurring and long-term rental contracts
+export const CONTRACT_STATUS = {
+  PENDING: 'PENDING',
+  ACTIVE: 'ACTIVE',
+  TERMINATED: 'TERMINATED',
+} as const
+
+export const BILLING_CYCLE = {
+  WEEKLY: 'WEEKLY',
+  MONTHLY: 'MONTHLY',
+} as const
+
+export const BILLING_ENTRY_STATUS = {
+  SCHEDULED: 'SCHEDULED',
+  VOIDED: 'VOIDED',
+} as const
+
+export const CONTRACTS = {
+  MAX_TERM_DAYS: 730,
+  MAX_OCCURRENCES: 400,
+  // A billing month matches the 30-day month used by MONTHLY pricing
+  BILLING_CYCLE_DAYS: { WEEKLY: 7, MONTHLY: 30 },
+} as const
+
+// Checkout holds reserve dates while a customer completes the booking form.
+// CHECKOUT_HOLD_MINUTES in the environment overrides the default.
+export const CHECKOUT_HOLD = {
+  DEFAULT_TTL_MINUTES: 10,
+  MAX_TTL_MINUTES: 60,
+} as const
+
+// Delivery to and pickup from the customer's site
+export const DELIVERY_STATUS = {
+  SCHEDULED: 'SCHEDULED',
+  OUT_FOR_DELIVERY: 'OUT_FOR_DELIVERY',
+  DELIVERED: 'DELIVERED',
+  PICKED_UP: 'PICKED_UP',
+  CANCELLED: 'CANCELLED',
+} as const
+
+// Dispatch moves a delivery forward one step at a time; PICKED_UP only
+// applies when the customer asked us to collect the item
+export const DELIVERY_STATUS_TRANSITIONS: Record<keyof typeof DELIVERY_STATUS, ReadonlyArray<keyof typeof DELIVERY_STATUS>> = {
+  SCHEDULED: [DELIVERY_STATUS.OUT_FOR_DELIVERY, DELIVERY_STATUS.CANCELLED],
+  OUT_FOR_DELIVERY: [DELIVERY_STATUS.DELIVERED, DELIVERY_STATUS.SCHEDULED],
+  DELIVERED: [DELIVERY_STATUS.PICKED_UP],
+  PICKED_UP: [],
+  CANCELLED: [],
+}
+
+export const DELIVERY = {
+  DEPOT: { lat: 6.3156, lng: -10.8074 }, // Monrovia yard, see COMPANY.ADDRESS
+  BASE_FEE: 25, // per trip
+  FEE_PER_KM: 1.5, // per trip, straight-line distance from the depot
+  MAX_DISTANCE_KM: 400,
+  // Windows may open this long before the booking starts or after it ends
+  WINDOW_GRACE_HOURS: 24,
+  DISPATCH_DEFAULT_DAYS: 7,
+  DISPATCH_MAX_DAYS: 31,
+} as const
+
+// Equipment servicing; a maintenance window blocks bookings like a booking does
+export const MAINTENANCE_TYPE = {
+  ROUTINE_SERVICE: 'ROUTINE_SERVICE',
+  REPAIR: 'REPAIR',
+  INSPECTION: 'INSPECTION',
+} as const
+
+export const MAINTENANCE = {
+  MAX_INTERVAL_DAYS: 730,
+  MAX_INTERVAL_HOURS: 20000,
+  MAX_COST: 1000000,
+} as const
+
+// Refundable security deposits on equipment, settled after the return inspection
+export const DEPOSIT_STATUS = {
+  HELD: 'HELD',
+  REFUNDED: 'REFUNDED',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
+  FORFEITED: 'FORFEITED',
+} as const
+
+export const DEPOSIT = {
+  MAX_AMOUNT: 100000,
+} as const
+
+export const INSPECTION = {
+  // Default checklist offered to the inspector; items can be added or removed
+  CHECKLIST: [
+    'Exterior and bodywork',
+    'Engine and hydraulics',
+    'Tyres or tracks',
+    'Attachments and accessories',
+    'Fuel level',
+    'Cleanliness',
+  ],
+  MAX_CHECKLIST_ITEMS: 30,
+  MAX_PHOTOS: 10,
+} as const
+
+export const PAYMENT_PROVIDER = {
+  FAKE: 'FAKE',
+  ORANGE_MONEY: 'ORANGE_MONEY',
+  MTN_MOMO: 'MTN_MOMO',
+} as const
+
+export const PAYMENT_STATUS = {
+  PENDING: 'PENDING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED',
+  REFUNDED: 'REFUNDED',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
+} as const
+
+// Ledger lines on a booking. The booking total is always the opening charge;
+// adjustments are signed, negative ones credit the customer.
+export const LEDGER_ENTRY_KIND = {
+  CHARGE: 'CHARGE',
+  PAYMENT: 'PAYMENT',
+  REFUND: 'REFUND',
+  ADJUSTMENT: 'ADJUSTMENT',
+} as const
+
+export const PAYMENTS = {
+  CURRENCY: 'USD',
+  // Share of the total that must be paid before a booking is confirmed,
+  // overridable with BOOKING_MIN_PAID_PERCENTAGE
+  DEFAULT_MIN_PAID_PERCENTAGE: 25,
+  // Callbacks signed further from now than this are rejected as replays
+  WEBHOOK_TOLERANCE_MS: 10 * 60 * 1000,
+  // Header carrying the callback's HMAC, as lowercase hex
+  WEBHOOK_SIGNATURE_HEADER: 'x-webhook-signature',
+  PROVIDER_TIMEOUT_MS: 15 * 1000,
+} as const
+
+// Amounts are stored in the base currency; other currencies are converted at
+// the admin-maintained exchange rate
+export const CURRENCY = {
+  USD: 'USD',
+  LRD: 'LRD',
+} as const
+
+export const CURRENCIES = {
+  BASE: CURRENCY.USD,
+  SYMBOLS: { USD: '$', LRD: 'L$' },
+  // Used until an admin records a rate, in units per US dollar
+  DEFAULT_RATES: { USD: 1, LRD: 190 },
+  MAX_RATE: 100000,
+} as const
+
+// Admin-managed price adjustments on top of an item's own price
+export const PRICING_RULE_KIND = {
+  SEASONAL: 'SEASONAL',
+  WEEKEND: 'WEEKEND',
+  LONG_DURATION: 'LONG_DURATION',
+  PROMO_CODE: 'PROMO_CODE',
+} as const
+
+export const PRICING_RULES = {
+  MAX_DISCOUNT_PERCENTAGE: 90,
+  MAX_SURCHARGE_PERCENTAGE: 200,
+  PROMO_CODE_PATTERN: /^[A-Z0-9-]{3,20}$/,
+} as const
+
+// Taxes and fees charged on booking totals, configured per category type
+export const FEE_RULE_KIND = {
+  TAX: 'TAX',
+  FEE: 'FEE',
+} as const
+
+export const FEE_CALCULATION = {
+  PERCENTAGE: 'PERCENTAGE',
+  FIXED: 'FIXED',
+} as const
+
+export const FEE_RULES = {
+  MAX_PERCENTAGE: 50,
+  MAX_FIXED_AMOUNT: 10000,
+} as const
+
+// Sign-up, sign-in and password recovery. Codes are emailed and stored hashed;
+// LOGIN_OTP_REQUIRED=true in the environment adds a code step to every sign-in.
+export const AUTH = {
+  OTP_LENGTH: 6,
+  OTP_TTL_MINUTES: 10,
+  OTP_MAX_ATTEMPTS: 5,
+  OTP_RESEND_COOLDOWN_SECONDS: 60,
+  BCRYPT_ROUNDS: 12,
+  SESSION_TTL_DAYS: 7,
+  // Error code on sign-in attempts by accounts that never confirmed their email
+  EMAIL_NOT_VERIFIED_CODE: 'EMAIL_NOT_VERIFIED',
+} as const
+
+export const OTP_PURPOSE = {
+  REGISTRATION: 'REGISTRATION',
+  LOGIN: 'LOGIN',
+  RESET: 'RESET',
+} as const
+
 // Validation constants
 export const VALIDATION = {
   PASSWORD_MIN_LENGTH: 8,
@@ -149,6 +428,56 @@ export const ERROR_MESSAGES = {
   BOOKING_CANNOT_BE_CANCELLED: 'Booking cannot be cancelled',
   EQUIPMENT_NOT_AVAILABLE: 'Equipment is not available',
   BROKERAGE_NOT_AVAILABLE: 'Brokerage service is not available',
+  BOOKING_CONFLICT: 'This item is already booked for the selected dates',
+  PRICE_MISMATCH: 'Booking total does not match the current price',
+  INVALID_STATUS_TRANSITION: 'Booking status cannot be changed',
+  ITEM_ON_HOLD: 'These dates are being held for another customer',
+  WAITLIST_ENTRY_NOT_FOUND: 'Waitlist entry not found',
+  HOLD_NOT_FOUND: 'Hold not found or already expired',
+  WAITLIST_ITEM_AVAILABLE: 'This item is available for the selected dates, you can book it now',
+  CONTRACT_NOT_FOUND: 'Rental contract not found',
+  CONTRACT_NOT_PENDING: 'Only pending contracts can be activated',
+  CONTRACT_ALREADY_TERMINATED: 'Rental contract has already been terminated',
+  CONTRACT_EMPTY_SCHEDULE: 'The schedule has no rental periods within the contract term',
+  CONTRACT_TOO_MANY_OCCURRENCES: 'The schedule has too many rental periods, shorten the contract term',
+  INVALID_TERMINATION_DATE: 'Termination date must fall within the remaining contract term',
+  ITEM_UNDER_MAINTENANCE: 'This item is under maintenance for the selected dates',
+  MAINTENANCE_NOT_FOUND: 'Maintenance record not found',
+  MAINTENANCE_ALREADY_STARTED: 'Maintenance that has already started cannot be removed',
+  DEPOSIT_NOT_APPLICABLE: 'This booking has no security deposit',
+  DEPOSIT_ALREADY_SETTLED: 'The security deposit has already been settled',
+  INSPECTION_NOT_ALLOWED: 'Returns can only be inspected on confirmed or completed bookings',
+  INSPECTION_REQUIRED: 'Record the return inspection before settling the deposit',
+  DAMAGE_CLAIM_NOT_FOUND: 'Damage claim not found',
+  DELIVERY_NOT_FOUND: 'Delivery not found',
+  DELIVERY_OUT_OF_RANGE: 'The delivery address is outside our delivery area',
+  DELIVERY_WINDOW_OUTSIDE_BOOKING: 'Delivery and pickup times must fall around the booking dates',
+  DELIVERY_NOT_AVAILABLE: 'Delivery is only available for equipment bookings',
+  INVALID_DELIVERY_STATUS_TRANSITION: 'Delivery status cannot be changed',
+  INVOICE_NOT_AVAILABLE: 'An invoice is only available for confirmed or completed bookings',
+  PAYMENT_NOT_FOUND: 'Payment not found',
+  PAYMENT_PROVIDER_UNAVAILABLE: 'This payment method is not available',
+  PAYMENT_PROVIDER_ERROR: 'The payment provider could not process the request, please try again',
+  PAYMENT_IN_PROGRESS: 'A payment for this booking is already awaiting approval',
+  PAYMENT_NOT_DUE: 'Nothing is left to pay on this booking',
+  PAYMENT_EXCEEDS_BALANCE: 'The amount is more than the balance due',
+  PAYMENT_NOT_REFUNDABLE: 'Only successful payments can be refunded',
+  REFUND_EXCEEDS_PAYMENT: 'The refund is more than the amount left on the payment',
+  INVALID_WEBHOOK_SIGNATURE: 'Invalid webhook signature',
+  PAYMENT_AMOUNT_MISMATCH: 'The payment does not match the amount requested',
+  MINIMUM_PAYMENT_REQUIRED: 'The minimum payment has not been received for this booking',
+  REFUND_EXCEEDS_PAID: 'Refunds cannot exceed the amount paid',
+  PRICING_RULE_NOT_FOUND: 'Pricing rule not found',
+  PROMO_CODE_TAKEN: 'Another pricing rule already uses this promo code',
+  PROMO_CODE_INVALID: 'This promo code is not valid for this booking',
+  BASE_CURRENCY_RATE: 'The base currency rate is always 1',
+  FEE_RULE_NOT_FOUND: 'Tax or fee not found',
+  EMAIL_NOT_VERIFIED: 'Verify your email address before signing in',
+  EMAIL_ALREADY_VERIFIED: 'This email address is already verified',
+  OTP_INVALID: 'The code is incorrect',
+  OTP_EXPIRED: 'The code has expired or was already used, request a new one',
+  OTP_TOO_MANY_ATTEMPTS: 'Too many incorrect codes, request a new one',
+  OTP_RESEND_TOO_SOON: 'Please wait before requesting another code',
 } as const
 
 // Success messages
@@ -157,6 +486,30 @@ export const SUCCESS_MESSAGES = {
   BOOKING_UPDATED: 'Booking updated successfully',
   BOOKING_CANCELLED: 'Booking cancelled successfully',
   BOOKING_DELETED: 'Booking deleted successfully',
+  CONTRACT_CREATED: 'Rental contract requested successfully',
+  CONTRACT_ACTIVATED: 'Rental contract activated',
+  CONTRACT_TERMINATED: 'Rental contract terminated',
+  MAINTENANCE_SCHEDULED: 'Maintenance scheduled successfully',
+  MAINTENANCE_REMOVED: 'Maintenance removed',
+  INSPECTION_RECORDED: 'Return inspection recorded',
+  DAMAGE_CLAIM_ADDED: 'Damage claim added',
+  DAMAGE_CLAIM_REMOVED: 'Damage claim removed',
+  DEPOSIT_SETTLED: 'Security deposit settled',
+  DELIVERY_UPDATED: 'Delivery status updated',
+  PAYMENT_INITIATED: 'Approve the payment on your phone to complete it',
+  PAYMENT_REFUNDED: 'Payment refunded',
+  LEDGER_ENTRY_ADDED: 'Ledger entry recorded',
+  PRICING_RULE_CREATED: 'Pricing rule created',
+  PRICING_RULE_UPDATED: 'Pricing rule updated',
+  PRICING_RULE_DELETED: 'Pricing rule deleted',
+  EXCHANGE_RATE_UPDATED: 'Exchange rate updated',
+  FEE_RULE_CREATED: 'Tax or fee created',
+  FEE_RULE_UPDATED: 'Tax or fee updated',
+  FEE_RULE_DELETED: 'Tax or fee deleted',
+  HOLD_PLACED: 'Dates held for checkout',
+  HOLD_RELEASED: 'Hold released',
+  WAITLIST_JOINED: 'You have joined the waitlist',
+  WAITLIST_LEFT: 'You have left the waitlist',
   EQUIPMENT_CREATED: 'Equipment created successfully',
   EQUIPMENT_UPDATED: 'Equipment updated successfully',
   EQUIPMENT_DELETED: 'Equipment deleted successfully',
@@ -165,10 +518,14 @@ export const SUCCESS_MESSAGES = {
   BROKERAGE_DELETED: 'Brokerage service deleted successfully',
   CATEGORY_CREATED: 'Category created successfully',
   CATEGORY_UPDATED: 'Category updated successfully',
+  BUNDLE_DISCOUNTS_UPDATED: 'Bundle discounts updated successfully',
   CATEGORY_DELETED: 'Category deleted successfully',
   USER_REGISTERED: 'User registered successfully',
   USER_LOGGED_IN: 'User logged in successfully',
   USER_LOGGED_OUT: 'User logged out successfully',
+  OTP_SENT: 'We emailed you a verification code',
+  EMAIL_VERIFIED: 'Email verified, you are now signed in',
+  PASSWORD_RESET_REQUESTED: 'If an account exists for this email, we sent a reset code',
   PASSWORD_RESET: 'Password reset successfully',
   EMAIL_SENT: 'Email sent successfully',
 } as const
@@ -178,4 +535,21 @@ export type BookingType = keyof typeof BOOKING_TYPE
 export type PriceType = keyof typeof PRICE_TYPE
 export type UserRole = keyof typeof USER_ROLE
 export type CategoryType = keyof typeof CATEGORY_TYPE
-export type ApiResponseStatus = keyof typeof API_RESPONSE_STATUS
\ No newline at end of file
+export type ApiResponseStatus = keyof typeof API_RESPONSE_STATUS
+export type JobType = keyof typeof JOB_TYPE
+export type JobStatus = keyof typeof JOB_STATUS
+export type WaitlistStatus = keyof typeof WAITLIST_STATUS
+export type ContractStatus = keyof typeof CONTRACT_STATUS
+export type BillingCycle = keyof typeof BILLING_CYCLE
+export type BillingEntryStatus = keyof typeof BILLING_ENTRY_STATUS
+export type DeliveryStatus = keyof typeof DELIVERY_STATUS
+export type MaintenanceType = keyof typeof MAINTENANCE_TYPE
+export type DepositStatus = keyof typeof DEPOSIT_STATUS
+export type PaymentProviderName = keyof typeof PAYMENT_PROVIDER
+export type PaymentStatus = keyof typeof PAYMENT_STATUS
+export type LedgerEntryKind = keyof typeof LEDGER_ENTRY_KIND
+export type PricingRuleKind = keyof typeof PRICING_RULE_KIND
+export type Currency = keyof typeof CURRENCY
+export type FeeRuleKind = keyof typeof FEE_RULE_KIND
+export type FeeCalculation = keyof typeof FEE_CALCULATION
+export type OtpPurpose = keyof typeof OTP_PURPOSE
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { BILLING_ENTRY_STATUS, BOOKING_STATUS, CONTRACTS } from './constants'
+import { BillingEntryRecord, BookingRecord, ContractRecord, Database } from './db'
+import { roundCurrency } from './pricing'
+import { DateRange } from './utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The contract runs until its termination date when it was ended early
+export function getContractEnd(contract: ContractRecord): Date {
+  return new Date(contract.terminationDate || contract.endDate)
+}
+
+// Consecutive billing periods from the contract start; the last one is cut
+// short at the contract end
+export function getBillingPeriods(contract: ContractRecord): { startDate: Date; endDate: Date }[] {
+  const cycleMs = CONTRACTS.BILLING_CYCLE_DAYS[contract.billingCycle] * DAY_MS
+  const end = getContractEnd(contract)
+  const periods: { startDate: Date; endDate: Date }[] = []
+
+  for (let start = new Date(contract.startDate); start < end; start = new Date(start.getTime() + cycleMs)) {
+    const periodEnd = new Date(start.getTime() + cycleMs)
+    periods.push({ startDate: start, endDate: periodEnd > end ? end : periodEnd })
+  }
+  return periods
+}
+
+// What the bookings have run up by `time`, each booking's total spread
+// evenly over its duration
+function accruedBy(bookings: BookingRecord[], time: number): number {
+  return bookings.reduce((sum, booking) => {
+    const start = new Date(booking.startDate).getTime()
+    const end = new Date(booking.endDate).getTime()
+    if (time <= start) return sum
+    if (time >= end) return sum + booking.totalPrice
+    return sum + booking.totalPrice * (time - start) / (end - start)
+  }, 0)
+}
+
+// Each period bills the share of the bookings' totals that falls inside it,
+// so a cycle shorter than the price unit is prorated rather than charged a
+// whole unit. Rounding the running total keeps the periods adding up to
+// exactly what the bookings cost.
+function priceForPeriod(bookings: BookingRecord[], period: DateRange): number {
+  const accruedAtStart = roundCurrency(accruedBy(bookings, new Date(period.startDate).getTime()))
+  const accruedAtEnd = roundCurrency(accruedBy(bookings, new Date(period.endDate).getTime()))
+  return roundCurrency(accruedAtEnd - accruedAtStart)
+}
+
+// Bring the contract's billing entries in line with its live bookings:
+// changed amounts are updated, periods with nothing left to bill are voided
+// and new periods are added. Call after anything that changes the bookings.
+export async function syncContractBilling(db: Database, contract: ContractRecord): Promise<BillingEntryRecord[]> {
+  const bookings = (await db.bookings.findMany({ where: { contractId: contract.id } }))
+    .filter(booking => booking.status !== BOOKING_STATUS.CANCELLED)
+
+  const desired = new Map<string, { periodEnd: string; amount: number }>()
+  for (const period of getBillingPeriods(contract)) {
+    const amount = priceForPeriod(bookings, period)
+    if (amount > 0) {
+      desired.set(period.startDate.toISOString(), { periodEnd: period.endDate.toISOString(), amount })
+    }
+  }
+
+  const existing = await db.billingEntries.findMany({ where: { contractId: contract.id } })
+  for (const entry of existing) {
+    const wanted = desired.get(entry.periodStart)
+    desired.delete(entry.periodStart)
+
+    if (!wanted) {
+      if (entry.status !== BILLING_ENTRY_STATUS.VOIDED) {
+        await db.billingEntries.update(entry.id, { status: BILLING_ENTRY_STATUS.VOIDED })
+      }
+    } else if (entry.amount !== wanted.amount || entry.periodEnd !== wanted.periodEnd || entry.status !== BILLING_ENTRY_STATUS.SCHEDULED) {
+      await db.billingEntries.update(entry.id, { ...wanted, status: BILLING_ENTRY_STATUS.SCHEDULED })
+    }
+  }
+
+  for (const [periodStart, wanted] of desired) {
+    await db.billingEntries.create({
+      contractId: contract.id,
+      periodStart,
+      ...wanted,
+      // Billed in advance at the start of each period
+      dueDate: periodStart,
+      status: BILLING_ENTRY_STATUS.SCHEDULED,
+    })
+  }
+
+  return db.billingEntries.findMany({
+    where: { contractId: contract.id },
+    orderBy: { field: 'periodStart', direction: 'asc' },
+  })
+}
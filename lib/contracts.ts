@@ -0,0 +1,304 @@
+import { AppError } from './api-utils'
+import { BookingTarget, assertAvailable, findBookingTargets } from './availability'
+import { cancelBookingInTransaction, createStatusChange, transitionBooking } from './booking-status'
+import { consumeHolds } from './booking-holds'
+import { getContractEnd, syncContractBilling } from './contract-billing'
+import { syncBookingReminders } from './jobs/booking-reminders'
+import {
+  BILLING_ENTRY_STATUS,
+  BOOKING_STATUS,
+  BOOKING_TYPE,
+  CATEGORY_TYPE,
+  CONTRACTS,
+  CONTRACT_STATUS,
+  ContractStatus,
+  ERROR_MESSAGES,
+  USER_ROLE,
+} from './constants'
+import { ContractRecord, Database, UserRecord } from './db'
+import { toBaseAmount } from './currency'
+import { getExchangeRates } from './exchange-rates'
+import { getActiveFeeRules } from './fee-rules'
+import { getActivePricingRules } from './pricing-rules'
+import { applyFeeRules, calculateBookingPrice, normalizePriceType, roundCurrency } from './pricing'
+import { ContractRecurrence, PriceBreakdown, RentalContractWithDetails } from './types'
+import { DateRange } from './utils'
+import { processWaitlist } from './waitlist'
+import { logger } from './logger'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface ContractInput extends BookingTarget {
+  startDate: string
+  endDate: string
+  billingCycle: ContractRecord['billingCycle']
+  recurrence?: ContractRecurrence
+  notes?: string
+  phoneNumber?: string
+}
+
+export interface ContractFilters {
+  userId?: string
+  status?: ContractStatus
+}
+
+// The booked periods of a contract: the whole term, or one period per
+// recurring occurrence that fits inside the term. Stops one past the limit
+// so callers can tell an oversized schedule apart.
+export function buildContractSchedule(input: Pick<ContractInput, 'startDate' | 'endDate' | 'recurrence'>): { startDate: string; endDate: string }[] {
+  const start = new Date(input.startDate)
+  const end = new Date(input.endDate)
+  const { recurrence } = input
+  if (!recurrence) {
+    return [{ startDate: start.toISOString(), endDate: end.toISOString() }]
+  }
+
+  const [hours, minutes] = recurrence.startTime.split(':').map(Number)
+  const occurrences: { startDate: string; endDate: string }[] = []
+  const firstDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())
+
+  for (let day = firstDay; day < end.getTime() && occurrences.length <= CONTRACTS.MAX_OCCURRENCES; day += DAY_MS) {
+    if (!recurrence.daysOfWeek.includes(new Date(day).getUTCDay())) continue
+
+    const occurrenceStart = day + hours * HOUR_MS + minutes * 60 * 1000
+    const occurrenceEnd = occurrenceStart + recurrence.durationHours * HOUR_MS
+    if (occurrenceStart >= start.getTime() && occurrenceEnd <= end.getTime()) {
+      occurrences.push({ startDate: new Date(occurrenceStart).toISOString(), endDate: new Date(occurrenceEnd).toISOString() })
+    }
+  }
+  return occurrences
+}
+
+// A contract the user may act on: their own, or any contract for admins
+export async function findContractForUser(db: Database, id: string, user: UserRecord): Promise<ContractRecord> {
+  const contract = await db.contracts.findById(id)
+  if (!contract) {
+    throw new AppError(ERROR_MESSAGES.CONTRACT_NOT_FOUND, 404)
+  }
+
+  if (contract.userId !== user.id && user.role !== USER_ROLE.ADMIN) {
+    throw new AppError(ERROR_MESSAGES.FORBIDDEN, 403)
+  }
+
+  return contract
+}
+
+// Contract bookings are priced like any other booking, at the contract's
+// locked price: the pricing rules that cover the item, then the taxes and
+// fees for its category type
+async function getContractPricing(db: Database, contract: ContractRecord): Promise<(period: DateRange) => PriceBreakdown> {
+  const item = contract.equipmentId
+    ? await db.equipment.findById(contract.equipmentId)
+    : await db.brokerage.findById(contract.brokerageId!)
+  const rules = await getActivePricingRules(db)
+  const categoryType = contract.brokerageId ? CATEGORY_TYPE.BROKERAGE : CATEGORY_TYPE.EQUIPMENT
+  const feeRules = await getActiveFeeRules(db, categoryType)
+
+  return (period) => applyFeeRules(
+    calculateBookingPrice({
+      id: item?.id,
+      categoryId: item?.categoryId,
+      price: contract.price,
+      priceType: contract.priceType,
+      ...period,
+    }, rules),
+    feeRules,
+    categoryType
+  )
+}
+
+// Every period is checked and booked in one transaction, so a contract is
+// only created when all of its dates are free
+export async function createContract(db: Database, user: UserRecord, input: ContractInput): Promise<ContractRecord> {
+  const target = { equipmentId: input.equipmentId, brokerageId: input.brokerageId }
+  const schedule = buildContractSchedule(input)
+
+  if (schedule.length === 0) {
+    throw new AppError(ERROR_MESSAGES.CONTRACT_EMPTY_SCHEDULE, 400)
+  }
+  if (schedule.length > CONTRACTS.MAX_OCCURRENCES) {
+    throw new AppError(ERROR_MESSAGES.CONTRACT_TOO_MANY_OCCURRENCES, 400)
+  }
+
+  return db.transaction(async (tx) => {
+    const item = target.equipmentId
+      ? await tx.equipment.findById(target.equipmentId)
+      : await tx.brokerage.findById(target.brokerageId!)
+
+    if (!item || !item.available) {
+      throw new AppError(
+        target.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_AVAILABLE : ERROR_MESSAGES.BROKERAGE_NOT_AVAILABLE,
+        400
+      )
+    }
+
+    for (const period of schedule) {
+      await assertAvailable(tx, target, period, { userId: user.id })
+    }
+    await consumeHolds(tx, user.id, target)
+
+    const contract = await tx.contracts.create({
+      userId: user.id,
+      ...target,
+      status: CONTRACT_STATUS.PENDING,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      billingCycle: input.billingCycle,
+      recurrence: input.recurrence,
+      // Locked in the base currency at today's rate for the whole contract
+      price: toBaseAmount(item.price, item.currency, await getExchangeRates(tx)),
+      priceType: normalizePriceType(item.priceType),
+      notes: input.notes,
+      phoneNumber: input.phoneNumber,
+    })
+
+    const priceContractPeriod = await getContractPricing(tx, contract)
+    for (const period of schedule) {
+      const priceBreakdown = priceContractPeriod(period)
+      await tx.bookings.create({
+        type: target.equipmentId ? BOOKING_TYPE.EQUIPMENT : BOOKING_TYPE.BROKERAGE,
+        status: BOOKING_STATUS.PENDING,
+        ...period,
+        totalPrice: priceBreakdown.total,
+        priceBreakdown,
+        notes: input.notes,
+        phoneNumber: input.phoneNumber,
+        statusHistory: [createStatusChange(null, BOOKING_STATUS.PENDING, user)],
+        userId: user.id,
+        ...target,
+        contractId: contract.id,
+      })
+    }
+
+    await syncContractBilling(tx, contract)
+
+    logger.logBusinessEvent('Rental contract created', { contractId: contract.id, bookings: schedule.length, ...target }, user.id)
+    return contract
+  })
+}
+
+// Approving a contract confirms all of its pending bookings, all or none
+export async function activateContract(db: Database, id: string, admin: UserRecord): Promise<ContractRecord> {
+  return db.transaction(async (tx) => {
+    const contract = await tx.contracts.findById(id)
+    if (!contract) {
+      throw new AppError(ERROR_MESSAGES.CONTRACT_NOT_FOUND, 404)
+    }
+    if (contract.status !== CONTRACT_STATUS.PENDING) {
+      throw new AppError(ERROR_MESSAGES.CONTRACT_NOT_PENDING, 409)
+    }
+
+    const pending = await tx.bookings.findMany({ where: { contractId: id, status: BOOKING_STATUS.PENDING } })
+    for (const booking of pending) {
+      await transitionBooking(tx, booking.id, BOOKING_STATUS.CONFIRMED, { actor: admin, reason: 'Rental contract activated' })
+    }
+
+    const activated = await tx.contracts.update(id, { status: CONTRACT_STATUS.ACTIVE })
+    await syncContractBilling(tx, activated)
+
+    logger.logBusinessEvent('Rental contract activated', { contractId: id, bookings: pending.length }, admin.id)
+    return activated
+  })
+}
+
+// Ending a contract early cancels the bookings from the termination date on
+// and shortens any booking running across it, together with the billing.
+// Customers can only end their contract from now on; admins may also
+// backdate within the term.
+export async function terminateContract(
+  db: Database,
+  id: string,
+  options: { actor: UserRecord; terminationDate: string; reason?: string },
+  now: Date = new Date()
+): Promise<ContractRecord> {
+  const { actor } = options
+  // Dates freed by cancelled or shortened bookings, keyed to skip repeats
+  const freed = new Map<string, BookingTarget>()
+
+  const terminated = await db.transaction(async (tx) => {
+    const contract = await findContractForUser(tx, id, actor)
+    if (contract.status === CONTRACT_STATUS.TERMINATED) {
+      throw new AppError(ERROR_MESSAGES.CONTRACT_ALREADY_TERMINATED, 400)
+    }
+
+    const terminationDate = new Date(options.terminationDate)
+    const contractStart = new Date(contract.startDate)
+    const earliest = actor.role === USER_ROLE.ADMIN || contractStart > now ? contractStart : now
+    if (terminationDate < earliest || terminationDate >= getContractEnd(contract)) {
+      throw new AppError(ERROR_MESSAGES.INVALID_TERMINATION_DATE, 400)
+    }
+
+    const reason = options.reason || 'Rental contract terminated'
+    const bookings = (await tx.bookings.findMany({ where: { contractId: id } }))
+      .filter(booking => booking.status !== BOOKING_STATUS.CANCELLED)
+
+    const priceContractPeriod = await getContractPricing(tx, contract)
+    for (const booking of bookings) {
+      if (new Date(booking.endDate) <= terminationDate) continue
+      for (const target of await findBookingTargets(tx, booking)) {
+        freed.set(JSON.stringify(target), target)
+      }
+
+      if (new Date(booking.startDate) >= terminationDate) {
+        await cancelBookingInTransaction(tx, booking.id, { actor, reason })
+      } else {
+        const priceBreakdown = priceContractPeriod({ startDate: booking.startDate, endDate: terminationDate })
+        const shortened = await tx.bookings.update(booking.id, {
+          endDate: terminationDate.toISOString(),
+          totalPrice: priceBreakdown.total,
+          priceBreakdown,
+        })
+        await syncBookingReminders(tx, shortened)
+      }
+    }
+
+    const terminated = await tx.contracts.update(id, {
+      status: CONTRACT_STATUS.TERMINATED,
+      terminationDate: terminationDate.toISOString(),
+      terminationReason: options.reason,
+      terminatedById: actor.id,
+      terminatedAt: now.toISOString(),
+    })
+    await syncContractBilling(tx, terminated)
+
+    logger.logBusinessEvent('Rental contract terminated', { contractId: id, terminationDate: terminated.terminationDate }, actor.id)
+    return terminated
+  })
+
+  // Only offered to the waitlist once the termination has committed
+  for (const target of freed.values()) {
+    await processWaitlist(db, target)
+  }
+  return terminated
+}
+
+export async function getContractDetails(db: Database, contract: ContractRecord): Promise<RentalContractWithDetails> {
+  const [item, user, billingEntries, bookings] = await Promise.all([
+    contract.equipmentId ? db.equipment.findById(contract.equipmentId) : db.brokerage.findById(contract.brokerageId!),
+    db.users.findById(contract.userId),
+    db.billingEntries.findMany({ where: { contractId: contract.id }, orderBy: { field: 'periodStart', direction: 'asc' } }),
+    db.bookings.findMany({ where: { contractId: contract.id } }),
+  ])
+
+  return {
+    ...contract,
+    ...(item && {
+      item: { id: item.id, title: item.title, type: contract.equipmentId ? 'EQUIPMENT' as const : 'BROKERAGE' as const },
+    }),
+    ...(user && { user: { name: user.name, email: user.email } }),
+    billingEntries,
+    bookingCount: bookings.filter(booking => booking.status !== BOOKING_STATUS.CANCELLED).length,
+    total: roundCurrency(billingEntries
+      .filter(entry => entry.status === BILLING_ENTRY_STATUS.SCHEDULED)
+      .reduce((sum, entry) => sum + entry.amount, 0)),
+  }
+}
+
+export async function listContracts(db: Database, filters: ContractFilters = {}): Promise<RentalContractWithDetails[]> {
+  const contracts = await db.contracts.findMany({
+    where: { userId: filters.userId, status: filters.status },
+    orderBy: { field: 'createdAt', direction: 'desc' },
+  })
+  return Promise.all(contracts.map(contract => getContractDetails(db, contract)))
+}
@@ -0,0 +1,33 @@
+import { CURRENCIES, Currency } from './constants'
+import { roundCurrency } from './pricing'
+import { ExchangeRates } from './types'
+import { formatPrice } from './utils'
+
+// Shared by the storefront and the server, so keep this module free of
+// server-only imports. Rates are units of each currency per US dollar.
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = { ...CURRENCIES.DEFAULT_RATES }
+
+export function toBaseAmount(amount: number, currency: Currency = CURRENCIES.BASE, rates: ExchangeRates): number {
+  return roundCurrency(amount / rates[currency])
+}
+
+export function fromBaseAmount(amount: number, currency: Currency, rates: ExchangeRates): number {
+  return roundCurrency(amount * rates[currency])
+}
+
+// Pricing works in the base currency, whatever currency a listing is priced in
+export function toBasePrice<T extends { price: number; currency?: Currency }>(item: T, rates: ExchangeRates): T {
+  return { ...item, price: toBaseAmount(item.price, item.currency, rates), currency: CURRENCIES.BASE }
+}
+
+// A base-currency amount shown in another currency, e.g. a booking total at
+// the rate locked when it was made
+export function formatConverted(
+  amount: number,
+  currency: Currency,
+  rate: number,
+  priceType?: string
+): string {
+  return formatPrice(roundCurrency(amount * rate), { currency, priceType })
+}
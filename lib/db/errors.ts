@@ -0,0 +1,59 @@
+// Repository errors carry the same codes as Prisma's known request errors so
+// that handleApiError maps them onto 409/404 responses without extra wiring.
+export const REPOSITORY_ERROR_CODE = {
+  UNIQUE_CONSTRAINT: 'P2002',
+  FOREIGN_KEY_CONSTRAINT: 'P2003',
+  RECORD_NOT_FOUND: 'P2025',
+} as const
+
+export type RepositoryErrorCode = typeof REPOSITORY_ERROR_CODE[keyof typeof REPOSITORY_ERROR_CODE]
+
+export class RepositoryError extends Error {
+  public code: RepositoryErrorCode
+  public table: string
+  public meta?: Record<string, any>
+
+  constructor(message: string, code: RepositoryErrorCode, table: string, meta?: Record<string, any>) {
+    super(message)
+    this.name = 'RepositoryError'
+    this.code = code
+    this.table = table
+    this.meta = meta
+  }
+}
+
+export class UniqueConstraintError extends RepositoryError {
+  constructor(table: string, fields: string[]) {
+    super(
+      `Unique constraint failed on ${table} (${fields.join(', ')})`,
+      REPOSITORY_ERROR_CODE.UNIQUE_CONSTRAINT,
+      table,
+      { target: fields }
+    )
+    this.name = 'UniqueConstraintError'
+  }
+}
+
+export class RecordNotFoundError extends RepositoryError {
+  constructor(table: string, id: string) {
+    super(
+      `Record ${id} not found in ${table}`,
+      REPOSITORY_ERROR_CODE.RECORD_NOT_FOUND,
+      table,
+      { id }
+    )
+    this.name = 'RecordNotFoundError'
+  }
+}
+
+export class ForeignKeyConstraintError extends RepositoryError {
+  constructor(table: string, field: string, reference: string) {
+    super(
+      `Foreign key constraint failed on ${table}.${field} -> ${reference}`,
+      REPOSITORY_ERROR_CODE.FOREIGN_KEY_CONSTRAINT,
+      table,
+      { field, reference }
+    )
+    this.name = 'ForeignKeyConstraintError'
+  }
+}
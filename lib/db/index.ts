@@ -0,0 +1,117 @@
+import { logger } from '../logger'
+import { MemoryStore } from './memory'
+import { SerializedRepository, StoreRepository } from './repository'
+import { TABLES, TABLE_NAMES } from './schema'
+import { openSqliteStore } from './sqlite'
+import { BaseRecord, DataStore, Database, Repository } from './types'
+
+export * from './types'
+export * from './errors'
+export { generateId } from './repository'
+
+// Build the typed repositories on top of a storage backend
+export function createDatabase(store: DataStore): Database {
+  for (const table of TABLE_NAMES) {
+    store.ensureTable(table, TABLES[table])
+  }
+
+  const repositories = {
+    users: new StoreRepository(store, 'users'),
+    categories: new StoreRepository(store, 'categories'),
+    equipment: new StoreRepository(store, 'equipment'),
+    brokerage: new StoreRepository(store, 'brokerage'),
+    bookings: new StoreRepository(store, 'bookings'),
+    auditLogs: new StoreRepository(store, 'auditLogs'),
+    invoices: new StoreRepository(store, 'invoices'),
+    calendarFeeds: new StoreRepository(store, 'calendarFeeds'),
+    jobs: new StoreRepository(store, 'jobs'),
+    waitlist: new StoreRepository(store, 'waitlist'),
+    bookingHolds: new StoreRepository(store, 'bookingHolds'),
+    bookingItems: new StoreRepository(store, 'bookingItems'),
+    contracts: new StoreRepository(store, 'contracts'),
+    billingEntries: new StoreRepository(store, 'billingEntries'),
+    deliveries: new StoreRepository(store, 'deliveries'),
+    maintenance: new StoreRepository(store, 'maintenance'),
+    inspections: new StoreRepository(store, 'inspections'),
+    damageClaims: new StoreRepository(store, 'damageClaims'),
+    payments: new StoreRepository(store, 'payments'),
+    ledgerEntries: new StoreRepository(store, 'ledgerEntries'),
+    pricingRules: new StoreRepository(store, 'pricingRules'),
+    exchangeRates: new StoreRepository(store, 'exchangeRates'),
+    feeRules: new StoreRepository(store, 'feeRules'),
+    credentials: new StoreRepository(store, 'credentials'),
+    otpCodes: new StoreRepository(store, 'otpCodes'),
+  } as Omit<Database, 'transaction'>
+
+  // Inside a transaction nested calls join the outer one
+  const transactional: Database = {
+    ...repositories,
+    transaction: fn => fn(transactional),
+  }
+
+  // Transactions and every write outside one share this queue, so nothing
+  // else writes while a transaction is open and its rollback undoes only its own work
+  let queue: Promise<unknown> = Promise.resolve()
+
+  function enqueue<R>(fn: () => Promise<R>): Promise<R> {
+    const run = queue.then(fn)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const serialized = Object.fromEntries(
+    Object.entries(repositories).map(([table, repository]) => [table, new SerializedRepository(repository as Repository<BaseRecord>, enqueue)])
+  ) as unknown as Omit<Database, 'transaction'>
+
+  return {
+    ...serialized,
+    transaction<R>(fn: (tx: Database) => Promise<R>): Promise<R> {
+      return enqueue(async () => {
+        store.begin()
+        try {
+          const result = await fn(transactional)
+          store.commit()
+          return result
+        } catch (error) {
+          store.rollback()
+          throw error
+        }
+      })
+    },
+  }
+}
+
+export function createMemoryDatabase(): Database {
+  return createDatabase(new MemoryStore())
+}
+
+// DATABASE_URL="file:./data/dev.sqlite" selects the SQLite backend, anything
+// else (including unset) falls back to the in-memory store.
+function resolveSqliteFilename(url?: string): string | null {
+  if (!url || !url.startsWith('file:')) return null
+  return url.slice('file:'.length)
+}
+
+let databasePromise: Promise<Database> | null = null
+
+export function getDatabase(): Promise<Database> {
+  if (!databasePromise) {
+    const filename = resolveSqliteFilename(process.env.DATABASE_URL)
+
+    databasePromise = filename
+      ? openSqliteStore(filename).then(createDatabase)
+      : Promise.resolve(createMemoryDatabase())
+
+    databasePromise.catch(error => {
+      logger.error('Failed to open database', error as Error, { filename })
+      databasePromise = null
+    })
+  }
+
+  return databasePromise
+}
+
+// Swap the process-wide database, e.g. for tests
+export function setDatabase(database: Database | null): void {
+  databasePromise = database ? Promise.resolve(database) : null
+}
@@ -0,0 +1,61 @@
+import { clone, matchesWhere } from './repository'
+import { DataStore, TableName } from './types'
+
+type Tables = Map<TableName, Map<string, Record<string, any>>>
+
+// Map-backed store for tests and local runs without DATABASE_URL
+export class MemoryStore implements DataStore {
+  readonly kind = 'memory' as const
+  private tables: Tables = new Map()
+  private snapshot: Tables | null = null
+
+  private rows(table: TableName) {
+    let rows = this.tables.get(table)
+    if (!rows) {
+      rows = new Map()
+      this.tables.set(table, rows)
+    }
+    return rows
+  }
+
+  ensureTable(table: TableName): void {
+    this.rows(table)
+  }
+
+  get(table: TableName, id: string) {
+    return this.rows(table).get(id) || null
+  }
+
+  list(table: TableName, where?: Record<string, any>) {
+    return Array.from(this.rows(table).values()).filter(record => matchesWhere(record, where))
+  }
+
+  insert(table: TableName, record: Record<string, any>): void {
+    this.rows(table).set(record.id, clone(record))
+  }
+
+  replace(table: TableName, record: Record<string, any>): void {
+    this.rows(table).set(record.id, clone(record))
+  }
+
+  remove(table: TableName, id: string): void {
+    this.rows(table).delete(id)
+  }
+
+  begin(): void {
+    this.snapshot = new Map(
+      Array.from(this.tables.entries()).map(([table, rows]) => [table, new Map(rows)])
+    )
+  }
+
+  commit(): void {
+    this.snapshot = null
+  }
+
+  rollback(): void {
+    if (this.snapshot) {
+      this.tables = this.snapshot
+      this.snapshot = null
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { randomBytes } from 'crypto'
+import { logger } from '../logger'
+import { ForeignKeyConstraintError, RecordNotFoundError, UniqueConstraintError } from './errors'
+import { TABLES, TABLE_NAMES } from './schema'
+import {
+  BaseRecord,
+  CreateInput,
+  DataStore,
+  FindManyOptions,
+  Repository,
+  TableName,
+  UpdateInput,
+  WhereInput,
+} from './types'
+
+// 24 hex characters, compatible with objectIdSchema used by the API validators
+export function generateId(): string {
+  const timestamp = Math.floor(Date.now() / 1000).toString(16).padStart(8, '0')
+  return timestamp + randomBytes(8).toString('hex')
+}
+
+export function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+export function matchesWhere(record: Record<string, any>, where: Record<string, any> = {}): boolean {
+  return Object.entries(where).every(([field, expected]) => {
+    if (expected === undefined) return true
+    if (expected === null) return record[field] === undefined || record[field] === null
+    return record[field] === expected
+  })
+}
+
+// Dates and booleans sort as numbers; anything else that is not a number
+// sorts as text
+function toSortable(value: unknown): number | string {
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  return String(value)
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return -1
+  if (b === undefined || b === null) return 1
+
+  const left = toSortable(a)
+  const right = toSortable(b)
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left === right ? 0 : left < right ? -1 : 1
+  }
+  const leftText = String(left)
+  const rightText = String(right)
+  return leftText === rightText ? 0 : leftText < rightText ? -1 : 1
+}
+
+export class StoreRepository<T extends BaseRecord> implements Repository<T> {
+  constructor(
+    private store: DataStore,
+    private table: TableName
+  ) {}
+
+  private get definition() {
+    return TABLES[this.table]
+  }
+
+  private assertUnique(record: Record<string, any>) {
+    for (const fields of this.definition.unique) {
+      if (fields.some(field => record[field] === undefined || record[field] === null)) continue
+
+      const where = Object.fromEntries(fields.map(field => [field, record[field]]))
+      const clash = this.store.list(this.table, where).some(existing => existing.id !== record.id)
+      if (clash) {
+        throw new UniqueConstraintError(this.table, fields)
+      }
+    }
+  }
+
+  private assertRelations(record: Record<string, any>) {
+    for (const relation of this.definition.relations) {
+      const value = record[relation.field]
+      if (value === undefined || value === null) continue
+
+      if (!this.store.get(relation.table, value)) {
+        throw new ForeignKeyConstraintError(this.table, relation.field, relation.table)
+      }
+    }
+  }
+
+  private assertNotReferenced(id: string) {
+    for (const table of TABLE_NAMES) {
+      for (const relation of TABLES[table].relations) {
+        if (relation.table !== this.table) continue
+
+        if (this.store.list(table, { [relation.field]: id }).length > 0) {
+          throw new ForeignKeyConstraintError(table, relation.field, this.table)
+        }
+      }
+    }
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const record = this.store.get(this.table, id)
+    return record ? (clone(record) as T) : null
+  }
+
+  async findFirst(where: WhereInput<T>): Promise<T | null> {
+    const [record] = await this.findMany({ where, take: 1 })
+    return record || null
+  }
+
+  async findMany(options: FindManyOptions<T> = {}): Promise<T[]> {
+    let records = this.store.list(this.table, options.where) as T[]
+
+    if (options.orderBy) {
+      const { field, direction = 'asc' } = options.orderBy
+      const sign = direction === 'asc' ? 1 : -1
+      records = [...records].sort((a, b) => sign * compareValues(a[field], b[field]))
+    }
+
+    const start = options.skip || 0
+    const end = options.take !== undefined ? start + options.take : undefined
+    return clone(records.slice(start, end))
+  }
+
+  async count(where?: WhereInput<T>): Promise<number> {
+    return this.store.list(this.table, where).length
+  }
+
+  async create(data: CreateInput<T>): Promise<T> {
+    const start = Date.now()
+    const now = new Date().toISOString()
+    const record: Record<string, any> = {
+      ...clone(data),
+      id: data.id || generateId(),
+      ...(this.definition.timestamps && { createdAt: now, updatedAt: now }),
+    }
+
+    if (this.store.get(this.table, record.id)) {
+      throw new UniqueConstraintError(this.table, ['id'])
+    }
+    this.assertUnique(record)
+    this.assertRelations(record)
+    this.store.insert(this.table, record)
+
+    logger.logDatabaseOperation('create', this.table, Date.now() - start, { id: record.id })
+    return clone(record) as T
+  }
+
+  async update(id: string, data: UpdateInput<T>): Promise<T> {
+    const start = Date.now()
+    const existing = this.store.get(this.table, id)
+    if (!existing) {
+      throw new RecordNotFoundError(this.table, id)
+    }
+
+    const record: Record<string, any> = {
+      ...existing,
+      ...clone(data),
+      id,
+      ...(this.definition.timestamps && { updatedAt: new Date().toISOString() }),
+    }
+
+    this.assertUnique(record)
+    this.assertRelations(record)
+    this.store.replace(this.table, record)
+
+    logger.logDatabaseOperation('update', this.table, Date.now() - start, { id })
+    return clone(record) as T
+  }
+
+  async delete(id: string): Promise<T> {
+    const start = Date.now()
+    const existing = this.store.get(this.table, id)
+    if (!existing) {
+      throw new RecordNotFoundError(this.table, id)
+    }
+
+    this.assertNotReferenced(id)
+    this.store.remove(this.table, id)
+
+    logger.logDatabaseOperation('delete', this.table, Date.now() - start, { id })
+    return clone(existing) as T
+  }
+}
+
+// Runs writes one at a time behind the database's transaction queue. A
+// rollback restores the store as it was when the transaction began, so a
+// write slipped in while a transaction awaits would otherwise be undone.
+export class SerializedRepository<T extends BaseRecord> implements Repository<T> {
+  constructor(
+    private repository: Repository<T>,
+    private enqueue: <R>(fn: () => Promise<R>) => Promise<R>
+  ) {}
+
+  findById(id: string): Promise<T | null> {
+    return this.repository.findById(id)
+  }
+
+  findFirst(where: WhereInput<T>): Promise<T | null> {
+    return this.repository.findFirst(where)
+  }
+
+  findMany(options?: FindManyOptions<T>): Promise<T[]> {
+    return this.repository.findMany(options)
+  }
+
+  count(where?: WhereInput<T>): Promise<number> {
+    return this.repository.count(where)
+  }
+
+  create(data: CreateInput<T>): Promise<T> {
+    return this.enqueue(() => this.repository.create(data))
+  }
+
+  update(id: string, data: UpdateInput<T>): Promise<T> {
+    return this.enqueue(() => this.repository.update(id, data))
+  }
+
+  delete(id: string): Promise<T> {
+    return this.enqueue(() => this.repository.delete(id))
+  }
+}
@@ -0,0 +1,173 @@
+import { TableDefinition, TableName } from './types'
+
+// Constraints enforced by every backend. Relations are checked on write and
+// block deletes of referenced records (restrict semantics).
+export const TABLES: Record<TableName, TableDefinition> = {
+  users: {
+    unique: [['email']],
+    relations: [],
+    timestamps: true,
+  },
+  categories: {
+    unique: [['name', 'type']],
+    relations: [],
+    timestamps: true,
+  },
+  equipment: {
+    unique: [],
+    relations: [{ field: 'categoryId', table: 'categories' }],
+    timestamps: true,
+  },
+  brokerage: {
+    unique: [],
+    relations: [{ field: 'categoryId', table: 'categories' }],
+    timestamps: true,
+  },
+  bookings: {
+    unique: [],
+    relations: [
+      { field: 'userId', table: 'users' },
+      { field: 'equipmentId', table: 'equipment' },
+      { field: 'brokerageId', table: 'brokerage' },
+      { field: 'contractId', table: 'contracts' },
+    ],
+    timestamps: true,
+  },
+  auditLogs: {
+    unique: [],
+    relations: [{ field: 'userId', table: 'users' }],
+    timestamps: false,
+  },
+  invoices: {
+    unique: [['number'], ['bookingId']],
+    relations: [{ field: 'bookingId', table: 'bookings' }],
+    timestamps: true,
+  },
+  calendarFeeds: {
+    unique: [['userId'], ['token']],
+    relations: [{ field: 'userId', table: 'users' }],
+    timestamps: true,
+  },
+  jobs: {
+    unique: [],
+    relations: [{ field: 'bookingId', table: 'bookings' }],
+    timestamps: true,
+  },
+  waitlist: {
+    unique: [],
+    relations: [
+      { field: 'userId', table: 'users' },
+      { field: 'equipmentId', table: 'equipment' },
+      { field: 'brokerageId', table: 'brokerage' },
+    ],
+    timestamps: true,
+  },
+  bookingHolds: {
+    unique: [],
+    relations: [
+      { field: 'userId', table: 'users' },
+      { field: 'equipmentId', table: 'equipment' },
+      { field: 'brokerageId', table: 'brokerage' },
+    ],
+    timestamps: true,
+  },
+  bookingItems: {
+    unique: [['bookingId', 'equipmentId']],
+    relations: [
+      { field: 'bookingId', table: 'bookings' },
+      { field: 'equipmentId', table: 'equipment' },
+    ],
+    timestamps: true,
+  },
+  contracts: {
+    unique: [],
+    relations: [
+      { field: 'userId', table: 'users' },
+      { field: 'equipmentId', table: 'equipment' },
+      { field: 'brokerageId', table: 'brokerage' },
+    ],
+    timestamps: true,
+  },
+  billingEntries: {
+    unique: [['contractId', 'periodStart']],
+    relations: [{ field: 'contractId', table: 'contracts' }],
+    timestamps: true,
+  },
+  deliveries: {
+    unique: [['bookingId']],
+    relations: [{ field: 'bookingId', table: 'bookings' }],
+    timestamps: true,
+  },
+  maintenance: {
+    unique: [],
+    relations: [
+      { field: 'equipmentId', table: 'equipment' },
+      { field: 'createdById', table: 'users' },
+    ],
+    timestamps: true,
+  },
+  inspections: {
+    unique: [['bookingId']],
+    relations: [
+      { field: 'bookingId', table: 'bookings' },
+      { field: 'inspectedById', table: 'users' },
+    ],
+    timestamps: true,
+  },
+  damageClaims: {
+    unique: [],
+    relations: [
+      { field: 'bookingId', table: 'bookings' },
+      { field: 'createdById', table: 'users' },
+    ],
+    timestamps: true,
+  },
+  payments: {
+    unique: [['provider', 'providerReference']],
+    relations: [
+      { field: 'bookingId', table: 'bookings' },
+      { field: 'userId', table: 'users' },
+    ],
+    timestamps: true,
+  },
+  ledgerEntries: {
+    unique: [],
+    relations: [
+      { field: 'bookingId', table: 'bookings' },
+      { field: 'paymentId', table: 'payments' },
+      { field: 'createdById', table: 'users' },
+    ],
+    timestamps: true,
+  },
+  pricingRules: {
+    unique: [['code']],
+    relations: [
+      { field: 'categoryId', table: 'categories' },
+      { field: 'equipmentId', table: 'equipment' },
+      { field: 'brokerageId', table: 'brokerage' },
+    ],
+    timestamps: true,
+  },
+  exchangeRates: {
+    unique: [],
+    relations: [{ field: 'createdById', table: 'users' }],
+    timestamps: true,
+  },
+  feeRules: {
+    unique: [],
+    relations: [],
+    timestamps: true,
+  },
+  credentials: {
+    unique: [['userId']],
+    relations: [{ field: 'userId', table: 'users' }],
+    timestamps: true,
+  },
+  otpCodes: {
+    unique: [],
+    relations: [],
+    timestamps: true,
+  },
+}
+
+export const TABLE_NAMES = Object.keys(TABLES) as TableName[]
@@ -0,0 +1,160 @@
+import fs from 'fs'
+import path from 'path'
+import initSqlJs, { Database as SqlJsDatabase, SqlValue } from 'sql.js'
+import { logger } from '../logger'
+import { UniqueConstraintError } from './errors'
+import { DataStore, TableDefinition, TableName } from './types'
+
+function toSqlValue(value: unknown): SqlValue {
+  if (typeof value === 'boolean') return value ? 1 : 0
+  return value as SqlValue
+}
+
+function jsonPath(field: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(field)) {
+    throw new Error(`Invalid field name: ${field}`)
+  }
+  return `json_extract(data, '$.${field}')`
+}
+
+// File-backed SQLite store. Records are kept as JSON documents with unique
+// expression indexes; the database file is rewritten after every committed write.
+export class SqliteStore implements DataStore {
+  readonly kind = 'sqlite' as const
+  private inTransaction = false
+  // Unique index name to the fields it covers, to name them in errors
+  private uniqueIndexes = new Map<string, { table: TableName; fields: string[] }>()
+
+  constructor(
+    private db: SqlJsDatabase,
+    private filename: string | null
+  ) {}
+
+  private persist() {
+    if (!this.filename || this.inTransaction) return
+
+    fs.mkdirSync(path.dirname(this.filename), { recursive: true })
+    fs.writeFileSync(this.filename, Buffer.from(this.db.export()))
+  }
+
+  private run(sql: string, params: SqlValue[] = []) {
+    try {
+      this.db.run(sql, params)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      if (message.includes('UNIQUE constraint failed')) {
+        const { table, fields } = this.parseUniqueViolation(message)
+        throw new UniqueConstraintError(table, fields)
+      }
+      throw error
+    }
+  }
+
+  // Expression indexes are reported by name ("index 'users_email_key'"),
+  // plain columns as "users.id"
+  private parseUniqueViolation(message: string): { table: string; fields: string[] } {
+    const index = message.match(/UNIQUE constraint failed: index '([^']+)'/)
+    if (index) {
+      return this.uniqueIndexes.get(index[1]) || { table: index[1], fields: [] }
+    }
+
+    const columns = (message.match(/UNIQUE constraint failed: ([\w.]+(?:, [\w.]+)*)/)?.[1] || '').split(', ')
+    const [table = 'unknown'] = columns[0].split('.')
+    return { table, fields: columns.map(column => column.split('.').pop()!).filter(Boolean) }
+  }
+
+  private query(sql: string, params: SqlValue[] = []): Record<string, any>[] {
+    const statement = this.db.prepare(sql, params)
+    const rows: Record<string, any>[] = []
+    try {
+      while (statement.step()) {
+        rows.push(JSON.parse(statement.getAsObject().data as string))
+      }
+    } finally {
+      statement.free()
+    }
+    return rows
+  }
+
+  ensureTable(table: TableName, definition: TableDefinition): void {
+    this.db.run(`CREATE TABLE IF NOT EXISTS "${table}" (id TEXT PRIMARY KEY, data TEXT NOT NULL)`)
+
+    for (const fields of definition.unique) {
+      const indexName = `${table}_${fields.join('_')}_key`
+      const columns = fields.map(jsonPath).join(', ')
+      this.db.run(`CREATE UNIQUE INDEX IF NOT EXISTS "${indexName}" ON "${table}" (${columns})`)
+      this.uniqueIndexes.set(indexName, { table, fields })
+    }
+
+    for (const relation of definition.relations) {
+      const indexName = `${table}_${relation.field}_idx`
+      this.db.run(`CREATE INDEX IF NOT EXISTS "${indexName}" ON "${table}" (${jsonPath(relation.field)})`)
+    }
+  }
+
+  get(table: TableName, id: string) {
+    const [row] = this.query(`SELECT data FROM "${table}" WHERE id = ?`, [id])
+    return row || null
+  }
+
+  list(table: TableName, where: Record<string, any> = {}) {
+    const clauses: string[] = []
+    const params: SqlValue[] = []
+
+    for (const [field, value] of Object.entries(where)) {
+      if (value === undefined) continue
+      if (value === null) {
+        clauses.push(`${jsonPath(field)} IS NULL`)
+      } else {
+        clauses.push(`${jsonPath(field)} = ?`)
+        params.push(toSqlValue(value))
+      }
+    }
+
+    const whereSql = clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : ''
+    return this.query(`SELECT data FROM "${table}"${whereSql}`, params)
+  }
+
+  insert(table: TableName, record: Record<string, any>): void {
+    this.run(`INSERT INTO "${table}" (id, data) VALUES (?, ?)`, [record.id, JSON.stringify(record)])
+    this.persist()
+  }
+
+  replace(table: TableName, record: Record<string, any>): void {
+    this.run(`UPDATE "${table}" SET data = ? WHERE id = ?`, [JSON.stringify(record), record.id])
+    this.persist()
+  }
+
+  remove(table: TableName, id: string): void {
+    this.run(`DELETE FROM "${table}" WHERE id = ?`, [id])
+    this.persist()
+  }
+
+  begin(): void {
+    this.db.run('BEGIN')
+    this.inTransaction = true
+  }
+
+  commit(): void {
+    this.db.run('COMMIT')
+    this.inTransaction = false
+    this.persist()
+  }
+
+  rollback(): void {
+    this.db.run('ROLLBACK')
+    this.inTransaction = false
+  }
+}
+
+export async function openSqliteStore(filename: string | null): Promise<SqliteStore> {
+  const SQL = await initSqlJs({
+    locateFile: (file: string) => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file),
+  })
+
+  const existing = filename && fs.existsSync(filename) ? fs.readFileSync(filename) : undefined
+  const db = new SQL.Database(existing)
+
+  logger.info('SQLite store opened', { filename, restored: !!existing })
+  return new SqliteStore(db, filename)
+}
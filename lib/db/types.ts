@@ -0,0 +1,116 @@
+import { AuditLog, BillingEntry, Booking, BookingHold, BookingItem, RentalContract, Delivery, EquipmentMaintenance, ReturnInspection, DamageClaim, Payment, LedgerEntry, PricingRule, ExchangeRate, FeeRule, Brokerage, CalendarFeed, Category, Equipment, Invoice, Job, OtpCode, User, UserCredential, WaitlistEntry } from '../types'
+
+// Stored records are flat: relations are referenced by id and joined by callers
+export interface BaseRecord {
+  id: string
+}
+
+export type UserRecord = User
+export type UserCredentialRecord = UserCredential
+export type OtpCodeRecord = OtpCode
+export type CategoryRecord = Omit<Category, '_count'>
+export type EquipmentRecord = Omit<Equipment, 'category'>
+export type BrokerageRecord = Omit<Brokerage, 'category'>
+export type BookingRecord = Omit<Booking, 'user' | 'equipment' | 'brokerage' | 'items' | 'delivery' | 'inspection' | 'damageClaims' | 'balance'>
+export type BookingItemRecord = Omit<BookingItem, 'equipment'>
+export type ContractRecord = RentalContract
+export type BillingEntryRecord = BillingEntry
+export type DeliveryRecord = Delivery
+export type MaintenanceRecord = EquipmentMaintenance
+export type InspectionRecord = ReturnInspection
+export type DamageClaimRecord = DamageClaim
+export type PaymentRecord = Payment
+export type LedgerEntryRecord = LedgerEntry
+export type PricingRuleRecord = PricingRule
+export type ExchangeRateRecord = ExchangeRate
+export type FeeRuleRecord = FeeRule
+export type AuditLogRecord = Omit<AuditLog, 'user'>
+export type InvoiceRecord = Invoice
+export type CalendarFeedRecord = CalendarFeed
+export type JobRecord = Job
+export type WaitlistEntryRecord = WaitlistEntry
+export type BookingHoldRecord = BookingHold
+
+type ManagedFields = 'id' | 'createdAt' | 'updatedAt'
+
+export type CreateInput<T extends BaseRecord> = Omit<T, ManagedFields> & { id?: string }
+export type UpdateInput<T extends BaseRecord> = Partial<Omit<T, ManagedFields>>
+
+// Equality match on top-level fields; `null` matches missing values
+export type WhereInput<T> = { [K in keyof T]?: T[K] | null }
+
+export interface FindManyOptions<T> {
+  where?: WhereInput<T>
+  orderBy?: { field: keyof T; direction?: 'asc' | 'desc' }
+  skip?: number
+  take?: number
+}
+
+export interface Repository<T extends BaseRecord> {
+  findById(id: string): Promise<T | null>
+  findFirst(where: WhereInput<T>): Promise<T | null>
+  findMany(options?: FindManyOptions<T>): Promise<T[]>
+  count(where?: WhereInput<T>): Promise<number>
+  create(data: CreateInput<T>): Promise<T>
+  update(id: string, data: UpdateInput<T>): Promise<T>
+  delete(id: string): Promise<T>
+}
+
+export interface Database {
+  users: Repository<UserRecord>
+  categories: Repository<CategoryRecord>
+  equipment: Repository<EquipmentRecord>
+  brokerage: Repository<BrokerageRecord>
+  bookings: Repository<BookingRecord>
+  auditLogs: Repository<AuditLogRecord>
+  invoices: Repository<InvoiceRecord>
+  calendarFeeds: Repository<CalendarFeedRecord>
+  jobs: Repository<JobRecord>
+  waitlist: Repository<WaitlistEntryRecord>
+  bookingHolds: Repository<BookingHoldRecord>
+  bookingItems: Repository<BookingItemRecord>
+  contracts: Repository<ContractRecord>
+  billingEntries: Repository<BillingEntryRecord>
+  deliveries: Repository<DeliveryRecord>
+  maintenance: Repository<MaintenanceRecord>
+  inspections: Repository<InspectionRecord>
+  damageClaims: Repository<DamageClaimRecord>
+  payments: Repository<PaymentRecord>
+  ledgerEntries: Repository<LedgerEntryRecord>
+  pricingRules: Repository<PricingRuleRecord>
+  exchangeRates: Repository<ExchangeRateRecord>
+  feeRules: Repository<FeeRuleRecord>
+  credentials: Repository<UserCredentialRecord>
+  otpCodes: Repository<OtpCodeRecord>
+  // Runs `fn` atomically; transactions are serialised and roll back on error
+  transaction<R>(fn: (tx: Database) => Promise<R>): Promise<R>
+}
+
+export type TableName = Exclude<keyof Database, 'transaction'>
+
+export interface RelationDefinition {
+  field: string
+  table: TableName
+}
+
+export interface TableDefinition {
+  unique: string[][]
+  relations: RelationDefinition[]
+  timestamps: boolean
+}
+
+// Low-level storage backend; repositories enforce constraints on top of it
+export interface DataStore {
+  readonly kind: 'memory' | 'sqlite'
+  ensureTable(table: TableName, definition: TableDefinition): void
+  get(table: TableName, id: string): Record<string, any> | null
+  list(table: TableName, where?: Record<string, any>): Record<string, any>[]
+  insert(table: TableName, record: Record<string, any>): void
+  replace(table: TableName, record: Record<string, any>): void
+  remove(table: TableName, id: string): void
+  // Rollback restores the whole store to its state at begin(); createDatabase
+  // holds every other write back until the transaction ends
+  begin(): void
+  commit(): void
+  rollback(): void
+}
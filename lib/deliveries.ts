@@ -0,0 +1,157 @@
+import { AppError } from './api-utils'
+import { hydrateBookings } from './bookings'
+import {
+  BOOKING_STATUS,
+  DELIVERY,
+  DELIVERY_STATUS,
+  DELIVERY_STATUS_TRANSITIONS,
+  DeliveryStatus,
+  ERROR_MESSAGES,
+} from './constants'
+import { Database, DeliveryRecord, UserRecord } from './db'
+import { DeliveryQuote, calculateDeliveryFee } from './pricing'
+import { Delivery, DispatchDay, DispatchStop, TimeWindow } from './types'
+import { DateRange, getBookingTitle } from './utils'
+import { logger } from './logger'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export type DeliveryRequest = Pick<Delivery, 'address' | 'coordinates' | 'deliveryWindow' | 'pickupWindow' | 'instructions'>
+
+// Prices a delivery for a booking and checks it can be made: the site must be
+// in range, the drop-off must come before the booking ends and the pickup
+// after it starts, each within a day's grace of the booking dates
+export function quoteDelivery(request: DeliveryRequest, range: DateRange): DeliveryQuote {
+  const bookingStart = new Date(range.startDate).getTime()
+  const bookingEnd = new Date(range.endDate).getTime()
+  const grace = DELIVERY.WINDOW_GRACE_HOURS * HOUR_MS
+  const deliveryStart = new Date(request.deliveryWindow.start).getTime()
+
+  if (deliveryStart < bookingStart - grace || deliveryStart >= bookingEnd) {
+    throw new AppError(ERROR_MESSAGES.DELIVERY_WINDOW_OUTSIDE_BOOKING, 400)
+  }
+  if (request.pickupWindow) {
+    const pickupStart = new Date(request.pickupWindow.start).getTime()
+    if (pickupStart <= bookingStart || pickupStart > bookingEnd + grace) {
+      throw new AppError(ERROR_MESSAGES.DELIVERY_WINDOW_OUTSIDE_BOOKING, 400)
+    }
+  }
+
+  const quote = calculateDeliveryFee(request.coordinates, { pickup: !!request.pickupWindow })
+  if (quote.distanceKm > DELIVERY.MAX_DISTANCE_KM) {
+    throw new AppError(ERROR_MESSAGES.DELIVERY_OUT_OF_RANGE, 400)
+  }
+  return quote
+}
+
+export async function createDelivery(
+  db: Database,
+  bookingId: string,
+  request: DeliveryRequest,
+  quote: DeliveryQuote,
+  actor: UserRecord
+): Promise<DeliveryRecord> {
+  return db.deliveries.create({
+    bookingId,
+    address: request.address,
+    coordinates: request.coordinates,
+    distanceKm: quote.distanceKm,
+    fee: quote.fee,
+    deliveryWindow: request.deliveryWindow,
+    pickupWindow: request.pickupWindow,
+    instructions: request.instructions,
+    status: DELIVERY_STATUS.SCHEDULED,
+    statusHistory: [{ from: null, to: DELIVERY_STATUS.SCHEDULED, actorId: actor.id, timestamp: new Date().toISOString() }],
+  })
+}
+
+export async function updateDeliveryStatus(
+  db: Database,
+  id: string,
+  status: DeliveryStatus,
+  actor: UserRecord
+): Promise<DeliveryRecord> {
+  return db.transaction(async (tx) => {
+    const delivery = await tx.deliveries.findById(id)
+    if (!delivery) {
+      throw new AppError(ERROR_MESSAGES.DELIVERY_NOT_FOUND, 404)
+    }
+
+    const allowed = DELIVERY_STATUS_TRANSITIONS[delivery.status].includes(status) &&
+      (status !== DELIVERY_STATUS.PICKED_UP || !!delivery.pickupWindow)
+    if (!allowed) {
+      throw new AppError(ERROR_MESSAGES.INVALID_DELIVERY_STATUS_TRANSITION, 409)
+    }
+
+    const updated = await tx.deliveries.update(id, {
+      status,
+      statusHistory: [
+        ...delivery.statusHistory,
+        { from: delivery.status, to: status, actorId: actor.id, timestamp: new Date().toISOString() },
+      ],
+    })
+
+    logger.logBusinessEvent('Delivery status changed', { deliveryId: id, bookingId: delivery.bookingId, from: delivery.status, to: status }, actor.id)
+    return updated
+  })
+}
+
+// A cancelled booking no longer needs its drop-off; once the items are on
+// their way the trip is left for dispatch to settle
+export async function cancelDeliveryForBooking(db: Database, bookingId: string, actor: UserRecord): Promise<void> {
+  const delivery = await db.deliveries.findFirst({ bookingId })
+  if (delivery?.status === DELIVERY_STATUS.SCHEDULED) {
+    await updateDeliveryStatus(db, delivery.id, DELIVERY_STATUS.CANCELLED, actor)
+  }
+}
+
+const toDateKey = (date: string | Date) => new Date(date).toISOString().slice(0, 10)
+
+// Drop-offs and returns per day between two UTC dates (inclusive), each day's
+// stops ordered by their time window
+export async function getDispatchSchedule(db: Database, range: { from?: string; to?: string } = {}): Promise<DispatchDay[]> {
+  const from = range.from || toDateKey(new Date())
+  const to = range.to || toDateKey(new Date(new Date(from).getTime() + (DELIVERY.DISPATCH_DEFAULT_DAYS - 1) * DAY_MS))
+
+  const deliveries = (await db.deliveries.findMany())
+    .filter(delivery => delivery.status !== DELIVERY_STATUS.CANCELLED)
+  const bookingIds = new Set(deliveries.map(delivery => delivery.bookingId))
+  const bookingRecords = (await db.bookings.findMany())
+    .filter(booking => bookingIds.has(booking.id) && booking.status !== BOOKING_STATUS.CANCELLED)
+  const bookingsById = new Map((await hydrateBookings(db, bookingRecords)).map(booking => [booking.id, booking]))
+
+  const days = new Map<string, DispatchDay>()
+  const addStop = (kind: DispatchStop['kind'], window: TimeWindow, delivery: DeliveryRecord) => {
+    const date = toDateKey(window.start)
+    const booking = bookingsById.get(delivery.bookingId)
+    if (!booking || date < from || date > to) return
+
+    const day = days.get(date) || { date, deliveries: [], returns: [] }
+    const stop: DispatchStop = {
+      kind,
+      window,
+      delivery,
+      booking: {
+        id: booking.id,
+        status: booking.status,
+        title: getBookingTitle(booking),
+        phoneNumber: booking.phoneNumber,
+        customer: { name: booking.user?.name, email: booking.user?.email },
+      },
+    }
+    if (kind === 'DELIVERY') day.deliveries.push(stop)
+    else day.returns.push(stop)
+    days.set(date, day)
+  }
+
+  for (const delivery of deliveries) {
+    addStop('DELIVERY', delivery.deliveryWindow, delivery)
+    if (delivery.pickupWindow) addStop('PICKUP', delivery.pickupWindow, delivery)
+  }
+
+  const byWindow = (a: DispatchStop, b: DispatchStop) => a.window.start.localeCompare(b.window.start)
+  return Array.from(days.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => ({ ...day, deliveries: day.deliveries.sort(byWindow), returns: day.returns.sort(byWindow) }))
+}
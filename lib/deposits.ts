@@ -0,0 +1,170 @@
+import { AppError } from './api-utils'
+import { BOOKING_STATUS, DEPOSIT_STATUS, ERROR_MESSAGES, LEDGER_ENTRY_KIND } from './constants'
+import { BookingRecord, DamageClaimRecord, Database, InspectionRecord, UserRecord } from './db'
+import { postLedgerEntry } from './ledger'
+import { refundBookingCredit } from './payments'
+import { roundCurrency } from './pricing'
+import { BookingDeposit, InspectionChecklistItem } from './types'
+import { logger } from './logger'
+
+export interface InspectionInput {
+  checklist: InspectionChecklistItem[]
+  photos: string[]
+  notes?: string
+}
+
+export interface DamageClaimInput {
+  description: string
+  amount: number
+}
+
+// Inspections and claims only apply once the items have gone out, and only
+// while the deposit is still held
+async function findInspectableBooking(db: Database, bookingId: string): Promise<BookingRecord & { deposit: BookingDeposit }> {
+  const booking = await db.bookings.findById(bookingId)
+  if (!booking) {
+    throw new AppError(ERROR_MESSAGES.BOOKING_NOT_FOUND, 404)
+  }
+  if (!booking.deposit) {
+    throw new AppError(ERROR_MESSAGES.DEPOSIT_NOT_APPLICABLE, 400)
+  }
+  if (booking.status !== BOOKING_STATUS.CONFIRMED && booking.status !== BOOKING_STATUS.COMPLETED) {
+    throw new AppError(ERROR_MESSAGES.INSPECTION_NOT_ALLOWED, 400)
+  }
+  if (booking.deposit.status !== DEPOSIT_STATUS.HELD) {
+    throw new AppError(ERROR_MESSAGES.DEPOSIT_ALREADY_SETTLED, 409)
+  }
+  return booking as BookingRecord & { deposit: BookingDeposit }
+}
+
+// Recording the inspection again replaces the earlier one
+export async function recordInspection(
+  db: Database,
+  bookingId: string,
+  input: InspectionInput,
+  admin: UserRecord
+): Promise<InspectionRecord> {
+  return db.transaction(async (tx) => {
+    await findInspectableBooking(tx, bookingId)
+
+    const existing = await tx.inspections.findFirst({ bookingId })
+    const inspection = existing
+      ? await tx.inspections.update(existing.id, { ...input, inspectedById: admin.id })
+      : await tx.inspections.create({ bookingId, ...input, inspectedById: admin.id })
+
+    const failed = input.checklist.filter(item => !item.passed).length
+    logger.logBusinessEvent('Return inspection recorded', { bookingId, failed, photos: input.photos.length }, admin.id)
+    return inspection
+  })
+}
+
+export async function addDamageClaim(
+  db: Database,
+  bookingId: string,
+  input: DamageClaimInput,
+  admin: UserRecord
+): Promise<DamageClaimRecord> {
+  return db.transaction(async (tx) => {
+    await findInspectableBooking(tx, bookingId)
+
+    const claim = await tx.damageClaims.create({ bookingId, ...input, createdById: admin.id })
+    logger.logBusinessEvent('Damage claim added', { bookingId, claimId: claim.id, amount: input.amount }, admin.id)
+    return claim
+  })
+}
+
+export async function removeDamageClaim(
+  db: Database,
+  bookingId: string,
+  claimId: string,
+  admin: UserRecord
+): Promise<DamageClaimRecord> {
+  return db.transaction(async (tx) => {
+    await findInspectableBooking(tx, bookingId)
+
+    const claim = await tx.damageClaims.findById(claimId)
+    if (!claim || claim.bookingId !== bookingId) {
+      throw new AppError(ERROR_MESSAGES.DAMAGE_CLAIM_NOT_FOUND, 404)
+    }
+
+    const removed = await tx.damageClaims.delete(claimId)
+    logger.logBusinessEvent('Damage claim removed', { bookingId, claimId }, admin.id)
+    return removed
+  })
+}
+
+// Claims are deducted up to the deposit amount; anything above it is not
+// covered by the deposit and is charged on top of it at settlement
+export function resolveDeposit(
+  deposit: BookingDeposit,
+  claims: DamageClaimInput[],
+  admin: UserRecord,
+  now: Date = new Date()
+): BookingDeposit {
+  const claimed = roundCurrency(claims.reduce((sum, claim) => sum + claim.amount, 0))
+  const deducted = Math.min(deposit.amount, claimed)
+  const refunded = roundCurrency(deposit.amount - deducted)
+
+  return {
+    ...deposit,
+    status: deducted === 0 ? DEPOSIT_STATUS.REFUNDED
+      : refunded === 0 ? DEPOSIT_STATUS.FORFEITED
+      : DEPOSIT_STATUS.PARTIALLY_REFUNDED,
+    deducted,
+    refunded,
+    settledAt: now.toISOString(),
+    settledById: admin.id,
+  }
+}
+
+// The deposit was charged when the booking was made. Settling credits back
+// what is returned and charges any claims above it, then refunds the returned
+// part to the customer's payments once those entries have committed.
+export async function settleDeposit(
+  db: Database,
+  bookingId: string,
+  admin: UserRecord,
+  now: Date = new Date()
+): Promise<BookingRecord> {
+  const { updated, deposit } = await db.transaction(async (tx) => {
+    const booking = await findInspectableBooking(tx, bookingId)
+
+    const inspection = await tx.inspections.findFirst({ bookingId })
+    if (!inspection) {
+      throw new AppError(ERROR_MESSAGES.INSPECTION_REQUIRED, 400)
+    }
+
+    const claims = await tx.damageClaims.findMany({ where: { bookingId } })
+    const deposit = resolveDeposit(booking.deposit, claims, admin, now)
+    const updated = await tx.bookings.update(bookingId, { deposit })
+
+    if (deposit.refunded) {
+      await postLedgerEntry(tx, updated, {
+        kind: LEDGER_ENTRY_KIND.ADJUSTMENT,
+        amount: -deposit.refunded,
+        description: 'Security deposit returned',
+      }, admin)
+    }
+    const uncovered = roundCurrency(claims.reduce((sum, claim) => sum + claim.amount, 0) - deposit.amount)
+    if (uncovered > 0) {
+      await postLedgerEntry(tx, updated, {
+        kind: LEDGER_ENTRY_KIND.CHARGE,
+        amount: uncovered,
+        description: 'Damage claims above the security deposit',
+      }, admin)
+    }
+
+    logger.logBusinessEvent('Security deposit settled', { bookingId, status: deposit.status, deducted: deposit.deducted, refunded: deposit.refunded, uncovered: Math.max(0, uncovered) }, admin.id)
+    return { updated, deposit }
+  })
+
+  if (deposit.refunded) {
+    try {
+      await refundBookingCredit(db, updated, admin, deposit.refunded)
+    } catch (error) {
+      // The credit stays on the ledger, to be refunded by hand
+      logger.error('Security deposit refund failed', error as Error, { bookingId, amount: deposit.refunded })
+    }
+  }
+  return updated
+}
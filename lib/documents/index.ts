@@ -0,0 +1,174 @@
+import { NextResponse } from 'next/server'
+import { AppError } from '../api-utils'
+import { BOOKING_STATUS, CATEGORY_TYPE, CURRENCIES, Currency, DEPOSIT_STATUS, DOCUMENTS, ERROR_MESSAGES } from '../constants'
+import { Database, FeeRuleRecord, InvoiceRecord, PricingRuleRecord, UserRecord, generateId } from '../db'
+import { hydrateBooking } from '../bookings'
+import { applyFeeRules, calculateBookingPrice } from '../pricing'
+import { DEFAULT_EXCHANGE_RATES, toBasePrice } from '../currency'
+import { getBookingTitle } from '../utils'
+import { Booking, BookingDocument, Brokerage, Equipment, ExchangeRates } from '../types'
+import { logger } from '../logger'
+import { renderDocumentHtml, renderDocumentPdf } from './render'
+
+export { renderDocumentHtml, renderDocumentPdf } from './render'
+
+export type DocumentFormat = 'html' | 'pdf'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function quoteNumber(id: string): string {
+  return `${DOCUMENTS.QUOTE_PREFIX}-${id.slice(-8).toUpperCase()}`
+}
+
+function quoteValidUntil(issuedAt: string): string {
+  return new Date(new Date(issuedAt).getTime() + DOCUMENTS.QUOTE_VALID_DAYS * DAY_MS).toISOString()
+}
+
+// Invoices are numbered per year in issue order, e.g. INV-2026-00042
+export async function issueInvoice(db: Database, bookingId: string): Promise<InvoiceRecord> {
+  return db.transaction(async (tx) => {
+    const existing = await tx.invoices.findFirst({ bookingId })
+    if (existing) return existing
+
+    const issuedAt = new Date()
+    const prefix = `${DOCUMENTS.INVOICE_PREFIX}-${issuedAt.getFullYear()}-`
+    const issuedThisYear = (await tx.invoices.findMany()).filter(invoice => invoice.number.startsWith(prefix))
+
+    const invoice = await tx.invoices.create({
+      number: `${prefix}${String(issuedThisYear.length + 1).padStart(5, '0')}`,
+      bookingId,
+      issuedAt: issuedAt.toISOString(),
+    })
+
+    logger.logBusinessEvent('Invoice issued', { bookingId, number: invoice.number })
+    return invoice
+  })
+}
+
+export function buildBookingDocument(
+  booking: Booking,
+  kind: BookingDocument['kind'],
+  number: string,
+  issuedAt: string
+): BookingDocument {
+  const item = (booking.equipment || booking.brokerage)!
+  // Bookings made before totals were recomputed server-side have no stored breakdown
+  const priceBreakdown = booking.priceBreakdown || calculateBookingPrice({ ...item, ...booking })
+
+  return {
+    kind,
+    number,
+    issuedAt,
+    ...(kind === 'QUOTE' && { validUntil: quoteValidUntil(issuedAt) }),
+    bookingId: booking.id,
+    status: booking.status,
+    customer: {
+      name: booking.user.name,
+      email: booking.user.email,
+      phoneNumber: booking.phoneNumber,
+    },
+    item: {
+      title: getBookingTitle(booking),
+      type: booking.type,
+      category: item.category?.name,
+    },
+    startDate: booking.startDate,
+    endDate: booking.endDate,
+    priceBreakdown,
+    total: booking.totalPrice,
+    currency: booking.currency || CURRENCIES.BASE,
+    exchangeRate: booking.exchangeRate || 1,
+    ...(booking.deposit && {
+      deposit: {
+        ...booking.deposit,
+        claims: (booking.damageClaims || []).map(({ description, amount }) => ({ description, amount })),
+      },
+    }),
+  }
+}
+
+// Confirmed and completed bookings get a numbered invoice; pending bookings a
+// quote. A cancelled booking keeps any invoice issued before cancellation.
+export async function getBookingDocument(db: Database, bookingId: string): Promise<BookingDocument> {
+  const record = await db.bookings.findById(bookingId)
+  if (!record) {
+    throw new AppError(ERROR_MESSAGES.BOOKING_NOT_FOUND, 404)
+  }
+  const booking = await hydrateBooking(db, record)
+
+  if (booking.status === BOOKING_STATUS.PENDING) {
+    return buildBookingDocument(booking, 'QUOTE', quoteNumber(booking.id), new Date().toISOString())
+  }
+
+  const invoice = booking.status === BOOKING_STATUS.CANCELLED
+    ? await db.invoices.findFirst({ bookingId })
+    : await issueInvoice(db, bookingId)
+
+  if (!invoice) {
+    throw new AppError(ERROR_MESSAGES.INVOICE_NOT_AVAILABLE, 400)
+  }
+
+  return buildBookingDocument(booking, 'INVOICE', invoice.number, invoice.issuedAt)
+}
+
+export interface QuoteOptions {
+  rules?: PricingRuleRecord[]
+  feeRules?: FeeRuleRecord[]
+  // Shown in the customer's currency at today's rate
+  currency?: Currency
+  rates?: ExchangeRates
+}
+
+// Quote for an item and date range before anything is booked
+export function buildQuoteDocument(
+  item: Equipment | Brokerage,
+  type: Booking['type'],
+  customer: UserRecord,
+  range: { startDate: string; endDate: string },
+  options: QuoteOptions = {}
+): BookingDocument {
+  const { rules = [], feeRules = [], currency = CURRENCIES.BASE, rates = DEFAULT_EXCHANGE_RATES } = options
+  const issuedAt = new Date().toISOString()
+  const priceBreakdown = applyFeeRules(
+    calculateBookingPrice({ ...toBasePrice(item, rates), ...range }, rules),
+    feeRules,
+    type === 'BROKERAGE' ? CATEGORY_TYPE.BROKERAGE : CATEGORY_TYPE.EQUIPMENT
+  )
+
+  return {
+    kind: 'QUOTE',
+    number: quoteNumber(generateId()),
+    issuedAt,
+    validUntil: quoteValidUntil(issuedAt),
+    customer: { name: customer.name, email: customer.email },
+    item: { title: item.title, type, category: item.category?.name },
+    ...range,
+    priceBreakdown,
+    total: priceBreakdown.total,
+    currency,
+    exchangeRate: rates[currency],
+    ...('depositAmount' in item && item.depositAmount && {
+      deposit: { amount: item.depositAmount, status: DEPOSIT_STATUS.HELD, claims: [] },
+    }),
+  }
+}
+
+export function createDocumentResponse(document: BookingDocument, format: DocumentFormat): NextResponse {
+  const filename = `${document.number}.${format}`
+
+  if (format === 'html') {
+    return new NextResponse(renderDocumentHtml(document), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}"`,
+      },
+    })
+  }
+
+  return new NextResponse(renderDocumentPdf(document), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+}
@@ -0,0 +1,130 @@
+// Minimal single-font PDF writer for generated documents. Uses the standard
+// Helvetica fonts, so no font files need to be embedded.
+
+export const PAGE_WIDTH = 595 // A4 in points
+export const PAGE_HEIGHT = 842
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+// Bold glyphs are slightly wider; close enough for right-aligned columns
+const BOLD_FACTOR = 1.06
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  align?: 'left' | 'right'
+  color?: [number, number, number]
+}
+
+export function measureText(text: string, size: number, bold = false): number {
+  let width = 0
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556
+  }
+  return (width * size / 1000) * (bold ? BOLD_FACTOR : 1)
+}
+
+// Strings are written in WinAnsi; anything outside Latin-1 is replaced
+function encodeText(text: string): string {
+  let encoded = ''
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`
+    } else if (code >= 32 && code <= 126) {
+      encoded += char
+    } else if (code >= 160 && code <= 255) {
+      encoded += `\\${code.toString(8)}`
+    } else {
+      encoded += '?'
+    }
+  }
+  return encoded
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+export class PdfDocument {
+  private pages: string[][] = []
+
+  constructor() {
+    this.addPage()
+  }
+
+  addPage(): void {
+    this.pages.push([])
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1]
+  }
+
+  // Coordinates are measured from the top-left corner of the page
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const size = options.size || 10
+    const left = options.align === 'right' ? x - measureText(text, size, options.bold) : x
+    const [r, g, b] = options.color || [0, 0, 0]
+
+    this.current.push(
+      `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`,
+      `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current.push(
+      `${formatNumber(width)} w 0.8 0.8 0.8 RG`,
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    )
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = []
+    const fontIds = [3, 4]
+    const pageIds = this.pages.map((_, index) => 5 + index * 2)
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+    objects[fontIds[0]] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    objects[fontIds[1]] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+    this.pages.forEach((commands, index) => {
+      const pageId = pageIds[index]
+      const content = commands.join('\n')
+      objects[pageId] = [
+        '<< /Type /Page /Parent 2 0 R',
+        `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+        `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R >> >>`,
+        `/Contents ${pageId + 1} 0 R >>`,
+      ].join(' ')
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    })
+
+    let output = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1')
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1')
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+}
@@ -0,0 +1,244 @@
+import { COMPANY, CURRENCIES, DepositStatus } from '../constants'
+import { BookingDocument, PriceLineItem } from '../types'
+import { formatConverted } from '../currency'
+import { formatDate } from '../utils'
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument } from './pdf'
+
+const TITLES: Record<BookingDocument['kind'], string> = {
+  INVOICE: 'Invoice',
+  QUOTE: 'Quote',
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Amounts are stored in the base currency and shown in the document's currency
+function money(document: BookingDocument, amount: number): string {
+  return formatConverted(amount, document.currency, document.exchangeRate)
+}
+
+// Inclusive taxes and fees are already part of the other lines
+function lineAmount(document: BookingDocument, item: PriceLineItem): string {
+  return item.included ? `incl. ${money(document, item.amount)}` : money(document, item.amount)
+}
+
+function describeItem(document: BookingDocument): string {
+  const type = document.item.type === 'EQUIPMENT' ? 'Equipment rental' : 'Brokerage service'
+  return document.item.category ? `${type} - ${document.item.category}` : type
+}
+
+// Label/value pairs shown under the document header
+function getMetaRows(document: BookingDocument): [string, string][] {
+  const rows: [string, string][] = [
+    [`${TITLES[document.kind]} number`, document.number],
+    ['Issued', formatDate(new Date(document.issuedAt))],
+  ]
+  if (document.validUntil) rows.push(['Valid until', formatDate(new Date(document.validUntil))])
+  if (document.bookingId) rows.push(['Booking reference', document.bookingId])
+  if (document.status) rows.push(['Booking status', document.status])
+  if (document.currency !== CURRENCIES.BASE) {
+    rows.push(['Exchange rate', `1 ${CURRENCIES.BASE} = ${document.exchangeRate.toLocaleString('en-US')} ${document.currency}`])
+  }
+  return rows
+}
+
+const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+  HELD: 'Held',
+  REFUNDED: 'Refunded in full',
+  PARTIALLY_REFUNDED: 'Partially refunded',
+  FORFEITED: 'Forfeited',
+}
+
+// Label/amount pairs for the refundable deposit, listed below the totals
+function getDepositRows(document: BookingDocument): [string, string][] {
+  const { deposit } = document
+  if (!deposit) return []
+
+  const rows: [string, string][] = [
+    ['Security deposit (refundable)', money(document, deposit.amount)],
+    ['Deposit status', DEPOSIT_STATUS_LABELS[deposit.status]],
+  ]
+  for (const claim of deposit.claims) {
+    rows.push([`Damage: ${claim.description}`, money(document, claim.amount)])
+  }
+  if (deposit.deducted !== undefined) rows.push(['Deducted from deposit', `-${money(document, deposit.deducted)}`])
+  if (deposit.refunded !== undefined) rows.push(['Refunded', money(document, deposit.refunded)])
+  return rows
+}
+
+export function renderDocumentHtml(document: BookingDocument): string {
+  const title = `${TITLES[document.kind]} ${document.number}`
+  const { customer, priceBreakdown } = document
+
+  const lineItems = priceBreakdown.lineItems.map(item => `
+        <tr>
+          <td>${escapeHtml(item.label)}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${money(document, item.unitPrice)}</td>
+          <td class="num">${lineAmount(document, item)}</td>
+        </tr>`).join('')
+  const depositRows = getDepositRows(document)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 40px auto; max-width: 760px; font-size: 14px; }
+    header { display: flex; justify-content: space-between; border-bottom: 2px solid #fbbf24; padding-bottom: 16px; }
+    h1 { margin: 0; font-size: 28px; }
+    .muted { color: #6b7280; }
+    .columns { display: flex; justify-content: space-between; margin: 24px 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    .num { text-align: right; }
+    tfoot td { font-weight: bold; border-bottom: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>${TITLES[document.kind]}</h1>
+      <p class="muted">${escapeHtml(document.number)}</p>
+    </div>
+    <div class="num">
+      <strong>${escapeHtml(COMPANY.NAME)}</strong><br>
+      <span class="muted">${escapeHtml(COMPANY.ADDRESS)}<br>${escapeHtml(COMPANY.EMAIL)}<br>${escapeHtml(COMPANY.PHONE)}</span>
+    </div>
+  </header>
+
+  <div class="columns">
+    <div>
+      <strong>Billed to</strong><br>
+      ${escapeHtml(customer.name)}<br>
+      <span class="muted">${escapeHtml(customer.email)}${customer.phoneNumber ? `<br>${escapeHtml(customer.phoneNumber)}` : ''}</span>
+    </div>
+    <div class="num">
+      ${getMetaRows(document).map(([label, value]) => `<span class="muted">${escapeHtml(label)}:</span> ${escapeHtml(value)}`).join('<br>\n      ')}
+    </div>
+  </div>
+
+  <p>
+    <strong>${escapeHtml(document.item.title)}</strong><br>
+    <span class="muted">${escapeHtml(describeItem(document))}<br>
+    ${formatDate(new Date(document.startDate))} - ${formatDate(new Date(document.endDate))}</span>
+  </p>
+
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${lineItems}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="3" class="num">Subtotal</td><td class="num">${money(document, priceBreakdown.subtotal)}</td></tr>
+      <tr><td colspan="3" class="num">Total</td><td class="num">${money(document, document.total)}</td></tr>
+    </tfoot>
+  </table>${depositRows.length > 0 ? `
+
+  <table>
+    <tbody>${depositRows.map(([label, value]) => `
+      <tr><td>${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`).join('')}
+    </tbody>
+  </table>
+  <p class="muted">The deposit is not part of the total and is refunded after the return inspection, less any damage claims.</p>` : ''}
+</body>
+</html>
+`
+}
+
+const MARGIN = 50
+const RIGHT = PAGE_WIDTH - MARGIN
+const MUTED: [number, number, number] = [0.42, 0.45, 0.5]
+
+export function renderDocumentPdf(document: BookingDocument): Buffer {
+  const pdf = new PdfDocument()
+  const { customer, priceBreakdown } = document
+  let y = MARGIN + 20
+
+  // Start a new page when the next block would run past the bottom margin
+  const reserve = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage()
+      y = MARGIN + 20
+    }
+  }
+
+  pdf.text(MARGIN, y, TITLES[document.kind], { size: 24, bold: true })
+  pdf.text(RIGHT, y - 8, COMPANY.NAME, { bold: true, align: 'right' })
+  pdf.text(RIGHT, y + 6, COMPANY.ADDRESS, { size: 9, align: 'right', color: MUTED })
+  pdf.text(RIGHT, y + 18, `${COMPANY.EMAIL} | ${COMPANY.PHONE}`, { size: 9, align: 'right', color: MUTED })
+  pdf.text(MARGIN, y + 18, document.number, { color: MUTED })
+  y += 34
+  pdf.line(MARGIN, y, RIGHT, y, 1.5)
+  y += 24
+
+  pdf.text(MARGIN, y, 'Billed to', { bold: true })
+  pdf.text(MARGIN, y + 14, customer.name)
+  pdf.text(MARGIN, y + 28, customer.email, { color: MUTED })
+  if (customer.phoneNumber) pdf.text(MARGIN, y + 42, customer.phoneNumber, { color: MUTED })
+
+  getMetaRows(document).forEach(([label, value], index) => {
+    pdf.text(RIGHT, y + index * 14, `${label}: ${value}`, { size: 9, align: 'right' })
+  })
+  y += 70
+
+  pdf.text(MARGIN, y, document.item.title, { size: 12, bold: true })
+  pdf.text(MARGIN, y + 15, describeItem(document), { color: MUTED })
+  pdf.text(
+    MARGIN,
+    y + 29,
+    `${formatDate(new Date(document.startDate))} - ${formatDate(new Date(document.endDate))}`,
+    { color: MUTED }
+  )
+  y += 55
+
+  const columns = { qty: RIGHT - 200, unitPrice: RIGHT - 90, amount: RIGHT }
+  pdf.text(MARGIN, y, 'Description', { bold: true })
+  pdf.text(columns.qty, y, 'Qty', { bold: true, align: 'right' })
+  pdf.text(columns.unitPrice, y, 'Unit price', { bold: true, align: 'right' })
+  pdf.text(columns.amount, y, 'Amount', { bold: true, align: 'right' })
+  y += 8
+  pdf.line(MARGIN, y, RIGHT, y)
+  y += 16
+
+  for (const item of priceBreakdown.lineItems) {
+    reserve(24)
+    pdf.text(MARGIN, y, item.label)
+    pdf.text(columns.qty, y, String(item.quantity), { align: 'right' })
+    pdf.text(columns.unitPrice, y, money(document, item.unitPrice), { align: 'right' })
+    pdf.text(columns.amount, y, lineAmount(document, item), { align: 'right' })
+    y += 8
+    pdf.line(MARGIN, y, RIGHT, y)
+    y += 16
+  }
+
+  reserve(40)
+  pdf.text(columns.unitPrice, y, 'Subtotal', { align: 'right' })
+  pdf.text(columns.amount, y, money(document, priceBreakdown.subtotal), { align: 'right' })
+  y += 18
+  pdf.text(columns.unitPrice, y, 'Total', { bold: true, align: 'right' })
+  pdf.text(columns.amount, y, money(document, document.total), { bold: true, align: 'right' })
+  y += 30
+
+  const depositRows = getDepositRows(document)
+  if (depositRows.length > 0) {
+    reserve(depositRows.length * 16 + 30)
+    for (const [label, value] of depositRows) {
+      pdf.text(MARGIN, y, label)
+      pdf.text(columns.amount, y, value, { align: 'right' })
+      y += 16
+    }
+    pdf.text(MARGIN, y + 4, 'The deposit is not part of the total and is refunded after the return inspection, less any damage claims.', { size: 8, color: MUTED })
+  }
+
+  return pdf.toBuffer()
+}
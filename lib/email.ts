@@ -345,4 +345,106 @@ export async function sendContactEmail(data: {
     subject: `Contact Form: ${data.subject}`,
     html,
   })
-}
\ No newline at end of file
+}
+export type BookingReminderKind = 'start' | 'return' | 'review'
+
+const BOOKING_REMINDER_SUBJECTS: Record<BookingReminderKind, string> = {
+  start: 'Your booking starts tomorrow',
+  return: 'Your rental is due back today',
+  review: 'How was your booking?',
+}
+
+export async function sendBookingReminderEmail(data: {
+  email: string
+  name: string
+  kind: BookingReminderKind
+  itemTitle: string
+  startDate: string
+  endDate: string
+}) {
+  const subject = BOOKING_REMINDER_SUBJECTS[data.kind]
+  const formatDateTime = (value: string) => new Date(value).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+  const message = data.kind === 'start'
+    ? `This is a reminder that your booking for <strong>${data.itemTitle}</strong> starts on ${formatDateTime(data.startDate)}.`
+    : data.kind === 'return'
+    ? `Your booking for <strong>${data.itemTitle}</strong> ends on ${formatDateTime(data.endDate)}. Please make sure it is returned on time.`
+    : `Thank you for booking <strong>${data.itemTitle}</strong> with us. We would love to hear about your experience - just reply to this email.`
+
+  if (process.env.NODE_ENV === 'development' && process.env.SKIP_EMAIL_SENDING === 'true') {
+    logEmail('info', 'Development mode: simulating booking reminder', { email: data.email, kind: data.kind })
+    return
+  }
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: #1a1a1a; padding: 20px; text-align: center;">
+        <h1 style="color: #fbbf24; margin: 0;">${subject}</h1>
+      </div>
+      <div style="background: #f9f9f9; padding: 30px;">
+        <p>Hi ${data.name},</p>
+        <p>${message}</p>
+        <p style="color: #666; font-size: 14px;">${formatDateTime(data.startDate)} - ${formatDateTime(data.endDate)}</p>
+      </div>
+    </div>
+  `
+
+  const currentTransporter = await getTransporter()
+  await currentTransporter.sendMail({
+    from: `"${process.env.APP_NAME || 'App'}" <${process.env.EMAIL_FROM}>`,
+    to: data.email,
+    subject,
+    html,
+  })
+  logEmail('info', 'Booking reminder sent', { email: data.email, kind: data.kind })
+}
+
+export async function sendWaitlistOfferEmail(data: {
+  email: string
+  name: string
+  itemTitle: string
+  itemUrl: string
+  startDate: string
+  endDate: string
+  holdExpiresAt: string
+}) {
+  const subject = `${data.itemTitle} is available for your dates`
+  const formatDateTime = (value: string) => new Date(value).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+  if (process.env.NODE_ENV === 'development' && process.env.SKIP_EMAIL_SENDING === 'true') {
+    logEmail('info', 'Development mode: simulating waitlist offer', { email: data.email, itemTitle: data.itemTitle })
+    return
+  }
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: #1a1a1a; padding: 20px; text-align: center;">
+        <h1 style="color: #fbbf24; margin: 0;">Good news!</h1>
+      </div>
+      <div style="background: #f9f9f9; padding: 30px;">
+        <p>Hi ${data.name},</p>
+        <p><strong>${data.itemTitle}</strong> has become available for
+          ${formatDateTime(data.startDate)} - ${formatDateTime(data.endDate)}.</p>
+        <p>We are holding these dates for you until <strong>${formatDateTime(data.holdExpiresAt)}</strong>.</p>
+        <p style="text-align: center; margin: 30px 0;">
+          <a href="${data.itemUrl}" style="background: #fbbf24; color: #1a1a1a; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Book now</a>
+        </p>
+      </div>
+    </div>
+  `
+
+  const currentTransporter = await getTransporter()
+  await currentTransporter.sendMail({
+    from: `"${process.env.APP_NAME || 'App'}" <${process.env.EMAIL_FROM}>`,
+    to: data.email,
+    subject,
+    html,
+  })
+  logEmail('info', 'Waitlist offer sent', { email: data.email, itemTitle: data.itemTitle })
+}
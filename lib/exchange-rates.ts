@@ -0,0 +1,43 @@
+import { AppError } from './api-utils'
+import { CURRENCIES, CURRENCY, Currency, ERROR_MESSAGES } from './constants'
+import { DEFAULT_EXCHANGE_RATES } from './currency'
+import { Database, ExchangeRateRecord, UserRecord } from './db'
+import { ExchangeRates } from './types'
+import { logger } from './logger'
+
+// The latest recorded rate for each currency, falling back to the defaults
+export async function getExchangeRates(db: Database): Promise<ExchangeRates> {
+  const rates: ExchangeRates = { ...DEFAULT_EXCHANGE_RATES }
+  for (const currency of Object.values(CURRENCY)) {
+    if (currency === CURRENCIES.BASE) continue
+    const [latest] = await db.exchangeRates.findMany({
+      where: { currency },
+      orderBy: { field: 'createdAt', direction: 'desc' },
+      take: 1,
+    })
+    if (latest) rates[currency] = latest.rate
+  }
+  return rates
+}
+
+export async function listExchangeRateHistory(db: Database): Promise<ExchangeRateRecord[]> {
+  return db.exchangeRates.findMany({ orderBy: { field: 'createdAt', direction: 'desc' } })
+}
+
+// Rates are never edited in place: each change is a new record, so the rate
+// behind any past booking stays on file
+export async function setExchangeRate(
+  db: Database,
+  currency: Currency,
+  rate: number,
+  admin: UserRecord
+): Promise<ExchangeRateRecord> {
+  if (currency === CURRENCIES.BASE) {
+    throw new AppError(ERROR_MESSAGES.BASE_CURRENCY_RATE, 400)
+  }
+
+  const record = await db.exchangeRates.create({ currency, rate, createdById: admin.id })
+
+  logger.logBusinessEvent('Exchange rate updated', { currency, rate }, admin.id)
+  return record
+}
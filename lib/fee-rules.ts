@@ -0,0 +1,51 @@
+import { AppError } from './api-utils'
+import { CategoryType, ERROR_MESSAGES, FeeCalculation, FeeRuleKind } from './constants'
+import { Database, FeeRuleRecord, UserRecord } from './db'
+import { logger } from './logger'
+
+export interface FeeRuleInput {
+  name: string
+  kind: FeeRuleKind
+  categoryType: CategoryType
+  calculation: FeeCalculation
+  amount: number
+  inclusive: boolean
+  active: boolean
+}
+
+export async function listFeeRules(db: Database): Promise<FeeRuleRecord[]> {
+  return db.feeRules.findMany({ orderBy: { field: 'createdAt', direction: 'desc' } })
+}
+
+export async function createFeeRule(db: Database, input: FeeRuleInput, admin: UserRecord): Promise<FeeRuleRecord> {
+  const rule = await db.feeRules.create(input)
+
+  logger.logBusinessEvent('Fee rule created', { feeRuleId: rule.id, kind: rule.kind, categoryType: rule.categoryType }, admin.id)
+  return rule
+}
+
+export async function updateFeeRule(db: Database, id: string, input: FeeRuleInput, admin: UserRecord): Promise<FeeRuleRecord> {
+  if (!await db.feeRules.findById(id)) {
+    throw new AppError(ERROR_MESSAGES.FEE_RULE_NOT_FOUND, 404)
+  }
+  const rule = await db.feeRules.update(id, input)
+
+  logger.logBusinessEvent('Fee rule updated', { feeRuleId: id, kind: rule.kind, amount: rule.amount, active: rule.active }, admin.id)
+  return rule
+}
+
+// Bookings keep their stored breakdown, so removing a tax never reprices them
+export async function deleteFeeRule(db: Database, id: string, admin: UserRecord): Promise<FeeRuleRecord> {
+  if (!await db.feeRules.findById(id)) {
+    throw new AppError(ERROR_MESSAGES.FEE_RULE_NOT_FOUND, 404)
+  }
+  const rule = await db.feeRules.delete(id)
+
+  logger.logBusinessEvent('Fee rule deleted', { feeRuleId: id, kind: rule.kind }, admin.id)
+  return rule
+}
+
+// The taxes and fees bookings are charged today, optionally for one category type
+export async function getActiveFeeRules(db: Database, categoryType?: CategoryType): Promise<FeeRuleRecord[]> {
+  return db.feeRules.findMany({ where: { active: true, categoryType }, orderBy: { field: 'createdAt', direction: 'asc' } })
+}
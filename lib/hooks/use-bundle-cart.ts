@@ -0,0 +1,63 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { BUNDLE, Currency } from '@/lib/constants'
+import type { BundlePricingItem } from '@/lib/pricing'
+
+// Equipment picked for a bundle booking, kept in localStorage so the cart
+// survives navigating between the listing and the checkout page
+export interface BundleCartItem extends BundlePricingItem {
+  id: string
+  image?: string
+  depositAmount?: number
+  // Currency the price is listed in; prices are converted when the bundle is priced
+  currency?: Currency
+}
+
+const STORAGE_KEY = 'equipment-bundle-cart'
+
+function readCart(): BundleCartItem[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+export function useBundleCart() {
+  const [items, setItems] = useState<BundleCartItem[]>([])
+
+  useEffect(() => {
+    setItems(readCart())
+
+    // Keep tabs in sync
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setItems(readCart())
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  const save = useCallback((next: BundleCartItem[]) => {
+    setItems(next)
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }, [])
+
+  const addItem = useCallback((item: BundleCartItem) => {
+    const current = readCart()
+    if (current.some(existing => existing.id === item.id) || current.length >= BUNDLE.MAX_ITEMS) return false
+    save([...current, item])
+    return true
+  }, [save])
+
+  const removeItem = useCallback((id: string) => {
+    save(readCart().filter(item => item.id !== id))
+  }, [save])
+
+  const clear = useCallback(() => save([]), [save])
+
+  const hasItem = useCallback((id: string) => items.some(item => item.id === id), [items])
+
+  return { items, addItem, removeItem, clear, hasItem }
+}
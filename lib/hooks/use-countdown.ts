@@ -0,0 +1,18 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+// Seconds left before an action (like resending a code) is allowed again
+export function useCountdown(initialSeconds = 0) {
+  const [secondsLeft, setSecondsLeft] = useState(initialSeconds)
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return
+    const timer = setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [secondsLeft])
+
+  const restart = useCallback((seconds: number) => setSecondsLeft(Math.max(0, Math.ceil(seconds))), [])
+
+  return { secondsLeft, restart }
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { CURRENCIES, CURRENCY, Currency } from '@/lib/constants'
+import { DEFAULT_EXCHANGE_RATES, formatConverted, toBaseAmount } from '@/lib/currency'
+import type { ApiResponse, ExchangeRates } from '@/lib/types'
+
+// The currency a customer browses in, kept in localStorage. Prices are shown
+// converted from US dollars at the current admin-maintained rate.
+const STORAGE_KEY = 'display-currency'
+// Fired on this tab when the currency changes; `storage` only reaches other tabs
+const CHANGE_EVENT = 'display-currency-change'
+
+function readCurrency(): Currency {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored && stored in CURRENCY ? stored as Currency : CURRENCIES.BASE
+  } catch {
+    return CURRENCIES.BASE
+  }
+}
+
+export function useCurrency() {
+  const [currency, setCurrencyState] = useState<Currency>(CURRENCIES.BASE)
+  const [rates, setRates] = useState<ExchangeRates>(DEFAULT_EXCHANGE_RATES)
+
+  useEffect(() => {
+    setCurrencyState(readCurrency())
+
+    fetch('/api/exchange-rates')
+      .then(response => response.json() as Promise<ApiResponse<ExchangeRates>>)
+      .then(result => result.data && setRates(result.data))
+      .catch(() => undefined)
+
+    const handleChange = () => setCurrencyState(readCurrency())
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) handleChange()
+    }
+    window.addEventListener(CHANGE_EVENT, handleChange)
+    window.addEventListener('storage', handleStorage)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, handleChange)
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [])
+
+  const setCurrency = useCallback((next: Currency) => {
+    window.localStorage.setItem(STORAGE_KEY, next)
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+  }, [])
+
+  // A base-currency amount in the selected currency
+  const format = useCallback(
+    (amount: number, priceType?: string) => formatConverted(amount, currency, rates[currency], priceType),
+    [currency, rates]
+  )
+
+  // A listing's own price, whatever currency it is set in
+  const formatListingPrice = useCallback(
+    (item: { price: number; currency?: Currency; priceType?: string }) =>
+      format(toBaseAmount(item.price, item.currency, rates), item.priceType),
+    [format, rates]
+  )
+
+  return { currency, setCurrency, rates, format, formatListingPrice }
+}
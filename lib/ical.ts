@@ -0,0 +1,96 @@
+import { COMPANY } from './constants'
+import { Booking } from './types'
+import { getBookingTitle } from './utils'
+
+// iCalendar (RFC 5545) output for bookings
+
+const CRLF = '\r\n'
+const UID_DOMAIN = COMPANY.EMAIL.split('@')[1]
+
+const EVENT_STATUS: Record<Booking['status'], string> = {
+  PENDING: 'TENTATIVE',
+  CONFIRMED: 'CONFIRMED',
+  COMPLETED: 'CONFIRMED',
+  CANCELLED: 'CANCELLED',
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8')
+  if (bytes.length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8')
+    const limit = parts.length === 0 ? 75 : 74 // continuation lines start with a space
+    if (currentBytes + size > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += size
+  }
+  parts.push(current)
+
+  return parts.join(`${CRLF} `)
+}
+
+export interface CalendarOptions {
+  name: string
+  // Include the customer on each event, for staff calendars
+  includeCustomer?: boolean
+}
+
+function renderEvent(booking: Booking, options: CalendarOptions): string[] {
+  const title = getBookingTitle(booking)
+
+  const description = [
+    `Booking ${booking.id} (${booking.status})`,
+    options.includeCustomer && booking.user && `Customer: ${booking.user.name} <${booking.user.email}>`,
+    options.includeCustomer && booking.phoneNumber && `Phone: ${booking.phoneNumber}`,
+    booking.notes && `Notes: ${booking.notes}`,
+  ].filter(Boolean).join('\n')
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(booking.updatedAt || booking.createdAt)}`,
+    `DTSTART:${formatDateTime(booking.startDate)}`,
+    `DTEND:${formatDateTime(booking.endDate)}`,
+    `SUMMARY:${escapeText(title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${EVENT_STATUS[booking.status]}`,
+    `LOCATION:${escapeText(COMPANY.ADDRESS)}`,
+    'END:VEVENT',
+  ]
+}
+
+export function renderCalendar(bookings: Booking[], options: CalendarOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${COMPANY.NAME}//Bookings//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...bookings.flatMap(booking => renderEvent(booking, options)),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldLine).join(CRLF) + CRLF
+}
@@ -0,0 +1,116 @@
+import { BOOKING_STATUS, JOBS, JOB_STATUS, JOB_TYPE, JobType } from '../constants'
+import { BookingRecord, Database, JobRecord } from '../db'
+import { BookingReminderKind, sendBookingReminderEmail } from '../email'
+import { logger } from '../logger'
+import { registerJobHandler, scheduleJob } from './index'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const REMINDER_KINDS: Partial<Record<JobType, BookingReminderKind>> = {
+  [JOB_TYPE.BOOKING_START_REMINDER]: 'start',
+  [JOB_TYPE.BOOKING_RETURN_REMINDER]: 'return',
+  [JOB_TYPE.BOOKING_REVIEW_REQUEST]: 'review',
+}
+
+// The booking status each reminder is meant for; stale jobs are skipped
+const REMINDER_STATUS: Partial<Record<JobType, BookingRecord['status']>> = {
+  [JOB_TYPE.BOOKING_START_REMINDER]: BOOKING_STATUS.CONFIRMED,
+  [JOB_TYPE.BOOKING_RETURN_REMINDER]: BOOKING_STATUS.CONFIRMED,
+  [JOB_TYPE.BOOKING_REVIEW_REQUEST]: BOOKING_STATUS.COMPLETED,
+}
+
+function completedAt(booking: BookingRecord): Date {
+  const change = [...(booking.statusHistory || [])].reverse().find(entry => entry.to === BOOKING_STATUS.COMPLETED)
+  return new Date(change?.timestamp || booking.updatedAt)
+}
+
+// Reminders a booking should have in its current state. Reminders whose time
+// has already passed are dropped, except the start reminder which is sent
+// straight away when a booking is confirmed less than a day ahead.
+function getDesiredReminders(booking: BookingRecord, now: Date): Partial<Record<JobType, Date>> {
+  const start = new Date(booking.startDate)
+  const end = new Date(booking.endDate)
+
+  if (booking.status === BOOKING_STATUS.CONFIRMED) {
+    const reminders: Partial<Record<JobType, Date>> = {}
+    if (start > now) {
+      const startReminder = new Date(start.getTime() - JOBS.START_REMINDER_HOURS * HOUR_MS)
+      reminders[JOB_TYPE.BOOKING_START_REMINDER] = startReminder > now ? startReminder : now
+    }
+    if (end > now) {
+      reminders[JOB_TYPE.BOOKING_RETURN_REMINDER] = end
+    }
+    return reminders
+  }
+
+  if (booking.status === BOOKING_STATUS.COMPLETED) {
+    return {
+      [JOB_TYPE.BOOKING_REVIEW_REQUEST]: new Date(completedAt(booking).getTime() + JOBS.REVIEW_REQUEST_DELAY_HOURS * HOUR_MS),
+    }
+  }
+
+  return {}
+}
+
+// Bring a booking's pending reminder jobs in line with its status and dates:
+// obsolete jobs are cancelled, moved dates reschedule, missing jobs are queued.
+export async function syncBookingReminders(
+  db: Database,
+  booking: BookingRecord,
+  now: Date = new Date()
+): Promise<void> {
+  const desired = getDesiredReminders(booking, now)
+  const pending = await db.jobs.findMany({ where: { bookingId: booking.id, status: JOB_STATUS.PENDING } })
+
+  for (const job of pending) {
+    const runAt = desired[job.type]
+    if (!runAt) {
+      await db.jobs.update(job.id, { status: JOB_STATUS.CANCELLED })
+    } else if (new Date(job.runAt).getTime() !== runAt.getTime()) {
+      await db.jobs.update(job.id, { runAt: runAt.toISOString() })
+    }
+    delete desired[job.type]
+  }
+
+  // Reminders that already went out are not sent again
+  const sent = await db.jobs.findMany({ where: { bookingId: booking.id, status: JOB_STATUS.COMPLETED } })
+  for (const job of sent) {
+    delete desired[job.type]
+  }
+
+  for (const [type, runAt] of Object.entries(desired) as [JobType, Date][]) {
+    await scheduleJob(db, { type, runAt: runAt.toISOString(), bookingId: booking.id, payload: {} })
+  }
+}
+
+async function sendReminder(job: JobRecord, db: Database): Promise<void> {
+  const booking = job.bookingId ? await db.bookings.findById(job.bookingId) : null
+  if (!booking || booking.status !== REMINDER_STATUS[job.type]) {
+    logger.info('Skipping reminder for booking no longer in the expected state', { jobId: job.id, bookingId: job.bookingId })
+    return
+  }
+
+  const [user, item] = await Promise.all([
+    db.users.findById(booking.userId),
+    booking.equipmentId
+      ? db.equipment.findById(booking.equipmentId)
+      : booking.brokerageId
+      ? db.brokerage.findById(booking.brokerageId)
+      : null,
+  ])
+  if (!user) return
+
+  await sendBookingReminderEmail({
+    email: user.email,
+    name: user.name,
+    kind: REMINDER_KINDS[job.type]!,
+    itemTitle: item?.title || 'your booking',
+    startDate: booking.startDate,
+    endDate: booking.endDate,
+  })
+  logger.logBusinessEvent('Booking reminder sent', { bookingId: booking.id, type: job.type }, user.id)
+}
+
+registerJobHandler(JOB_TYPE.BOOKING_START_REMINDER, sendReminder)
+registerJobHandler(JOB_TYPE.BOOKING_RETURN_REMINDER, sendReminder)
+registerJobHandler(JOB_TYPE.BOOKING_REVIEW_REQUEST, sendReminder)
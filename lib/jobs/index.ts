@@ -0,0 +1,114 @@
+import { JOBS, JOB_STATUS, JobType } from '../constants'
+import { CreateInput, Database, JobRecord, getDatabase } from '../db'
+import { logger } from '../logger'
+
+// In-process job runner backed by the jobs table. Jobs survive restarts when
+// the database is persistent; anything left RUNNING by a crash is retried.
+
+export type JobHandler = (job: JobRecord, db: Database) => Promise<void>
+
+const handlers: Partial<Record<JobType, JobHandler>> = {}
+
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers[type] = handler
+}
+
+export type ScheduleJobInput = Pick<CreateInput<JobRecord>, 'type' | 'runAt' | 'payload' | 'bookingId'>
+
+export async function scheduleJob(db: Database, input: ScheduleJobInput): Promise<JobRecord> {
+  const job = await db.jobs.create({
+    ...input,
+    status: JOB_STATUS.PENDING,
+    attempts: 0,
+  })
+
+  logger.debug('Job scheduled', { jobId: job.id, type: job.type, runAt: job.runAt })
+  return job
+}
+
+async function runJob(db: Database, job: JobRecord): Promise<void> {
+  const handler = handlers[job.type]
+  // Claim the job first so a slow handler is never run twice
+  const claimed = await db.transaction(async (tx) => {
+    const current = await tx.jobs.findById(job.id)
+    if (current?.status !== JOB_STATUS.PENDING) return null
+    return tx.jobs.update(job.id, { status: JOB_STATUS.RUNNING, attempts: current.attempts + 1 })
+  })
+  if (!claimed) return
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`)
+    }
+    await handler(claimed, db)
+    await db.jobs.update(job.id, { status: JOB_STATUS.COMPLETED, completedAt: new Date().toISOString() })
+  } catch (error) {
+    const failed = claimed.attempts >= JOBS.MAX_ATTEMPTS
+    await db.jobs.update(job.id, {
+      status: failed ? JOB_STATUS.FAILED : JOB_STATUS.PENDING,
+      runAt: new Date(Date.now() + JOBS.RETRY_DELAY_MS * claimed.attempts).toISOString(),
+      lastError: error instanceof Error ? error.message : String(error),
+    })
+    logger.error('Job failed', error as Error, { jobId: job.id, type: job.type, attempts: claimed.attempts, failed })
+  }
+}
+
+// Run every pending job that is due, oldest first
+export async function runDueJobs(db: Database, now: Date = new Date()): Promise<number> {
+  const pending = await db.jobs.findMany({
+    where: { status: JOB_STATUS.PENDING },
+    orderBy: { field: 'runAt', direction: 'asc' },
+  })
+  const due = pending.filter(job => new Date(job.runAt) <= now)
+
+  for (const job of due) {
+    await runJob(db, job)
+  }
+  return due.length
+}
+
+// Jobs interrupted mid-run are put back in the queue
+async function recoverInterruptedJobs(db: Database): Promise<void> {
+  const interrupted = await db.jobs.findMany({ where: { status: JOB_STATUS.RUNNING } })
+  for (const job of interrupted) {
+    await db.jobs.update(job.id, { status: JOB_STATUS.PENDING })
+  }
+  if (interrupted.length > 0) {
+    logger.warn('Recovered interrupted jobs', { count: interrupted.length })
+  }
+}
+
+// Keep a single scheduler per process, including across dev hot reloads
+const globalForScheduler = globalThis as unknown as { jobScheduler?: NodeJS.Timeout }
+
+export async function startScheduler(): Promise<void> {
+  if (globalForScheduler.jobScheduler) return
+
+  const db = await getDatabase()
+  await recoverInterruptedJobs(db)
+
+  let running = false
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      await runDueJobs(await getDatabase())
+    } catch (error) {
+      logger.error('Job scheduler tick failed', error as Error)
+    } finally {
+      running = false
+    }
+  }
+
+  globalForScheduler.jobScheduler = setInterval(tick, JOBS.POLL_INTERVAL_MS)
+  globalForScheduler.jobScheduler.unref?.()
+  logger.info('Job scheduler started', { pollIntervalMs: JOBS.POLL_INTERVAL_MS })
+  void tick()
+}
+
+export function stopScheduler(): void {
+  if (globalForScheduler.jobScheduler) {
+    clearInterval(globalForScheduler.jobScheduler)
+    globalForScheduler.jobScheduler = undefined
+  }
+}
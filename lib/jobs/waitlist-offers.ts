@@ -0,0 +1,55 @@
+import { JOB_TYPE, WAITLIST_STATUS } from '../constants'
+import { Database, JobRecord } from '../db'
+import { sendWaitlistOfferEmail } from '../email'
+import { processWaitlist } from '../waitlist'
+import { registerJobHandler } from './index'
+
+async function findEntry(job: JobRecord, db: Database) {
+  return db.waitlist.findById(job.payload.waitlistEntryId)
+}
+
+async function notifyOffer(job: JobRecord, db: Database): Promise<void> {
+  const entry = await findEntry(job, db)
+  if (!entry || entry.status !== WAITLIST_STATUS.OFFERED) return
+
+  const [user, item] = await Promise.all([
+    db.users.findById(entry.userId),
+    entry.equipmentId ? db.equipment.findById(entry.equipmentId) : db.brokerage.findById(entry.brokerageId!),
+  ])
+  if (!user || !item) return
+
+  const path = entry.equipmentId ? `/equipment/${item.id}` : `/brokerage/${item.id}`
+  await sendWaitlistOfferEmail({
+    email: user.email,
+    name: user.name,
+    itemTitle: item.title,
+    itemUrl: new URL(path, process.env.APP_URL || 'http://localhost:3000').toString(),
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    holdExpiresAt: entry.holdExpiresAt!,
+  })
+}
+
+// An unused hold passes the dates on to the next customer in line
+async function expireHold(job: JobRecord, db: Database): Promise<void> {
+  const entry = await findEntry(job, db)
+  if (!entry || entry.status !== WAITLIST_STATUS.OFFERED) return
+
+  await processWaitlist(db, { equipmentId: entry.equipmentId, brokerageId: entry.brokerageId })
+}
+
+// A checkout hold may have kept a waiting customer from an offer, so once it
+// runs out its dates are offered again. Holds released or replaced earlier
+// are caught here too; dates that were booked simply stay taken.
+async function expireCheckoutHold(job: JobRecord, db: Database): Promise<void> {
+  const hold = await db.bookingHolds.findById(job.payload.holdId)
+  if (hold) {
+    await db.bookingHolds.delete(hold.id)
+  }
+
+  await processWaitlist(db, { equipmentId: job.payload.equipmentId, brokerageId: job.payload.brokerageId })
+}
+
+registerJobHandler(JOB_TYPE.WAITLIST_OFFER_NOTIFICATION, notifyOffer)
+registerJobHandler(JOB_TYPE.WAITLIST_HOLD_EXPIRY, expireHold)
+registerJobHandler(JOB_TYPE.CHECKOUT_HOLD_EXPIRY, expireCheckoutHold)
@@ -0,0 +1,106 @@
+import { AppError } from './api-utils'
+import { ERROR_MESSAGES, LEDGER_ENTRY_KIND, LedgerEntryKind, PAYMENTS } from './constants'
+import { BookingRecord, Database, LedgerEntryRecord, UserRecord } from './db'
+import { roundCurrency } from './pricing'
+import { BookingBalance, BookingLedger } from './types'
+import { logger } from './logger'
+
+export interface LedgerEntryInput {
+  kind: LedgerEntryKind
+  amount: number
+  description: string
+  paymentId?: string
+}
+
+// Minimum share of the total paid before confirmation, overridable with
+// BOOKING_MIN_PAID_PERCENTAGE (0 turns the requirement off)
+export function getMinPaidPercentage(): number {
+  const configured = process.env.BOOKING_MIN_PAID_PERCENTAGE
+  const percentage = configured === undefined || configured === '' ? NaN : Number(configured)
+  if (!Number.isFinite(percentage) || percentage < 0) {
+    return PAYMENTS.DEFAULT_MIN_PAID_PERCENTAGE
+  }
+  return Math.min(percentage, 100)
+}
+
+// The booking total is the opening charge; entries are applied on top of it
+export function summarizeLedger(booking: Pick<BookingRecord, 'totalPrice'>, entries: LedgerEntryRecord[]): BookingBalance {
+  let charged = booking.totalPrice
+  let paid = 0
+  let refunded = 0
+
+  for (const entry of entries) {
+    if (entry.kind === LEDGER_ENTRY_KIND.PAYMENT) paid += entry.amount
+    else if (entry.kind === LEDGER_ENTRY_KIND.REFUND) refunded += entry.amount
+    else charged += entry.amount
+  }
+
+  return {
+    charged: roundCurrency(charged),
+    paid: roundCurrency(paid),
+    refunded: roundCurrency(refunded),
+    balance: roundCurrency(charged - paid + refunded),
+  }
+}
+
+export function getMinimumPayment(balance: BookingBalance): number {
+  return roundCurrency(balance.charged * getMinPaidPercentage() / 100)
+}
+
+async function listEntries(db: Database, bookingId: string): Promise<LedgerEntryRecord[]> {
+  return db.ledgerEntries.findMany({
+    where: { bookingId },
+    orderBy: { field: 'createdAt', direction: 'asc' },
+  })
+}
+
+export async function getBookingBalance(db: Database, booking: BookingRecord): Promise<BookingBalance> {
+  return summarizeLedger(booking, await listEntries(db, booking.id))
+}
+
+// Entries oldest first with the balance after each one, starting from the
+// booking total
+export async function getBookingLedger(db: Database, booking: BookingRecord): Promise<BookingLedger> {
+  const entries = await listEntries(db, booking.id)
+  const summary = summarizeLedger(booking, entries)
+
+  let runningBalance = booking.totalPrice
+  return {
+    entries: entries.map(entry => {
+      runningBalance = roundCurrency(runningBalance + (
+        entry.kind === LEDGER_ENTRY_KIND.PAYMENT ? -entry.amount : entry.amount
+      ))
+      return { ...entry, runningBalance }
+    }),
+    summary,
+    minimumPayment: getMinimumPayment(summary),
+  }
+}
+
+export async function postLedgerEntry(
+  db: Database,
+  booking: BookingRecord,
+  input: LedgerEntryInput,
+  actor?: UserRecord
+): Promise<LedgerEntryRecord> {
+  return db.transaction(async (tx) => {
+    if (input.kind === LEDGER_ENTRY_KIND.REFUND) {
+      const balance = await getBookingBalance(tx, booking)
+      if (balance.refunded + input.amount > balance.paid) {
+        throw new AppError(ERROR_MESSAGES.REFUND_EXCEEDS_PAID, 400)
+      }
+    }
+
+    const entry = await tx.ledgerEntries.create({
+      bookingId: booking.id,
+      kind: input.kind,
+      amount: roundCurrency(input.amount),
+      description: input.description,
+      paymentId: input.paymentId,
+      createdById: actor?.id,
+    })
+
+    logger.logBusinessEvent('Ledger entry posted', { bookingId: booking.id, kind: input.kind, amount: entry.amount, paymentId: input.paymentId }, actor?.id)
+    return entry
+  })
+}
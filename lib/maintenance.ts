@@ -0,0 +1,159 @@
+import { AppError } from './api-utils'
+import { BookingConflictError, findConflictingBookings } from './availability'
+import { BOOKING_STATUS, ERROR_MESSAGES, MaintenanceType } from './constants'
+import { Database, EquipmentRecord, MaintenanceRecord, UserRecord } from './db'
+import { MaintenanceStatus } from './types'
+import { processWaitlist } from './waitlist'
+import { logger } from './logger'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface MaintenanceInput {
+  serviceType: MaintenanceType
+  startDate: string
+  endDate: string
+  cost: number
+  notes?: string
+  nextDueDays?: number
+  nextDueHours?: number
+}
+
+async function findEquipment(db: Database, equipmentId: string): Promise<EquipmentRecord> {
+  const equipment = await db.equipment.findById(equipmentId)
+  if (!equipment) {
+    throw new AppError(ERROR_MESSAGES.EQUIPMENT_NOT_FOUND, 404)
+  }
+  return equipment
+}
+
+// Maintenance is only scheduled around existing bookings, never over them
+export async function scheduleMaintenance(
+  db: Database,
+  equipmentId: string,
+  input: MaintenanceInput,
+  admin: UserRecord
+): Promise<MaintenanceRecord> {
+  return db.transaction(async (tx) => {
+    await findEquipment(tx, equipmentId)
+
+    const target = { equipmentId }
+    const conflicts = await findConflictingBookings(tx, target, input)
+    if (conflicts.length > 0) {
+      throw new BookingConflictError(target, conflicts.map(booking => ({
+        bookingId: booking.id,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        status: booking.status,
+      })))
+    }
+
+    const record = await tx.maintenance.create({
+      equipmentId,
+      ...input,
+      ...(input.nextDueDays && {
+        nextDueDate: new Date(new Date(input.endDate).getTime() + input.nextDueDays * DAY_MS).toISOString(),
+      }),
+      createdById: admin.id,
+    })
+
+    logger.logBusinessEvent('Maintenance scheduled', { maintenanceId: record.id, equipmentId, serviceType: input.serviceType }, admin.id)
+    return record
+  })
+}
+
+// Cancelling planned maintenance frees its dates for the waitlist
+export async function removeMaintenance(
+  db: Database,
+  equipmentId: string,
+  id: string,
+  admin: UserRecord,
+  now: Date = new Date()
+): Promise<MaintenanceRecord> {
+  const removed = await db.transaction(async (tx) => {
+    const record = await tx.maintenance.findById(id)
+    if (!record || record.equipmentId !== equipmentId) {
+      throw new AppError(ERROR_MESSAGES.MAINTENANCE_NOT_FOUND, 404)
+    }
+    if (new Date(record.startDate) <= now) {
+      throw new AppError(ERROR_MESSAGES.MAINTENANCE_ALREADY_STARTED, 400)
+    }
+
+    return tx.maintenance.delete(id)
+  })
+
+  // Offered only once the removal has committed
+  await processWaitlist(db, { equipmentId })
+
+  logger.logBusinessEvent('Maintenance removed', { maintenanceId: id, equipmentId }, admin.id)
+  return removed
+}
+
+export async function listMaintenance(db: Database, equipmentId: string): Promise<MaintenanceRecord[]> {
+  await findEquipment(db, equipmentId)
+  return db.maintenance.findMany({
+    where: { equipmentId },
+    orderBy: { field: 'startDate', direction: 'desc' },
+  })
+}
+
+// Hours the item has been out on confirmed or completed bookings since the
+// given date, up to now
+async function getHoursUsed(db: Database, equipmentId: string, since: Date, now: Date): Promise<number> {
+  if (since >= now) return 0
+
+  const bookings = await findConflictingBookings(db, { equipmentId }, { startDate: since, endDate: now })
+  const usedMs = bookings
+    .filter(booking => booking.status === BOOKING_STATUS.CONFIRMED || booking.status === BOOKING_STATUS.COMPLETED)
+    .reduce((sum, booking) => {
+      const start = Math.max(new Date(booking.startDate).getTime(), since.getTime())
+      const end = Math.min(new Date(booking.endDate).getTime(), now.getTime())
+      return sum + Math.max(0, end - start)
+    }, 0)
+
+  return Math.round(usedMs / HOUR_MS)
+}
+
+// Due state of an item, measured from its most recent finished service.
+// Items that were never serviced have no schedule and are never overdue.
+export async function getMaintenanceStatus(
+  db: Database,
+  equipment: EquipmentRecord,
+  now: Date = new Date()
+): Promise<MaintenanceStatus> {
+  const records = await db.maintenance.findMany({
+    where: { equipmentId: equipment.id },
+    orderBy: { field: 'endDate', direction: 'desc' },
+  })
+  const last = records.find(record => new Date(record.endDate) <= now)
+  const upcoming = records
+    .filter(record => new Date(record.endDate) > now)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))[0]
+
+  const hoursUsed = last ? await getHoursUsed(db, equipment.id, new Date(last.endDate), now) : 0
+  const overdue = !!last && (
+    (!!last.nextDueDate && new Date(last.nextDueDate) <= now) ||
+    (!!last.nextDueHours && hoursUsed >= last.nextDueHours)
+  )
+
+  return {
+    equipmentId: equipment.id,
+    title: equipment.title,
+    lastServiceDate: last?.endDate,
+    nextDueDate: last?.nextDueDate,
+    hoursUsed,
+    nextDueHours: last?.nextDueHours,
+    overdue,
+    upcoming,
+  }
+}
+
+export async function listMaintenanceStatuses(
+  db: Database,
+  filters: { overdue?: boolean } = {},
+  now: Date = new Date()
+): Promise<MaintenanceStatus[]> {
+  const equipment = await db.equipment.findMany({ orderBy: { field: 'title', direction: 'asc' } })
+  const statuses = await Promise.all(equipment.map(item => getMaintenanceStatus(db, item, now)))
+  return filters.overdue === undefined ? statuses : statuses.filter(status => status.overdue === filters.overdue)
+}
@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto'
+import { AppError } from '../api-utils'
+import { ERROR_MESSAGES, PAYMENT_PROVIDER, PAYMENT_STATUS } from '../constants'
+import { assertValidWebhookSignature } from './signature'
+import { PaymentIntent, PaymentIntentRequest, PaymentProvider, PaymentUpdate, RefundResult, WebhookPayload } from './types'
+
+interface FakeTransaction {
+  amount: number
+  currency: string
+  refunded: number
+  phoneNumber: string
+}
+
+// Numbers ending in this suffix are declined, to exercise the failure path
+export const FAKE_DECLINED_SUFFIX = '0000'
+
+// Local stand-in for development and tests. Nothing leaves the process:
+// intents stay pending until confirmed, then succeed unless the phone number
+// is a declined one. Callbacks use the same signing scheme as real providers.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = PAYMENT_PROVIDER.FAKE
+  private transactions = new Map<string, FakeTransaction>()
+
+  constructor(private webhookSecret: string) {}
+
+  async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+    const reference = `fake_${randomBytes(8).toString('hex')}`
+    this.transactions.set(reference, { amount: request.amount, currency: request.currency, refunded: 0, phoneNumber: request.phoneNumber })
+    return { reference, status: PAYMENT_STATUS.PENDING }
+  }
+
+  async confirm(reference: string): Promise<PaymentUpdate> {
+    const transaction = this.transactions.get(reference)
+    if (!transaction) {
+      return { reference, status: PAYMENT_STATUS.FAILED, failureReason: 'Unknown transaction' }
+    }
+    if (transaction.phoneNumber.endsWith(FAKE_DECLINED_SUFFIX)) {
+      return { reference, status: PAYMENT_STATUS.FAILED, failureReason: 'Declined by the subscriber' }
+    }
+    return { reference, status: PAYMENT_STATUS.SUCCEEDED, amount: transaction.amount, currency: transaction.currency }
+  }
+
+  async refund(reference: string, amount: number): Promise<RefundResult> {
+    const transaction = this.transactions.get(reference)
+    if (!transaction || transaction.refunded + amount > transaction.amount) {
+      throw new AppError(ERROR_MESSAGES.PAYMENT_PROVIDER_ERROR, 502)
+    }
+    transaction.refunded += amount
+    return { reference: `${reference}_refund_${randomBytes(4).toString('hex')}`, amount }
+  }
+
+  verifyWebhook(payload: WebhookPayload, now?: Date): PaymentUpdate {
+    assertValidWebhookSignature(payload, this.webhookSecret, now)
+    return {
+      reference: String(payload.data.reference),
+      status: payload.data.status === PAYMENT_STATUS.SUCCEEDED || payload.data.status === PAYMENT_STATUS.FAILED
+        ? payload.data.status
+        : PAYMENT_STATUS.PENDING,
+      failureReason: payload.data.reason,
+      amount: payload.data.amount === undefined ? undefined : Number(payload.data.amount),
+      currency: payload.data.currency,
+    }
+  }
+}
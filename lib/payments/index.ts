@@ -0,0 +1,344 @@
+import { AppError } from '../api-utils'
+import { ERROR_MESSAGES, LEDGER_ENTRY_KIND, PAYMENTS, PAYMENT_PROVIDER, PAYMENT_STATUS, PaymentProviderName, USER_ROLE } from '../constants'
+import { BookingRecord, Database, PaymentRecord, UserRecord } from '../db'
+import { findBookingForUser } from '../bookings'
+import { getBookingBalance, postLedgerEntry } from '../ledger'
+import { pricesMatch, roundCurrency } from '../pricing'
+import { logger } from '../logger'
+import { FakePaymentProvider } from './fake'
+import { readMobileMoneyConfig } from './mobile-money'
+import { OrangeMoneyProvider } from './orange-money'
+import { MtnMomoProvider, readMtnMomoConfig } from './mtn-momo'
+import { PaymentProvider, PaymentUpdate, RefundResult, WebhookPayload } from './types'
+
+export type { PaymentProvider, PaymentUpdate, WebhookPayload } from './types'
+export { signWebhook } from './signature'
+
+export interface PaymentInput {
+  provider: PaymentProviderName
+  phoneNumber: string
+  amount?: number
+}
+
+let providers: Partial<Record<PaymentProviderName, PaymentProvider>> | null = null
+
+// Mobile-money adapters are enabled by their environment settings. The fake
+// provider needs FAKE_PAYMENTS_ENABLED=true and its own webhook secret, and is
+// never offered in production.
+function loadProviders(): Partial<Record<PaymentProviderName, PaymentProvider>> {
+  const loaded: Partial<Record<PaymentProviderName, PaymentProvider>> = {}
+
+  const orangeMoney = readMobileMoneyConfig('ORANGE_MONEY')
+  if (orangeMoney) loaded.ORANGE_MONEY = new OrangeMoneyProvider(orangeMoney)
+
+  const mtnMomo = readMtnMomoConfig()
+  if (mtnMomo) loaded.MTN_MOMO = new MtnMomoProvider(mtnMomo)
+
+  if (process.env.FAKE_PAYMENTS_ENABLED === 'true' && process.env.NODE_ENV !== 'production') {
+    const secret = process.env.FAKE_PAYMENT_WEBHOOK_SECRET
+    if (!secret) {
+      throw new Error('FAKE_PAYMENT_WEBHOOK_SECRET must be set when FAKE_PAYMENTS_ENABLED=true')
+    }
+    loaded.FAKE = new FakePaymentProvider(secret)
+  }
+  return loaded
+}
+
+export function listPaymentProviders(): PaymentProviderName[] {
+  providers ??= loadProviders()
+  return Object.keys(providers) as PaymentProviderName[]
+}
+
+export function getPaymentProvider(name: PaymentProviderName): PaymentProvider {
+  providers ??= loadProviders()
+  const provider = providers[name]
+  if (!provider) {
+    throw new AppError(ERROR_MESSAGES.PAYMENT_PROVIDER_UNAVAILABLE, 400)
+  }
+  return provider
+}
+
+// Swap the providers, e.g. to inject a fake with a known secret in tests
+export function setPaymentProviders(next: Partial<Record<PaymentProviderName, PaymentProvider>> | null): void {
+  providers = next
+}
+
+// Callback URLs use a lowercase slug, e.g. /api/payments/webhooks/orange-money
+export function getProviderSlug(name: PaymentProviderName): string {
+  return name.toLowerCase().replace(/_/g, '-')
+}
+
+export function getProviderBySlug(slug: string): PaymentProviderName | null {
+  const name = slug.toUpperCase().replace(/-/g, '_')
+  return name in PAYMENT_PROVIDER ? name as PaymentProviderName : null
+}
+
+// What the payment is worth to the booking after any refunds
+function getNetAmount(payment: PaymentRecord): number {
+  if (payment.status !== PAYMENT_STATUS.SUCCEEDED && payment.status !== PAYMENT_STATUS.PARTIALLY_REFUNDED) return 0
+  return roundCurrency(payment.amount - (payment.refundedAmount || 0))
+}
+
+export async function getBalanceDue(db: Database, booking: BookingRecord): Promise<number> {
+  const { balance } = await getBookingBalance(db, booking)
+  return Math.max(0, balance)
+}
+
+export async function listBookingPayments(db: Database, bookingId: string): Promise<PaymentRecord[]> {
+  return db.payments.findMany({
+    where: { bookingId },
+    orderBy: { field: 'createdAt', direction: 'desc' },
+  })
+}
+
+async function findPaymentForUser(db: Database, id: string, user: UserRecord): Promise<PaymentRecord> {
+  const payment = await db.payments.findById(id)
+  if (!payment) {
+    throw new AppError(ERROR_MESSAGES.PAYMENT_NOT_FOUND, 404)
+  }
+  if (payment.userId !== user.id && user.role !== USER_ROLE.ADMIN) {
+    throw new AppError(ERROR_MESSAGES.FORBIDDEN, 403)
+  }
+  return payment
+}
+
+const PROVIDER_LABELS: Record<PaymentProviderName, string> = {
+  FAKE: 'Test payment',
+  ORANGE_MONEY: 'Orange Money',
+  MTN_MOMO: 'MTN Mobile Money',
+}
+
+// A success has to be for the amount and currency that were requested.
+// Callbacks must always say what was paid; polls only when they report it.
+function assertPaidAsRequested(payment: PaymentRecord, update: PaymentUpdate, required: boolean): void {
+  if (update.status !== PAYMENT_STATUS.SUCCEEDED) return
+  if (!required && update.amount === undefined && update.currency === undefined) return
+
+  if (update.amount === undefined || !pricesMatch(update.amount, payment.amount) || update.currency !== payment.currency) {
+    logger.logSecurityEvent('Payment amount mismatch', payment.userId, undefined, {
+      paymentId: payment.id,
+      provider: payment.provider,
+      expected: { amount: payment.amount, currency: payment.currency },
+      reported: { amount: update.amount, currency: update.currency },
+    })
+    throw new AppError(ERROR_MESSAGES.PAYMENT_AMOUNT_MISMATCH, 400)
+  }
+}
+
+// Only pending payments move; repeated or late callbacks are ignored.
+// A successful payment is posted to the booking's ledger.
+async function applyPaymentUpdate(
+  db: Database,
+  payment: PaymentRecord,
+  update: PaymentUpdate,
+  fromCallback = false
+): Promise<PaymentRecord> {
+  return db.transaction(async (tx) => {
+    const current = await tx.payments.findById(payment.id)
+    if (!current || current.status !== PAYMENT_STATUS.PENDING || update.status === PAYMENT_STATUS.PENDING) {
+      return current || payment
+    }
+    assertPaidAsRequested(current, update, fromCallback)
+
+    const updated = await tx.payments.update(payment.id, {
+      status: update.status,
+      failureReason: update.failureReason,
+      completedAt: new Date().toISOString(),
+    })
+
+    const booking = await tx.bookings.findById(payment.bookingId)
+    if (booking && update.status === PAYMENT_STATUS.SUCCEEDED) {
+      await postLedgerEntry(tx, booking, {
+        kind: LEDGER_ENTRY_KIND.PAYMENT,
+        amount: payment.amount,
+        description: `${PROVIDER_LABELS[payment.provider]} payment from ${payment.phoneNumber}`,
+        paymentId: payment.id,
+      })
+    }
+
+    logger.logBusinessEvent(
+      update.status === PAYMENT_STATUS.SUCCEEDED ? 'Payment succeeded' : 'Payment failed',
+      { paymentId: payment.id, bookingId: payment.bookingId, provider: payment.provider, amount: payment.amount, reason: update.failureReason },
+      payment.userId
+    )
+    return updated
+  })
+}
+
+// Records the payment, then asks the provider to push the approval prompt
+// to the customer's phone. Defaults to paying the whole balance.
+export async function initiatePayment(
+  db: Database,
+  bookingId: string,
+  user: UserRecord,
+  input: PaymentInput,
+  appUrl: string
+): Promise<PaymentRecord> {
+  const provider = getPaymentProvider(input.provider)
+
+  const payment = await db.transaction(async (tx) => {
+    const booking = await findBookingForUser(tx, bookingId, user)
+
+    const pending = await tx.payments.findFirst({ bookingId, status: PAYMENT_STATUS.PENDING })
+    if (pending) {
+      throw new AppError(ERROR_MESSAGES.PAYMENT_IN_PROGRESS, 409)
+    }
+
+    // A cancelled booking stays payable while a cancellation fee is owed
+    const due = await getBalanceDue(tx, booking)
+    if (due <= 0) {
+      throw new AppError(ERROR_MESSAGES.PAYMENT_NOT_DUE, 400)
+    }
+    if (input.amount !== undefined && input.amount > due) {
+      throw new AppError(ERROR_MESSAGES.PAYMENT_EXCEEDS_BALANCE, 400)
+    }
+
+    return tx.payments.create({
+      bookingId,
+      userId: booking.userId,
+      provider: provider.name,
+      amount: input.amount ?? due,
+      currency: PAYMENTS.CURRENCY,
+      phoneNumber: input.phoneNumber,
+      status: PAYMENT_STATUS.PENDING,
+    })
+  })
+
+  try {
+    const intent = await provider.createIntent({
+      paymentId: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+      phoneNumber: input.phoneNumber,
+      description: `Booking ${bookingId.slice(-8).toUpperCase()}`,
+      callbackUrl: new URL(`/api/payments/webhooks/${getProviderSlug(provider.name)}`, appUrl).toString(),
+    })
+
+    const updated = await db.payments.update(payment.id, { providerReference: intent.reference })
+    logger.logBusinessEvent('Payment initiated', { paymentId: payment.id, bookingId, provider: provider.name, amount: payment.amount }, user.id)
+    // Some providers settle immediately, e.g. when no approval is needed
+    return applyPaymentUpdate(db, updated, intent)
+  } catch (error) {
+    await db.payments.update(payment.id, {
+      status: PAYMENT_STATUS.FAILED,
+      failureReason: error instanceof Error ? error.message : String(error),
+      completedAt: new Date().toISOString(),
+    })
+    throw error
+  }
+}
+
+// Polls the provider, for when a callback is late or never arrives
+export async function confirmPayment(db: Database, paymentId: string, user: UserRecord): Promise<PaymentRecord> {
+  const payment = await findPaymentForUser(db, paymentId, user)
+  if (payment.status !== PAYMENT_STATUS.PENDING || !payment.providerReference) {
+    return payment
+  }
+
+  const update = await getPaymentProvider(payment.provider).confirm(payment.providerReference)
+  return applyPaymentUpdate(db, payment, update)
+}
+
+export async function handlePaymentWebhook(
+  db: Database,
+  providerName: PaymentProviderName,
+  payload: WebhookPayload
+): Promise<PaymentRecord> {
+  const update = getPaymentProvider(providerName).verifyWebhook(payload)
+
+  const payment = await db.payments.findFirst({ provider: providerName, providerReference: update.reference })
+  if (!payment) {
+    throw new AppError(ERROR_MESSAGES.PAYMENT_NOT_FOUND, 404)
+  }
+  return applyPaymentUpdate(db, payment, update, true)
+}
+
+// Status once `refundedAmount` of the payment has gone back
+function getRefundStatus(payment: PaymentRecord, refundedAmount: number): PaymentRecord['status'] {
+  if (refundedAmount <= 0) return PAYMENT_STATUS.SUCCEEDED
+  return refundedAmount >= payment.amount ? PAYMENT_STATUS.REFUNDED : PAYMENT_STATUS.PARTIALLY_REFUNDED
+}
+
+// Moves the refunded amount by `change`, e.g. to release a reservation
+async function adjustRefundedAmount(db: Database, paymentId: string, change: number): Promise<PaymentRecord> {
+  return db.transaction(async (tx) => {
+    const payment = (await tx.payments.findById(paymentId))!
+    const refundedAmount = roundCurrency((payment.refundedAmount || 0) + change)
+    return tx.payments.update(paymentId, { refundedAmount, status: getRefundStatus(payment, refundedAmount) })
+  })
+}
+
+// Refunds the rest of the payment unless a smaller amount is given. The
+// amount is reserved on the payment before the provider is asked, so parallel
+// refunds cannot both pass the check; a failed refund releases it again.
+export async function refundPayment(
+  db: Database,
+  paymentId: string,
+  admin: UserRecord,
+  amount?: number
+): Promise<PaymentRecord> {
+  const { payment, requested } = await db.transaction(async (tx) => {
+    const payment = await findPaymentForUser(tx, paymentId, admin)
+    const remaining = getNetAmount(payment)
+    if (remaining <= 0) {
+      throw new AppError(ERROR_MESSAGES.PAYMENT_NOT_REFUNDABLE, 400)
+    }
+    if (amount !== undefined && amount > remaining) {
+      throw new AppError(ERROR_MESSAGES.REFUND_EXCEEDS_PAYMENT, 400)
+    }
+
+    const requested = amount ?? remaining
+    const refundedAmount = roundCurrency((payment.refundedAmount || 0) + requested)
+    await tx.payments.update(payment.id, { refundedAmount, status: getRefundStatus(payment, refundedAmount) })
+    return { payment, requested }
+  })
+
+  let refund: RefundResult
+  try {
+    refund = await getPaymentProvider(payment.provider)
+      .refund(payment.providerReference!, requested, payment.currency)
+  } catch (error) {
+    await adjustRefundedAmount(db, payment.id, -requested)
+    throw error
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    const booking = await tx.bookings.findById(payment.bookingId)
+    if (booking) {
+      await postLedgerEntry(tx, booking, {
+        kind: LEDGER_ENTRY_KIND.REFUND,
+        amount: refund.amount,
+        description: `Refund to ${PROVIDER_LABELS[payment.provider]} ${payment.phoneNumber}`,
+        paymentId: payment.id,
+      }, admin)
+    }
+    // The provider may have refunded a different amount than was reserved
+    return adjustRefundedAmount(tx, payment.id, refund.amount - requested)
+  })
+
+  logger.logBusinessEvent('Payment refunded', { paymentId, bookingId: payment.bookingId, amount: refund.amount, refundReference: refund.reference }, admin.id)
+  return updated
+}
+
+// Pays a credit on the booking back to the customer, newest payment first,
+// up to `limit`. Returns the amount refunded; any rest stays on the ledger.
+export async function refundBookingCredit(
+  db: Database,
+  booking: BookingRecord,
+  admin: UserRecord,
+  limit: number
+): Promise<number> {
+  const { balance } = await getBookingBalance(db, booking)
+  const credit = roundCurrency(Math.min(limit, -balance))
+  let remaining = credit
+
+  for (const payment of await listBookingPayments(db, booking.id)) {
+    if (remaining <= 0) break
+    const amount = Math.min(getNetAmount(payment), remaining)
+    if (amount <= 0) continue
+
+    await refundPayment(db, payment.id, admin, amount)
+    remaining = roundCurrency(remaining - amount)
+  }
+  return roundCurrency(Math.max(0, credit) - Math.max(0, remaining))
+}
@@ -0,0 +1,84 @@
+import { AppError } from '../api-utils'
+import { ERROR_MESSAGES, PAYMENTS, PaymentProviderName } from '../constants'
+import { logger } from '../logger'
+import { assertValidWebhookSignature } from './signature'
+import { PaymentIntent, PaymentIntentRequest, PaymentProvider, PaymentUpdate, RefundResult, WebhookPayload } from './types'
+
+export interface MobileMoneyConfig {
+  apiUrl: string
+  apiKey: string
+  webhookSecret: string
+}
+
+// Reads <PREFIX>_API_URL, <PREFIX>_API_KEY and <PREFIX>_WEBHOOK_SECRET;
+// a provider is only offered when all three are set
+export function readMobileMoneyConfig(prefix: string): MobileMoneyConfig | null {
+  const apiUrl = process.env[`${prefix}_API_URL`]
+  const apiKey = process.env[`${prefix}_API_KEY`]
+  const webhookSecret = process.env[`${prefix}_WEBHOOK_SECRET`]
+  if (!apiUrl || !apiKey || !webhookSecret) return null
+  return { apiUrl, apiKey, webhookSecret }
+}
+
+// Shared plumbing for USSD-push mobile-money APIs: authenticated JSON calls
+// with a timeout, and signed callbacks. Subclasses map their provider's
+// endpoints and status vocabulary onto the PaymentProvider contract.
+export abstract class MobileMoneyProvider implements PaymentProvider {
+  abstract readonly name: PaymentProviderName
+
+  constructor(protected config: MobileMoneyConfig) {}
+
+  abstract createIntent(request: PaymentIntentRequest): Promise<PaymentIntent>
+  abstract confirm(reference: string): Promise<PaymentUpdate>
+  abstract refund(reference: string, amount: number, currency: string): Promise<RefundResult>
+
+  // Provider-specific callback body to a payment update
+  protected abstract parseCallback(data: Record<string, any>): PaymentUpdate
+
+  verifyWebhook(payload: WebhookPayload, now?: Date): PaymentUpdate {
+    assertValidWebhookSignature(payload, this.config.webhookSecret, now)
+    return this.parseCallback(payload.data)
+  }
+
+  protected headers(): Record<string, string> {
+    return { Authorization: `Bearer ${this.config.apiKey}` }
+  }
+
+  // Network failures and error responses surface as a 502 to the caller;
+  // the provider's own message only goes to the logs
+  protected async request<T>(method: string, path: string, options: {
+    body?: unknown
+    headers?: Record<string, string>
+  } = {}): Promise<T> {
+    // Paths are relative to the configured base, which may carry a version prefix
+    const url = `${this.config.apiUrl.replace(/\/+$/, '')}${path}`
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.headers(),
+          ...options.headers,
+        },
+        ...(options.body !== undefined && { body: JSON.stringify(options.body) }),
+        signal: AbortSignal.timeout(PAYMENTS.PROVIDER_TIMEOUT_MS),
+      })
+    } catch (error) {
+      logger.error('Payment provider unreachable', error as Error, { provider: this.name, method, path })
+      throw new AppError(ERROR_MESSAGES.PAYMENT_PROVIDER_ERROR, 502)
+    }
+
+    const text = await response.text()
+    if (!response.ok) {
+      logger.warn('Payment provider request failed', { provider: this.name, method, path, status: response.status, body: text.slice(0, 500) })
+      throw new AppError(ERROR_MESSAGES.PAYMENT_PROVIDER_ERROR, 502)
+    }
+    return (text ? JSON.parse(text) : {}) as T
+  }
+}
+
+// International format without the leading plus, as the MSISDN fields expect
+export function toMsisdn(phoneNumber: string): string {
+  return phoneNumber.replace(/^\+/, '')
+}
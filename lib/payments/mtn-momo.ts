@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto'
+import { PAYMENT_PROVIDER, PAYMENT_STATUS } from '../constants'
+import { MobileMoneyConfig, MobileMoneyProvider, readMobileMoneyConfig, toMsisdn } from './mobile-money'
+import { PaymentIntent, PaymentIntentRequest, PaymentUpdate, RefundResult } from './types'
+
+type MomoStatus = 'PENDING' | 'SUCCESSFUL' | 'FAILED'
+
+interface MomoRequestToPay {
+  status: MomoStatus
+  reason?: string
+  // Amounts are strings in the MoMo API
+  amount?: string
+  currency?: string
+}
+
+export interface MtnMomoConfig extends MobileMoneyConfig {
+  subscriptionKey: string
+  targetEnvironment: string
+}
+
+// Adds MTN_MOMO_SUBSCRIPTION_KEY and MTN_MOMO_TARGET_ENVIRONMENT to the
+// common settings
+export function readMtnMomoConfig(): MtnMomoConfig | null {
+  const config = readMobileMoneyConfig('MTN_MOMO')
+  const subscriptionKey = process.env.MTN_MOMO_SUBSCRIPTION_KEY
+  if (!config || !subscriptionKey) return null
+  return { ...config, subscriptionKey, targetEnvironment: process.env.MTN_MOMO_TARGET_ENVIRONMENT || 'sandbox' }
+}
+
+// MTN MoMo collections ("request to pay"). We choose the reference ourselves
+// and send it as X-Reference-Id; the call is accepted without a body and the
+// outcome arrives on the callback URL.
+export class MtnMomoProvider extends MobileMoneyProvider {
+  readonly name = PAYMENT_PROVIDER.MTN_MOMO
+
+  constructor(protected config: MtnMomoConfig) {
+    super(config)
+  }
+
+  protected headers(): Record<string, string> {
+    return {
+      ...super.headers(),
+      'Ocp-Apim-Subscription-Key': this.config.subscriptionKey,
+      'X-Target-Environment': this.config.targetEnvironment,
+    }
+  }
+
+  async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+    const reference = randomUUID()
+    await this.request('POST', '/collection/v1_0/requesttopay', {
+      headers: { 'X-Reference-Id': reference, 'X-Callback-Url': request.callbackUrl },
+      body: {
+        amount: String(request.amount),
+        currency: request.currency,
+        externalId: request.paymentId,
+        payer: { partyIdType: 'MSISDN', partyId: toMsisdn(request.phoneNumber) },
+        payerMessage: request.description,
+        payeeNote: request.description,
+      },
+    })
+    return { reference, status: PAYMENT_STATUS.PENDING }
+  }
+
+  async confirm(reference: string): Promise<PaymentUpdate> {
+    const result = await this.request<MomoRequestToPay>('GET', `/collection/v1_0/requesttopay/${encodeURIComponent(reference)}`)
+    return this.toUpdate(reference, result)
+  }
+
+  async refund(reference: string, amount: number, currency: string): Promise<RefundResult> {
+    const refundReference = randomUUID()
+    await this.request('POST', '/disbursement/v1_0/refund', {
+      headers: { 'X-Reference-Id': refundReference },
+      body: {
+        amount: String(amount),
+        currency,
+        externalId: reference,
+        referenceIdToRefund: reference,
+      },
+    })
+    return { reference: refundReference, amount }
+  }
+
+  protected parseCallback(data: Record<string, any>): PaymentUpdate {
+    return this.toUpdate(String(data.referenceId), {
+      status: data.status,
+      reason: data.reason,
+      amount: data.amount === undefined ? undefined : String(data.amount),
+      currency: data.currency,
+    })
+  }
+
+  private toUpdate(reference: string, result: MomoRequestToPay): PaymentUpdate {
+    if (result.status === 'SUCCESSFUL') {
+      return {
+        reference,
+        status: PAYMENT_STATUS.SUCCEEDED,
+        amount: result.amount === undefined ? undefined : Number(result.amount),
+        currency: result.currency,
+      }
+    }
+    if (result.status === 'FAILED') {
+      return { reference, status: PAYMENT_STATUS.FAILED, failureReason: result.reason || 'Payment failed' }
+    }
+    return { reference, status: PAYMENT_STATUS.PENDING }
+  }
+}
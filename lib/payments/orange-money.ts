@@ -0,0 +1,77 @@
+import { PAYMENT_PROVIDER, PAYMENT_STATUS } from '../constants'
+import { MobileMoneyProvider, toMsisdn } from './mobile-money'
+import { PaymentIntent, PaymentIntentRequest, PaymentUpdate, RefundResult } from './types'
+
+type OrangeMoneyStatus = 'INITIATED' | 'PENDING' | 'SUCCESS' | 'FAILED' | 'EXPIRED' | 'CANCELLED'
+
+interface OrangeMoneyTransaction {
+  txnId: string
+  status: OrangeMoneyStatus
+  reason?: string
+  amount?: number
+  currency?: string
+}
+
+// Orange Money merchant payments: the subscriber gets a USSD prompt and
+// approves with their PIN; the result is posted to the notification URL
+export class OrangeMoneyProvider extends MobileMoneyProvider {
+  readonly name = PAYMENT_PROVIDER.ORANGE_MONEY
+
+  async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+    const transaction = await this.request<OrangeMoneyTransaction>('POST', '/payments', {
+      body: {
+        merchantReference: request.paymentId,
+        subscriberMsisdn: toMsisdn(request.phoneNumber),
+        amount: request.amount,
+        currency: request.currency,
+        description: request.description,
+        notifUrl: request.callbackUrl,
+      },
+    })
+    return { reference: transaction.txnId, status: this.toUpdate(transaction).status }
+  }
+
+  async confirm(reference: string): Promise<PaymentUpdate> {
+    const transaction = await this.request<OrangeMoneyTransaction>('GET', `/payments/${encodeURIComponent(reference)}`)
+    return this.toUpdate(transaction)
+  }
+
+  async refund(reference: string, amount: number, currency: string): Promise<RefundResult> {
+    const refund = await this.request<{ refundId: string }>('POST', `/payments/${encodeURIComponent(reference)}/refunds`, {
+      body: { amount, currency },
+    })
+    return { reference: refund.refundId, amount }
+  }
+
+  protected parseCallback(data: Record<string, any>): PaymentUpdate {
+    return this.toUpdate({
+      txnId: String(data.txnId),
+      status: data.status,
+      reason: data.reason,
+      amount: data.amount === undefined ? undefined : Number(data.amount),
+      currency: data.currency,
+    })
+  }
+
+  private toUpdate(transaction: OrangeMoneyTransaction): PaymentUpdate {
+    switch (transaction.status) {
+      case 'SUCCESS':
+        return {
+          reference: transaction.txnId,
+          status: PAYMENT_STATUS.SUCCEEDED,
+          amount: transaction.amount,
+          currency: transaction.currency,
+        }
+      case 'FAILED':
+      case 'EXPIRED':
+      case 'CANCELLED':
+        return {
+          reference: transaction.txnId,
+          status: PAYMENT_STATUS.FAILED,
+          failureReason: transaction.reason || `Payment ${transaction.status.toLowerCase()}`,
+        }
+      default:
+        return { reference: transaction.txnId, status: PAYMENT_STATUS.PENDING }
+    }
+  }
+}
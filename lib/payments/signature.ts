@@ -0,0 +1,23 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { AppError } from '../api-utils'
+import { ERROR_MESSAGES, PAYMENTS } from '../constants'
+import { WebhookPayload } from './types'
+
+// Callbacks are signed with HMAC-SHA256 over the raw request body, using the
+// secret shared with the provider. Re-serialising the parsed body would not
+// reproduce the bytes the provider signed.
+export function signWebhook(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex')
+}
+
+export function assertValidWebhookSignature(payload: WebhookPayload, secret: string, now: Date = new Date()): void {
+  const expected = Buffer.from(signWebhook(payload.body, secret))
+  const received = Buffer.from(payload.signature || '')
+  const signed = received.length === expected.length && timingSafeEqual(received, expected)
+
+  // An unreadable timestamp has no age and cannot pass the replay check
+  const age = Math.abs(now.getTime() - new Date(payload.timestamp).getTime())
+  if (!signed || !Number.isFinite(age) || age > PAYMENTS.WEBHOOK_TOLERANCE_MS) {
+    throw new AppError(ERROR_MESSAGES.INVALID_WEBHOOK_SIGNATURE, 401)
+  }
+}
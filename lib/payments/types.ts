@@ -0,0 +1,51 @@
+import { PaymentProviderName, PaymentStatus } from '../constants'
+
+// Contract every payment provider adapter implements. Mobile-money providers
+// are asynchronous: an intent pushes an approval prompt to the customer's
+// phone and the outcome arrives later through a callback or a status poll.
+
+export interface PaymentIntentRequest {
+  // Our payment id, sent as the merchant reference
+  paymentId: string
+  amount: number
+  currency: string
+  phoneNumber: string
+  description: string
+  callbackUrl: string
+}
+
+// Provider-neutral outcome of a payment, from a poll or a callback
+export interface PaymentUpdate {
+  reference: string
+  status: Extract<PaymentStatus, 'PENDING' | 'SUCCEEDED' | 'FAILED'>
+  failureReason?: string
+  // What the provider says was paid, when it reports it
+  amount?: number
+  currency?: string
+}
+
+export type PaymentIntent = PaymentUpdate
+
+export interface RefundResult {
+  reference: string
+  amount: number
+}
+
+// Inbound callback, already validated against webhookSchema. The signature
+// comes from its header and covers the body exactly as it was received.
+export interface WebhookPayload {
+  event: string
+  data: Record<string, any>
+  timestamp: string
+  body: string
+  signature?: string
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName
+  createIntent(request: PaymentIntentRequest): Promise<PaymentIntent>
+  confirm(reference: string): Promise<PaymentUpdate>
+  refund(reference: string, amount: number, currency: string): Promise<RefundResult>
+  // Throws when the callback is not signed by the provider
+  verifyWebhook(payload: WebhookPayload, now?: Date): PaymentUpdate
+}
@@ -0,0 +1,125 @@
+import { AppError } from './api-utils'
+import { ERROR_MESSAGES, PRICING_RULE_KIND, PricingRuleKind } from './constants'
+import { CreateInput, Database, PricingRuleRecord, UserRecord } from './db'
+import { PriceBreakdown } from './types'
+import { logger } from './logger'
+
+export interface PricingRuleInput {
+  name: string
+  kind: PricingRuleKind
+  percentage: number
+  categoryId?: string
+  equipmentId?: string
+  brokerageId?: string
+  startDate?: string
+  endDate?: string
+  minDays?: number
+  code?: string
+  active: boolean
+}
+
+// Drops the fields that mean nothing for the rule's kind, so a rule switched
+// from one kind to another does not keep stale dates or codes
+function toRecord(input: PricingRuleInput): CreateInput<PricingRuleRecord> {
+  const dated = input.kind === PRICING_RULE_KIND.SEASONAL || input.kind === PRICING_RULE_KIND.PROMO_CODE
+  return {
+    name: input.name,
+    kind: input.kind,
+    percentage: input.percentage,
+    categoryId: input.categoryId,
+    equipmentId: input.equipmentId,
+    brokerageId: input.brokerageId,
+    startDate: dated ? input.startDate : undefined,
+    endDate: dated ? input.endDate : undefined,
+    minDays: input.kind === PRICING_RULE_KIND.LONG_DURATION ? input.minDays : undefined,
+    code: input.kind === PRICING_RULE_KIND.PROMO_CODE ? input.code : undefined,
+    active: input.active,
+  }
+}
+
+async function assertValidRule(db: Database, input: PricingRuleInput, excludeId?: string): Promise<void> {
+  if (input.categoryId && !await db.categories.findById(input.categoryId)) {
+    throw new AppError(ERROR_MESSAGES.CATEGORY_NOT_FOUND, 404)
+  }
+  if (input.equipmentId && !await db.equipment.findById(input.equipmentId)) {
+    throw new AppError(ERROR_MESSAGES.EQUIPMENT_NOT_FOUND, 404)
+  }
+  if (input.brokerageId && !await db.brokerage.findById(input.brokerageId)) {
+    throw new AppError(ERROR_MESSAGES.BROKERAGE_NOT_FOUND, 404)
+  }
+  if (input.kind === PRICING_RULE_KIND.PROMO_CODE) {
+    const existing = await db.pricingRules.findFirst({ code: input.code })
+    if (existing && existing.id !== excludeId) {
+      throw new AppError(ERROR_MESSAGES.PROMO_CODE_TAKEN, 409)
+    }
+  }
+}
+
+export async function listPricingRules(db: Database): Promise<PricingRuleRecord[]> {
+  return db.pricingRules.findMany({ orderBy: { field: 'createdAt', direction: 'desc' } })
+}
+
+export async function createPricingRule(db: Database, input: PricingRuleInput, admin: UserRecord): Promise<PricingRuleRecord> {
+  return db.transaction(async (tx) => {
+    await assertValidRule(tx, input)
+    const rule = await tx.pricingRules.create(toRecord(input))
+
+    logger.logBusinessEvent('Pricing rule created', { ruleId: rule.id, kind: rule.kind, percentage: rule.percentage }, admin.id)
+    return rule
+  })
+}
+
+export async function updatePricingRule(
+  db: Database,
+  id: string,
+  input: PricingRuleInput,
+  admin: UserRecord
+): Promise<PricingRuleRecord> {
+  return db.transaction(async (tx) => {
+    if (!await tx.pricingRules.findById(id)) {
+      throw new AppError(ERROR_MESSAGES.PRICING_RULE_NOT_FOUND, 404)
+    }
+    await assertValidRule(tx, input, id)
+    const rule = await tx.pricingRules.update(id, toRecord(input))
+
+    logger.logBusinessEvent('Pricing rule updated', { ruleId: id, kind: rule.kind, percentage: rule.percentage, active: rule.active }, admin.id)
+    return rule
+  })
+}
+
+// Bookings keep their stored breakdown, so removing a rule never reprices them
+export async function deletePricingRule(db: Database, id: string, admin: UserRecord): Promise<PricingRuleRecord> {
+  if (!await db.pricingRules.findById(id)) {
+    throw new AppError(ERROR_MESSAGES.PRICING_RULE_NOT_FOUND, 404)
+  }
+  const rule = await db.pricingRules.delete(id)
+
+  logger.logBusinessEvent('Pricing rule deleted', { ruleId: id, kind: rule.kind }, admin.id)
+  return rule
+}
+
+// The active rules a customer's price is built from. Promo code rules are
+// never listed; one is only included when its code is given.
+export async function getActivePricingRules(db: Database, promoCode?: string): Promise<PricingRuleRecord[]> {
+  const rules = (await db.pricingRules.findMany({ where: { active: true } }))
+    .filter(rule => rule.kind !== PRICING_RULE_KIND.PROMO_CODE)
+
+  if (promoCode) {
+    const promo = await db.pricingRules.findFirst({ kind: PRICING_RULE_KIND.PROMO_CODE, code: promoCode, active: true })
+    if (!promo) {
+      throw new AppError(ERROR_MESSAGES.PROMO_CODE_INVALID, 400)
+    }
+    rules.push(promo)
+  }
+  return rules
+}
+
+// A code that exists but does not cover the items or dates is rejected
+// rather than silently ignored
+export function assertPromoCodeApplied(breakdown: PriceBreakdown, rules: PricingRuleRecord[], promoCode?: string): void {
+  if (!promoCode) return
+  const promo = rules.find(rule => rule.kind === PRICING_RULE_KIND.PROMO_CODE)
+  if (!promo || !breakdown.lineItems.some(line => line.ruleId === promo.id)) {
+    throw new AppError(ERROR_MESSAGES.PROMO_CODE_INVALID, 400)
+  }
+}
@@ -0,0 +1,344 @@
+import { CategoryType, DELIVERY, FEE_CALCULATION, FEE_RULE_KIND, PRICE_TYPE, PRICING_RULE_KIND, PriceType } from './constants'
+import { BundleDiscountTier, Coordinates, FeeRule, PriceBreakdown, PriceLineItem, PricingRule } from './types'
+import { getDistanceKm } from './utils'
+
+// Shared by the booking form and the bookings API, so keep this module free of
+// server-only imports.
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface PricingInput {
+  price: number
+  priceType: PriceType | string
+  startDate: string | Date
+  endDate: string | Date
+  // The item and its category, for scoped pricing rules
+  id?: string
+  categoryId?: string
+}
+
+interface BillingUnit {
+  unit: string
+  quantity: (durationMs: number) => number
+}
+
+// Partial periods are always charged as a full period
+const BILLING_UNITS: Record<PriceType, BillingUnit> = {
+  [PRICE_TYPE.HOURLY]: { unit: 'hour', quantity: ms => Math.ceil(ms / HOUR_MS) },
+  [PRICE_TYPE.DAILY]: { unit: 'day', quantity: ms => Math.ceil(ms / DAY_MS) },
+  [PRICE_TYPE.WEEKLY]: { unit: 'week', quantity: ms => Math.ceil(ms / (7 * DAY_MS)) },
+  [PRICE_TYPE.MONTHLY]: { unit: 'month', quantity: ms => Math.ceil(ms / (30 * DAY_MS)) },
+  [PRICE_TYPE.FIXED]: { unit: 'booking', quantity: () => 1 },
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function normalizePriceType(priceType: string): PriceType {
+  const normalized = priceType.toUpperCase()
+  return normalized in BILLING_UNITS ? (normalized as PriceType) : PRICE_TYPE.DAILY
+}
+
+// Number of billable units between two dates, never less than one
+export function getBillableUnits(priceType: PriceType, startDate: string | Date, endDate: string | Date): number {
+  const durationMs = Math.max(0, new Date(endDate).getTime() - new Date(startDate).getTime())
+  return Math.max(1, BILLING_UNITS[priceType].quantity(durationMs))
+}
+
+// 2 when the rule names the item, 1 for its category, 0 for unscoped rules
+// and -1 when the rule is scoped elsewhere
+function getRuleSpecificity(rule: PricingRule, input: PricingInput): number {
+  if (rule.equipmentId || rule.brokerageId) {
+    return input.id !== undefined && (rule.equipmentId === input.id || rule.brokerageId === input.id) ? 2 : -1
+  }
+  if (rule.categoryId) {
+    return rule.categoryId === input.categoryId ? 1 : -1
+  }
+  return 0
+}
+
+// Share of the rental inside [from, to]; an instant rental is either in or out
+function getOverlapShare(start: number, end: number, from: number, to: number): number {
+  if (end <= start) return start >= from && start <= to ? 1 : 0
+  return Math.max(0, Math.min(end, to) - Math.max(start, from)) / (end - start)
+}
+
+// Share of the rental on Saturdays and Sundays. Days are counted in UTC,
+// which is also local time in Liberia.
+function getWeekendShare(start: number, end: number): number {
+  const isWeekend = (time: number) => [0, 6].includes(new Date(time).getUTCDay())
+  if (end <= start) return isWeekend(start) ? 1 : 0
+
+  let weekendMs = 0
+  for (let time = start; time < end;) {
+    const dayEnd = Math.min(end, (Math.floor(time / DAY_MS) + 1) * DAY_MS)
+    if (isWeekend(time)) weekendMs += dayEnd - time
+    time = dayEnd
+  }
+  return weekendMs / (end - start)
+}
+
+// How much of the rental a rule covers, from 0 (does not apply) to 1
+function getRuleShare(rule: PricingRule, start: number, end: number, now: Date): number {
+  switch (rule.kind) {
+    case PRICING_RULE_KIND.SEASONAL:
+      return rule.startDate && rule.endDate
+        ? getOverlapShare(start, end, new Date(rule.startDate).getTime(), new Date(rule.endDate).getTime())
+        : 0
+    case PRICING_RULE_KIND.WEEKEND:
+      return getWeekendShare(start, end)
+    case PRICING_RULE_KIND.LONG_DURATION:
+      return end - start >= (rule.minDays || 0) * DAY_MS ? 1 : 0
+    case PRICING_RULE_KIND.PROMO_CODE:
+      return (!rule.startDate || now >= new Date(rule.startDate)) && (!rule.endDate || now <= new Date(rule.endDate)) ? 1 : 0
+    default:
+      return 0
+  }
+}
+
+// At most one rule of each kind applies to an item: the most specific one,
+// then the one that moves the price the most. Every rule is a percentage of
+// the base rental, so rules never compound.
+function getRuleAdjustments(input: PricingInput, baseAmount: number, rules: PricingRule[], now: Date): PriceLineItem[] {
+  const start = new Date(input.startDate).getTime()
+  const end = new Date(input.endDate).getTime()
+  const best = new Map<PricingRule['kind'], { specificity: number; line: PriceLineItem }>()
+
+  for (const rule of rules) {
+    const specificity = getRuleSpecificity(rule, input)
+    if (!rule.active || specificity < 0) continue
+
+    const share = getRuleShare(rule, start, end, now)
+    const amount = roundCurrency(baseAmount * share * rule.percentage / 100)
+    if (amount === 0) continue
+
+    const current = best.get(rule.kind)
+    if (current && (current.specificity > specificity ||
+      (current.specificity === specificity && Math.abs(current.line.amount) >= Math.abs(amount)))) {
+      continue
+    }
+
+    const percentage = `${rule.percentage > 0 ? '+' : ''}${rule.percentage}%`
+    best.set(rule.kind, {
+      specificity,
+      line: {
+        kind: amount > 0 ? 'SURCHARGE' : 'DISCOUNT',
+        label: share < 1
+          ? `${rule.name} (${percentage} on ${Math.round(share * 100)}% of the rental)`
+          : `${rule.name} (${percentage})`,
+        quantity: 1,
+        unit: 'adjustment',
+        unitPrice: amount,
+        amount,
+        ruleId: rule.id,
+      },
+    })
+  }
+
+  return Object.values(PRICING_RULE_KIND).flatMap(kind => best.get(kind)?.line || [])
+}
+
+// `rules` are the active pricing rules, already narrowed to the customer's
+// promo code if any; each is checked here against the item and dates
+export function calculateBookingPrice(input: PricingInput, rules: PricingRule[] = [], now: Date = new Date()): PriceBreakdown {
+  const priceType = normalizePriceType(input.priceType)
+  const quantity = getBillableUnits(priceType, input.startDate, input.endDate)
+  const { unit } = BILLING_UNITS[priceType]
+
+  const base: PriceLineItem = {
+    kind: 'BASE',
+    label: quantity === 1 ? `1 ${unit}` : `${quantity} ${unit}s`,
+    quantity,
+    unit,
+    unitPrice: input.price,
+    amount: roundCurrency(quantity * input.price),
+  }
+
+  const adjustments = getRuleAdjustments(input, base.amount, rules, now)
+  const subtotal = base.amount
+
+  return {
+    priceType,
+    lineItems: [base, ...adjustments],
+    subtotal,
+    total: Math.max(0, roundCurrency(adjustments.reduce((sum, line) => sum + line.amount, subtotal))),
+  }
+}
+
+export interface BundlePricingItem {
+  id?: string
+  title: string
+  price: number
+  priceType: PriceType | string
+  category: { id: string; name: string; bundleDiscounts?: BundleDiscountTier[] }
+}
+
+export interface BundlePrice {
+  // One breakdown per item, in the order given
+  items: PriceBreakdown[]
+  breakdown: PriceBreakdown
+}
+
+// Best discount a category offers for the number of its items in the bundle
+export function getBundleDiscountPercentage(tiers: BundleDiscountTier[] = [], itemCount: number): number {
+  return tiers
+    .filter(tier => itemCount >= tier.minItems)
+    .reduce((best, tier) => Math.max(best, tier.percentage), 0)
+}
+
+// Each item is priced on its own, pricing rules included; each category then
+// discounts its share of the bundle according to how many of its items were
+// booked together.
+export function calculateBundlePrice(
+  items: BundlePricingItem[],
+  range: { startDate: string | Date; endDate: string | Date },
+  rules: PricingRule[] = [],
+  now: Date = new Date()
+): BundlePrice {
+  const itemBreakdowns = items.map(item =>
+    calculateBookingPrice({ ...item, ...range, categoryId: item.category.id }, rules, now)
+  )
+
+  const itemLines: PriceLineItem[] = items.flatMap((item, index) =>
+    itemBreakdowns[index].lineItems.map(line => ({
+      ...line,
+      label: line.kind === 'BASE' ? `${item.title} (${line.label})` : `${item.title}: ${line.label}`,
+    }))
+  )
+
+  const categories = new Map<string, { item: BundlePricingItem; count: number; amount: number }>()
+  items.forEach((item, index) => {
+    const entry = categories.get(item.category.id) || { item, count: 0, amount: 0 }
+    entry.count += 1
+    entry.amount += itemBreakdowns[index].total
+    categories.set(item.category.id, entry)
+  })
+
+  const discountLines: PriceLineItem[] = []
+  categories.forEach(({ item, count, amount }) => {
+    const percentage = getBundleDiscountPercentage(item.category.bundleDiscounts, count)
+    if (percentage === 0) return
+
+    const discount = -roundCurrency(amount * percentage / 100)
+    discountLines.push({
+      kind: 'DISCOUNT',
+      label: `Bundle discount: ${percentage}% off ${count} ${item.category.name} items`,
+      quantity: 1,
+      unit: 'discount',
+      unitPrice: discount,
+      amount: discount,
+    })
+  })
+
+  const subtotal = roundCurrency(itemBreakdowns.reduce((sum, breakdown) => sum + breakdown.subtotal, 0))
+  const itemsTotal = roundCurrency(itemBreakdowns.reduce((sum, breakdown) => sum + breakdown.total, 0))
+  const total = roundCurrency(itemsTotal + discountLines.reduce((sum, line) => sum + line.amount, 0))
+
+  return {
+    items: itemBreakdowns,
+    breakdown: {
+      priceType: itemBreakdowns[0]?.priceType || PRICE_TYPE.DAILY,
+      lineItems: [...itemLines, ...discountLines],
+      subtotal,
+      total,
+    },
+  }
+}
+
+export interface DeliveryQuote {
+  distanceKm: number
+  fee: number
+  lineItem: PriceLineItem
+}
+
+// Each trip from the depot (drop-off, and the pickup when requested) costs a
+// base fee plus a rate per kilometre
+export function calculateDeliveryFee(coordinates: Coordinates, options: { pickup: boolean }): DeliveryQuote {
+  const distanceKm = Math.round(getDistanceKm(DELIVERY.DEPOT, coordinates) * 10) / 10
+  const trips = options.pickup ? 2 : 1
+  const perTrip = roundCurrency(DELIVERY.BASE_FEE + distanceKm * DELIVERY.FEE_PER_KM)
+  const fee = roundCurrency(perTrip * trips)
+
+  return {
+    distanceKm,
+    fee,
+    lineItem: {
+      kind: 'DELIVERY',
+      label: `${options.pickup ? 'Delivery and pickup' : 'Delivery'} (${distanceKm} km)`,
+      quantity: trips,
+      unit: 'trip',
+      unitPrice: perTrip,
+      amount: fee,
+    },
+  }
+}
+
+// Delivery is charged on top of the rental; the subtotal stays the rental alone
+export function addDeliveryFee(breakdown: PriceBreakdown, quote: DeliveryQuote): PriceBreakdown {
+  return {
+    ...breakdown,
+    lineItems: [...breakdown.lineItems, quote.lineItem],
+    total: roundCurrency(breakdown.total + quote.fee),
+  }
+}
+
+// Taxes and fees come last, on the booking total including delivery. Every
+// percentage is taken from that same amount, so taxes and fees never compound.
+// Inclusive rules are carved out of the total: with inclusive percentages p1,
+// p2... the amount before them is (total - inclusive fixed amounts) / (1 + sum p / 100).
+export function applyFeeRules(breakdown: PriceBreakdown, rules: FeeRule[], categoryType: CategoryType): PriceBreakdown {
+  const applicable = rules.filter(rule => rule.active && rule.categoryType === categoryType)
+  if (applicable.length === 0) return breakdown
+
+  const gross = breakdown.total
+  const isPercentage = (rule: FeeRule) => rule.calculation === FEE_CALCULATION.PERCENTAGE
+  const inclusive = applicable.filter(rule => rule.inclusive)
+  const inclusiveFixed = inclusive.filter(rule => !isPercentage(rule)).reduce((sum, rule) => sum + rule.amount, 0)
+  const inclusivePercentage = inclusive.filter(isPercentage).reduce((sum, rule) => sum + rule.amount, 0)
+  const net = Math.max(0, gross - inclusiveFixed) / (1 + inclusivePercentage / 100)
+
+  const lines: PriceLineItem[] = applicable.map(rule => {
+    const amount = rule.inclusive
+      ? roundCurrency(isPercentage(rule) ? net * rule.amount / 100 : Math.min(rule.amount, gross))
+      : roundCurrency(isPercentage(rule) ? gross * rule.amount / 100 : rule.amount)
+    const unit = rule.kind === FEE_RULE_KIND.TAX ? 'tax' : 'fee'
+
+    return {
+      kind: rule.kind,
+      label: [
+        rule.name,
+        isPercentage(rule) && `(${rule.amount}%)`,
+        rule.inclusive && 'included',
+      ].filter(Boolean).join(' '),
+      quantity: 1,
+      unit,
+      unitPrice: amount,
+      amount,
+      feeRuleId: rule.id,
+      ...(rule.inclusive && { included: true }),
+    }
+  })
+
+  const sumOf = (kind: FeeRule['kind']) =>
+    roundCurrency(lines.filter(line => line.kind === kind).reduce((sum, line) => sum + line.amount, 0))
+
+  return {
+    ...breakdown,
+    lineItems: [...breakdown.lineItems, ...lines],
+    total: roundCurrency(lines.filter(line => !line.included).reduce((sum, line) => sum + line.amount, gross)),
+    taxes: sumOf(FEE_RULE_KIND.TAX),
+    fees: sumOf(FEE_RULE_KIND.FEE),
+  }
+}
+
+// Security deposit for the booked items, held apart from the booking total
+export function calculateDepositAmount(items: { depositAmount?: number }[]): number {
+  return roundCurrency(items.reduce((sum, item) => sum + (item.depositAmount || 0), 0))
+}
+
+// Totals are compared to the cent to tolerate float noise from the client
+export function pricesMatch(a: number, b: number): boolean {
+  return Math.abs(roundCurrency(a) - roundCurrency(b)) < 0.01
+}
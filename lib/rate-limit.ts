@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server'
 import { RateLimitInfo } from './types'
-import { RATE_LIMIT } from './constants'
+import { RateLimitError } from './api-utils'
+import { ERROR_MESSAGES, RATE_LIMIT } from './constants'
 import { logger } from './logger'
 
 // In-memory store for rate limiting (in production, use Redis)
@@ -246,6 +247,19 @@ export async function endpointRateLimit(
   return rateLimit(request, customConfig)
 }
 
+// For routes wrapped in withErrorHandling: rejects the request with a 429
+// once the caller has used up the endpoint's allowance
+export async function enforceRateLimit(
+  request: NextRequest,
+  endpoint: string,
+  config: RateLimitConfig
+): Promise<void> {
+  const info = await endpointRateLimit(request, endpoint, config)
+  if (info.isLimited) {
+    throw new RateLimitError(ERROR_MESSAGES.RATE_LIMITED, info.retryAfter || 60)
+  }
+}
+
 // Utility to check if IP is whitelisted
 export function isWhitelisted(request: NextRequest): boolean {
   const whitelist = process.env.RATE_LIMIT_WHITELIST?.split(',') || []
@@ -0,0 +1,47 @@
+import { BOOKING_STATUS } from './constants'
+import { Database } from './db'
+import { roundCurrency } from './pricing'
+import { AdminStats, RevenueReport } from './types'
+
+const EARNING_STATUSES: string[] = [BOOKING_STATUS.CONFIRMED, BOOKING_STATUS.COMPLETED]
+
+// Bookings count towards the range they start in. Taxes and fees come from the
+// breakdown stored with each booking, so bookings made before they were
+// configured report their whole total as net.
+export async function getRevenueReport(db: Database, range: { from?: string; to?: string } = {}): Promise<RevenueReport> {
+  const from = range.from ? new Date(range.from).getTime() : -Infinity
+  const to = range.to ? new Date(range.to).getTime() : Infinity
+
+  const bookings = (await db.bookings.findMany()).filter(booking => {
+    const start = new Date(booking.startDate).getTime()
+    return EARNING_STATUSES.includes(booking.status) && start >= from && start < to
+  })
+
+  const sum = (amount: (booking: typeof bookings[number]) => number) =>
+    roundCurrency(bookings.reduce((total, booking) => total + amount(booking), 0))
+  const gross = sum(booking => booking.totalPrice)
+  const taxes = sum(booking => booking.priceBreakdown?.taxes || 0)
+  const fees = sum(booking => booking.priceBreakdown?.fees || 0)
+
+  return {
+    ...range,
+    bookings: bookings.length,
+    gross,
+    taxes,
+    fees,
+    net: roundCurrency(gross - taxes - fees),
+  }
+}
+
+export async function getAdminStats(db: Database, range: { from?: string; to?: string } = {}): Promise<AdminStats> {
+  const [totalUsers, totalEquipment, totalBrokerage, totalBookings, pendingBookings, revenue] = await Promise.all([
+    db.users.count(),
+    db.equipment.count(),
+    db.brokerage.count(),
+    db.bookings.count(),
+    db.bookings.count({ status: BOOKING_STATUS.PENDING }),
+    getRevenueReport(db, range),
+  ])
+
+  return { totalUsers, totalEquipment, totalBrokerage, totalBookings, pendingBookings, revenue }
+}
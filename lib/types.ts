@@ -1,4 +1,4 @@
-import { BOOKING_STATUS, BOOKING_TYPE, PRICE_TYPE, USER_ROLE, CATEGORY_TYPE, API_RESPONSE_STATUS } from './constants'
+import { BOOKING_STATUS, BOOKING_TYPE, PRICE_TYPE, USER_ROLE, CATEGORY_TYPE, API_RESPONSE_STATUS, JOB_TYPE, JOB_STATUS, WAITLIST_STATUS, CONTRACT_STATUS, BILLING_CYCLE, BILLING_ENTRY_STATUS, DELIVERY_STATUS, MAINTENANCE_TYPE, DEPOSIT_STATUS, PAYMENT_PROVIDER, PAYMENT_STATUS, LEDGER_ENTRY_KIND, PRICING_RULE_KIND, CURRENCY, FEE_RULE_KIND, FEE_CALCULATION, OTP_PURPOSE } from './constants'
 
 // Base API Response types
 export interface ApiResponse<T = any> {
@@ -6,6 +6,8 @@ export interface ApiResponse<T = any> {
   message: string
   data?: T
   error?: string
+  code?: string
+  details?: Record<string, any>
   errors?: Record<string, string[]>
   timestamp: string
 }
@@ -21,16 +23,58 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   }
 }
 
+// Catalog listings also carry the categories used to build the filter UI
+export interface CatalogResponse<T> extends PaginatedResponse<T> {
+  categories: Category[]
+}
+
 // User types
 export interface User {
   id: string
   name: string
   email: string
+  phone?: string
   role: keyof typeof USER_ROLE
+  // Set once the emailed registration code is confirmed; sign-in requires it
+  emailVerifiedAt?: string
+  // Sessions signed before this are no longer accepted
+  passwordChangedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Password hashes live apart from the user record so they never reach API responses
+export interface UserCredential {
+  id: string
+  userId: string
+  passwordHash: string
+  createdAt: string
+  updatedAt: string
+}
+
+// A one-time code emailed to confirm an address, a sign-in or a password
+// reset. Only its hash is stored; a code is spent once used, expired or
+// guessed wrong too many times.
+export interface OtpCode {
+  id: string
+  email: string
+  purpose: keyof typeof OTP_PURPOSE
+  codeHash: string
+  expiresAt: string
+  attempts: number
+  consumedAt?: string
   createdAt: string
   updatedAt: string
 }
 
+// What a password sign-in returns: the signed-in user, or a request for the
+// emailed code when sign-in needs a second step
+export interface LoginResult {
+  user?: User
+  requiresOtp: boolean
+  email: string
+}
+
 export interface UserWithBookings extends User {
   bookings: Booking[]
 }
@@ -41,6 +85,8 @@ export interface Category {
   name: string
   description: string
   type: keyof typeof CATEGORY_TYPE
+  cancellationPolicy?: CancellationPolicy
+  bundleDiscounts?: BundleDiscountTier[]
   createdAt: string
   updatedAt: string
   _count?: {
@@ -56,9 +102,13 @@ export interface Equipment {
   description: string
   price: number
   priceType: keyof typeof PRICE_TYPE
+  // Currency the price is set in; USD when absent. Deposits are always USD.
+  currency?: keyof typeof CURRENCY
   images: string[]
   features: string[]
   available: boolean
+  // Refundable security deposit taken on each booking of the item
+  depositAmount?: number
   categoryId: string
   category: Category
   createdAt: string
@@ -76,6 +126,8 @@ export interface Brokerage {
   description: string
   price: number
   priceType: keyof typeof PRICE_TYPE
+  // Currency the price is set in; USD when absent
+  currency?: keyof typeof CURRENCY
   location?: string
   images: string[]
   features: string[]
@@ -90,7 +142,106 @@ export interface BrokerageWithBookings extends Brokerage {
   bookings: Booking[]
 }
 
+// Pricing types
+export type PriceLineItemKind = 'BASE' | 'DISCOUNT' | 'SURCHARGE' | 'DELIVERY' | 'TAX' | 'FEE'
+
+export interface PriceLineItem {
+  kind: PriceLineItemKind
+  label: string
+  quantity: number
+  unit: string
+  unitPrice: number
+  amount: number
+  // Pricing rule behind a surcharge or discount
+  ruleId?: string
+  // Fee rule behind a tax or fee
+  feeRuleId?: string
+  // Inclusive taxes and fees are already part of the price: the line shows
+  // the share of the total they account for and adds nothing to it
+  included?: boolean
+}
+
+export interface PriceBreakdown {
+  priceType: keyof typeof PRICE_TYPE
+  lineItems: PriceLineItem[]
+  subtotal: number
+  total: number
+  // Part of the total that is tax or fees, inclusive and exclusive alike
+  taxes?: number
+  fees?: number
+}
+
+// Currency types
+// Units of a currency per US dollar, recorded by an admin. The latest record
+// per currency is the rate in effect; older ones are kept as history.
+export interface ExchangeRate {
+  id: string
+  currency: keyof typeof CURRENCY
+  rate: number
+  createdById: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type ExchangeRates = Record<keyof typeof CURRENCY, number>
+
+// A percentage on the rental price: positive is a surcharge, negative a
+// discount. Rules scoped to an item or category only apply there; unscoped
+// rules apply to everything.
+export interface PricingRule {
+  id: string
+  name: string
+  kind: keyof typeof PRICING_RULE_KIND
+  percentage: number
+  categoryId?: string
+  equipmentId?: string
+  brokerageId?: string
+  // The season for SEASONAL rules; when the code can be redeemed for PROMO_CODE
+  startDate?: string
+  endDate?: string
+  // LONG_DURATION rules apply to rentals of at least this many days
+  minDays?: number
+  // PROMO_CODE rules only, stored upper-case
+  code?: string
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// A tax or fee on every booking of a category type. PERCENTAGE rules take a
+// share of the booking total, FIXED rules a flat amount per booking.
+// Inclusive rules are already part of the listed prices; exclusive ones are
+// added on top.
+export interface FeeRule {
+  id: string
+  name: string
+  kind: keyof typeof FEE_RULE_KIND
+  categoryType: keyof typeof CATEGORY_TYPE
+  calculation: keyof typeof FEE_CALCULATION
+  amount: number
+  inclusive: boolean
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Discount on a category's items when a bundle books at least minItems of them
+export interface BundleDiscountTier {
+  minItems: number
+  percentage: number
+}
+
 // Booking types
+export interface BookingStatusChange {
+  from: keyof typeof BOOKING_STATUS | null
+  to: keyof typeof BOOKING_STATUS
+  actorId: string
+  actorName: string
+  actorRole: keyof typeof USER_ROLE
+  reason?: string
+  timestamp: string
+}
+
 export interface Booking {
   id: string
   type: keyof typeof BOOKING_TYPE
@@ -98,18 +249,340 @@ export interface Booking {
   startDate: string
   endDate: string
   totalPrice: number
+  priceBreakdown?: PriceBreakdown
+  // Upper-cased promo code redeemed on the booking
+  promoCode?: string
+  // The customer's currency and its rate per US dollar when the booking was
+  // made; amounts themselves stay in US dollars
+  currency?: keyof typeof CURRENCY
+  exchangeRate?: number
   notes?: string
   adminNotes?: string
+  phoneNumber?: string
+  statusHistory?: BookingStatusChange[]
+  cancellationReason?: string
+  cancelledById?: string
+  cancelledByRole?: keyof typeof USER_ROLE
+  cancelledAt?: string
+  cancellation?: CancellationQuote
   userId: string
   user: User
   equipmentId?: string
   equipment?: Equipment
   brokerageId?: string
   brokerage?: Brokerage
+  // Every item of a bundle booking; equipmentId is the first of them
+  items?: BookingItem[]
+  // Set on the bookings generated by a rental contract
+  contractId?: string
+  delivery?: Delivery
+  deposit?: BookingDeposit
+  inspection?: ReturnInspection
+  damageClaims?: DamageClaim[]
+  balance?: BookingBalance
+  createdAt: string
+  updatedAt: string
+}
+
+// One item of a multi-item (bundle) booking
+export interface BookingItem {
+  id: string
+  bookingId: string
+  equipmentId: string
+  equipment?: Equipment
+  priceBreakdown: PriceBreakdown
+  createdAt: string
+  updatedAt: string
+}
+
+// Deposit and return inspection types
+// The deposit is taken on top of the booking total and settled once the
+// items are back: claims are deducted and the rest is refunded
+export interface BookingDeposit {
+  amount: number
+  status: keyof typeof DEPOSIT_STATUS
+  deducted?: number
+  refunded?: number
+  settledAt?: string
+  settledById?: string
+}
+
+export interface InspectionChecklistItem {
+  label: string
+  passed: boolean
+  notes?: string
+}
+
+export interface ReturnInspection {
+  id: string
+  bookingId: string
+  checklist: InspectionChecklistItem[]
+  photos: string[]
+  notes?: string
+  inspectedById: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DamageClaim {
+  id: string
+  bookingId: string
+  description: string
+  amount: number
+  createdById: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Payment types
+export interface Payment {
+  id: string
+  bookingId: string
+  userId: string
+  provider: keyof typeof PAYMENT_PROVIDER
+  // The provider's own transaction id, used to match callbacks
+  providerReference?: string
+  amount: number
+  currency: string
+  phoneNumber?: string
+  status: keyof typeof PAYMENT_STATUS
+  refundedAmount?: number
+  failureReason?: string
+  completedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface LedgerEntry {
+  id: string
+  bookingId: string
+  kind: keyof typeof LEDGER_ENTRY_KIND
+  // Positive, except adjustments which are signed
+  amount: number
+  description: string
+  // Set when the entry was posted by an online payment or its refund
+  paymentId?: string
+  createdById?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Charged is the booking total plus extra charges and adjustments; the
+// balance is what the customer still owes, negative when they are owed
+export interface BookingBalance {
+  charged: number
+  paid: number
+  refunded: number
+  balance: number
+}
+
+export interface BookingLedger {
+  entries: (LedgerEntry & { runningBalance: number })[]
+  summary: BookingBalance
+  minimumPayment: number
+}
+
+// Delivery types
+export interface Coordinates {
+  lat: number
+  lng: number
+}
+
+export interface TimeWindow {
+  start: string
+  end: string
+}
+
+// Delivery of a booking's items to the customer's site, and optionally
+// collecting them again when the booking ends
+export interface Delivery {
+  id: string
+  bookingId: string
+  address: string
+  coordinates: Coordinates
+  distanceKm: number
+  fee: number
+  deliveryWindow: TimeWindow
+  pickupWindow?: TimeWindow // absent when the customer returns the items
+  instructions?: string
+  status: keyof typeof DELIVERY_STATUS
+  statusHistory: DeliveryStatusChange[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DeliveryStatusChange {
+  from: keyof typeof DELIVERY_STATUS | null
+  to: keyof typeof DELIVERY_STATUS
+  actorId: string
+  timestamp: string
+}
+
+// One trip on the dispatch board
+export interface DispatchStop {
+  kind: 'DELIVERY' | 'PICKUP'
+  window: TimeWindow
+  delivery: Delivery
+  booking: {
+    id: string
+    status: keyof typeof BOOKING_STATUS
+    title: string
+    phoneNumber?: string
+    customer: { name: string; email: string }
+  }
+}
+
+export interface DispatchDay {
+  date: string // YYYY-MM-DD, UTC
+  deliveries: DispatchStop[]
+  returns: DispatchStop[]
+}
+
+// Maintenance types
+// A service of one equipment item. The window blocks bookings; the next
+// service falls due after a number of days or of hours rented, whichever
+// comes first when both are set.
+export interface EquipmentMaintenance {
+  id: string
+  equipmentId: string
+  serviceType: keyof typeof MAINTENANCE_TYPE
+  startDate: string
+  endDate: string
+  cost: number
+  notes?: string
+  nextDueDays?: number
+  nextDueHours?: number
+  nextDueDate?: string // endDate + nextDueDays
+  createdById: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MaintenanceStatus {
+  equipmentId: string
+  title: string
+  lastServiceDate?: string
+  nextDueDate?: string
+  hoursUsed: number // rented hours since the last service
+  nextDueHours?: number
+  overdue: boolean
+  upcoming?: EquipmentMaintenance
+}
+
+// Rental contract types
+export interface ContractRecurrence {
+  daysOfWeek: number[] // 0 = Sunday
+  startTime: string // HH:mm, UTC
+  durationHours: number
+}
+
+// A long-term or recurring rental. Without a recurrence the item is rented
+// for the whole term as one booking; with one, a booking is made per
+// occurrence. The item's rate is locked in when the contract is created.
+export interface RentalContract {
+  id: string
+  userId: string
+  equipmentId?: string
+  brokerageId?: string
+  status: keyof typeof CONTRACT_STATUS
+  startDate: string
+  endDate: string
+  billingCycle: keyof typeof BILLING_CYCLE
+  recurrence?: ContractRecurrence
+  price: number
+  priceType: keyof typeof PRICE_TYPE
+  notes?: string
+  phoneNumber?: string
+  terminationDate?: string
+  terminationReason?: string
+  terminatedById?: string
+  terminatedAt?: string
   createdAt: string
   updatedAt: string
 }
 
+export interface BillingEntry {
+  id: string
+  contractId: string
+  periodStart: string
+  periodEnd: string
+  dueDate: string
+  amount: number
+  status: keyof typeof BILLING_ENTRY_STATUS
+  createdAt: string
+  updatedAt: string
+}
+
+export interface RentalContractWithDetails extends RentalContract {
+  item?: { id: string; title: string; type: 'EQUIPMENT' | 'BROKERAGE' }
+  user?: { name: string; email: string }
+  billingEntries: BillingEntry[]
+  bookingCount: number
+  total: number
+}
+
+// Cancellation types
+export interface CancellationPolicy {
+  freeCancellationHours: number // full refund when cancelled at least this long before start
+  feePercentage: number // fee charged between the free and no-refund windows
+  noRefundHours: number // nothing is refunded inside this window
+}
+
+export type CancellationTier = 'FREE' | 'FEE' | 'NO_REFUND'
+
+export interface CancellationQuote {
+  policy: CancellationPolicy
+  tier: CancellationTier
+  hoursUntilStart: number
+  fee: number
+  // Part of the booking total credited back
+  refund: number
+  // Held deposit returned with the cancellation
+  deposit: number
+  // Left on the ledger afterwards: owed when positive, refunded when negative
+  balance: number
+  calculatedAt: string
+}
+
+// Availability types
+export type UnavailableReason = 'BOOKED' | 'UNAVAILABLE' | 'HELD' | 'MAINTENANCE'
+
+export interface UnavailableRange {
+  startDate: string
+  endDate: string
+  reason: UnavailableReason
+}
+
+export interface AvailabilityCalendar {
+  itemId: string
+  available: boolean
+  from: string
+  to: string
+  booked: UnavailableRange[]
+  blocked: UnavailableRange[]
+}
+
+// Revenue from confirmed and completed bookings. Gross is what customers
+// are charged; net leaves out the taxes and fees within it.
+export interface RevenueReport {
+  from?: string
+  to?: string
+  bookings: number
+  gross: number
+  taxes: number
+  fees: number
+  net: number
+}
+
+export interface AdminStats {
+  totalUsers: number
+  totalEquipment: number
+  totalBrokerage: number
+  totalBookings: number
+  pendingBookings: number
+  revenue: RevenueReport
+}
+
 // Dashboard stats types
 export interface DashboardStats {
   overview: {
@@ -212,6 +685,7 @@ export interface EquipmentFormData {
   description: string
   price: number
   priceType: keyof typeof PRICE_TYPE
+  currency?: keyof typeof CURRENCY
   images: string[]
   features: string[]
   available: boolean
@@ -223,6 +697,7 @@ export interface BrokerageFormData {
   description: string
   price: number
   priceType: keyof typeof PRICE_TYPE
+  currency?: keyof typeof CURRENCY
   location?: string
   images: string[]
   features: string[]
@@ -298,6 +773,103 @@ export interface FileUploadError {
   error: string
 }
 
+// Invoice and quote documents
+export interface Invoice {
+  id: string
+  number: string
+  bookingId: string
+  issuedAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Calendar subscription feeds; the token in the feed URL is the credential
+export interface CalendarFeed {
+  id: string
+  userId: string
+  token: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type BookingDocumentKind = 'INVOICE' | 'QUOTE'
+
+export interface BookingDocument {
+  kind: BookingDocumentKind
+  number: string
+  issuedAt: string
+  validUntil?: string // quotes only
+  bookingId?: string // absent for quotes made before booking
+  status?: keyof typeof BOOKING_STATUS
+  customer: {
+    name: string
+    email: string
+    phoneNumber?: string
+  }
+  item: {
+    title: string
+    type: keyof typeof BOOKING_TYPE
+    category?: string
+  }
+  startDate: string
+  endDate: string
+  priceBreakdown: PriceBreakdown
+  total: number
+  // Amounts are in US dollars and shown in this currency at this rate
+  currency: keyof typeof CURRENCY
+  exchangeRate: number
+  // Listed separately: the deposit is refundable and not part of the total
+  deposit?: BookingDeposit & { claims: { description: string; amount: number }[] }
+}
+
+// Short-lived reservation of dates while a customer checks out
+export interface BookingHold {
+  id: string
+  userId: string
+  equipmentId?: string
+  brokerageId?: string
+  startDate: string
+  endDate: string
+  expiresAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Waitlist types
+export interface WaitlistEntry {
+  id: string
+  userId: string
+  equipmentId?: string
+  brokerageId?: string
+  startDate: string
+  endDate: string
+  status: keyof typeof WAITLIST_STATUS
+  notes?: string
+  offeredAt?: string
+  holdExpiresAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WaitlistEntryWithItem extends WaitlistEntry {
+  item?: { id: string; title: string; type: keyof typeof BOOKING_TYPE }
+}
+
+// Background job types
+export interface Job {
+  id: string
+  type: keyof typeof JOB_TYPE
+  status: keyof typeof JOB_STATUS
+  runAt: string
+  payload: Record<string, any>
+  attempts: number
+  lastError?: string
+  completedAt?: string
+  bookingId?: string
+  createdAt: string
+  updatedAt: string
+}
+
 // Audit log types
 export interface AuditLog {
   id: string
@@ -1,15 +1,26 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { CURRENCIES, Currency } from './constants'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatPrice(price: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(price)
+export interface PriceFormatOptions {
+  currency?: Currency
+  // Appended as the billing period, e.g. "$120/daily"
+  priceType?: string
+}
+
+// Every price shown to a person goes through here. Whole amounts drop the
+// cents; the amount must already be in the given currency.
+export function formatPrice(amount: number, options: PriceFormatOptions = {}): string {
+  const rounded = Math.round(Math.abs(amount) * 100) / 100
+  const digits = Number.isInteger(rounded) ? 0 : 2
+  const text = `${amount < 0 && rounded > 0 ? '-' : ''}${CURRENCIES.SYMBOLS[options.currency || CURRENCIES.BASE]}${
+    rounded.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })
+  }`
+  return options.priceType ? `${text}/${options.priceType.toLowerCase()}` : text
 }
 
 export function formatDate(date: Date): string {
@@ -20,6 +31,71 @@ export function formatDate(date: Date): string {
   }).format(date)
 }
 
+export interface DateRange {
+  startDate: string | Date
+  endDate: string | Date
+}
+
+// Ranges are half-open: one ending exactly when another starts does not overlap
+export function rangesOverlap(a: DateRange, b: DateRange): boolean {
+  return new Date(a.startDate) < new Date(b.endDate) && new Date(a.endDate) > new Date(b.startDate)
+}
+
+const EARTH_RADIUS_KM = 6371
+
+// Straight-line (great-circle) distance between two points
+export function getDistanceKm(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+interface TitledBooking {
+  type: string
+  equipment?: { title: string }
+  brokerage?: { title: string }
+  items?: { equipment?: { title: string } }[]
+}
+
+// Bundles are named after all of their items, other bookings after their one item
+export function getBookingTitle(booking: TitledBooking): string {
+  if (booking.items && booking.items.length > 0) {
+    return booking.items.map(item => item.equipment?.title || 'Equipment').join(' + ')
+  }
+  return booking.equipment?.title || booking.brokerage?.title ||
+    (booking.type === 'EQUIPMENT' ? 'Equipment booking' : 'Brokerage booking')
+}
+
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH || ''
+
+// Browser URLs carry the basePath, but the router adds it again on navigation
+function stripBasePath(path: string): string {
+  if (!BASE_PATH || !path.startsWith(BASE_PATH)) return path
+  const rest = path.slice(BASE_PATH.length)
+  if (rest === '') return '/'
+  if (rest.startsWith('?') || rest.startsWith('#')) return `/${rest}`
+  return rest.startsWith('/') ? rest : path
+}
+
+// Where to go after signing in. Only paths on this site are followed, so a
+// crafted link cannot send the user elsewhere.
+export function getSafeReturnTo(returnTo: string | null | undefined, fallback = '/'): string {
+  const path = returnTo ? stripBasePath(returnTo) : returnTo
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+    return fallback
+  }
+  return path
+}
+
+// Sign-in page that brings the user back to `returnTo`, by default the page they are on
+export function getLoginPath(returnTo?: string): string {
+  const path = returnTo ?? (typeof window === 'undefined' ? '/' : stripBasePath(window.location.pathname + window.location.search))
+  return `/auth/login?returnTo=${encodeURIComponent(path)}`
+}
+
 export function generateOTP(): string {
   return Math.floor(100000 + Math.random() * 900000).toString()
 }
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { BOOKING_STATUS, BOOKING_TYPE, USER_ROLE, EQUIPMENT_CATEGORY, BROKERAGE_CATEGORY } from './constants'
+import { AUTH, BILLING_CYCLE, BOOKING_STATUS, BOOKING_TYPE, BUNDLE, CATEGORY_TYPE, CONTRACTS, CONTRACT_STATUS, CURRENCIES, CURRENCY, DELIVERY, DELIVERY_STATUS, DEPOSIT, FEE_CALCULATION, FEE_RULES, FEE_RULE_KIND, FILE_UPLOAD, INSPECTION, LEDGER_ENTRY_KIND, MAINTENANCE, MAINTENANCE_TYPE, OTP_PURPOSE, PAYMENT_PROVIDER, PRICE_TYPE, PRICING_RULES, PRICING_RULE_KIND, USER_ROLE, EQUIPMENT_CATEGORY, BROKERAGE_CATEGORY } from './constants'
 
 // Common validation schemas
 export const emailSchema = z
@@ -29,6 +29,10 @@ export const priceSchema = z
   .positive('Price must be positive')
   .max(1000000, 'Price cannot exceed 1,000,000')
 
+export const currencySchema = z.enum([CURRENCY.USD, CURRENCY.LRD])
+
+export const priceTypeSchema = z.enum([PRICE_TYPE.HOURLY, PRICE_TYPE.DAILY, PRICE_TYPE.WEEKLY, PRICE_TYPE.MONTHLY, PRICE_TYPE.FIXED])
+
 // MongoDB ObjectId validation
 export const objectIdSchema = z
   .string()
@@ -63,7 +67,6 @@ export const userRegistrationSchema = z.object({
   email: emailSchema,
   password: passwordSchema,
   phone: phoneSchema,
-  role: z.enum([USER_ROLE.USER, USER_ROLE.ADMIN]).default(USER_ROLE.USER),
 })
 
 export const userLoginSchema = z.object({
@@ -93,36 +96,78 @@ export const passwordResetRequestSchema = z.object({
   email: emailSchema,
 })
 
+export const otpSchema = z.string().length(AUTH.OTP_LENGTH, 'OTP must be 6 digits').regex(/^\d{6}$/, 'OTP must contain only numbers')
+
+// Reset codes are emailed, so the code stands in for a reset token
 export const passwordResetSchema = z.object({
-  token: z.string().min(1, 'Reset token is required'),
+  email: emailSchema,
+  otp: otpSchema,
   password: passwordSchema,
 })
 
+// Registration and sign-in codes; reset codes are spent by passwordResetSchema
+const otpStepSchema = z.enum([OTP_PURPOSE.REGISTRATION, OTP_PURPOSE.LOGIN]).default(OTP_PURPOSE.REGISTRATION)
+
 export const otpVerificationSchema = z.object({
   email: emailSchema,
-  otp: z.string().length(6, 'OTP must be 6 digits').regex(/^\d{6}$/, 'OTP must contain only numbers'),
+  otp: otpSchema,
+  purpose: otpStepSchema,
+})
+
+export const otpResendSchema = z.object({
+  email: emailSchema,
+  purpose: otpStepSchema,
 })
 
 // Category schemas
+export const cancellationPolicySchema = z.object({
+  freeCancellationHours: z.number().min(0, 'Free cancellation window cannot be negative'),
+  feePercentage: z.number().min(0, 'Fee cannot be negative').max(100, 'Fee cannot exceed 100%'),
+  noRefundHours: z.number().min(0, 'No-refund window cannot be negative'),
+}).refine(policy => policy.noRefundHours <= policy.freeCancellationHours, {
+  message: 'No-refund window must not be longer than the free cancellation window',
+  path: ['noRefundHours'],
+})
+
+export const bundleDiscountsSchema = z.array(z.object({
+  minItems: z.number().int().min(BUNDLE.MIN_ITEMS, `A bundle needs at least ${BUNDLE.MIN_ITEMS} items`).max(BUNDLE.MAX_ITEMS, `A bundle cannot have more than ${BUNDLE.MAX_ITEMS} items`),
+  percentage: z.number().gt(0, 'Discount must be positive').max(BUNDLE.MAX_DISCOUNT_PERCENTAGE, `Discount cannot exceed ${BUNDLE.MAX_DISCOUNT_PERCENTAGE}%`),
+})).refine(tiers => new Set(tiers.map(tier => tier.minItems)).size === tiers.length, {
+  message: 'Each bundle size can only have one discount',
+})
+
 export const categoryCreateSchema = z.object({
   name: z.string().min(1, 'Category name is required').max(50, 'Category name must be less than 50 characters'),
   description: z.string().max(500, 'Description must be less than 500 characters').optional(),
   type: z.enum([EQUIPMENT_CATEGORY.CONSTRUCTION, EQUIPMENT_CATEGORY.AGRICULTURAL, EQUIPMENT_CATEGORY.INDUSTRIAL, EQUIPMENT_CATEGORY.TRANSPORTATION, BROKERAGE_CATEGORY.REAL_ESTATE, BROKERAGE_CATEGORY.BUSINESS, BROKERAGE_CATEGORY.INVESTMENT, BROKERAGE_CATEGORY.INSURANCE]),
+  cancellationPolicy: cancellationPolicySchema.optional(),
+  bundleDiscounts: bundleDiscountsSchema.optional(),
 })
 
 export const categoryUpdateSchema = categoryCreateSchema.partial()
 
 // Equipment schemas
+export const depositAmountSchema = z
+  .number()
+  .min(0, 'Deposit cannot be negative')
+  .max(DEPOSIT.MAX_AMOUNT, `Deposit cannot exceed ${DEPOSIT.MAX_AMOUNT.toLocaleString()}`)
+
+export const equipmentDepositUpdateSchema = z.object({
+  depositAmount: depositAmountSchema,
+})
+
 const equipmentBaseSchema = z.object({
   name: z.string().min(1, 'Equipment name is required').max(100, 'Equipment name must be less than 100 characters'),
   description: z.string().min(1, 'Description is required').max(2000, 'Description must be less than 2000 characters'),
   category: z.string().min(1, 'Category is required'),
   price: priceSchema,
+  currency: currencySchema.optional(),
   location: z.string().min(1, 'Location is required').max(200, 'Location must be less than 200 characters'),
   coordinates: coordinatesSchema.optional(),
   images: z.array(z.string().url()).min(1, 'At least one image is required').max(10, 'Maximum 10 images allowed'),
   specifications: z.record(z.string()).optional(),
   available: z.boolean().default(true),
+  depositAmount: depositAmountSchema.optional(),
   minRentalPeriod: z.number().int().min(1, 'Minimum rental period must be at least 1 day').default(1),
   maxRentalPeriod: z.number().int().min(1, 'Maximum rental period must be at least 1 day').default(365),
 })
@@ -149,7 +194,10 @@ export const equipmentUpdateSchema = equipmentBaseSchema.partial().refine(
 )
 
 export const equipmentFilterSchema = z.object({
+  search: z.coerce.string().max(100).optional(),
+  categoryId: z.string().optional(),
   category: z.string().optional(),
+  priceType: priceTypeSchema.optional(),
   location: z.string().optional(),
   minPrice: z.coerce.number().positive().optional(),
   maxPrice: z.coerce.number().positive().optional(),
@@ -164,6 +212,7 @@ export const brokerageCreateSchema = z.object({
   description: z.string().min(1, 'Description is required').max(2000, 'Description must be less than 2000 characters'),
   categoryId: z.string().min(1, 'Category is required'),
   price: priceSchema,
+  currency: currencySchema.optional(),
   location: z.string().min(1, 'Location is required').max(200, 'Location must be less than 200 characters'),
   coordinates: coordinatesSchema.optional(),
   images: z.array(z.string().url()).min(1, 'At least one image is required').max(10, 'Maximum 10 images allowed'),
@@ -179,27 +228,99 @@ export const brokerageCreateSchema = z.object({
 export const brokerageUpdateSchema = brokerageCreateSchema.partial()
 
 export const brokerageFilterSchema = z.object({
+  search: z.coerce.string().max(100).optional(),
   categoryId: z.string().optional(),
+  priceType: priceTypeSchema.optional(),
   location: z.string().optional(),
   minPrice: z.coerce.number().positive().optional(),
   maxPrice: z.coerce.number().positive().optional(),
   available: z.coerce.boolean().optional(),
 })
 
+// Delivery schemas
+export const timeWindowSchema = z.object({
+  start: z.string().datetime('Invalid window start format'),
+  end: z.string().datetime('Invalid window end format'),
+}).refine(
+  (data) => new Date(data.end) > new Date(data.start),
+  {
+    message: 'Window end must be after window start',
+    path: ['end'],
+  }
+)
+
+export const deliveryRequestSchema = z.object({
+  address: z.string().min(5, 'Please enter the delivery address').max(300, 'Address must be less than 300 characters'),
+  coordinates: coordinatesSchema,
+  deliveryWindow: timeWindowSchema,
+  // Only when we should also collect the items at the end of the booking
+  pickupWindow: timeWindowSchema.optional(),
+  instructions: z.string().max(500, 'Instructions must be less than 500 characters').optional(),
+}).refine(
+  (data) => !data.pickupWindow || new Date(data.pickupWindow.start) >= new Date(data.deliveryWindow.end),
+  {
+    message: 'Pickup must be after delivery',
+    path: ['pickupWindow'],
+  }
+)
+
+export const deliveryStatusUpdateSchema = z.object({
+  status: z.enum([
+    DELIVERY_STATUS.SCHEDULED,
+    DELIVERY_STATUS.OUT_FOR_DELIVERY,
+    DELIVERY_STATUS.DELIVERED,
+    DELIVERY_STATUS.PICKED_UP,
+    DELIVERY_STATUS.CANCELLED,
+  ]),
+})
+
+export const dispatchQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format').optional(),
+}).refine(
+  (data) => !data.from || !data.to || data.to >= data.from,
+  {
+    message: 'End of range must not be before start of range',
+    path: ['to'],
+  }
+).refine(
+  (data) => !data.from || !data.to ||
+    new Date(data.to).getTime() - new Date(data.from).getTime() < DELIVERY.DISPATCH_MAX_DAYS * 24 * 60 * 60 * 1000,
+  {
+    message: `Range cannot exceed ${DELIVERY.DISPATCH_MAX_DAYS} days`,
+    path: ['to'],
+  }
+)
+
 // Booking schemas
+export const promoCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(PRICING_RULES.PROMO_CODE_PATTERN, 'Promo codes are 3-20 letters, digits or dashes')
+
 export const bookingCreateSchema = z.object({
   equipmentId: objectIdSchema.optional(),
   brokerageId: objectIdSchema.optional(),
+  // Several pieces of equipment booked together as one bundle
+  equipmentIds: z.array(objectIdSchema)
+    .min(BUNDLE.MIN_ITEMS, `A bundle needs at least ${BUNDLE.MIN_ITEMS} items`)
+    .max(BUNDLE.MAX_ITEMS, `A bundle cannot have more than ${BUNDLE.MAX_ITEMS} items`)
+    .optional(),
   startDate: z.string().datetime('Invalid start date format'),
   endDate: z.string().datetime('Invalid end date format'),
   totalPrice: priceSchema,
   notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
   type: z.enum(['EQUIPMENT', 'BROKERAGE', 'SERVICE']).optional(),
   phoneNumber: phoneSchema,
+  delivery: deliveryRequestSchema.optional(),
+  promoCode: promoCodeSchema.optional(),
+  // The currency the customer sees; totalPrice is always in the base currency
+  currency: currencySchema.optional(),
 }).refine(
-  (data) => !!(data.equipmentId || data.brokerageId),
+  (data) => !!(data.equipmentId || data.brokerageId || data.equipmentIds),
   {
-    message: 'Either equipmentId or brokerageId is required',
+    message: 'Either equipmentId, equipmentIds or brokerageId is required',
     path: ['equipmentId'],
   }
 ).refine(
@@ -208,6 +329,18 @@ export const bookingCreateSchema = z.object({
     message: 'Cannot book both equipment and brokerage in the same booking',
     path: ['brokerageId'],
   }
+).refine(
+  (data) => !(data.equipmentIds && (data.equipmentId || data.brokerageId)),
+  {
+    message: 'A bundle booking lists all of its items in equipmentIds',
+    path: ['equipmentIds'],
+  }
+).refine(
+  (data) => !data.equipmentIds || new Set(data.equipmentIds).size === data.equipmentIds.length,
+  {
+    message: 'Each item can only appear once in a bundle',
+    path: ['equipmentIds'],
+  }
 ).refine(
   (data) => new Date(data.endDate) > new Date(data.startDate),
   {
@@ -228,10 +361,10 @@ export const bookingCreateSchema = z.object({
   }
 )
 
+// Status changes go through bookingStatusUpdateSchema and the transition table
 export const bookingUpdateSchema = z.object({
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
-  status: z.enum([BOOKING_STATUS.PENDING, BOOKING_STATUS.CONFIRMED, BOOKING_STATUS.CANCELLED, BOOKING_STATUS.COMPLETED]).optional(),
   notes: z.string().max(1000).optional(),
 }).refine(
   (data) => {
@@ -246,6 +379,18 @@ export const bookingUpdateSchema = z.object({
   }
 )
 
+export const bookingStatusUpdateSchema = z.object({
+  bookingId: objectIdSchema,
+  status: z.enum([BOOKING_STATUS.PENDING, BOOKING_STATUS.CONFIRMED, BOOKING_STATUS.CANCELLED, BOOKING_STATUS.COMPLETED]),
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional(),
+  // Only used when cancelling: refund in full instead of charging the policy fee
+  waiveFee: z.boolean().optional(),
+})
+
+export const bookingCancelSchema = z.object({
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional(),
+})
+
 export const bookingFilterSchema = z.object({
   status: z.enum([BOOKING_STATUS.PENDING, BOOKING_STATUS.CONFIRMED, BOOKING_STATUS.CANCELLED, BOOKING_STATUS.COMPLETED]).optional(),
   type: z.enum([BOOKING_TYPE.SERVICE, BOOKING_TYPE.EQUIPMENT, BOOKING_TYPE.BROKERAGE]).optional(),
@@ -254,6 +399,318 @@ export const bookingFilterSchema = z.object({
   userId: objectIdSchema.optional(),
 })
 
+export const availabilityQuerySchema = z.object({
+  from: z.string().datetime('Invalid from date format').optional(),
+  to: z.string().datetime('Invalid to date format').optional(),
+}).refine(
+  (data) => {
+    if (data.from && data.to) {
+      return new Date(data.to) > new Date(data.from)
+    }
+    return true
+  },
+  {
+    message: 'End of range must be after start of range',
+    path: ['to'],
+  }
+)
+
+export const itemAvailabilityUpdateSchema = z.object({
+  available: z.boolean(),
+})
+
+// Return inspection schemas
+// Photos are sent inline as data URLs, like item images in the admin forms
+const inspectionPhotoSchema = z
+  .string()
+  .regex(/^data:image\/(jpeg|png|webp);base64,/, 'Photos must be JPEG, PNG or WebP images')
+  .refine(
+    (photo) => photo.length * 0.75 <= FILE_UPLOAD.MAX_SIZE,
+    `Each photo must be smaller than ${FILE_UPLOAD.MAX_SIZE / (1024 * 1024)}MB`
+  )
+
+export const returnInspectionSchema = z.object({
+  checklist: z.array(z.object({
+    label: z.string().min(1).max(100),
+    passed: z.boolean(),
+    notes: z.string().max(500).optional(),
+  })).min(1, 'The checklist needs at least one item').max(INSPECTION.MAX_CHECKLIST_ITEMS),
+  photos: z.array(inspectionPhotoSchema).max(INSPECTION.MAX_PHOTOS, `Maximum ${INSPECTION.MAX_PHOTOS} photos allowed`).default([]),
+  notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
+})
+
+export const damageClaimSchema = z.object({
+  description: z.string().min(3, 'Describe the damage').max(500, 'Description must be less than 500 characters'),
+  amount: priceSchema,
+})
+
+// Payment schemas
+export const paymentCreateSchema = z.object({
+  provider: z.enum([PAYMENT_PROVIDER.FAKE, PAYMENT_PROVIDER.ORANGE_MONEY, PAYMENT_PROVIDER.MTN_MOMO]),
+  phoneNumber: z.string().regex(/^\+?\d{7,15}$/, 'Please enter the mobile money number'),
+  // Defaults to the whole balance due
+  amount: priceSchema.optional(),
+})
+
+export const paymentRefundSchema = z.object({
+  // Defaults to everything not yet refunded
+  amount: priceSchema.optional(),
+})
+
+// Manual ledger entries: cash or bank payments and refunds, extra charges
+// and signed adjustments
+export const ledgerEntryCreateSchema = z.object({
+  kind: z.enum([LEDGER_ENTRY_KIND.CHARGE, LEDGER_ENTRY_KIND.PAYMENT, LEDGER_ENTRY_KIND.REFUND, LEDGER_ENTRY_KIND.ADJUSTMENT]),
+  amount: z.number().min(-1000000).max(1000000),
+  description: z.string().min(3, 'Describe the entry').max(200, 'Description must be less than 200 characters'),
+}).refine(
+  (data) => data.kind === LEDGER_ENTRY_KIND.ADJUSTMENT ? data.amount !== 0 : data.amount > 0,
+  { message: 'Amount must be positive; only adjustments may be negative', path: ['amount'] }
+)
+
+// Pricing rule schemas
+export const pricingRuleSchema = z.object({
+  name: z.string().trim().min(3, 'Name is required').max(80, 'Name must be less than 80 characters'),
+  kind: z.enum([PRICING_RULE_KIND.SEASONAL, PRICING_RULE_KIND.WEEKEND, PRICING_RULE_KIND.LONG_DURATION, PRICING_RULE_KIND.PROMO_CODE]),
+  percentage: z.number()
+    .min(-PRICING_RULES.MAX_DISCOUNT_PERCENTAGE, `Discount cannot exceed ${PRICING_RULES.MAX_DISCOUNT_PERCENTAGE}%`)
+    .max(PRICING_RULES.MAX_SURCHARGE_PERCENTAGE, `Surcharge cannot exceed ${PRICING_RULES.MAX_SURCHARGE_PERCENTAGE}%`)
+    .refine(percentage => percentage !== 0, 'Percentage cannot be zero'),
+  categoryId: objectIdSchema.optional(),
+  equipmentId: objectIdSchema.optional(),
+  brokerageId: objectIdSchema.optional(),
+  startDate: z.string().datetime('Invalid start date format').optional(),
+  endDate: z.string().datetime('Invalid end date format').optional(),
+  minDays: z.number().int().min(1, 'Minimum rental must be at least one day').max(3650).optional(),
+  code: promoCodeSchema.optional(),
+  active: z.boolean().default(true),
+}).refine(
+  (data) => [data.categoryId, data.equipmentId, data.brokerageId].filter(Boolean).length <= 1,
+  {
+    message: 'A rule applies to one category or one item, or to everything',
+    path: ['categoryId'],
+  }
+).refine(
+  (data) => data.kind !== PRICING_RULE_KIND.SEASONAL || !!(data.startDate && data.endDate),
+  {
+    message: 'A season needs a start and end date',
+    path: ['startDate'],
+  }
+).refine(
+  (data) => !data.startDate || !data.endDate || new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+).refine(
+  (data) => data.kind !== PRICING_RULE_KIND.LONG_DURATION || data.minDays !== undefined,
+  {
+    message: 'Set the minimum rental length in days',
+    path: ['minDays'],
+  }
+).refine(
+  (data) => data.kind !== PRICING_RULE_KIND.PROMO_CODE || data.code !== undefined,
+  {
+    message: 'A promo code is required',
+    path: ['code'],
+  }
+).refine(
+  (data) => (data.kind !== PRICING_RULE_KIND.LONG_DURATION && data.kind !== PRICING_RULE_KIND.PROMO_CODE) || data.percentage < 0,
+  {
+    message: 'Long-rental and promo code rules are discounts',
+    path: ['percentage'],
+  }
+)
+
+// Maintenance schemas
+export const maintenanceCreateSchema = z.object({
+  serviceType: z.enum([MAINTENANCE_TYPE.ROUTINE_SERVICE, MAINTENANCE_TYPE.REPAIR, MAINTENANCE_TYPE.INSPECTION]),
+  startDate: z.string().datetime('Invalid start date format'),
+  endDate: z.string().datetime('Invalid end date format'),
+  cost: z.number().min(0, 'Cost cannot be negative').max(MAINTENANCE.MAX_COST),
+  notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
+  nextDueDays: z.number().int().min(1).max(MAINTENANCE.MAX_INTERVAL_DAYS).optional(),
+  nextDueHours: z.number().int().min(1).max(MAINTENANCE.MAX_INTERVAL_HOURS).optional(),
+}).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+)
+
+export const maintenanceStatusFilterSchema = z.object({
+  overdue: z.boolean().optional(),
+})
+
+// Rental contract schemas
+export const contractRecurrenceSchema = z.object({
+  daysOfWeek: z.array(z.number().int().min(0).max(6))
+    .min(1, 'Choose at least one day of the week')
+    .refine(days => new Set(days).size === days.length, 'Each day can only be chosen once'),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Start time must be in HH:mm format'),
+  durationHours: z.number().gt(0, 'Duration must be positive').max(24, 'Duration cannot exceed 24 hours'),
+})
+
+export const contractCreateSchema = z.object({
+  equipmentId: objectIdSchema.optional(),
+  brokerageId: objectIdSchema.optional(),
+  startDate: z.string().datetime('Invalid start date format'),
+  endDate: z.string().datetime('Invalid end date format'),
+  billingCycle: z.enum([BILLING_CYCLE.WEEKLY, BILLING_CYCLE.MONTHLY]),
+  recurrence: contractRecurrenceSchema.optional(),
+  notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
+  phoneNumber: phoneSchema,
+}).refine(
+  (data) => !!data.equipmentId !== !!data.brokerageId,
+  {
+    message: 'Exactly one of equipmentId or brokerageId is required',
+    path: ['equipmentId'],
+  }
+).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+).refine(
+  (data) => new Date(data.endDate).getTime() - new Date(data.startDate).getTime() <= CONTRACTS.MAX_TERM_DAYS * 24 * 60 * 60 * 1000,
+  {
+    message: `A contract cannot run for more than ${CONTRACTS.MAX_TERM_DAYS} days`,
+    path: ['endDate'],
+  }
+).refine(
+  (data) => new Date(data.startDate) >= new Date(new Date().setHours(0, 0, 0, 0)),
+  {
+    message: 'Start date cannot be in the past',
+    path: ['startDate'],
+  }
+)
+
+export const contractTerminateSchema = z.object({
+  terminationDate: z.string().datetime('Invalid termination date format'),
+  reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+})
+
+export const contractFilterSchema = z.object({
+  status: z.enum([CONTRACT_STATUS.PENDING, CONTRACT_STATUS.ACTIVE, CONTRACT_STATUS.TERMINATED]).optional(),
+  userId: objectIdSchema.optional(),
+})
+
+// Checkout hold schemas
+export const bookingHoldSchema = z.object({
+  equipmentId: objectIdSchema.optional(),
+  brokerageId: objectIdSchema.optional(),
+  startDate: z.string().datetime('Invalid start date format'),
+  endDate: z.string().datetime('Invalid end date format'),
+}).refine(
+  (data) => !!data.equipmentId !== !!data.brokerageId,
+  {
+    message: 'Exactly one of equipmentId or brokerageId is required',
+    path: ['equipmentId'],
+  }
+).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+)
+
+// Waitlist schemas
+export const waitlistJoinSchema = z.object({
+  equipmentId: objectIdSchema.optional(),
+  brokerageId: objectIdSchema.optional(),
+  startDate: z.string().datetime('Invalid start date format'),
+  endDate: z.string().datetime('Invalid end date format'),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+}).refine(
+  (data) => !!data.equipmentId !== !!data.brokerageId,
+  {
+    message: 'Exactly one of equipmentId or brokerageId is required',
+    path: ['equipmentId'],
+  }
+).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+)
+
+// Tax and fee schemas
+export const categoryTypeSchema = z.enum([CATEGORY_TYPE.EQUIPMENT, CATEGORY_TYPE.BROKERAGE])
+
+export const feeRuleSchema = z.object({
+  name: z.string().trim().min(2, 'Name is required').max(80, 'Name must be less than 80 characters'),
+  kind: z.enum([FEE_RULE_KIND.TAX, FEE_RULE_KIND.FEE]),
+  categoryType: categoryTypeSchema,
+  calculation: z.enum([FEE_CALCULATION.PERCENTAGE, FEE_CALCULATION.FIXED]),
+  amount: z.number().positive('Amount must be positive'),
+  inclusive: z.boolean().default(false),
+  active: z.boolean().default(true),
+}).refine(
+  (data) => data.calculation !== FEE_CALCULATION.PERCENTAGE || data.amount <= FEE_RULES.MAX_PERCENTAGE,
+  {
+    message: `Percentage cannot exceed ${FEE_RULES.MAX_PERCENTAGE}%`,
+    path: ['amount'],
+  }
+).refine(
+  (data) => data.calculation !== FEE_CALCULATION.FIXED || data.amount <= FEE_RULES.MAX_FIXED_AMOUNT,
+  {
+    message: `Fixed amount cannot exceed ${FEE_RULES.MAX_FIXED_AMOUNT.toLocaleString()}`,
+    path: ['amount'],
+  }
+)
+
+// Stats schemas
+// Revenue is reported for bookings starting inside the range
+export const statsQuerySchema = z.object({
+  from: z.string().datetime('Invalid from date format').optional(),
+  to: z.string().datetime('Invalid to date format').optional(),
+}).refine(
+  (data) => !data.from || !data.to || new Date(data.to) > new Date(data.from),
+  {
+    message: 'End date must be after start date',
+    path: ['to'],
+  }
+)
+
+// Exchange rate schemas
+export const exchangeRateSchema = z.object({
+  currency: currencySchema,
+  rate: z.number()
+    .positive('Rate must be positive')
+    .max(CURRENCIES.MAX_RATE, `Rate cannot exceed ${CURRENCIES.MAX_RATE.toLocaleString()}`),
+})
+
+// Document schemas
+export const documentFormatSchema = z.object({
+  format: z.enum(['html', 'pdf']).default('pdf'),
+})
+
+export const quoteQuerySchema = z.object({
+  equipmentId: objectIdSchema.optional(),
+  brokerageId: objectIdSchema.optional(),
+  startDate: z.string().datetime('Invalid start date format'),
+  endDate: z.string().datetime('Invalid end date format'),
+  format: z.enum(['html', 'pdf']).default('pdf'),
+  promoCode: promoCodeSchema.optional(),
+  currency: currencySchema.optional(),
+}).refine(
+  (data) => !!data.equipmentId !== !!data.brokerageId,
+  {
+    message: 'Exactly one of equipmentId or brokerageId is required',
+    path: ['equipmentId'],
+  }
+).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+)
+
 // File upload schemas
 export const fileUploadSchema = z.object({
   file: z.instanceof(File),
@@ -344,7 +801,6 @@ export const webhookSchema = z.object({
   event: z.string(),
   data: z.record(z.any()),
   timestamp: z.string().datetime(),
-  signature: z.string().optional(),
 })
 
 // Export all schemas for easy access
@@ -355,6 +811,7 @@ export const schemas = {
   phone: phoneSchema,
   url: urlSchema,
   price: priceSchema,
+  priceType: priceTypeSchema,
   coordinates: coordinatesSchema,
   pagination: paginationSchema,
   search: searchSchema,
@@ -368,6 +825,8 @@ export const schemas = {
   otpVerification: otpVerificationSchema,
   
   // Category
+  cancellationPolicy: cancellationPolicySchema,
+  bundleDiscounts: bundleDiscountsSchema,
   categoryCreate: categoryCreateSchema,
   categoryUpdate: categoryUpdateSchema,
   
@@ -384,7 +843,38 @@ export const schemas = {
   // Booking
   bookingCreate: bookingCreateSchema,
   bookingUpdate: bookingUpdateSchema,
+  bookingStatusUpdate: bookingStatusUpdateSchema,
+  bookingCancel: bookingCancelSchema,
   bookingFilter: bookingFilterSchema,
+  availabilityQuery: availabilityQuerySchema,
+  itemAvailabilityUpdate: itemAvailabilityUpdateSchema,
+  contractRecurrence: contractRecurrenceSchema,
+  equipmentDepositUpdate: equipmentDepositUpdateSchema,
+  returnInspection: returnInspectionSchema,
+  damageClaim: damageClaimSchema,
+  paymentCreate: paymentCreateSchema,
+  paymentRefund: paymentRefundSchema,
+  ledgerEntryCreate: ledgerEntryCreateSchema,
+  promoCode: promoCodeSchema,
+  pricingRule: pricingRuleSchema,
+  currency: currencySchema,
+  exchangeRate: exchangeRateSchema,
+  categoryType: categoryTypeSchema,
+  feeRule: feeRuleSchema,
+  statsQuery: statsQuerySchema,
+  maintenanceCreate: maintenanceCreateSchema,
+  maintenanceStatusFilter: maintenanceStatusFilterSchema,
+  contractCreate: contractCreateSchema,
+  contractTerminate: contractTerminateSchema,
+  contractFilter: contractFilterSchema,
+  bookingHold: bookingHoldSchema,
+  timeWindow: timeWindowSchema,
+  deliveryRequest: deliveryRequestSchema,
+  deliveryStatusUpdate: deliveryStatusUpdateSchema,
+  dispatchQuery: dispatchQuerySchema,
+  waitlistJoin: waitlistJoinSchema,
+  documentFormat: documentFormatSchema,
+  quoteQuery: quoteQuerySchema,
   
   // File Upload
   fileUpload: fileUploadSchema,
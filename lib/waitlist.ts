@@ -0,0 +1,177 @@
+import { AppError } from './api-utils'
+import { BookingTarget, findActiveHolds, findConflictingBookings, findMaintenanceWindows, targetWhere } from './availability'
+import { ERROR_MESSAGES, JOB_TYPE, WAITLIST, WAITLIST_STATUS } from './constants'
+import { Database, UserRecord, WaitlistEntryRecord } from './db'
+import { scheduleJob } from './jobs'
+import { DateRange, rangesOverlap } from './utils'
+import { WaitlistEntryWithItem } from './types'
+import { logger } from './logger'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface WaitlistJoinInput extends BookingTarget {
+  startDate: string
+  endDate: string
+  notes?: string
+}
+
+function entryTarget(entry: WaitlistEntryRecord): BookingTarget {
+  return { equipmentId: entry.equipmentId, brokerageId: entry.brokerageId }
+}
+
+async function findItem(db: Database, target: BookingTarget) {
+  return target.equipmentId
+    ? db.equipment.findById(target.equipmentId)
+    : db.brokerage.findById(target.brokerageId!)
+}
+
+// Whether the range could be booked by this user right now
+async function isFree(db: Database, target: BookingTarget, range: DateRange, userId: string, now: Date) {
+  const conflicts = await findConflictingBookings(db, target, range)
+  if (conflicts.length > 0) return false
+
+  const maintenance = await findMaintenanceWindows(db, target, range)
+  if (maintenance.length > 0) return false
+
+  const holds = await findActiveHolds(db, target, range, { userId }, now)
+  return holds.length === 0
+}
+
+// Joining is only allowed when the dates cannot be booked; an existing
+// active entry for the same dates is returned instead of a duplicate.
+export async function joinWaitlist(db: Database, user: UserRecord, input: WaitlistJoinInput): Promise<WaitlistEntryRecord> {
+  const target = { equipmentId: input.equipmentId, brokerageId: input.brokerageId }
+
+  return db.transaction(async (tx) => {
+    const item = await findItem(tx, target)
+    if (!item) {
+      throw new AppError(input.equipmentId ? ERROR_MESSAGES.EQUIPMENT_NOT_FOUND : ERROR_MESSAGES.BROKERAGE_NOT_FOUND, 404)
+    }
+
+    if (item.available && await isFree(tx, target, input, user.id, new Date())) {
+      throw new AppError(ERROR_MESSAGES.WAITLIST_ITEM_AVAILABLE, 400)
+    }
+
+    const existing = (await tx.waitlist.findMany({ where: { ...targetWhere(target), userId: user.id } }))
+      .find(entry =>
+        (entry.status === WAITLIST_STATUS.WAITING || entry.status === WAITLIST_STATUS.OFFERED) &&
+        rangesOverlap(entry, input)
+      )
+    if (existing) return existing
+
+    const entry = await tx.waitlist.create({
+      userId: user.id,
+      ...target,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      notes: input.notes,
+      status: WAITLIST_STATUS.WAITING,
+    })
+
+    logger.logBusinessEvent('Waitlist joined', { entryId: entry.id, ...target }, user.id)
+    return entry
+  })
+}
+
+export async function leaveWaitlist(db: Database, user: UserRecord, entryId: string): Promise<WaitlistEntryRecord> {
+  const entry = await db.waitlist.findById(entryId)
+  if (!entry || entry.userId !== user.id) {
+    throw new AppError(ERROR_MESSAGES.WAITLIST_ENTRY_NOT_FOUND, 404)
+  }
+
+  const updated = await db.waitlist.update(entryId, { status: WAITLIST_STATUS.CANCELLED })
+
+  // Giving up an offer frees the dates for the next customer in line
+  if (entry.status === WAITLIST_STATUS.OFFERED) {
+    await processWaitlist(db, entryTarget(entry))
+  }
+  return updated
+}
+
+export async function listWaitlistEntries(db: Database, userId: string): Promise<WaitlistEntryWithItem[]> {
+  const entries = await db.waitlist.findMany({ where: { userId }, orderBy: { field: 'createdAt', direction: 'desc' } })
+
+  return Promise.all(entries.map(async (entry) => {
+    const item = await findItem(db, entryTarget(entry))
+    return {
+      ...entry,
+      ...(item && {
+        item: { id: item.id, title: item.title, type: entry.equipmentId ? 'EQUIPMENT' as const : 'BROKERAGE' as const },
+      }),
+    }
+  }))
+}
+
+// Expire stale entries, then offer a hold to each waiting customer, earliest
+// first, whose dates have become free. Called whenever capacity is released.
+export async function processWaitlist(
+  db: Database,
+  target: BookingTarget,
+  now: Date = new Date()
+): Promise<WaitlistEntryRecord[]> {
+  return db.transaction(async (tx) => {
+    const entries = await tx.waitlist.findMany({
+      where: targetWhere(target),
+      orderBy: { field: 'createdAt', direction: 'asc' },
+    })
+
+    const waiting: WaitlistEntryRecord[] = []
+    for (const entry of entries) {
+      const holdExpired = entry.status === WAITLIST_STATUS.OFFERED && new Date(entry.holdExpiresAt!) <= now
+      const datesPassed = entry.status === WAITLIST_STATUS.WAITING && new Date(entry.startDate) <= now
+
+      if (holdExpired || datesPassed) {
+        await tx.waitlist.update(entry.id, { status: WAITLIST_STATUS.EXPIRED })
+      } else if (entry.status === WAITLIST_STATUS.WAITING) {
+        waiting.push(entry)
+      }
+    }
+
+    const item = await findItem(tx, target)
+    if (!item || !item.available) return []
+
+    const offered: WaitlistEntryRecord[] = []
+    for (const entry of waiting) {
+      if (!await isFree(tx, target, entry, entry.userId, now)) continue
+
+      const holdExpiresAt = new Date(now.getTime() + WAITLIST.HOLD_HOURS * HOUR_MS).toISOString()
+      const offer = await tx.waitlist.update(entry.id, {
+        status: WAITLIST_STATUS.OFFERED,
+        offeredAt: now.toISOString(),
+        holdExpiresAt,
+      })
+
+      await scheduleJob(tx, {
+        type: JOB_TYPE.WAITLIST_OFFER_NOTIFICATION,
+        runAt: now.toISOString(),
+        payload: { waitlistEntryId: entry.id },
+      })
+      await scheduleJob(tx, {
+        type: JOB_TYPE.WAITLIST_HOLD_EXPIRY,
+        runAt: holdExpiresAt,
+        payload: { waitlistEntryId: entry.id },
+      })
+
+      logger.logBusinessEvent('Waitlist hold offered', { entryId: entry.id, holdExpiresAt, ...target }, entry.userId)
+      offered.push(offer)
+    }
+
+    return offered
+  })
+}
+
+// Booking the held dates closes the customer's offer
+export async function fulfilWaitlistOffers(
+  db: Database,
+  userId: string,
+  target: BookingTarget,
+  range: DateRange
+): Promise<void> {
+  const offers = await db.waitlist.findMany({
+    where: { ...targetWhere(target), userId, status: WAITLIST_STATUS.OFFERED },
+  })
+
+  for (const offer of offers.filter(offer => rangesOverlap(offer, range))) {
+    await db.waitlist.update(offer.id, { status: WAITLIST_STATUS.FULFILLED })
+  }
+}
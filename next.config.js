@@ -1,14 +1,20 @@
+const basePath = "/zeconsultancy"
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
 
 
-  basePath: "/zeconsultancy",
+  basePath,
   output: "export",
   reactStrictMode: true,
 
   // Enable experimental features for better performance
   experimental: {
     optimizePackageImports: ['framer-motion', 'lucide-react', '@radix-ui/react-select'],
+    // sql.js loads its wasm binary from node_modules at runtime
+    serverComponentsExternalPackages: ['sql.js'],
+    // Starts the background job scheduler, see instrumentation.ts
+    instrumentationHook: true,
   },
   
   
@@ -64,6 +70,8 @@ const nextConfig = {
   env: {
     NEXTAUTH_URL: process.env.NEXTAUTH_URL,
     NEXTAUTH_SECRET: process.env.NEXTAUTH_SECRET,
+    // Lets client code turn browser URLs back into router paths
+    NEXT_PUBLIC_BASE_PATH: basePath,
   },
 }
 